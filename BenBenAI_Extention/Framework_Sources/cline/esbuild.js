@@ -80,13 +80,24 @@ const extensionConfig = {
 	external: ["vscode"],
 }
 
+// Headless runner (src/cli) that bundles a minimal stand-in for the vscode module instead of loading it from the editor
+const cliConfig = {
+	...extensionConfig,
+	plugins: [esbuildProblemMatcherPlugin],
+	entryPoints: ["src/cli/index.ts"],
+	outfile: "dist/cli.js",
+	external: [],
+	alias: { vscode: "./src/cli/vscode.ts" },
+	banner: { js: "#!/usr/bin/env node" },
+}
+
 async function main() {
-	const extensionCtx = await esbuild.context(extensionConfig)
+	const contexts = await Promise.all([esbuild.context(extensionConfig), esbuild.context(cliConfig)])
 	if (watch) {
-		await extensionCtx.watch()
+		await Promise.all(contexts.map((ctx) => ctx.watch()))
 	} else {
-		await extensionCtx.rebuild()
-		await extensionCtx.dispose()
+		await Promise.all(contexts.map((ctx) => ctx.rebuild()))
+		await Promise.all(contexts.map((ctx) => ctx.dispose()))
 	}
 }
 
@@ -21,7 +21,8 @@ import { AskSageHandler } from "./providers/asksage"
 import { XAIHandler } from "./providers/xai"
 
 export interface ApiHandler {
-	createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream
+	// tools are only honored by handlers that support native tool calls (see supportsNativeToolCalls), others ignore them
+	createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[], tools?: Anthropic.Messages.Tool[]): ApiStream
 	getModel(): { id: string; info: ModelInfo }
 }
 
@@ -72,3 +73,12 @@ export function buildApiHandler(configuration: ApiConfiguration): ApiHandler {
 			return new AnthropicHandler(options)
 	}
 }
+
+export function supportsNativeToolCalls(handler: ApiHandler): boolean {
+	return (
+		handler instanceof AnthropicHandler ||
+		handler instanceof AwsBedrockHandler ||
+		handler instanceof OpenAiHandler ||
+		handler instanceof GeminiHandler
+	)
+}
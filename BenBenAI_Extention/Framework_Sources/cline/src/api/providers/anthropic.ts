@@ -3,7 +3,7 @@ import { Stream as AnthropicStream } from "@anthropic-ai/sdk/streaming"
 import { withRetry } from "../retry"
 import { anthropicDefaultModelId, AnthropicModelId, anthropicModels, ApiHandlerOptions, ModelInfo } from "../../shared/api"
 import { ApiHandler } from "../index"
-import { ApiStream } from "../transform/stream"
+import { ApiStream, parseToolInput } from "../transform/stream"
 
 export class AnthropicHandler implements ApiHandler {
 	private options: ApiHandlerOptions
@@ -18,7 +18,11 @@ export class AnthropicHandler implements ApiHandler {
 	}
 
 	@withRetry()
-	async *createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+	async *createMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		tools?: Anthropic.Messages.Tool[],
+	): ApiStream {
 		const model = this.getModel()
 		let stream: AnthropicStream<Anthropic.RawMessageStreamEvent>
 		const modelId = model.id
@@ -86,9 +90,9 @@ export class AnthropicHandler implements ApiHandler {
 							}
 							return message
 						}),
-						// tools, // cache breakpoints go from tools > system > messages, and since tools dont change, we can just set the breakpoint at the end of system (this avoids having to set a breakpoint at the end of tools which by itself does not meet min requirements for haiku caching)
-						// tool_choice: { type: "auto" },
-						// tools: tools,
+						// cache breakpoints go from tools > system > messages, and since tools dont change, we can just set the breakpoint at the end of system (this avoids having to set a breakpoint at the end of tools which by itself does not meet min requirements for haiku caching)
+						tools: tools?.length ? tools : undefined,
+						tool_choice: tools?.length ? { type: "auto" } : undefined,
 						stream: true,
 					},
 					(() => {
@@ -120,14 +124,17 @@ export class AnthropicHandler implements ApiHandler {
 					temperature: 0,
 					system: [{ text: systemPrompt, type: "text" }],
 					messages,
-					// tools,
-					// tool_choice: { type: "auto" },
+					tools: tools?.length ? tools : undefined,
+					tool_choice: tools?.length ? { type: "auto" } : undefined,
 					stream: true,
 				})) as any
 				break
 			}
 		}
 
+		// tool input arrives as partial json deltas, so we collect it per content block and only yield the tool use once the block is complete
+		const pendingToolUses = new Map<number, { id: string; name: string; json: string }>()
+
 		for await (const chunk of stream) {
 			switch (chunk.type) {
 				case "message_start":
@@ -182,10 +189,24 @@ export class AnthropicHandler implements ApiHandler {
 								text: chunk.content_block.text,
 							}
 							break
+						case "tool_use":
+							pendingToolUses.set(chunk.index, {
+								id: chunk.content_block.id,
+								name: chunk.content_block.name,
+								json: "",
+							})
+							break
 					}
 					break
 				case "content_block_delta":
 					switch (chunk.delta.type) {
+						case "input_json_delta": {
+							const pendingToolUse = pendingToolUses.get(chunk.index)
+							if (pendingToolUse) {
+								pendingToolUse.json += chunk.delta.partial_json
+							}
+							break
+						}
 						case "thinking_delta":
 							yield {
 								type: "reasoning",
@@ -204,8 +225,19 @@ export class AnthropicHandler implements ApiHandler {
 							break
 					}
 					break
-				case "content_block_stop":
+				case "content_block_stop": {
+					const pendingToolUse = pendingToolUses.get(chunk.index)
+					if (pendingToolUse) {
+						pendingToolUses.delete(chunk.index)
+						yield {
+							type: "tool_use",
+							id: pendingToolUse.id,
+							name: pendingToolUse.name,
+							input: parseToolInput(pendingToolUse.json),
+						}
+					}
 					break
+				}
 			}
 		}
 	}
@@ -3,7 +3,7 @@ import { Anthropic } from "@anthropic-ai/sdk"
 import { withRetry } from "../retry"
 import { ApiHandler } from "../"
 import { ApiHandlerOptions, bedrockDefaultModelId, BedrockModelId, bedrockModels, ModelInfo } from "../../shared/api"
-import { ApiStream } from "../transform/stream"
+import { ApiStream, parseToolInput } from "../transform/stream"
 import { fromNodeProviderChain } from "@aws-sdk/credential-providers"
 
 // https://docs.anthropic.com/en/api/claude-on-amazon-bedrock
@@ -15,7 +15,11 @@ export class AwsBedrockHandler implements ApiHandler {
 	}
 
 	@withRetry()
-	async *createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+	async *createMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		tools?: Anthropic.Messages.Tool[],
+	): ApiStream {
 		// cross region inference requires prefixing the model id with the region
 		let modelId = await this.getModelId()
 
@@ -75,9 +79,13 @@ export class AwsBedrockHandler implements ApiHandler {
 				}
 				return message
 			}),
+			tools: tools?.length ? tools : undefined,
+			tool_choice: tools?.length ? { type: "auto" } : undefined,
 			stream: true,
 		})
 
+		const pendingToolUses = new Map<number, { id: string; name: string; json: string }>()
+
 		for await (const chunk of stream) {
 			switch (chunk.type) {
 				case "message_start":
@@ -111,6 +119,13 @@ export class AwsBedrockHandler implements ApiHandler {
 								text: chunk.content_block.text,
 							}
 							break
+						case "tool_use":
+							pendingToolUses.set(chunk.index, {
+								id: chunk.content_block.id,
+								name: chunk.content_block.name,
+								json: "",
+							})
+							break
 					}
 					break
 				case "content_block_delta":
@@ -121,8 +136,28 @@ export class AwsBedrockHandler implements ApiHandler {
 								text: chunk.delta.text,
 							}
 							break
+						case "input_json_delta": {
+							const pendingToolUse = pendingToolUses.get(chunk.index)
+							if (pendingToolUse) {
+								pendingToolUse.json += chunk.delta.partial_json
+							}
+							break
+						}
 					}
 					break
+				case "content_block_stop": {
+					const pendingToolUse = pendingToolUses.get(chunk.index)
+					if (pendingToolUse) {
+						pendingToolUses.delete(chunk.index)
+						yield {
+							type: "tool_use",
+							id: pendingToolUse.id,
+							name: pendingToolUse.name,
+							input: parseToolInput(pendingToolUse.json),
+						}
+					}
+					break
+				}
 			}
 		}
 	}
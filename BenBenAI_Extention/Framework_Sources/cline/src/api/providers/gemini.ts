@@ -3,7 +3,7 @@ import { GoogleGenerativeAI } from "@google/generative-ai"
 import { withRetry } from "../retry"
 import { ApiHandler } from "../"
 import { ApiHandlerOptions, geminiDefaultModelId, GeminiModelId, geminiModels, ModelInfo } from "../../shared/api"
-import { convertAnthropicMessageToGemini } from "../transform/gemini-format"
+import { convertAnthropicMessageToGemini, convertAnthropicToolToGemini, unescapeGeminiContent } from "../transform/gemini-format"
 import { ApiStream } from "../transform/stream"
 
 export class GeminiHandler implements ApiHandler {
@@ -19,10 +19,15 @@ export class GeminiHandler implements ApiHandler {
 	}
 
 	@withRetry()
-	async *createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+	async *createMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		tools?: Anthropic.Messages.Tool[],
+	): ApiStream {
 		const model = this.client.getGenerativeModel({
 			model: this.getModel().id,
 			systemInstruction: systemPrompt,
+			tools: tools?.length ? [{ functionDeclarations: tools.map(convertAnthropicToolToGemini) }] : undefined,
 		})
 		const result = await model.generateContentStream({
 			contents: messages.map(convertAnthropicMessageToGemini),
@@ -32,11 +37,27 @@ export class GeminiHandler implements ApiHandler {
 			},
 		})
 
+		let toolCallIndex = 0
 		for await (const chunk of result.stream) {
 			yield {
 				type: "text",
 				text: chunk.text(),
 			}
+
+			// gemini sends function calls whole rather than streaming their arguments
+			for (const call of chunk.functionCalls() ?? []) {
+				const input = call.args as Record<string, unknown>
+				if (typeof input.content === "string") {
+					input.content = unescapeGeminiContent(input.content)
+				}
+				yield {
+					type: "tool_use",
+					// tool_result conversion recovers the function name from the id prefix
+					id: `${call.name}-${toolCallIndex++}-${Date.now()}`,
+					name: call.name,
+					input,
+				}
+			}
 		}
 
 		const response = await result.response
@@ -3,8 +3,8 @@ import OpenAI, { AzureOpenAI } from "openai"
 import { withRetry } from "../retry"
 import { ApiHandlerOptions, azureOpenAiDefaultApiVersion, ModelInfo, openAiModelInfoSaneDefaults } from "../../shared/api"
 import { ApiHandler } from "../index"
-import { convertToOpenAiMessages } from "../transform/openai-format"
-import { ApiStream } from "../transform/stream"
+import { convertToOpenAiMessages, convertToOpenAiTool } from "../transform/openai-format"
+import { ApiStream, parseToolInput } from "../transform/stream"
 import { convertToR1Format } from "../transform/r1-format"
 import { ChatCompletionReasoningEffort } from "openai/resources/chat/completions.mjs"
 
@@ -30,7 +30,11 @@ export class OpenAiHandler implements ApiHandler {
 	}
 
 	@withRetry()
-	async *createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+	async *createMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		tools?: Anthropic.Messages.Tool[],
+	): ApiStream {
 		const modelId = this.options.openAiModelId ?? ""
 		const isDeepseekReasoner = modelId.includes("deepseek-reasoner")
 		const isO3Mini = modelId.includes("o3-mini")
@@ -57,11 +61,23 @@ export class OpenAiHandler implements ApiHandler {
 			messages: openAiMessages,
 			temperature,
 			reasoning_effort: reasoningEffort,
+			// the r1 format flattens the conversation into plain user/assistant turns, so it can't carry tool calls
+			tools: tools?.length && !isDeepseekReasoner ? tools.map(convertToOpenAiTool) : undefined,
 			stream: true,
 			stream_options: { include_usage: true },
 		})
+		// tool call arguments are streamed in fragments keyed by index, so we only yield them once the stream is done
+		const pendingToolCalls = new Map<number, { id: string; name: string; arguments: string }>()
 		for await (const chunk of stream) {
 			const delta = chunk.choices[0]?.delta
+			for (const toolCall of delta?.tool_calls ?? []) {
+				const pendingToolCall = pendingToolCalls.get(toolCall.index) ?? { id: "", name: "", arguments: "" }
+				pendingToolCall.id = toolCall.id || pendingToolCall.id
+				pendingToolCall.name = toolCall.function?.name || pendingToolCall.name
+				pendingToolCall.arguments += toolCall.function?.arguments ?? ""
+				pendingToolCalls.set(toolCall.index, pendingToolCall)
+			}
+
 			if (delta?.content) {
 				yield {
 					type: "text",
@@ -84,6 +100,15 @@ export class OpenAiHandler implements ApiHandler {
 				}
 			}
 		}
+
+		for (const [index, toolCall] of pendingToolCalls) {
+			yield {
+				type: "tool_use",
+				id: toolCall.id || `${toolCall.name}-${index}-${Date.now()}`,
+				name: toolCall.name,
+				input: parseToolInput(toolCall.arguments),
+			}
+		}
 	}
 
 	getModel(): { id: string; info: ModelInfo } {
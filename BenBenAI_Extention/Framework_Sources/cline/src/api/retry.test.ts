@@ -1,6 +1,6 @@
 import { describe, it } from "mocha"
 import "should"
-import { withRetry } from "./retry"
+import { isFallbackError, withRetry } from "./retry"
 
 describe("Retry Decorator", () => {
 	describe("withRetry", () => {
@@ -213,4 +213,24 @@ describe("Retry Decorator", () => {
 			}
 		})
 	})
+
+	describe("isFallbackError", () => {
+		it("should match rate limit and overloaded errors", () => {
+			isFallbackError({ status: 429, message: "Too many requests" }).should.be.true()
+			isFallbackError({ status: 529, message: "Overloaded" }).should.be.true()
+			isFallbackError({ name: "ThrottlingException", message: "Rate exceeded" }).should.be.true()
+			isFallbackError(new Error("The model is overloaded, please try again later")).should.be.true()
+		})
+
+		it("should match context window errors", () => {
+			isFallbackError({ status: 400, message: "prompt is too long: 210000 tokens > 200000 maximum" }).should.be.true()
+			isFallbackError({ status: 400, code: "context_length_exceeded", message: "Bad request" }).should.be.true()
+		})
+
+		it("should not match other errors", () => {
+			isFallbackError({ status: 401, message: "Invalid API key" }).should.be.false()
+			isFallbackError(new Error("Network error")).should.be.false()
+			isFallbackError(undefined).should.be.false()
+		})
+	})
 })
@@ -62,3 +62,28 @@ export function withRetry(options: RetryOptions = {}) {
 		return descriptor
 	}
 }
+
+const CONTEXT_WINDOW_ERROR_PATTERNS = [
+	/context[_ ]length[_ ]exceeded/i,
+	/maximum context length/i,
+	/prompt is too long/i,
+	/input is too long/i,
+	/exceeds the (maximum|context)/i,
+	/too many (input )?tokens/i,
+]
+
+/**
+ * Whether an error (after any retries) means the request may succeed with a different provider: rate limits, overloaded or
+ * unavailable services, and prompts that don't fit in the model's context window.
+ */
+export function isFallbackError(error: any): boolean {
+	const status = error?.status ?? error?.$metadata?.httpStatusCode
+	if (status === 429 || status === 503 || status === 529) {
+		return true
+	}
+	if (["ThrottlingException", "ServiceUnavailableException", "ModelNotReadyException"].includes(error?.name)) {
+		return true // bedrock
+	}
+	const message = `${error?.error?.type ?? ""} ${error?.code ?? ""} ${error?.message ?? ""}`
+	return /overloaded|rate limit/i.test(message) || CONTEXT_WINDOW_ERROR_PATTERNS.some((pattern) => pattern.test(message))
+}
@@ -150,6 +150,17 @@ export function convertToOpenAiMessages(
 	return openAiMessages
 }
 
+export function convertToOpenAiTool(tool: Anthropic.Messages.Tool): OpenAI.Chat.ChatCompletionTool {
+	return {
+		type: "function",
+		function: {
+			name: tool.name,
+			description: tool.description,
+			parameters: tool.input_schema,
+		},
+	}
+}
+
 // Convert OpenAI response to Anthropic format
 export function convertToAnthropicMessage(completion: OpenAI.Chat.Completions.ChatCompletion): Anthropic.Messages.Message {
 	const openAiMessage = completion.choices[0].message
@@ -1,5 +1,5 @@
 export type ApiStream = AsyncGenerator<ApiStreamChunk>
-export type ApiStreamChunk = ApiStreamTextChunk | ApiStreamReasoningChunk | ApiStreamUsageChunk
+export type ApiStreamChunk = ApiStreamTextChunk | ApiStreamReasoningChunk | ApiStreamUsageChunk | ApiStreamToolUseChunk
 
 export interface ApiStreamTextChunk {
 	type: "text"
@@ -19,3 +19,25 @@ export interface ApiStreamUsageChunk {
 	cacheReadTokens?: number
 	totalCost?: number // openrouter
 }
+
+// emitted once a structured tool call has been fully received (only when tools are passed to createMessage)
+export interface ApiStreamToolUseChunk {
+	type: "tool_use"
+	id: string
+	name: string
+	input: Record<string, unknown>
+}
+
+// tool input is streamed as json fragments; an empty or malformed payload yields empty input so the tool reports its missing params
+export function parseToolInput(json: string): Record<string, unknown> {
+	if (!json) {
+		return {}
+	}
+	try {
+		const input = JSON.parse(json)
+		return input && typeof input === "object" && !Array.isArray(input) ? input : {}
+	} catch (error) {
+		console.error("Failed to parse tool input:", error)
+		return {}
+	}
+}
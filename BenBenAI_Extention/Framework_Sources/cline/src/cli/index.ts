@@ -0,0 +1,245 @@
+/*
+Headless entry point that runs a single Cline task without VS Code. Every completed ClineMessage is written to stdout as a
+JSON line; everything else (logs, notifications) goes to stderr.
+
+Usage: cline-cli --task <prompt> --api-config <file> [--cwd <dir>] [--auto-approve read,edit,command,browser,mcp]
+	[--max-requests <n>] [--max-cost <usd>] [--max-tokens <n>] [--data-dir <dir>]
+*/
+import fs from "fs/promises"
+import os from "os"
+import * as path from "path"
+import { parseArgs } from "util"
+import * as vscode from "vscode"
+import type { Cline } from "../core/Cline"
+import type { ApiConfiguration } from "../shared/api"
+import { AutoApprovalSettings, DEFAULT_AUTO_APPROVAL_SETTINGS } from "../shared/AutoApprovalSettings"
+import { BudgetSettings } from "../shared/BudgetSettings"
+import type { ClineMessage } from "../shared/ExtensionMessage"
+
+enum ExitCode {
+	Completed = 0,
+	Failed = 1,
+	Usage = 2,
+	BudgetExhausted = 3,
+}
+
+const AUTO_APPROVE_ACTIONS: Record<string, keyof AutoApprovalSettings["actions"]> = {
+	read: "readFiles",
+	edit: "editFiles",
+	command: "executeCommands",
+	browser: "useBrowser",
+	mcp: "useMcp",
+}
+
+class UsageError extends Error {}
+
+interface CliOptions {
+	task: string
+	cwd: string
+	apiConfiguration: ApiConfiguration
+	autoApprovalSettings: AutoApprovalSettings
+	budgetSettings: BudgetSettings
+	dataDir: string
+}
+
+function parseNumber(name: string, value?: string): number | undefined {
+	if (value === undefined) {
+		return undefined
+	}
+	const number = Number(value)
+	if (!Number.isFinite(number) || number <= 0) {
+		throw new UsageError(`--${name} must be a positive number`)
+	}
+	return number
+}
+
+async function parseOptions(): Promise<CliOptions> {
+	const { values } = parseArgs({
+		options: {
+			task: { type: "string" },
+			"task-file": { type: "string" },
+			cwd: { type: "string" },
+			"api-config": { type: "string" },
+			"auto-approve": { type: "string" },
+			"max-requests": { type: "string" },
+			"max-cost": { type: "string" },
+			"max-tokens": { type: "string" },
+			"data-dir": { type: "string" },
+		},
+	})
+
+	const task = values["task-file"] ? await fs.readFile(values["task-file"], "utf8") : values.task
+	if (!task?.trim()) {
+		throw new UsageError("A task is required (--task or --task-file)")
+	}
+	if (!values["api-config"]) {
+		throw new UsageError("An API configuration file is required (--api-config)")
+	}
+	let apiConfiguration: ApiConfiguration
+	try {
+		apiConfiguration = JSON.parse(await fs.readFile(values["api-config"], "utf8"))
+	} catch (error) {
+		throw new UsageError(`Failed to read API configuration: ${error instanceof Error ? error.message : String(error)}`)
+	}
+
+	const actions = { ...DEFAULT_AUTO_APPROVAL_SETTINGS.actions }
+	for (const name of values["auto-approve"]?.split(",").filter(Boolean) ?? []) {
+		const action = AUTO_APPROVE_ACTIONS[name.trim()]
+		if (!action) {
+			throw new UsageError(
+				`Unknown --auto-approve action "${name}" (expected ${Object.keys(AUTO_APPROVE_ACTIONS).join(", ")})`,
+			)
+		}
+		actions[action] = true
+	}
+
+	return {
+		task,
+		cwd: path.resolve(values.cwd ?? process.cwd()),
+		apiConfiguration,
+		autoApprovalSettings: {
+			...DEFAULT_AUTO_APPROVAL_SETTINGS,
+			enabled: Object.values(actions).some(Boolean),
+			actions,
+			maxRequests: parseNumber("max-requests", values["max-requests"]) ?? DEFAULT_AUTO_APPROVAL_SETTINGS.maxRequests,
+		},
+		budgetSettings: {
+			taskMaxCost: parseNumber("max-cost", values["max-cost"]),
+			taskMaxTokens: parseNumber("max-tokens", values["max-tokens"]),
+		},
+		dataDir: path.resolve(values["data-dir"] ?? path.join(os.homedir(), ".cline", "cli")),
+	}
+}
+
+// In-memory stand-in for the extension's global/workspace state, which only needs to live as long as the run
+function createMemento() {
+	const state = new Map<string, any>()
+	return {
+		keys: () => [...state.keys()],
+		get: (key: string, defaultValue?: any) => (state.has(key) ? state.get(key) : defaultValue),
+		update: async (key: string, value: any) => {
+			state.set(key, value)
+		},
+		setKeysForSync: () => {},
+	}
+}
+
+function createExtensionContext(dataDir: string): vscode.ExtensionContext {
+	const secrets = new Map<string, string>()
+	const extensionUri = vscode.Uri.file(path.join(__dirname, ".."))
+	return {
+		subscriptions: [],
+		globalState: createMemento(),
+		workspaceState: createMemento(),
+		secrets: {
+			get: async (key: string) => secrets.get(key),
+			store: async (key: string, value: string) => {
+				secrets.set(key, value)
+			},
+			delete: async (key: string) => {
+				secrets.delete(key)
+			},
+			onDidChange: new vscode.EventEmitter().event,
+		},
+		extensionUri,
+		extensionPath: extensionUri.fsPath,
+		globalStorageUri: vscode.Uri.file(dataDir),
+		globalStoragePath: dataDir,
+		extensionMode: vscode.ExtensionMode.Production,
+		extension: { packageJSON: { version: process.env.CLINE_VERSION ?? "cli" } },
+	} as unknown as vscode.ExtensionContext
+}
+
+/**
+ * Answers the asks that reach the CLI. Anything the auto-approval policy allowed never becomes an ask, so approval asks are
+ * denied, and questions for the user are answered with the fact that nobody is there to respond.
+ */
+function handleAsk(cline: Cline, message: ClineMessage, exit: (code: ExitCode) => void) {
+	switch (message.ask) {
+		case "tool":
+		case "command":
+		case "browser_action_launch":
+		case "use_mcp_server":
+			cline.handleWebviewAskResponse(
+				"noButtonClicked",
+				"This action is not allowed by the auto-approval policy of this non-interactive session. Try a different approach or complete the task without it.",
+			)
+			break
+		case "followup":
+		case "plan_mode_response":
+			cline.handleWebviewAskResponse(
+				"messageResponse",
+				"This is a non-interactive session, so no user is available to answer. Proceed with your best judgement.",
+			)
+			break
+		case "completion_result":
+			if (!cline.parentTaskId) {
+				exit(ExitCode.Completed)
+			}
+			break
+		case "api_req_failed":
+		case "mistake_limit_reached":
+			exit(ExitCode.Failed)
+			break
+		case "budget_exceeded":
+		case "auto_approval_max_req_reached":
+			exit(ExitCode.BudgetExhausted)
+			break
+		// command_output only lets the user proceed while a command keeps running, and there are no resume asks for a new task
+	}
+}
+
+async function main(): Promise<ExitCode> {
+	let options: CliOptions
+	try {
+		options = await parseOptions()
+	} catch (error) {
+		if (error instanceof UsageError || (error as NodeJS.ErrnoException).code?.startsWith("ERR_PARSE_ARGS")) {
+			console.error(error.message)
+			return ExitCode.Usage
+		}
+		throw error
+	}
+
+	// stdout is reserved for messages, so route the task loop's own logging to stderr
+	console.log = console.info = console.warn = console.error
+	// the task loop resolves its working directory from the (stubbed) workspace folder when it's loaded, so change into it first
+	process.chdir(options.cwd)
+	await fs.mkdir(options.dataDir, { recursive: true })
+	const { ClineProvider } = await import("../core/webview/ClineProvider")
+
+	const outputChannel = vscode.window.createOutputChannel("Cline")
+	const provider = new ClineProvider(createExtensionContext(options.dataDir), outputChannel, true)
+	await provider.updateApiConfiguration(options.apiConfiguration)
+	await provider.updateGlobalState("autoApprovalSettings", options.autoApprovalSettings)
+	await provider.updateGlobalState("budgetSettings", options.budgetSettings)
+
+	return new Promise<ExitCode>((resolve) => {
+		let exited = false
+		const exit = (code: ExitCode) => {
+			if (!exited) {
+				exited = true
+				provider.dispose().finally(() => resolve(code))
+			}
+		}
+		provider.events.on("clineCreated", (cline) => {
+			cline.events.on("message", (message) => {
+				process.stdout.write(`${JSON.stringify(message)}\n`)
+				if (message.type === "ask") {
+					handleAsk(cline, message, exit)
+				}
+			})
+		})
+		provider.initClineWithTask(options.task).catch((error) => {
+			console.error(error)
+			exit(ExitCode.Failed)
+		})
+	})
+}
+
+main()
+	.then((code) => process.exit(code))
+	.catch((error) => {
+		console.error(error)
+		process.exit(ExitCode.Failed)
+	})
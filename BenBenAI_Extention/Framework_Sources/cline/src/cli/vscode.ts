@@ -0,0 +1,275 @@
+/*
+Minimal stand-in for the `vscode` module, aliased in place of it when bundling the CLI (see esbuild.js). It only covers what
+the task loop touches at runtime; editor-only features (decorations, tabs, diagnostics, webviews) are inert.
+*/
+import { EventEmitter as NodeEventEmitter } from "events"
+import * as path from "path"
+import { pathToFileURL } from "url"
+
+export class Disposable {
+	constructor(private readonly callOnDispose: () => void = () => {}) {}
+
+	static from(...disposables: { dispose(): any }[]) {
+		return new Disposable(() => disposables.forEach((disposable) => disposable.dispose()))
+	}
+
+	dispose() {
+		this.callOnDispose()
+	}
+}
+
+export class EventEmitter<T> {
+	private readonly emitter = new NodeEventEmitter()
+
+	event = (listener: (e: T) => any) => {
+		this.emitter.on("event", listener)
+		return new Disposable(() => this.emitter.off("event", listener))
+	}
+
+	fire(data: T) {
+		this.emitter.emit("event", data)
+	}
+
+	dispose() {
+		this.emitter.removeAllListeners()
+	}
+}
+
+export class Uri {
+	private constructor(
+		readonly scheme: string,
+		readonly fsPath: string,
+		readonly query = "",
+	) {}
+
+	static file(fsPath: string) {
+		return new Uri("file", path.resolve(fsPath))
+	}
+
+	static parse(value: string) {
+		const url = new URL(value)
+		return new Uri(url.protocol.replace(/:$/, ""), decodeURIComponent(url.pathname), url.search.replace(/^\?/, ""))
+	}
+
+	static joinPath(base: Uri, ...pathSegments: string[]) {
+		return new Uri(base.scheme, path.join(base.fsPath, ...pathSegments), base.query)
+	}
+
+	get path() {
+		return this.fsPath
+	}
+
+	with(change: { scheme?: string; query?: string }) {
+		return new Uri(change.scheme ?? this.scheme, this.fsPath, change.query ?? this.query)
+	}
+
+	toString() {
+		return this.scheme === "file" ? pathToFileURL(this.fsPath).href : `${this.scheme}:${this.fsPath}`
+	}
+}
+
+export class Position {
+	constructor(
+		readonly line: number,
+		readonly character: number,
+	) {}
+}
+
+export class Range {
+	readonly start: Position
+	readonly end: Position
+
+	constructor(startLine: number, startCharacter: number, endLine: number, endCharacter: number) {
+		this.start = new Position(startLine, startCharacter)
+		this.end = new Position(endLine, endCharacter)
+	}
+}
+
+export class Selection extends Range {}
+
+export class RelativePattern {
+	constructor(
+		readonly base: Uri | string,
+		readonly pattern: string,
+	) {}
+}
+
+export class ThemeIcon {
+	constructor(readonly id: string) {}
+}
+
+export class TabInputText {
+	constructor(readonly uri: Uri) {}
+}
+
+export class TabInputTextDiff {
+	constructor(
+		readonly original: Uri,
+		readonly modified: Uri,
+	) {}
+}
+
+export class WorkspaceEdit {
+	replace() {}
+}
+
+export class CancellationError extends Error {}
+
+export class CancellationTokenSource {
+	private readonly onCancellationRequested = new EventEmitter<void>()
+	readonly token = { isCancellationRequested: false, onCancellationRequested: this.onCancellationRequested.event }
+
+	cancel() {
+		this.token.isCancellationRequested = true
+		this.onCancellationRequested.fire()
+	}
+
+	dispose() {
+		this.onCancellationRequested.dispose()
+	}
+}
+
+export enum DiagnosticSeverity {
+	Error = 0,
+	Warning = 1,
+	Information = 2,
+	Hint = 3,
+}
+
+export enum FileType {
+	Unknown = 0,
+	File = 1,
+	Directory = 2,
+	SymbolicLink = 64,
+}
+
+export enum ExtensionMode {
+	Production = 1,
+	Development = 2,
+	Test = 3,
+}
+
+export enum ViewColumn {
+	Active = -1,
+	Beside = -2,
+	One = 1,
+	Two = 2,
+}
+
+export enum TextEditorRevealType {
+	Default = 0,
+	InCenter = 1,
+}
+
+export enum SymbolKind {
+	File = 0,
+	Module = 1,
+	Namespace = 2,
+	Package = 3,
+	Class = 4,
+	Method = 5,
+	Property = 6,
+	Field = 7,
+	Constructor = 8,
+	Enum = 9,
+	Interface = 10,
+	Function = 11,
+	Variable = 12,
+	Constant = 13,
+	String = 14,
+	Number = 15,
+	Boolean = 16,
+	Array = 17,
+	Object = 18,
+	Key = 19,
+	Null = 20,
+	EnumMember = 21,
+	Struct = 22,
+	Event = 23,
+	Operator = 24,
+	TypeParameter = 25,
+}
+
+const noopEvent = () => new Disposable()
+
+export const workspace = {
+	// the CLI changes into the task's working directory before loading the task loop
+	get workspaceFolders() {
+		return [{ uri: Uri.file(process.cwd()), name: path.basename(process.cwd()), index: 0 }]
+	},
+	textDocuments: [],
+	// settings always resolve to the defaults the callers pass in
+	getConfiguration: () => ({
+		get: <T>(_key: string, defaultValue?: T) => defaultValue,
+		has: () => false,
+		update: async () => {},
+	}),
+	createFileSystemWatcher: () => ({
+		onDidCreate: noopEvent,
+		onDidChange: noopEvent,
+		onDidDelete: noopEvent,
+		dispose: () => {},
+	}),
+	onDidCreateFiles: noopEvent,
+	onDidDeleteFiles: noopEvent,
+	onDidRenameFiles: noopEvent,
+	onDidSaveTextDocument: noopEvent,
+	onDidChangeConfiguration: noopEvent,
+	onDidChangeWorkspaceFolders: noopEvent,
+	registerTextDocumentContentProvider: () => new Disposable(),
+}
+
+const createOutputChannel = (name: string) => ({
+	name,
+	append: (value: string) => process.stderr.write(value),
+	appendLine: (value: string) => process.stderr.write(`[${name}] ${value}\n`),
+	clear: () => {},
+	show: () => {},
+	hide: () => {},
+	dispose: () => {},
+})
+
+// Everything the CLI prints besides the JSON lines on stdout goes to stderr
+const showMessage = async (message: string) => {
+	process.stderr.write(`${message}\n`)
+	return undefined
+}
+
+export const window = {
+	tabGroups: { all: [], onDidChangeTabs: noopEvent },
+	visibleTextEditors: [],
+	activeTextEditor: undefined,
+	terminals: [],
+	showErrorMessage: showMessage,
+	showWarningMessage: showMessage,
+	showInformationMessage: showMessage,
+	showInputBox: async () => undefined,
+	createOutputChannel,
+	createTextEditorDecorationType: () => ({ key: "", dispose: () => {} }),
+	onDidChangeActiveTextEditor: noopEvent,
+}
+
+export const env = {
+	machineId: "cli",
+	sessionId: "cli",
+	uriScheme: "vscode",
+	language: "en",
+	appName: "Cline CLI",
+	clipboard: { readText: async () => "", writeText: async () => {} },
+	openExternal: async () => false,
+}
+
+export const commands = {
+	executeCommand: async () => undefined,
+	registerCommand: () => new Disposable(),
+}
+
+export const languages = {
+	getDiagnostics: () => [],
+	onDidChangeDiagnostics: noopEvent,
+}
+
+export const extensions = {
+	all: [],
+	getExtension: () => undefined,
+}
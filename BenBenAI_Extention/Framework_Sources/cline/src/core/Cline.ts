@@ -1,6 +1,8 @@
 import { Anthropic } from "@anthropic-ai/sdk"
+import { CreateMessageResult } from "@modelcontextprotocol/sdk/types.js"
 import cloneDeep from "clone-deep"
 import delay from "delay"
+import { EventEmitter } from "events"
 import fs from "fs/promises"
 import getFolderSize from "get-folder-size"
 import os from "os"
@@ -8,69 +10,123 @@ import pWaitFor from "p-wait-for"
 import * as path from "path"
 import { serializeError } from "serialize-error"
 import * as vscode from "vscode"
-import { ApiHandler, buildApiHandler } from "../api"
+import { ApiHandler, buildApiHandler, supportsNativeToolCalls } from "../api"
 import { OpenAiHandler } from "../api/providers/openai"
 import { OpenRouterHandler } from "../api/providers/openrouter"
+import { isFallbackError } from "../api/retry"
 import { ApiStream } from "../api/transform/stream"
 import CheckpointTracker from "../integrations/checkpoints/CheckpointTracker"
-import { DIFF_VIEW_URI_SCHEME, DiffViewProvider } from "../integrations/editor/DiffViewProvider"
+import { ClineDiffViewProvider, DIFF_VIEW_URI_SCHEME, DiffViewProvider } from "../integrations/editor/DiffViewProvider"
+import { HeadlessDiffViewProvider } from "../integrations/editor/HeadlessDiffViewProvider"
 import { formatContentBlockToMarkdown } from "../integrations/misc/export-markdown"
 import { extractTextFromFile } from "../integrations/misc/extract-text"
 import { showSystemNotification } from "../integrations/notifications"
-import { TerminalManager } from "../integrations/terminal/TerminalManager"
+import { ChildProcessTerminalManager } from "../integrations/terminal/ChildProcessTerminalManager"
+import { ClineTerminalManager, TerminalManager } from "../integrations/terminal/TerminalManager"
+import { TerminalCommandResult } from "../integrations/terminal/TerminalProcess"
 import { BrowserSession } from "../services/browser/BrowserSession"
 import { UrlContentFetcher } from "../services/browser/UrlContentFetcher"
 import { listFiles } from "../services/glob/list-files"
 import { regexSearchFiles } from "../services/ripgrep"
+import { formatResourceTemplateCompletion } from "../services/mcp/resource-templates"
+import { createSamplingMessage, formatSamplingRequest, SamplingParams } from "../services/mcp/sampling"
+import { validateToolArguments } from "../services/mcp/tool-arguments"
+import {
+	DEFAULT_MCP_RESULT_LIMIT,
+	formatMcpResourceResult,
+	formatMcpToolResult,
+	summarizeMcpResultText,
+	truncateMcpResultText,
+} from "../services/mcp/tool-results"
 import { parseSourceCodeForDefinitionsTopLevel } from "../services/tree-sitter"
 import { ApiConfiguration } from "../shared/api"
 import { findLast, findLastIndex } from "../shared/array"
 import { AutoApprovalSettings } from "../shared/AutoApprovalSettings"
 import { BrowserSettings } from "../shared/BrowserSettings"
+import { BudgetLimit, BudgetSettings, BudgetUsage, getExceededBudgetLimits } from "../shared/BudgetSettings"
 import { ChatSettings } from "../shared/ChatSettings"
 import { combineApiRequests } from "../shared/combineApiRequests"
-import { combineCommandSequences, COMMAND_REQ_APP_STRING } from "../shared/combineCommandSequences"
+import { combineCommandSequences, COMMAND_POLICY_STRING, COMMAND_REQ_APP_STRING } from "../shared/combineCommandSequences"
 import {
 	BrowserAction,
 	BrowserActionResult,
 	browserActions,
+	ClineApiFallbackInfo,
 	ClineApiReqCancelReason,
 	ClineApiReqInfo,
 	ClineAsk,
+	ClineContextCompaction,
 	ClineAskUseMcpServer,
+	ClineMcpResultSummary,
+	ClineMcpSampling,
 	ClineMessage,
 	ClineSay,
 	ClineSayBrowserAction,
+	ClineSayCommandResult,
 	ClineSayTool,
+	ClineSubtaskResult,
 	COMPLETION_RESULT_CHANGES_FLAG,
 } from "../shared/ExtensionMessage"
-import { getApiMetrics } from "../shared/getApiMetrics"
-import { HistoryItem } from "../shared/HistoryItem"
+import { getApiMetrics, getSubtaskCost } from "../shared/getApiMetrics"
+import { ContextCompactionStrategy, HistoryItem } from "../shared/HistoryItem"
+import { McpTool } from "../shared/mcp"
 import { ClineAskResponse, ClineCheckpointRestore } from "../shared/WebviewMessage"
 import { calculateApiCostAnthropic } from "../utils/cost"
 import { fileExistsAtPath } from "../utils/fs"
-import { arePathsEqual, getReadablePath } from "../utils/path"
+import { arePathsEqual } from "../utils/path"
+import { WorkspaceRoots } from "../integrations/workspace/WorkspaceRoots"
 import { fixModelHtmlEscaping, removeInvalidChars } from "../utils/string"
-import { AssistantMessageContent, parseAssistantMessage, ToolParamName, ToolUseName } from "./assistant-message"
+import {
+	AssistantMessageContent,
+	getNativeToolDefinitions,
+	parseAssistantMessage,
+	parseNativeToolUse,
+	ToolParamName,
+	ToolUse,
+	ToolUseName,
+} from "./assistant-message"
 import { constructNewFileContent } from "./assistant-message/diff"
+import {
+	checkToolUseAfterReadOnlyTools,
+	getPrefetchableToolUses,
+	isReadOnlyToolUse,
+	ReadOnlyToolContext,
+	ReadOnlyToolExecutions,
+} from "./assistant-message/read-only-tools"
+import { CommandPolicyController } from "./command-policy/CommandPolicyController"
+import { isEditPathAutoApproved } from "./edit-file-rules"
 import { ClineIgnoreController, LOCK_TEXT_SYMBOL } from "./ignore/ClineIgnoreController"
 import { parseMentions } from "./mentions"
+import { getClineRules } from "./rules"
 import { formatResponse } from "./prompts/responses"
-import { addUserInstructions, SYSTEM_PROMPT } from "./prompts/system"
-import { getNextTruncationRange, getTruncatedMessages } from "./sliding-window"
+import { addNativeToolUseInstructions, addSubtaskInstructions, addUserInstructions, SYSTEM_PROMPT } from "./prompts/system"
+import { getNextTruncationRange, getTruncatedMessages, summarizeConversationRange } from "./sliding-window"
 import { ClineProvider, GlobalFileNames } from "./webview/ClineProvider"
 import { DEFAULT_LANGUAGE_SETTINGS, getLanguageKey, LanguageDisplay, LanguageKey } from "../shared/Languages"
 import { telemetryService } from "../services/telemetry/TelemetryService"
 
-const cwd = vscode.workspace.workspaceFolders?.map((folder) => folder.uri.fsPath).at(0) ?? path.join(os.homedir(), "Desktop") // may or may not exist but fs checking existence would immediately ask for permission which would be bad UX, need to come up with a better solution
+const workspaceRoots =
+	WorkspaceRoots.fromFolders(vscode.workspace.workspaceFolders) ?? WorkspaceRoots.fromPath(path.join(os.homedir(), "Desktop")) // may or may not exist but fs checking existence would immediately ask for permission which would be bad UX, need to come up with a better solution
+const cwd = workspaceRoots.cwd // the first workspace folder, where commands run
 
 type ToolResponse = string | Array<Anthropic.TextBlockParam | Anthropic.ImageBlockParam>
+type ReadOnlyToolResult = { text: string; images?: string[] }
 type UserContent = Array<Anthropic.ContentBlockParam>
+export interface ClineEvents {
+	message: [message: ClineMessage] // emitted once a message is complete, i.e. when added or when a partial message is finished
+	aborted: []
+}
+
+type ApiFallback = ClineApiFallbackInfo & { index: number; api: ApiHandler } // index into the provider's fallback configurations
 
 export class Cline {
 	readonly taskId: string
+	readonly parentTaskId?: string
+	readonly events = new EventEmitter<ClineEvents>()
 	api: ApiHandler
-	private terminalManager: TerminalManager
+	private apiReqHandler?: ApiHandler // the handler serving the current request, which is a fallback's if this.api failed
+	private terminalManager: ClineTerminalManager
+	private backgroundTerminalManager = new ChildProcessTerminalManager() // for commands run outside the integrated terminal
 	private urlContentFetcher: UrlContentFetcher
 	browserSession: BrowserSession
 	private didEditFile: boolean = false
@@ -81,20 +137,27 @@ export class Cline {
 	apiConversationHistory: Anthropic.MessageParam[] = []
 	clineMessages: ClineMessage[] = []
 	private clineIgnoreController: ClineIgnoreController
+	private commandPolicyController: CommandPolicyController
 	private askResponse?: ClineAskResponse
 	private askResponseText?: string
 	private askResponseImages?: string[]
 	private lastMessageTs?: number
+	private pendingAskTs?: number // the ask waiting for the user's response, if any
 	private consecutiveAutoApprovedRequestsCount: number = 0
+	private budgetUsageAtApproval: BudgetUsage = { taskCost: 0, taskTokens: 0, workspaceMonthlyCost: 0 }
+	// a sub-task's limits, which replace the task limits of the budget settings so it can only spend what its parent has left
+	private taskBudget?: Pick<BudgetSettings, "taskMaxCost" | "taskMaxTokens">
 	private consecutiveMistakeCount: number = 0
 	private providerRef: WeakRef<ClineProvider>
 	private abort: boolean = false
 	didFinishAbortingStream = false
 	abandoned = false
-	private diffViewProvider: DiffViewProvider
+	private diffViewProvider: ClineDiffViewProvider
 	private checkpointTracker?: CheckpointTracker
 	checkpointTrackerErrorMessage?: string
 	conversationHistoryDeletedRange?: [number, number]
+	conversationHistorySummary?: string
+	contextCompactionStrategy: ContextCompactionStrategy = "truncate"
 	isInitialized = false
 	isAwaitingPlanResponse = false
 	didRespondToPlanAskBySwitchingMode = false
@@ -106,10 +169,20 @@ export class Cline {
 	private assistantMessageContent: AssistantMessageContent[] = []
 	private presentAssistantMessageLocked = false
 	private presentAssistantMessageHasPendingUpdates = false
-	private userMessageContent: (Anthropic.TextBlockParam | Anthropic.ImageBlockParam)[] = []
+	private userMessageContent: (Anthropic.TextBlockParam | Anthropic.ImageBlockParam | Anthropic.ToolResultBlockParam)[] = []
 	private userMessageContentReady = false
 	private didRejectTool = false
 	private didAlreadyUseTool = false
+	private didUseReadOnlyTool = false
+	private readOnlyToolExecutions = new ReadOnlyToolExecutions<ReadOnlyToolResult>()
+	private readOnlyToolContext: ReadOnlyToolContext = {
+		getMcpTool: (serverName, toolName) => this.getMcpTool(serverName, toolName),
+		canReadFile: (path) => this.clineIgnoreController.validateAccess(path),
+		shouldAutoApproveTool: (toolName) => this.shouldAutoApproveTool(toolName),
+	}
+	// MCP resources accessed in this task, keyed by server and uri; updated ones are re-read into the environment details
+	private mcpResourceSubscriptions = new Map<string, { serverName: string; uri: string; isUpdated: boolean }>()
+	private isListeningForMcpResourceUpdates = false
 	private didCompleteReadingStream = false
 	private didAutomaticallyRetryFailedApiRequest = false
 
@@ -123,24 +196,39 @@ export class Cline {
 		task?: string,
 		images?: string[],
 		historyItem?: HistoryItem,
+		parentTaskId?: string,
+		taskBudget?: Pick<BudgetSettings, "taskMaxCost" | "taskMaxTokens">,
 	) {
-		this.clineIgnoreController = new ClineIgnoreController(cwd)
+		this.clineIgnoreController = new ClineIgnoreController(workspaceRoots)
 		this.clineIgnoreController.initialize().catch((error) => {
 			console.error("Failed to initialize ClineIgnoreController:", error)
 		})
+		this.commandPolicyController = new CommandPolicyController(
+			cwd,
+			path.join(provider.context.globalStorageUri.fsPath, "settings", GlobalFileNames.commandPolicy),
+		)
+		this.commandPolicyController.initialize().catch((error) => {
+			console.error("Failed to initialize CommandPolicyController:", error)
+		})
 		this.providerRef = new WeakRef(provider)
 		this.api = buildApiHandler(apiConfiguration)
-		this.terminalManager = new TerminalManager()
+		this.terminalManager = provider.isHeadless ? this.backgroundTerminalManager : new TerminalManager()
 		this.urlContentFetcher = new UrlContentFetcher(provider.context)
 		this.browserSession = new BrowserSession(provider.context, browserSettings)
-		this.diffViewProvider = new DiffViewProvider(cwd)
+		this.diffViewProvider = provider.isHeadless
+			? new HeadlessDiffViewProvider(workspaceRoots)
+			: new DiffViewProvider(workspaceRoots)
 		this.customInstructions = customInstructions
 		this.autoApprovalSettings = autoApprovalSettings
 		this.browserSettings = browserSettings
 		this.chatSettings = chatSettings
+		this.parentTaskId = historyItem?.parentTaskId ?? parentTaskId
+		this.taskBudget = taskBudget
 		if (historyItem) {
 			this.taskId = historyItem.id
 			this.conversationHistoryDeletedRange = historyItem.conversationHistoryDeletedRange
+			this.conversationHistorySummary = historyItem.conversationHistorySummary
+			this.contextCompactionStrategy = historyItem.contextCompactionStrategy ?? "truncate"
 			this.resumeTaskFromHistory()
 		} else if (task || images) {
 			this.taskId = Date.now().toString()
@@ -159,6 +247,11 @@ export class Cline {
 		this.chatSettings = chatSettings
 	}
 
+	async updateContextCompactionStrategy(contextCompactionStrategy: ContextCompactionStrategy) {
+		this.contextCompactionStrategy = contextCompactionStrategy
+		await this.saveClineMessages() // persists the strategy on the task's history item
+	}
+
 	// Storing task to disk for history
 
 	private async ensureTaskDirectoryExists(): Promise<string> {
@@ -223,6 +316,9 @@ export class Cline {
 		message.conversationHistoryDeletedRange = this.conversationHistoryDeletedRange
 		this.clineMessages.push(message)
 		await this.saveClineMessages()
+		if (!message.partial) {
+			this.events.emit("message", message)
+		}
 	}
 
 	private async overwriteClineMessages(newMessages: ClineMessage[]) {
@@ -259,9 +355,15 @@ export class Cline {
 				cacheWrites: apiMetrics.totalCacheWrites,
 				cacheReads: apiMetrics.totalCacheReads,
 				totalCost: apiMetrics.totalCost,
+				subtaskCost: getSubtaskCost(this.clineMessages),
 				size: taskDirSize,
 				shadowGitConfigWorkTree: await this.checkpointTracker?.getShadowGitConfigWorkTree(),
 				conversationHistoryDeletedRange: this.conversationHistoryDeletedRange,
+				conversationHistorySummary: this.conversationHistorySummary,
+				contextCompactionStrategy: this.contextCompactionStrategy,
+				parentTaskId: this.parentTaskId,
+				modelId: this.api.getModel().id,
+				workspaceRoot: cwd,
 			})
 		} catch (error) {
 			console.error("Failed to save cline messages:", error)
@@ -313,6 +415,16 @@ export class Cline {
 				case "task":
 				case "taskAndWorkspace":
 					this.conversationHistoryDeletedRange = message.conversationHistoryDeletedRange
+					// the summary in effect at this message is the one from the last successful compaction before it (a failed one keeps the previous summary)
+					this.conversationHistorySummary = this.conversationHistoryDeletedRange
+						? findLast(
+								this.clineMessages
+									.slice(0, messageIndex + 1)
+									.filter((m) => m.say === "context_compacted" && m.text)
+									.map((m) => (JSON.parse(m.text!) as ClineContextCompaction).summary),
+								(summary) => summary !== undefined,
+							)
+						: undefined
 					const newConversationHistory = this.apiConversationHistory.slice(
 						0,
 						(message.conversationHistoryIndex || 0) + 2,
@@ -603,6 +715,7 @@ export class Cline {
 					lastMessage.text = text
 					lastMessage.partial = false
 					await this.saveClineMessages()
+					this.events.emit("message", lastMessage)
 					// await this.providerRef.deref()?.postStateToWebview()
 					await this.providerRef.deref()?.postMessageToWebview({
 						type: "partialMessage",
@@ -641,7 +754,14 @@ export class Cline {
 			await this.providerRef.deref()?.postStateToWebview()
 		}
 
-		await pWaitFor(() => this.askResponse !== undefined || this.lastMessageTs !== askTs, { interval: 100 })
+		this.pendingAskTs = askTs
+		try {
+			await pWaitFor(() => this.askResponse !== undefined || this.lastMessageTs !== askTs, { interval: 100 })
+		} finally {
+			if (this.pendingAskTs === askTs) {
+				this.pendingAskTs = undefined
+			}
+		}
 		if (this.lastMessageTs !== askTs) {
 			throw new Error("Current ask promise was ignored") // could happen if we send multiple asks in a row i.e. with command_output. It's important that when we know an ask could fail, it is handled gracefully
 		}
@@ -707,6 +827,7 @@ export class Cline {
 
 					// instead of streaming partialMessage events, we do a save and post like normal to persist to disk
 					await this.saveClineMessages()
+					this.events.emit("message", lastMessage)
 					// await this.providerRef.deref()?.postStateToWebview()
 					await this.providerRef.deref()?.postMessageToWebview({
 						type: "partialMessage",
@@ -1031,11 +1152,17 @@ export class Cline {
 	}
 
 	async abortTask() {
+		if (!this.abort) {
+			this.events.emit("aborted")
+		}
 		this.abort = true // will stop any autonomously running promises
 		this.terminalManager.disposeAll()
+		this.backgroundTerminalManager.disposeAll()
 		this.urlContentFetcher.closeBrowser()
 		this.browserSession.closeBrowser()
 		this.clineIgnoreController.dispose()
+		this.commandPolicyController.dispose()
+		this.unsubscribeFromMcpResources()
 		await this.diffViewProvider.revertChanges() // need to await for when we want to make sure directories/files are reverted before re-starting the task from a checkpoint
 	}
 
@@ -1114,10 +1241,11 @@ export class Cline {
 
 	// Tools
 
-	async executeCommandTool(command: string): Promise<[boolean, ToolResponse]> {
-		const terminalInfo = await this.terminalManager.getOrCreateTerminal(cwd)
-		terminalInfo.terminal.show() // weird visual bug when creating new terminals (even manually) where there's an empty space at the top.
-		const process = this.terminalManager.runCommand(terminalInfo, command)
+	async executeCommandTool(command: string, background = false): Promise<[boolean, ToolResponse]> {
+		const terminalManager = background ? this.backgroundTerminalManager : this.terminalManager
+		const terminalInfo = await terminalManager.getOrCreateTerminal(cwd)
+		const process = terminalManager.runCommand(terminalInfo, command)
+		const runningIn = terminalManager === this.backgroundTerminalManager ? "in the background" : "in the user's terminal"
 
 		let userFeedback: { text?: string; images?: string[] } | undefined
 		let didContinue = false
@@ -1147,8 +1275,10 @@ export class Cline {
 		})
 
 		let completed = false
-		process.once("completed", () => {
+		let commandResult: TerminalCommandResult | undefined
+		process.once("completed", (result) => {
 			completed = true
+			commandResult = result
 		})
 
 		process.once("no_shell_integration", async () => {
@@ -1171,7 +1301,7 @@ export class Cline {
 			return [
 				true,
 				formatResponse.toolResult(
-					`Command is still running in the user's terminal.${
+					`Command is still running ${runningIn}.${
 						result.length > 0 ? `\nHere's the output so far:\n${result}` : ""
 					}\n\nThe user provided the following feedback:\n<feedback>\n${userFeedback.text}\n</feedback>`,
 					userFeedback.images,
@@ -1180,29 +1310,48 @@ export class Cline {
 		}
 
 		if (completed) {
-			return [false, `Command executed.${result.length > 0 ? `\nOutput:\n${result}` : ""}`]
+			if (commandResult) {
+				await this.say(
+					"command_result",
+					JSON.stringify({
+						exitCode: commandResult.exitCode,
+						durationMs: commandResult.durationMs,
+					} satisfies ClineSayCommandResult),
+				)
+			}
+			return [false, formatResponse.commandExecuted(result, commandResult)]
 		} else {
 			return [
 				false,
-				`Command is still running in the user's terminal.${
+				`Command is still running ${runningIn}.${
 					result.length > 0 ? `\nHere's the output so far:\n${result}` : ""
 				}\n\nYou will be updated on the terminal status and new output in the future.`,
 			]
 		}
 	}
 
-	shouldAutoApproveTool(toolName: ToolUseName): boolean {
+	// Given the tool's params, commands are only auto-approved if the command policy allows them, and edits if the path
+	// matches the edit rules
+	shouldAutoApproveTool(toolName: ToolUseName, params?: ToolUse["params"]): boolean {
 		if (this.autoApprovalSettings.enabled) {
 			switch (toolName) {
 				case "read_file":
 				case "list_files":
 				case "list_code_definition_names":
+				case "lookup_symbol":
 				case "search_files":
 					return this.autoApprovalSettings.actions.readFiles
 				case "write_to_file":
 				case "replace_in_file":
+					if (params && this.autoApprovalSettings.actions.editFiles) {
+						return isEditPathAutoApproved(this.autoApprovalSettings.editFileRules, workspaceRoots, params.path)
+					}
 					return this.autoApprovalSettings.actions.editFiles
 				case "execute_command":
+					if (params?.command !== undefined && this.autoApprovalSettings.actions.executeCommands) {
+						const commandPolicy = this.commandPolicyController.evaluate(params.command)
+						return !commandPolicy || commandPolicy.decision === "allow"
+					}
 					return this.autoApprovalSettings.actions.executeCommands
 				case "browser_action":
 					return this.autoApprovalSettings.actions.useBrowser
@@ -1214,6 +1363,292 @@ export class Cline {
 		return false
 	}
 
+	private getMcpTool(serverName?: string, toolName?: string): McpTool | undefined {
+		return this.providerRef
+			.deref()
+			?.mcpHub?.connections?.find((conn) => conn.server.name === serverName)
+			?.server.tools?.find((tool) => tool.name === toolName)
+	}
+
+	// Starts the auto-approved read-only tools at the beginning of the current message, see getPrefetchableToolUses
+	private prefetchReadOnlyTools() {
+		if (this.didRejectTool) {
+			return
+		}
+		for (const block of getPrefetchableToolUses(this.assistantMessageContent, this.readOnlyToolContext)) {
+			// errors are surfaced when the tool is presented
+			this.executeReadOnlyTool(block).catch(() => {})
+		}
+	}
+
+	// Returns the result of a read-only tool use, running it unless it was already started by prefetchReadOnlyTools
+	private executeReadOnlyTool(block: ToolUse): Promise<ReadOnlyToolResult> {
+		return this.readOnlyToolExecutions.execute(block, (block) => this.runReadOnlyTool(block))
+	}
+
+	private async runReadOnlyTool(block: ToolUse): Promise<ReadOnlyToolResult> {
+		const absolutePath = workspaceRoots.resolvePath(block.params.path ?? "")
+		switch (block.name) {
+			case "read_file":
+				return { text: await extractTextFromFile(absolutePath) }
+			case "list_files": {
+				const recursive = block.params.recursive?.toLowerCase() === "true"
+				const [files, didHitLimit] = await listFiles(absolutePath, recursive, 200)
+				return { text: formatResponse.formatFilesList(absolutePath, files, didHitLimit, this.clineIgnoreController) }
+			}
+			case "list_code_definition_names":
+				return {
+					text: await parseSourceCodeForDefinitionsTopLevel(
+						absolutePath,
+						this.clineIgnoreController,
+						this.providerRef.deref()?.workspaceTracker?.getBuiltSymbolIndex(),
+					),
+				}
+			case "lookup_symbol": {
+				const symbolIndex = await this.providerRef.deref()?.workspaceTracker?.getSymbolIndex()
+				if (!symbolIndex) {
+					return {
+						text: "The symbol index is only available when a workspace folder is open. Use search_files instead.",
+					}
+				}
+				return { text: await symbolIndex.lookup(block.params.symbol ?? "", workspaceRoots, this.clineIgnoreController) }
+			}
+			case "search_files":
+				return {
+					text: await regexSearchFiles(
+						workspaceRoots,
+						absolutePath,
+						block.params.regex ?? "",
+						block.params.file_pattern,
+						this.clineIgnoreController,
+					),
+				}
+			case "use_mcp_tool":
+				return this.callMcpTool(
+					block.params.server_name ?? "",
+					block.params.tool_name ?? "",
+					block.params.arguments ? JSON.parse(block.params.arguments) : undefined,
+				)
+			case "access_mcp_resource": {
+				const serverName = block.params.server_name ?? ""
+				const uri = block.params.uri ?? ""
+				const mcpHub = this.providerRef.deref()?.mcpHub
+				const completion = await mcpHub?.completeResourceTemplateArguments(serverName, uri)
+				if (completion) {
+					return { text: formatResourceTemplateCompletion(uri, completion) }
+				}
+				const resourceResult = await mcpHub?.readResource(serverName, uri)
+				await this.subscribeToMcpResource(serverName, uri)
+				return resourceResult ? formatMcpResourceResult(resourceResult) : { text: "(Empty response)" }
+			}
+		}
+		throw new Error(`${block.name} is not a read-only tool`)
+	}
+
+	private onMcpResourceUpdated = (serverName: string, uri: string) => {
+		const subscription = this.mcpResourceSubscriptions.get(`${serverName} ${uri}`)
+		if (subscription) {
+			subscription.isUpdated = true
+		}
+	}
+
+	private async subscribeToMcpResource(serverName: string, uri: string) {
+		const key = `${serverName} ${uri}`
+		const mcpHub = this.providerRef.deref()?.mcpHub
+		if (!mcpHub || this.mcpResourceSubscriptions.has(key)) {
+			return
+		}
+		if (!this.isListeningForMcpResourceUpdates) {
+			mcpHub.events.on("resourceUpdated", this.onMcpResourceUpdated)
+			this.isListeningForMcpResourceUpdates = true
+		}
+		// added before subscribing so concurrent accesses of the same resource only subscribe once
+		this.mcpResourceSubscriptions.set(key, { serverName, uri, isUpdated: false })
+		const didSubscribe = await mcpHub.subscribeToResource(serverName, uri).catch((error) => {
+			console.error(`Failed to subscribe to ${uri} on ${serverName}:`, error)
+			return false
+		})
+		if (!didSubscribe) {
+			this.mcpResourceSubscriptions.delete(key)
+		}
+	}
+
+	private unsubscribeFromMcpResources() {
+		const mcpHub = this.providerRef.deref()?.mcpHub
+		mcpHub?.events.off("resourceUpdated", this.onMcpResourceUpdated)
+		this.isListeningForMcpResourceUpdates = false
+		for (const { serverName, uri } of this.mcpResourceSubscriptions.values()) {
+			mcpHub?.unsubscribeFromResource(serverName, uri)
+		}
+		this.mcpResourceSubscriptions.clear()
+	}
+
+	private async callMcpTool(
+		serverName: string,
+		toolName: string,
+		toolArguments?: Record<string, unknown>,
+	): Promise<ReadOnlyToolResult> {
+		const toolResult = await this.providerRef.deref()?.mcpHub?.callTool(serverName, toolName, toolArguments)
+
+		// TODO: add progress indicator
+		return toolResult ? formatMcpToolResult(toolResult) : { text: "(No response)" }
+	}
+
+	// Resources are always truncated rather than summarized, since updated ones are re-read into every environment details
+	private limitMcpResourceResult(serverName: string, text: string): string {
+		const limit = this.providerRef.deref()?.mcpHub?.getResourceResultLimit(serverName) ?? DEFAULT_MCP_RESULT_LIMIT
+		return truncateMcpResultText(text, limit.maxCharacters)
+	}
+
+	// Keeps an oversized text result within the tool's result limit (see McpHub.getToolResultLimit), truncating it if the model fails to summarize it
+	private async limitMcpToolResult(serverName: string, toolName: string, text: string): Promise<string> {
+		const limit = this.providerRef.deref()?.mcpHub?.getToolResultLimit(serverName, toolName) ?? DEFAULT_MCP_RESULT_LIMIT
+		if (text.length <= limit.maxCharacters) {
+			return text
+		}
+		if (limit.strategy === "truncate") {
+			return truncateMcpResultText(text, limit.maxCharacters)
+		}
+
+		const summaryProps = { serverName, toolName, resultLength: text.length, maxCharacters: limit.maxCharacters }
+		await this.say("mcp_result_summarized", JSON.stringify(summaryProps satisfies ClineMcpResultSummary), undefined, true)
+		try {
+			const result = await summarizeMcpResultText(
+				this.api,
+				`the ${toolName} tool of the ${serverName} MCP server`,
+				text,
+				limit.maxCharacters,
+			)
+			await this.say(
+				"mcp_result_summarized",
+				JSON.stringify({
+					...summaryProps,
+					tokensIn: result.tokensIn,
+					tokensOut: result.tokensOut,
+					cacheWrites: result.cacheWrites,
+					cacheReads: result.cacheReads,
+					cost:
+						result.totalCost ??
+						calculateApiCostAnthropic(
+							this.api.getModel().info,
+							result.tokensIn,
+							result.tokensOut,
+							result.cacheWrites,
+							result.cacheReads,
+						),
+				} satisfies ClineMcpResultSummary),
+				undefined,
+				false,
+			)
+			return result.text
+		} catch (error) {
+			await this.say(
+				"mcp_result_summarized",
+				JSON.stringify({ ...summaryProps, error: this.formatErrorWithStatusCode(error) } satisfies ClineMcpResultSummary),
+				undefined,
+				false,
+			)
+			return truncateMcpResultText(text, limit.maxCharacters)
+		}
+	}
+
+	/**
+	 * Answers an MCP server's sampling request with this task's model once the user approves it. The usage is recorded with
+	 * the response, so it counts towards the task's cost and budget.
+	 */
+	async handleMcpSamplingRequest(serverName: string, params: SamplingParams): Promise<CreateMessageResult> {
+		// asks share the response from the webview, so asking now would take over the ask the task is waiting on (or streaming)
+		const lastMessage = this.clineMessages.at(-1)
+		if (this.pendingAskTs !== undefined || (lastMessage?.type === "ask" && lastMessage.partial)) {
+			throw new Error("The task is waiting for the user's response to another request, try again later")
+		}
+		const approvalMessage = JSON.stringify({
+			type: "sampling",
+			serverName,
+			prompt: formatSamplingRequest(params),
+		} satisfies ClineAskUseMcpServer)
+		if (this.autoApprovalSettings.enabled && this.autoApprovalSettings.enableNotifications) {
+			showSystemNotification({
+				subtitle: "Approval Required",
+				message: `${serverName} wants to use the model`,
+			})
+		}
+		const { response, text, images } = await this.ask("use_mcp_server", approvalMessage)
+		if (text || images?.length) {
+			await this.say("user_feedback", text, images)
+		}
+		if (response !== "yesButtonClicked") {
+			// the server only learns of the rejection, the feedback doesn't reach the model
+			throw new Error(
+				text ? `The user rejected the sampling request with feedback: ${text}` : "The user rejected the sampling request",
+			)
+		}
+		await this.checkBudget()
+
+		await this.say("mcp_sampling", JSON.stringify({ serverName } satisfies ClineMcpSampling), undefined, true)
+		try {
+			const result = await createSamplingMessage(this.api, params)
+			await this.say(
+				"mcp_sampling",
+				JSON.stringify({
+					serverName,
+					response: result.text,
+					tokensIn: result.tokensIn,
+					tokensOut: result.tokensOut,
+					cacheWrites: result.cacheWrites,
+					cacheReads: result.cacheReads,
+					cost:
+						result.totalCost ??
+						calculateApiCostAnthropic(
+							this.api.getModel().info,
+							result.tokensIn,
+							result.tokensOut,
+							result.cacheWrites,
+							result.cacheReads,
+						),
+				} satisfies ClineMcpSampling),
+				undefined,
+				false,
+			)
+			return {
+				model: this.api.getModel().id,
+				role: "assistant",
+				content: { type: "text", text: result.text },
+				stopReason: "endTurn",
+			}
+		} catch (error) {
+			const errorMessage = this.formatErrorWithStatusCode(error)
+			await this.say(
+				"mcp_sampling",
+				JSON.stringify({ serverName, error: errorMessage } satisfies ClineMcpSampling),
+				undefined,
+				false,
+			)
+			throw new Error(errorMessage)
+		}
+	}
+
+	// paths of files read or edited in this task, used to pick up glob-scoped and nested .clinerules
+	private getTouchedFilePaths(): string[] {
+		const paths = new Set<string>()
+		for (const message of this.clineMessages) {
+			if ((message.say === "tool" || message.ask === "tool") && message.text && !message.partial) {
+				try {
+					const tool: ClineSayTool = JSON.parse(message.text)
+					if (
+						tool.path &&
+						(tool.tool === "readFile" || tool.tool === "editedExistingFile" || tool.tool === "newFileCreated")
+					) {
+						paths.add(tool.path)
+					}
+				} catch {
+					// ignore malformed tool messages
+				}
+			}
+		}
+		return [...paths]
+	}
+
 	private formatErrorWithStatusCode(error: any): string {
 		const statusCode = error.status || error.statusCode || (error.response && error.response.status)
 		const message = error.message ?? JSON.stringify(serializeError(error), null, 2)
@@ -1222,7 +1657,10 @@ export class Cline {
 		return statusCode && !message.includes(statusCode.toString()) ? `${statusCode} - ${message}` : message
 	}
 
-	async *attemptApiRequest(previousApiReqIndex: number): ApiStream {
+	async *attemptApiRequest(previousApiReqIndex: number, fallback?: ApiFallback): ApiStream {
+		const api = fallback?.api ?? this.api
+		this.apiReqHandler = api
+
 		// Wait for MCP servers to be connected before generating system prompt
 		await pWaitFor(() => this.providerRef.deref()?.mcpHub?.isConnecting !== true, { timeout: 10_000 }).catch(() => {
 			console.error("MCP servers failed to connect in time")
@@ -1234,11 +1672,21 @@ export class Cline {
 		}
 
 		const disableBrowserTool = vscode.workspace.getConfiguration("cline").get<boolean>("disableBrowserTool") ?? false
-		const modelSupportsComputerUse = this.api.getModel().info.supportsComputerUse ?? false
+		const modelSupportsComputerUse = api.getModel().info.supportsComputerUse ?? false
 
 		const supportsComputerUse = modelSupportsComputerUse && !disableBrowserTool // only enable computer use if the model supports it and the user hasn't disabled it
 
-		let systemPrompt = await SYSTEM_PROMPT(cwd, supportsComputerUse, mcpHub, this.browserSettings)
+		let systemPrompt = await SYSTEM_PROMPT(cwd, supportsComputerUse, mcpHub, this.browserSettings, workspaceRoots)
+
+		// native tool calls are opt-in since not every model behind a supporting provider (e.g. openai compatible) handles them well, the XML format remains the fallback
+		const useNativeToolCalls =
+			(vscode.workspace.getConfiguration("cline").get<boolean>("nativeToolCalls") ?? false) && supportsNativeToolCalls(api)
+		if (useNativeToolCalls) {
+			systemPrompt += addNativeToolUseInstructions()
+		}
+		if (this.providerRef.deref()?.isRunningSubtask(this)) {
+			systemPrompt += addSubtaskInstructions()
+		}
 
 		let settingsCustomInstructions = this.customInstructions?.trim()
 		const preferredLanguage = getLanguageKey(
@@ -1248,16 +1696,29 @@ export class Cline {
 			preferredLanguage && preferredLanguage !== DEFAULT_LANGUAGE_SETTINGS
 				? `# Preferred Language\n\nSpeak in ${preferredLanguage}.`
 				: ""
-		const clineRulesFilePath = path.resolve(cwd, GlobalFileNames.clineRules)
-		let clineRulesFileInstructions: string | undefined
-		if (await fileExistsAtPath(clineRulesFilePath)) {
-			try {
-				const ruleFileContent = (await fs.readFile(clineRulesFilePath, "utf8")).trim()
-				if (ruleFileContent) {
-					clineRulesFileInstructions = `# .clinerules\n\nThe following is provided by a root-level .clinerules file where the user has specified instructions for this working directory (${cwd.toPosix()})\n\n${ruleFileContent}`
-				}
-			} catch {
-				console.error(`Failed to read .clinerules file at ${clineRulesFilePath}`)
+		const { instructions: clineRulesFileInstructions, activeRuleFiles } = await getClineRules(
+			workspaceRoots,
+			this.getTouchedFilePaths(),
+		)
+		// record which rule files were active and which fallback (if any) is serving this request so the webview can show them with the request details
+		const lastApiReqStartedIndex = findLastIndex(this.clineMessages, (m) => m.say === "api_req_started")
+		if (lastApiReqStartedIndex !== -1) {
+			const apiReqInfo: ClineApiReqInfo = JSON.parse(this.clineMessages[lastApiReqStartedIndex].text || "{}")
+			if (activeRuleFiles.length > 0 || fallback || apiReqInfo.apiFallback) {
+				this.clineMessages[lastApiReqStartedIndex].text = JSON.stringify({
+					...apiReqInfo,
+					activeRuleFiles: activeRuleFiles.length > 0 ? activeRuleFiles : undefined,
+					apiFallback: fallback
+						? {
+								profileName: fallback.profileName,
+								apiProvider: fallback.apiProvider,
+								modelId: fallback.modelId,
+								reason: fallback.reason,
+							}
+						: undefined,
+				} satisfies ClineApiReqInfo)
+				await this.saveClineMessages()
+				await this.providerRef.deref()?.postStateToWebview()
 			}
 		}
 
@@ -1288,9 +1749,9 @@ export class Cline {
 			if (previousRequest && previousRequest.text) {
 				const { tokensIn, tokensOut, cacheWrites, cacheReads }: ClineApiReqInfo = JSON.parse(previousRequest.text)
 				const totalTokens = (tokensIn || 0) + (tokensOut || 0) + (cacheWrites || 0) + (cacheReads || 0)
-				let contextWindow = this.api.getModel().info.contextWindow || 128_000
+				let contextWindow = api.getModel().info.contextWindow || 128_000
 				// FIXME: hack to get anyone using openai compatible with deepseek to have the proper context window instead of the default 128k. We need a way for the user to specify the context window for models they input through openai compatible
-				if (this.api instanceof OpenAiHandler && this.api.getModel().id.toLowerCase().includes("deepseek")) {
+				if (api instanceof OpenAiHandler && api.getModel().id.toLowerCase().includes("deepseek")) {
 					contextWindow = 64_000
 				}
 				let maxAllowedSize: number
@@ -1316,11 +1777,15 @@ export class Cline {
 					const keep = totalTokens / 2 > maxAllowedSize ? "quarter" : "half"
 
 					// NOTE: it's okay that we overwriteConversationHistory in resume task since we're only ever removing the last user message and not anything in the middle which would affect this range
-					this.conversationHistoryDeletedRange = getNextTruncationRange(
+					const nextDeletedRange = getNextTruncationRange(
 						this.apiConversationHistory,
 						this.conversationHistoryDeletedRange,
 						keep,
 					)
+					if (this.contextCompactionStrategy === "summarize") {
+						await this.summarizeDeletedRange(nextDeletedRange)
+					}
+					this.conversationHistoryDeletedRange = nextDeletedRange
 					await this.saveClineMessages() // saves task history item which we use to keep track of conversation history deleted range
 					// await this.overwriteApiConversationHistory(truncatedMessages)
 				}
@@ -1331,9 +1796,14 @@ export class Cline {
 		const truncatedConversationHistory = getTruncatedMessages(
 			this.apiConversationHistory,
 			this.conversationHistoryDeletedRange,
+			this.conversationHistorySummary,
 		)
 
-		let stream = this.api.createMessage(systemPrompt, truncatedConversationHistory)
+		let stream = api.createMessage(
+			systemPrompt,
+			truncatedConversationHistory,
+			useNativeToolCalls ? getNativeToolDefinitions(supportsComputerUse, mcpHub.getMode()) : undefined,
+		)
 
 		const iterator = stream[Symbol.asyncIterator]()
 
@@ -1344,7 +1814,27 @@ export class Cline {
 			yield firstChunk.value
 			this.isWaitingForFirstChunk = false
 		} catch (error) {
-			const isOpenRouter = this.api instanceof OpenRouterHandler
+			// before asking the user to retry, transparently try the next fallback profile if this provider is rate limited, overloaded or out of context
+			const fallbackIndex = fallback ? fallback.index + 1 : 0
+			const nextFallback = isFallbackError(error)
+				? (await this.providerRef.deref()?.getApiFallbackConfigurations())?.[fallbackIndex]
+				: undefined
+			if (nextFallback) {
+				const fallbackApi = buildApiHandler(nextFallback.apiConfiguration)
+				console.log(`first chunk failed, retrying with fallback API profile "${nextFallback.profileName}"`)
+				// the history was already truncated (or summarized) for this request above, so that's skipped for the fallback
+				yield* this.attemptApiRequest(-1, {
+					index: fallbackIndex,
+					api: fallbackApi,
+					profileName: nextFallback.profileName,
+					apiProvider: nextFallback.apiConfiguration.apiProvider,
+					modelId: fallbackApi.getModel().id,
+					reason: this.formatErrorWithStatusCode(error),
+				})
+				return
+			}
+
+			const isOpenRouter = api instanceof OpenRouterHandler
 			if (isOpenRouter && !this.didAutomaticallyRetryFailedApiRequest) {
 				console.log("first chunk failed, waiting 1 second before retrying")
 				await delay(1000)
@@ -1372,11 +1862,134 @@ export class Cline {
 		yield* iterator
 	}
 
+	// Pauses before a request that would exceed the task or monthly workspace budget. Once the user proceeds, limits are counted again from that point.
+	private async getBudget(provider: ClineProvider): Promise<{ budgetSettings: BudgetSettings; usage: BudgetUsage }> {
+		const { budgetSettings } = await provider.getState()
+		// the costs of sub-tasks are included through their subtask_completed messages
+		const { totalCost, totalTokensIn, totalTokensOut } = getApiMetrics(
+			combineApiRequests(combineCommandSequences(this.clineMessages.slice(1))),
+		)
+		return {
+			budgetSettings: { ...budgetSettings, ...this.taskBudget },
+			usage: {
+				taskCost: totalCost,
+				taskTokens: totalTokensIn + totalTokensOut,
+				workspaceMonthlyCost: await provider.getWorkspaceMonthlyCost(),
+			},
+		}
+	}
+
+	// What's left of this task's limits, the limits of a sub-task it starts
+	async getRemainingTaskBudget(): Promise<Pick<BudgetSettings, "taskMaxCost" | "taskMaxTokens">> {
+		const provider = this.providerRef.deref()
+		if (!provider) {
+			return {}
+		}
+		const { budgetSettings, usage } = await this.getBudget(provider)
+		const remaining: Pick<BudgetSettings, "taskMaxCost" | "taskMaxTokens"> = {}
+		if (budgetSettings.taskMaxCost !== undefined) {
+			remaining.taskMaxCost = Math.max(
+				0,
+				budgetSettings.taskMaxCost - (usage.taskCost - this.budgetUsageAtApproval.taskCost),
+			)
+		}
+		if (budgetSettings.taskMaxTokens !== undefined) {
+			remaining.taskMaxTokens = Math.max(
+				0,
+				budgetSettings.taskMaxTokens - (usage.taskTokens - this.budgetUsageAtApproval.taskTokens),
+			)
+		}
+		return remaining
+	}
+
+	private async checkBudget() {
+		const provider = this.providerRef.deref()
+		if (!provider) {
+			return
+		}
+		const { budgetSettings, usage } = await this.getBudget(provider)
+		const previousRequest: ClineApiReqInfo = JSON.parse(
+			findLast(this.clineMessages, (m) => m.say === "api_req_started")?.text || "{}",
+		)
+		const exceededLimits = getExceededBudgetLimits(
+			budgetSettings,
+			{
+				taskCost: usage.taskCost - this.budgetUsageAtApproval.taskCost,
+				taskTokens: usage.taskTokens - this.budgetUsageAtApproval.taskTokens,
+				workspaceMonthlyCost: usage.workspaceMonthlyCost - this.budgetUsageAtApproval.workspaceMonthlyCost,
+			},
+			{ cost: previousRequest.cost ?? 0, tokens: (previousRequest.tokensIn ?? 0) + (previousRequest.tokensOut ?? 0) },
+		)
+		if (exceededLimits.length === 0) {
+			return
+		}
+
+		const limitDescriptions: Record<BudgetLimit, string> = {
+			taskMaxCost: `the task budget of $${budgetSettings.taskMaxCost?.toFixed(2)}`,
+			taskMaxTokens: `the task limit of ${budgetSettings.taskMaxTokens?.toLocaleString()} tokens`,
+			workspaceMonthlyMaxCost: `the monthly workspace budget of $${budgetSettings.workspaceMonthlyMaxCost?.toFixed(2)}`,
+		}
+		if (this.autoApprovalSettings.enabled && this.autoApprovalSettings.enableNotifications) {
+			showSystemNotification({
+				subtitle: "Budget Reached",
+				message: `The next request would exceed ${limitDescriptions[exceededLimits[0]]}.`,
+			})
+		}
+		await this.ask(
+			"budget_exceeded",
+			`The next request would exceed ${exceededLimits.map((limit) => limitDescriptions[limit]).join(" and ")}. So far this task has cost $${usage.taskCost.toFixed(4)} and used ${usage.taskTokens.toLocaleString()} tokens, and $${usage.workspaceMonthlyCost.toFixed(2)} has been spent in this workspace this month. Would you like to proceed? The limits will be counted again from this point.`,
+		)
+		// if we get past the promise it means the user approved and did not start a new task
+		this.budgetUsageAtApproval = usage
+	}
+
+	// Summarizes everything up to the end of the next deleted range so it can stand in for the removed messages. If summarization fails, the range is still removed (like the "truncate" strategy) and the previous summary, which covers an earlier part of the same range, is kept.
+	private async summarizeDeletedRange(deletedRange: [number, number]) {
+		await this.say("context_compacted", JSON.stringify({ deletedRange } satisfies ClineContextCompaction), undefined, true)
+		const api = this.apiReqHandler ?? this.api // the handler serving the request, which may be a fallback's
+		let compaction: ClineContextCompaction
+		try {
+			const result = await summarizeConversationRange(
+				api,
+				this.apiConversationHistory,
+				// the previous summary already covers the messages before the current deleted range ends
+				[
+					this.conversationHistoryDeletedRange ? this.conversationHistoryDeletedRange[1] + 1 : deletedRange[0],
+					deletedRange[1],
+				],
+				this.conversationHistorySummary,
+			)
+			this.conversationHistorySummary = result.summary
+			compaction = {
+				deletedRange,
+				summary: result.summary,
+				tokensIn: result.tokensIn,
+				tokensOut: result.tokensOut,
+				cacheWrites: result.cacheWrites,
+				cacheReads: result.cacheReads,
+				cost:
+					result.totalCost ??
+					calculateApiCostAnthropic(
+						api.getModel().info,
+						result.tokensIn,
+						result.tokensOut,
+						result.cacheWrites,
+						result.cacheReads,
+					),
+			}
+		} catch (error) {
+			compaction = { deletedRange, error: this.formatErrorWithStatusCode(error) }
+		}
+		await this.say("context_compacted", JSON.stringify(compaction), undefined, false)
+	}
+
 	async presentAssistantMessage() {
 		if (this.abort) {
 			throw new Error("Cline instance aborted")
 		}
 
+		this.prefetchReadOnlyTools()
+
 		if (this.presentAssistantMessageLocked) {
 			this.presentAssistantMessageHasPendingUpdates = true
 			return
@@ -1472,12 +2085,16 @@ export class Cline {
 							return `[${block.name} for '${block.params.path}']`
 						case "list_code_definition_names":
 							return `[${block.name} for '${block.params.path}']`
+						case "lookup_symbol":
+							return `[${block.name} for '${block.params.symbol}']`
 						case "browser_action":
 							return `[${block.name} for '${block.params.action}']`
 						case "use_mcp_tool":
 							return `[${block.name} for '${block.params.server_name}']`
 						case "access_mcp_resource":
 							return `[${block.name} for '${block.params.server_name}']`
+						case "delegate_task":
+							return `[${block.name}]`
 						case "ask_followup_question":
 							return `[${block.name} for '${block.params.question}']`
 						case "plan_mode_response":
@@ -1487,47 +2104,86 @@ export class Cline {
 					}
 				}
 
-				if (this.didRejectTool) {
-					// ignore any tool content after user has rejected tool once
-					if (!block.partial) {
+				// native tool calls must each be answered with a tool_result referencing their id, whereas XML tool uses are answered with plain text
+				const pushSkippedToolMessage = (text: string) => {
+					if (block.id) {
 						this.userMessageContent.push({
-							type: "text",
-							text: `Skipping tool ${toolDescription()} due to user rejecting a previous tool.`,
+							type: "tool_result",
+							tool_use_id: block.id,
+							content: text,
 						})
 					} else {
-						// partial tool after user rejected a previous tool
 						this.userMessageContent.push({
 							type: "text",
-							text: `Tool ${toolDescription()} was interrupted and not executed due to user rejecting a previous tool.`,
+							text,
 						})
 					}
+				}
+
+				if (this.didRejectTool) {
+					// ignore any tool content after user has rejected tool once
+					if (!block.partial) {
+						pushSkippedToolMessage(`Skipping tool ${toolDescription()} due to user rejecting a previous tool.`)
+					} else {
+						// partial tool after user rejected a previous tool
+						pushSkippedToolMessage(
+							`Tool ${toolDescription()} was interrupted and not executed due to user rejecting a previous tool.`,
+						)
+					}
 					break
 				}
 
 				if (this.didAlreadyUseTool) {
 					// ignore any content after a tool has already been used
-					this.userMessageContent.push({
-						type: "text",
-						text: `Tool [${block.name}] was not executed because a tool has already been used in this message. Only one tool may be used per message. You must assess the first tool's result before proceeding to use the next tool.`,
-					})
+					pushSkippedToolMessage(
+						`Tool [${block.name}] was not executed because a tool has already been used in this message. Only one tool may be used per message. You must assess the first tool's result before proceeding to use the next tool.`,
+					)
+					break
+				}
+
+				const afterReadOnlyTools = checkToolUseAfterReadOnlyTools(
+					block,
+					this.didUseReadOnlyTool,
+					this.readOnlyToolContext,
+				)
+				if (afterReadOnlyTools === "wait") {
+					break
+				}
+				if (afterReadOnlyTools === "skip") {
+					this.didAlreadyUseTool = true
+					pushSkippedToolMessage(
+						`Tool [${block.name}] was not executed because read-only tools have already been used in this message. Only read-only tools may be used together in one message. You must assess their results before proceeding to use the next tool.`,
+					)
 					break
 				}
 
 				const pushToolResult = (content: ToolResponse) => {
-					this.userMessageContent.push({
-						type: "text",
-						text: `${toolDescription()} Result:`,
-					})
-					if (typeof content === "string") {
+					if (block.id) {
+						this.userMessageContent.push({
+							type: "tool_result",
+							tool_use_id: block.id,
+							content: typeof content === "string" ? content || "(tool did not return anything)" : content,
+						})
+					} else {
 						this.userMessageContent.push({
 							type: "text",
-							text: content || "(tool did not return anything)",
+							text: `${toolDescription()} Result:`,
 						})
+						if (typeof content === "string") {
+							this.userMessageContent.push({
+								type: "text",
+								text: content || "(tool did not return anything)",
+							})
+						} else {
+							this.userMessageContent.push(...content)
+						}
+					}
+					// once a tool result has been collected, ignore all other tool uses since we should only ever present one tool result per message (apart from read-only tools, which can be used together)
+					if (isReadOnlyToolUse(block, this.readOnlyToolContext)) {
+						this.didUseReadOnlyTool = true
 					} else {
-						this.userMessageContent.push(...content)
+						this.didAlreadyUseTool = true
 					}
-					// once a tool result has been collected, ignore all other tool uses since we should only ever present one tool result per message
-					this.didAlreadyUseTool = true
 				}
 
 				// The user can approve, reject, or provide feedback (rejection). However the user may also send a message along with an approval, in which case we add a separate user message with this feedback.
@@ -1647,7 +2303,7 @@ export class Cline {
 						if (this.diffViewProvider.editType !== undefined) {
 							fileExists = this.diffViewProvider.editType === "modify"
 						} else {
-							const absolutePath = path.resolve(cwd, relPath)
+							const absolutePath = workspaceRoots.resolvePath(relPath)
 							fileExists = await fileExistsAtPath(absolutePath)
 							this.diffViewProvider.editType = fileExists ? "modify" : "create"
 						}
@@ -1715,14 +2371,14 @@ export class Cline {
 
 							const sharedMessageProps: ClineSayTool = {
 								tool: fileExists ? "editedExistingFile" : "newFileCreated",
-								path: getReadablePath(cwd, removeClosingTag("path", relPath)),
+								path: workspaceRoots.getReadablePath(removeClosingTag("path", relPath)),
 								content: diff || content,
 							}
 
 							if (block.partial) {
 								// update gui message
 								const partialMessage = JSON.stringify(sharedMessageProps)
-								if (this.shouldAutoApproveTool(block.name)) {
+								if (this.shouldAutoApproveTool(block.name, block.params)) {
 									this.removeLastPartialMessageIfExistsWithType("ask", "tool") // in case the user changes auto-approval settings mid stream
 									await this.say("tool", partialMessage, undefined, block.partial)
 								} else {
@@ -1787,7 +2443,7 @@ export class Cline {
 									// : undefined,
 								} satisfies ClineSayTool)
 
-								if (this.shouldAutoApproveTool(block.name)) {
+								if (this.shouldAutoApproveTool(block.name, block.params)) {
 									this.removeLastPartialMessageIfExistsWithType("ask", "tool")
 									await this.say("tool", completeMessage, undefined, false)
 									this.consecutiveAutoApprovedRequestsCount++
@@ -1841,7 +2497,7 @@ export class Cline {
 										"user_feedback_diff",
 										JSON.stringify({
 											tool: fileExists ? "editedExistingFile" : "newFileCreated",
-											path: getReadablePath(cwd, relPath),
+											path: workspaceRoots.getReadablePath(relPath),
 											diff: userEdits,
 										} satisfies ClineSayTool),
 									)
@@ -1894,7 +2550,7 @@ export class Cline {
 						const relPath: string | undefined = block.params.path
 						const sharedMessageProps: ClineSayTool = {
 							tool: "readFile",
-							path: getReadablePath(cwd, removeClosingTag("path", relPath)),
+							path: workspaceRoots.getReadablePath(removeClosingTag("path", relPath)),
 						}
 						try {
 							if (block.partial) {
@@ -1927,7 +2583,7 @@ export class Cline {
 								}
 
 								this.consecutiveMistakeCount = 0
-								const absolutePath = path.resolve(cwd, relPath)
+								const absolutePath = workspaceRoots.resolvePath(relPath)
 								const completeMessage = JSON.stringify({
 									...sharedMessageProps,
 									content: absolutePath,
@@ -1947,7 +2603,7 @@ export class Cline {
 									}
 								}
 								// now execute the tool like normal
-								const content = await extractTextFromFile(absolutePath)
+								const { text: content } = await this.executeReadOnlyTool(block)
 								pushToolResult(content)
 
 								break
@@ -1964,7 +2620,7 @@ export class Cline {
 						const recursive = recursiveRaw?.toLowerCase() === "true"
 						const sharedMessageProps: ClineSayTool = {
 							tool: !recursive ? "listFilesTopLevel" : "listFilesRecursive",
-							path: getReadablePath(cwd, removeClosingTag("path", relDirPath)),
+							path: workspaceRoots.getReadablePath(removeClosingTag("path", relDirPath)),
 						}
 						try {
 							if (block.partial) {
@@ -1989,16 +2645,8 @@ export class Cline {
 								}
 								this.consecutiveMistakeCount = 0
 
-								const absolutePath = path.resolve(cwd, relDirPath)
-
-								const [files, didHitLimit] = await listFiles(absolutePath, recursive, 200)
-
-								const result = formatResponse.formatFilesList(
-									absolutePath,
-									files,
-									didHitLimit,
-									this.clineIgnoreController,
-								)
+								const absolutePath = workspaceRoots.resolvePath(relDirPath)
+								const { text: result } = await this.executeReadOnlyTool(block)
 								const completeMessage = JSON.stringify({
 									...sharedMessageProps,
 									content: result,
@@ -2031,7 +2679,7 @@ export class Cline {
 						const relDirPath: string | undefined = block.params.path
 						const sharedMessageProps: ClineSayTool = {
 							tool: "listCodeDefinitionNames",
-							path: getReadablePath(cwd, removeClosingTag("path", relDirPath)),
+							path: workspaceRoots.getReadablePath(removeClosingTag("path", relDirPath)),
 						}
 						try {
 							if (block.partial) {
@@ -2057,11 +2705,8 @@ export class Cline {
 
 								this.consecutiveMistakeCount = 0
 
-								const absolutePath = path.resolve(cwd, relDirPath)
-								const result = await parseSourceCodeForDefinitionsTopLevel(
-									absolutePath,
-									this.clineIgnoreController,
-								)
+								const absolutePath = workspaceRoots.resolvePath(relDirPath)
+								const { text: result } = await this.executeReadOnlyTool(block)
 
 								const completeMessage = JSON.stringify({
 									...sharedMessageProps,
@@ -2091,13 +2736,71 @@ export class Cline {
 							break
 						}
 					}
+					case "lookup_symbol": {
+						const symbol: string | undefined = block.params.symbol
+						const sharedMessageProps: ClineSayTool = {
+							tool: "lookupSymbol",
+							symbol: removeClosingTag("symbol", symbol),
+						}
+						try {
+							if (block.partial) {
+								const partialMessage = JSON.stringify({
+									...sharedMessageProps,
+									content: "",
+								} satisfies ClineSayTool)
+								if (this.shouldAutoApproveTool(block.name)) {
+									this.removeLastPartialMessageIfExistsWithType("ask", "tool")
+									await this.say("tool", partialMessage, undefined, block.partial)
+								} else {
+									this.removeLastPartialMessageIfExistsWithType("say", "tool")
+									await this.ask("tool", partialMessage, block.partial).catch(() => {})
+								}
+								break
+							} else {
+								if (!symbol) {
+									this.consecutiveMistakeCount++
+									pushToolResult(await this.sayAndCreateMissingParamError("lookup_symbol", "symbol"))
+
+									break
+								}
+
+								this.consecutiveMistakeCount = 0
+
+								const { text: result } = await this.executeReadOnlyTool(block)
+
+								const completeMessage = JSON.stringify({
+									...sharedMessageProps,
+									content: result,
+								} satisfies ClineSayTool)
+								if (this.shouldAutoApproveTool(block.name)) {
+									this.removeLastPartialMessageIfExistsWithType("ask", "tool")
+									await this.say("tool", completeMessage, undefined, false)
+									this.consecutiveAutoApprovedRequestsCount++
+								} else {
+									showNotificationForApprovalIfAutoApprovalEnabled(`Cline wants to look up ${symbol}`)
+									this.removeLastPartialMessageIfExistsWithType("say", "tool")
+									const didApprove = await askApproval("tool", completeMessage)
+									if (!didApprove) {
+										break
+									}
+								}
+								pushToolResult(result)
+
+								break
+							}
+						} catch (error) {
+							await handleError("looking up symbol", error)
+
+							break
+						}
+					}
 					case "search_files": {
 						const relDirPath: string | undefined = block.params.path
 						const regex: string | undefined = block.params.regex
 						const filePattern: string | undefined = block.params.file_pattern
 						const sharedMessageProps: ClineSayTool = {
 							tool: "searchFiles",
-							path: getReadablePath(cwd, removeClosingTag("path", relDirPath)),
+							path: workspaceRoots.getReadablePath(removeClosingTag("path", relDirPath)),
 							regex: removeClosingTag("regex", regex),
 							filePattern: removeClosingTag("file_pattern", filePattern),
 						}
@@ -2130,14 +2833,8 @@ export class Cline {
 								}
 								this.consecutiveMistakeCount = 0
 
-								const absolutePath = path.resolve(cwd, relDirPath)
-								const results = await regexSearchFiles(
-									cwd,
-									absolutePath,
-									regex,
-									filePattern,
-									this.clineIgnoreController,
-								)
+								const absolutePath = workspaceRoots.resolvePath(relDirPath)
+								const { text: results } = await this.executeReadOnlyTool(block)
 
 								const completeMessage = JSON.stringify({
 									...sharedMessageProps,
@@ -2339,6 +3036,10 @@ export class Cline {
 						const command: string | undefined = block.params.command
 						const requiresApprovalRaw: string | undefined = block.params.requires_approval
 						const requiresApproval = requiresApprovalRaw?.toLowerCase() === "true"
+						const backgroundRaw: string | undefined = block.params.background
+						const background = backgroundRaw
+							? backgroundRaw.toLowerCase() === "true"
+							: vscode.workspace.getConfiguration("cline.commandExecution").get("defaultExecutor") === "background"
 
 						try {
 							if (block.partial) {
@@ -2382,11 +3083,30 @@ export class Cline {
 									break
 								}
 
+								const commandPolicy = this.commandPolicyController.evaluate(command)
+								if (commandPolicy?.decision === "deny") {
+									await this.say("command_policy_error", JSON.stringify(commandPolicy))
+									pushToolResult(
+										formatResponse.toolError(
+											formatResponse.commandPolicyError(
+												commandPolicy.command!,
+												commandPolicy.rules[0].pattern,
+											),
+										),
+									)
+
+									break
+								}
+								const commandPolicyText =
+									commandPolicy && this.shouldAutoApproveTool(block.name)
+										? COMMAND_POLICY_STRING + JSON.stringify(commandPolicy)
+										: ""
+
 								let didAutoApprove = false
 
-								if (!requiresApproval && this.shouldAutoApproveTool(block.name)) {
+								if (!requiresApproval && this.shouldAutoApproveTool(block.name, block.params)) {
 									this.removeLastPartialMessageIfExistsWithType("ask", "command")
-									await this.say("command", command, undefined, false)
+									await this.say("command", command + commandPolicyText, undefined, false)
 									this.consecutiveAutoApprovedRequestsCount++
 									didAutoApprove = true
 								} else {
@@ -2397,6 +3117,7 @@ export class Cline {
 									const didApprove = await askApproval(
 										"command",
 										command +
+											commandPolicyText +
 											`${this.shouldAutoApproveTool(block.name) && requiresApproval ? COMMAND_REQ_APP_STRING : ""}`, // ugly hack until we refactor combineCommandSequences
 									)
 									if (!didApprove) {
@@ -2416,7 +3137,7 @@ export class Cline {
 									}, 30_000)
 								}
 
-								const [userRejected, result] = await this.executeCommandTool(command)
+								const [userRejected, result] = await this.executeCommandTool(command, background)
 								if (timeoutId) {
 									clearTimeout(timeoutId)
 								}
@@ -2499,6 +3220,27 @@ export class Cline {
 										break
 									}
 								}
+								const inputSchema = this.getMcpTool(server_name, tool_name)?.inputSchema
+								const argumentErrors = validateToolArguments(inputSchema, parsedArguments)
+								if (argumentErrors.length > 0) {
+									this.consecutiveMistakeCount++
+									await this.say(
+										"error",
+										`Cline tried to use ${tool_name} with arguments that don't match its input schema. Retrying...`,
+									)
+									pushToolResult(
+										formatResponse.toolError(
+											formatResponse.mcpToolArgumentSchemaError(
+												server_name,
+												tool_name,
+												argumentErrors,
+												inputSchema,
+											),
+										),
+									)
+
+									break
+								}
 								this.consecutiveMistakeCount = 0
 								const completeMessage = JSON.stringify({
 									type: "use_mcp_tool",
@@ -2507,10 +3249,7 @@ export class Cline {
 									arguments: mcp_arguments,
 								} satisfies ClineAskUseMcpServer)
 
-								const isToolAutoApproved = this.providerRef
-									.deref()
-									?.mcpHub?.connections?.find((conn) => conn.server.name === server_name)
-									?.server.tools?.find((tool) => tool.name === tool_name)?.autoApprove
+								const isToolAutoApproved = this.getMcpTool(server_name, tool_name)?.autoApprove
 
 								if (this.shouldAutoApproveTool(block.name) && isToolAutoApproved) {
 									this.removeLastPartialMessageIfExistsWithType("ask", "use_mcp_server")
@@ -2529,28 +3268,12 @@ export class Cline {
 
 								// now execute the tool
 								await this.say("mcp_server_request_started") // same as browser_action_result
-								const toolResult = await this.providerRef
-									.deref()
-									?.mcpHub?.callTool(server_name, tool_name, parsedArguments)
-
-								// TODO: add progress indicator and ability to parse images and non-text responses
-								const toolResultPretty =
-									(toolResult?.isError ? "Error:\n" : "") +
-										toolResult?.content
-											.map((item) => {
-												if (item.type === "text") {
-													return item.text
-												}
-												if (item.type === "resource") {
-													const { blob, ...rest } = item.resource
-													return JSON.stringify(rest, null, 2)
-												}
-												return ""
-											})
-											.filter(Boolean)
-											.join("\n\n") || "(No response)"
-								await this.say("mcp_server_response", toolResultPretty)
-								pushToolResult(formatResponse.toolResult(toolResultPretty))
+								const toolResult = await (isReadOnlyToolUse(block, this.readOnlyToolContext)
+									? this.executeReadOnlyTool(block)
+									: this.callMcpTool(server_name, tool_name, parsedArguments))
+								const toolResultPretty = await this.limitMcpToolResult(server_name, tool_name, toolResult.text)
+								await this.say("mcp_server_response", toolResultPretty, toolResult.images)
+								pushToolResult(formatResponse.toolResult(toolResultPretty, toolResult.images))
 
 								await this.saveCheckpoint()
 
@@ -2619,19 +3342,10 @@ export class Cline {
 
 								// now execute the tool
 								await this.say("mcp_server_request_started")
-								const resourceResult = await this.providerRef.deref()?.mcpHub?.readResource(server_name, uri)
-								const resourceResultPretty =
-									resourceResult?.contents
-										.map((item) => {
-											if (item.text) {
-												return item.text
-											}
-											return ""
-										})
-										.filter(Boolean)
-										.join("\n\n") || "(Empty response)"
-								await this.say("mcp_server_response", resourceResultPretty)
-								pushToolResult(formatResponse.toolResult(resourceResultPretty))
+								const resourceResult = await this.executeReadOnlyTool(block)
+								const resourceResultPretty = this.limitMcpResourceResult(server_name, resourceResult.text)
+								await this.say("mcp_server_response", resourceResultPretty, resourceResult.images)
+								pushToolResult(formatResponse.toolResult(resourceResultPretty, resourceResult.images))
 
 								break
 							}
@@ -2641,6 +3355,91 @@ export class Cline {
 							break
 						}
 					}
+					case "delegate_task": {
+						const task: string | undefined = block.params.task
+						const mode: string | undefined = block.params.mode
+						const model: string | undefined = block.params.model
+						const sharedMessageProps: ClineSayTool = {
+							tool: "delegateTask",
+							mode: removeClosingTag("mode", mode) || undefined,
+							model: removeClosingTag("model", model) || undefined,
+						}
+						try {
+							if (block.partial) {
+								const partialMessage = JSON.stringify({
+									...sharedMessageProps,
+									content: removeClosingTag("task", task),
+								} satisfies ClineSayTool)
+								await this.ask("tool", partialMessage, block.partial).catch(() => {})
+								break
+							} else {
+								if (!task) {
+									this.consecutiveMistakeCount++
+									pushToolResult(await this.sayAndCreateMissingParamError("delegate_task", "task"))
+
+									break
+								}
+								if (mode && mode !== "plan" && mode !== "act") {
+									this.consecutiveMistakeCount++
+									await this.say(
+										"error",
+										`Cline tried to delegate a sub-task with an invalid mode '${mode}'. Retrying...`,
+									)
+									pushToolResult(
+										formatResponse.toolError(
+											`Invalid mode '${mode}'. The mode must be either "plan" or "act".`,
+										),
+									)
+
+									break
+								}
+								this.consecutiveMistakeCount = 0
+
+								const completeMessage = JSON.stringify({
+									...sharedMessageProps,
+									content: task,
+								} satisfies ClineSayTool)
+								showNotificationForApprovalIfAutoApprovalEnabled(`Cline wants to delegate a sub-task`)
+								const didApprove = await askApproval("tool", completeMessage)
+								if (!didApprove) {
+									break
+								}
+
+								const provider = this.providerRef.deref()
+								if (!provider) {
+									throw new Error("Provider reference lost")
+								}
+								// the sub-task takes over the webview until it completes (or the user cancels it), then control returns here
+								const subtaskResult = await provider.initClineWithSubtask(
+									this,
+									task,
+									mode as ChatSettings["mode"] | undefined,
+									model,
+									await this.getRemainingTaskBudget(),
+								)
+								await this.say("subtask_completed", JSON.stringify(subtaskResult satisfies ClineSubtaskResult))
+								if (subtaskResult.result === undefined) {
+									pushToolResult(
+										formatResponse.toolError(
+											"The user cancelled the sub-task before it completed. Consider why the user may have cancelled it before continuing.",
+										),
+									)
+								} else {
+									pushToolResult(
+										formatResponse.toolResult(
+											`The sub-task completed with the following result:\n<result>\n${subtaskResult.result}\n</result>`,
+										),
+									)
+								}
+
+								break
+							}
+						} catch (error) {
+							await handleError("delegating sub-task", error)
+
+							break
+						}
+					}
 					case "ask_followup_question": {
 						const question: string | undefined = block.params.question
 						try {
@@ -2692,6 +3491,14 @@ export class Cline {
 								}
 								this.consecutiveMistakeCount = 0
 
+								// a sub-task started in plan mode returns its plan to the parent task instead of waiting for the user
+								if (this.providerRef.deref()?.isRunningSubtask(this)) {
+									this.removeLastPartialMessageIfExistsWithType("ask", "plan_mode_response")
+									await this.say("completion_result", response, undefined, false)
+									await this.providerRef.deref()?.finishSubtask(response)
+									break
+								}
+
 								// if (this.autoApprovalSettings.enabled && this.autoApprovalSettings.enableNotifications) {
 								// 	showSystemNotification({
 								// 		subtitle: "Cline has a response...",
@@ -2836,25 +3643,42 @@ export class Cline {
 										await this.saveCheckpoint(true)
 									}
 
-									// complete command message
-									const didApprove = await askApproval("command", command)
-									if (!didApprove) {
-										break
-									}
-									const [userRejected, execCommandResult] = await this.executeCommandTool(command!)
-									if (userRejected) {
-										this.didRejectTool = true
-										pushToolResult(execCommandResult)
-										break
+									const commandPolicy = this.commandPolicyController.evaluate(command)
+									if (commandPolicy?.decision === "deny") {
+										await this.say("command_policy_error", JSON.stringify(commandPolicy))
+										commandResult = formatResponse.toolError(
+											formatResponse.commandPolicyError(
+												commandPolicy.command!,
+												commandPolicy.rules[0].pattern,
+											),
+										)
+									} else {
+										// complete command message
+										const didApprove = await askApproval("command", command)
+										if (!didApprove) {
+											break
+										}
+										const [userRejected, execCommandResult] = await this.executeCommandTool(command!)
+										if (userRejected) {
+											this.didRejectTool = true
+											pushToolResult(execCommandResult)
+											break
+										}
+										// user didn't reject, but the command may have output
+										commandResult = execCommandResult
 									}
-									// user didn't reject, but the command may have output
-									commandResult = execCommandResult
 								} else {
 									await this.say("completion_result", result, undefined, false)
 									await this.saveCheckpoint(true)
 									await addNewChangesFlagToLastCompletionResultMessage()
 								}
 
+								// a sub-task hands its result back to the parent task rather than waiting on the user's feedback
+								if (this.providerRef.deref()?.isRunningSubtask(this)) {
+									await this.providerRef.deref()?.finishSubtask(result)
+									break
+								}
+
 								// we already sent completion_result says, an empty string asks relinquishes control over button and field
 								const { response, text, images } = await this.ask("completion_result", "", false)
 								if (response === "yesButtonClicked") {
@@ -2879,11 +3703,19 @@ export class Cline {
 									text: `The user has provided feedback on the results. Consider their input to continue the task, and then attempt completion again.\n<feedback>\n${text}\n</feedback>`,
 								})
 								toolResults.push(...formatResponse.imageBlocks(images))
-								this.userMessageContent.push({
-									type: "text",
-									text: `${toolDescription()} Result:`,
-								})
-								this.userMessageContent.push(...toolResults)
+								if (block.id) {
+									this.userMessageContent.push({
+										type: "tool_result",
+										tool_use_id: block.id,
+										content: toolResults,
+									})
+								} else {
+									this.userMessageContent.push({
+										type: "text",
+										text: `${toolDescription()} Result:`,
+									})
+									this.userMessageContent.push(...toolResults)
+								}
 
 								//
 								break
@@ -2983,6 +3815,8 @@ export class Cline {
 			this.consecutiveAutoApprovedRequestsCount = 0
 		}
 
+		await this.checkBudget()
+
 		// get previous api req's index to check token usage and determine if we need to truncate conversation history
 		const previousApiReqIndex = findLastIndex(this.clineMessages, (m) => m.say === "api_req_started")
 
@@ -3063,7 +3897,7 @@ export class Cline {
 					cost:
 						totalCost ??
 						calculateApiCostAnthropic(
-							this.api.getModel().info,
+							(this.apiReqHandler ?? this.api).getModel().info,
 							inputTokens,
 							outputTokens,
 							cacheWriteTokens,
@@ -3122,6 +3956,8 @@ export class Cline {
 			this.userMessageContentReady = false
 			this.didRejectTool = false
 			this.didAlreadyUseTool = false
+			this.didUseReadOnlyTool = false
+			this.readOnlyToolExecutions.clear()
 			this.presentAssistantMessageLocked = false
 			this.presentAssistantMessageHasPendingUpdates = false
 			this.didAutomaticallyRetryFailedApiRequest = false
@@ -3130,6 +3966,9 @@ export class Cline {
 			const stream = this.attemptApiRequest(previousApiReqIndex) // yields only if the first chunk is successful, otherwise will allow the user to retry the request (most likely due to rate limit error, which gets thrown on the first chunk)
 			let assistantMessage = ""
 			let reasoningMessage = ""
+			// structured tool calls are kept alongside the raw text, since they're sent back to the api as tool_use blocks rather than text
+			const nativeToolUseBlocks: Anthropic.ToolUseBlockParam[] = []
+			const nativeToolUses: ToolUse[] = []
 			this.isStreaming = true
 			try {
 				for await (const chunk of stream) {
@@ -3157,13 +3996,32 @@ export class Cline {
 							assistantMessage += chunk.text
 							// parse raw assistant message into content blocks
 							const prevLength = this.assistantMessageContent.length
-							this.assistantMessageContent = parseAssistantMessage(assistantMessage)
+							this.assistantMessageContent = [...parseAssistantMessage(assistantMessage), ...nativeToolUses]
 							if (this.assistantMessageContent.length > prevLength) {
 								this.userMessageContentReady = false // new content we need to present, reset to false in case previous content set this to true
 							}
 							// present content to user
 							this.presentAssistantMessage()
 							break
+						case "tool_use": {
+							if (reasoningMessage && assistantMessage.length === 0 && nativeToolUseBlocks.length === 0) {
+								await this.say("reasoning", reasoningMessage, undefined, false)
+							}
+							nativeToolUseBlocks.push({
+								type: "tool_use",
+								id: chunk.id,
+								name: chunk.name,
+								input: chunk.input,
+							})
+							const toolUse = parseNativeToolUse(chunk.id, chunk.name, chunk.input)
+							if (toolUse) {
+								nativeToolUses.push(toolUse)
+							}
+							this.assistantMessageContent = [...parseAssistantMessage(assistantMessage), ...nativeToolUses]
+							this.userMessageContentReady = false
+							this.presentAssistantMessage()
+							break
+						}
 					}
 
 					if (this.abort) {
@@ -3186,7 +4044,7 @@ export class Cline {
 					// UPDATE: it's better UX to interrupt the request at the cost of the api cost not being retrieved
 					if (this.didAlreadyUseTool) {
 						assistantMessage +=
-							"\n\n[Response interrupted by a tool use result. Only one tool may be used at a time and should be placed at the end of the message.]"
+							"\n\n[Response interrupted by a tool use result. Only one tool (or several read-only tools) may be used at a time and should be placed at the end of the message.]"
 						break
 					}
 				}
@@ -3232,10 +4090,13 @@ export class Cline {
 			// now add to apiconversationhistory
 			// need to save assistant responses to file before proceeding to tool use since user can exit at any moment and we wouldn't be able to save the assistant's response
 			let didEndLoop = false
-			if (assistantMessage.length > 0) {
+			if (assistantMessage.length > 0 || nativeToolUseBlocks.length > 0) {
 				await this.addToApiConversationHistory({
 					role: "assistant",
-					content: [{ type: "text", text: assistantMessage }],
+					content: [
+						...(assistantMessage.length > 0 ? [{ type: "text" as const, text: assistantMessage }] : []),
+						...nativeToolUseBlocks,
+					],
 				})
 
 				// NOTE: this comment is here for future reference - this was a workaround for userMessageContent not getting set to true. It was due to it not recursively calling for partial blocks when didRejectTool, so it would get stuck waiting for a partial block to complete before it could continue.
@@ -3260,6 +4121,25 @@ export class Cline {
 					this.consecutiveMistakeCount++
 				}
 
+				if (nativeToolUseBlocks.length > 0) {
+					// every tool_use block needs a matching tool_result (e.g. calls to unknown tools never get presented), and the api requires tool results to come before any other user content
+					const answeredToolUseIds = new Set(
+						this.userMessageContent.flatMap((block) => (block.type === "tool_result" ? [block.tool_use_id] : [])),
+					)
+					const missingToolResults: Anthropic.ToolResultBlockParam[] = nativeToolUseBlocks
+						.filter((block) => !answeredToolUseIds.has(block.id))
+						.map((block) => ({
+							type: "tool_result",
+							tool_use_id: block.id,
+							content: `Tool [${block.name}] was not executed.`,
+						}))
+					this.userMessageContent = [
+						...this.userMessageContent.filter((block) => block.type === "tool_result"),
+						...missingToolResults,
+						...this.userMessageContent.filter((block) => block.type !== "tool_result"),
+					]
+				}
+
 				const recDidEndLoop = await this.recursivelyMakeClineRequests(this.userMessageContent)
 				didEndLoop = recDidEndLoop
 			} else {
@@ -3292,18 +4172,39 @@ export class Cline {
 			// (Note: this caused the @/ import alias bug where file contents were being parsed as well, since v2 converted tool results to text blocks)
 			Promise.all(
 				userContent.map(async (block) => {
+					// We need to ensure any user generated content is wrapped in one of these tags so that we know to parse mentions
+					// FIXME: Only parse text in between these tags instead of the entire text block which may contain other tool results. This is part of a larger issue where we shouldn't be using regex to parse mentions in the first place (ie for cases where file paths have spaces)
+					const parseMentionsIfUserContent = async (text: string) =>
+						text.includes("<feedback>") ||
+						text.includes("<answer>") ||
+						text.includes("<task>") ||
+						text.includes("<user_message>")
+							? await parseMentions(text, workspaceRoots, this.urlContentFetcher)
+							: text
 					if (block.type === "text") {
-						// We need to ensure any user generated content is wrapped in one of these tags so that we know to parse mentions
-						// FIXME: Only parse text in between these tags instead of the entire text block which may contain other tool results. This is part of a larger issue where we shouldn't be using regex to parse mentions in the first place (ie for cases where file paths have spaces)
-						if (
-							block.text.includes("<feedback>") ||
-							block.text.includes("<answer>") ||
-							block.text.includes("<task>") ||
-							block.text.includes("<user_message>")
-						) {
+						return {
+							...block,
+							text: await parseMentionsIfUserContent(block.text),
+						}
+					}
+					// native tool calls carry the user's feedback inside the tool_result instead of a text block
+					if (block.type === "tool_result") {
+						if (typeof block.content === "string") {
+							return {
+								...block,
+								content: await parseMentionsIfUserContent(block.content),
+							}
+						}
+						if (Array.isArray(block.content)) {
 							return {
 								...block,
-								text: await parseMentions(block.text, cwd, this.urlContentFetcher),
+								content: await Promise.all(
+									block.content.map(async (part) =>
+										part.type === "text"
+											? { ...part, text: await parseMentionsIfUserContent(part.text) }
+											: part,
+									),
+								),
 							}
 						}
 					}
@@ -3322,7 +4223,7 @@ export class Cline {
 		const visibleFilePaths = vscode.window.visibleTextEditors
 			?.map((editor) => editor.document?.uri?.fsPath)
 			.filter(Boolean)
-			.map((absolutePath) => path.relative(cwd, absolutePath))
+			.map((absolutePath) => workspaceRoots.getRelativePath(absolutePath))
 
 		// Filter paths through clineIgnoreController
 		const allowedVisibleFiles = this.clineIgnoreController
@@ -3336,12 +4237,32 @@ export class Cline {
 			details += "\n(No visible files)"
 		}
 
+		// from the symbol index as it is, without waiting for it to be built
+		const symbolIndex = this.providerRef.deref()?.workspaceTracker?.symbolIndex
+		const visibleFileDefinitions = this.clineIgnoreController
+			.filterPaths(visibleFilePaths)
+			.map((relPath) => {
+				const definitions = symbolIndex?.getDefinitions(workspaceRoots.resolvePath(relPath)) ?? []
+				if (definitions.length === 0) {
+					return undefined
+				}
+				const names = definitions.slice(0, 50).map((definition) => `${definition.kind} ${definition.name}`)
+				const more = definitions.length > 50 ? ` (+${definitions.length - 50} more)` : ""
+				return `${relPath.toPosix()}: ${names.join(", ")}${more}`
+			})
+			.filter(Boolean)
+		if (visibleFileDefinitions.length > 0) {
+			details += "\n\n# Visible Files' Definitions"
+			details += `\n${visibleFileDefinitions.join("\n")}`
+			details += "\n(Use lookup_symbol to find where these are used, or where the symbols they use are defined.)"
+		}
+
 		details += "\n\n# VSCode Open Tabs"
 		const openTabPaths = vscode.window.tabGroups.all
 			.flatMap((group) => group.tabs)
 			.map((tab) => (tab.input as vscode.TabInputText)?.uri?.fsPath)
 			.filter(Boolean)
-			.map((absolutePath) => path.relative(cwd, absolutePath))
+			.map((absolutePath) => workspaceRoots.getRelativePath(absolutePath))
 
 		// Filter paths through clineIgnoreController
 		const allowedOpenTabs = this.clineIgnoreController
@@ -3355,8 +4276,14 @@ export class Cline {
 			details += "\n(No open tabs)"
 		}
 
-		const busyTerminals = this.terminalManager.getTerminals(true)
-		const inactiveTerminals = this.terminalManager.getTerminals(false)
+		// the same manager when headless, so its terminals aren't listed twice
+		const terminalManagers = [...new Set([this.terminalManager, this.backgroundTerminalManager])]
+		const busyTerminals = terminalManagers.flatMap((manager) =>
+			manager.getTerminals(true).map((terminal) => ({ ...terminal, manager })),
+		)
+		const inactiveTerminals = terminalManagers.flatMap((manager) =>
+			manager.getTerminals(false).map((terminal) => ({ ...terminal, manager })),
+		)
 		// const allTerminals = [...busyTerminals, ...inactiveTerminals]
 
 		if (busyTerminals.length > 0 && this.didEditFile) {
@@ -3368,7 +4295,7 @@ export class Cline {
 		if (busyTerminals.length > 0) {
 			// wait for terminals to cool down
 			// terminalWasBusy = allTerminals.some((t) => this.terminalManager.isProcessHot(t.id))
-			await pWaitFor(() => busyTerminals.every((t) => !this.terminalManager.isProcessHot(t.id)), {
+			await pWaitFor(() => busyTerminals.every((t) => !t.manager.isProcessHot(t.id)), {
 				interval: 100,
 				timeout: 15_000,
 			}).catch(() => {})
@@ -3400,7 +4327,7 @@ export class Cline {
 			terminalDetails += "\n\n# Actively Running Terminals"
 			for (const busyTerminal of busyTerminals) {
 				terminalDetails += `\n## Original command: \`${busyTerminal.lastCommand}\``
-				const newOutput = this.terminalManager.getUnretrievedOutput(busyTerminal.id)
+				const newOutput = busyTerminal.manager.getUnretrievedOutput(busyTerminal.id)
 				if (newOutput) {
 					terminalDetails += `\n### New Output\n${newOutput}`
 				} else {
@@ -3410,21 +4337,19 @@ export class Cline {
 		}
 		// only show inactive terminals if there's output to show
 		if (inactiveTerminals.length > 0) {
-			const inactiveTerminalOutputs = new Map<number, string>()
+			// terminal ids are only unique per manager, so keep the outputs with their terminals
+			const inactiveTerminalOutputs = new Map<(typeof inactiveTerminals)[number], string>()
 			for (const inactiveTerminal of inactiveTerminals) {
-				const newOutput = this.terminalManager.getUnretrievedOutput(inactiveTerminal.id)
+				const newOutput = inactiveTerminal.manager.getUnretrievedOutput(inactiveTerminal.id)
 				if (newOutput) {
-					inactiveTerminalOutputs.set(inactiveTerminal.id, newOutput)
+					inactiveTerminalOutputs.set(inactiveTerminal, newOutput)
 				}
 			}
 			if (inactiveTerminalOutputs.size > 0) {
 				terminalDetails += "\n\n# Inactive Terminals"
-				for (const [terminalId, newOutput] of inactiveTerminalOutputs) {
-					const inactiveTerminal = inactiveTerminals.find((t) => t.id === terminalId)
-					if (inactiveTerminal) {
-						terminalDetails += `\n## ${inactiveTerminal.lastCommand}`
-						terminalDetails += `\n### New Output\n${newOutput}`
-					}
+				for (const [inactiveTerminal, newOutput] of inactiveTerminalOutputs) {
+					terminalDetails += `\n## ${inactiveTerminal.lastCommand}`
+					terminalDetails += `\n### New Output\n${newOutput}`
 				}
 			}
 		}
@@ -3440,6 +4365,26 @@ export class Cline {
 			details += terminalDetails
 		}
 
+		const updatedMcpResources = Array.from(this.mcpResourceSubscriptions.values()).filter(
+			(subscription) => subscription.isUpdated,
+		)
+		if (updatedMcpResources.length > 0) {
+			details += "\n\n# MCP Resource Updates"
+			for (const subscription of updatedMcpResources) {
+				subscription.isUpdated = false
+				details += `\n## ${subscription.uri} (${subscription.serverName})`
+				try {
+					const resourceResult = await this.providerRef
+						.deref()
+						?.mcpHub?.readResource(subscription.serverName, subscription.uri)
+					const resourceText = resourceResult ? formatMcpResourceResult(resourceResult).text : "(Empty response)"
+					details += `\n${this.limitMcpResourceResult(subscription.serverName, resourceText)}`
+				} catch (error) {
+					details += `\n(Failed to read the updated resource: ${error.message})`
+				}
+			}
+		}
+
 		// Add current time information with timezone
 		const now = new Date()
 		const formatter = new Intl.DateTimeFormat(undefined, {
@@ -3463,9 +4408,17 @@ export class Cline {
 				// don't want to immediately access desktop since it would show permission popup
 				details += "(Desktop files not shown automatically. Use list_files to explore if needed.)"
 			} else {
-				const [files, didHitLimit] = await listFiles(cwd, true, 200)
+				const limit = Math.ceil(200 / workspaceRoots.roots.length)
+				const [files, didHitLimit] = await listFiles(cwd, true, limit)
 				const result = formatResponse.formatFilesList(cwd, files, didHitLimit, this.clineIgnoreController)
 				details += result
+				// the other folders of a multi-root workspace
+				for (const root of workspaceRoots.roots.slice(1)) {
+					details += `\n\n# Workspace Folder '${root.name}' (${root.path.toPosix()}) Files\n`
+					details += `(Use paths prefixed with '${root.name}/' for files in this folder.)\n`
+					const [files, didHitLimit] = await listFiles(root.path, true, limit)
+					details += formatResponse.formatFilesList(root.path, files, didHitLimit, this.clineIgnoreController)
+				}
 			}
 		}
 
@@ -1,6 +1,7 @@
 export type AssistantMessageContent = TextContent | ToolUse
 
 export { parseAssistantMessage } from "./parse-assistant-message"
+export { getNativeToolDefinitions, parseNativeToolUse } from "./tools"
 
 export interface TextContent {
 	type: "text"
@@ -16,9 +17,11 @@ export const toolUseNames = [
 	"search_files",
 	"list_files",
 	"list_code_definition_names",
+	"lookup_symbol",
 	"browser_action",
 	"use_mcp_tool",
 	"access_mcp_resource",
+	"delegate_task",
 	"ask_followup_question",
 	"plan_mode_response",
 	"attempt_completion",
@@ -27,9 +30,21 @@ export const toolUseNames = [
 // Converts array of tool call names into a union type ("execute_command" | "read_file" | ...)
 export type ToolUseName = (typeof toolUseNames)[number]
 
+// Tools without side effects, several of which may be used in the same message. use_mcp_tool counts as well when the server
+// marks the tool as read-only.
+export const readOnlyToolUseNames: ToolUseName[] = [
+	"read_file",
+	"list_files",
+	"search_files",
+	"list_code_definition_names",
+	"lookup_symbol",
+	"access_mcp_resource",
+]
+
 export const toolParamNames = [
 	"command",
 	"requires_approval",
+	"background",
 	"path",
 	"content",
 	"diff",
@@ -47,6 +62,10 @@ export const toolParamNames = [
 	"question",
 	"response",
 	"result",
+	"task",
+	"mode",
+	"model",
+	"symbol",
 ] as const
 
 export type ToolParamName = (typeof toolParamNames)[number]
@@ -57,12 +76,14 @@ export interface ToolUse {
 	// params is a partial record, allowing only some or none of the possible parameters to be used
 	params: Partial<Record<ToolParamName, string>>
 	partial: boolean
+	// set when the tool use came from a structured function call rather than parsed XML, so its result can be returned as a matching tool_result
+	id?: string
 }
 
 export interface ExecuteCommandToolUse extends ToolUse {
 	name: "execute_command"
 	// Pick<Record<ToolParamName, string>, "command"> makes "command" required, but Partial<> makes it optional
-	params: Partial<Pick<Record<ToolParamName, string>, "command" | "requires_approval">>
+	params: Partial<Pick<Record<ToolParamName, string>, "command" | "requires_approval" | "background">>
 }
 
 export interface ReadFileToolUse extends ToolUse {
@@ -95,6 +116,11 @@ export interface ListCodeDefinitionNamesToolUse extends ToolUse {
 	params: Partial<Pick<Record<ToolParamName, string>, "path">>
 }
 
+export interface LookupSymbolToolUse extends ToolUse {
+	name: "lookup_symbol"
+	params: Partial<Pick<Record<ToolParamName, string>, "symbol">>
+}
+
 export interface BrowserActionToolUse extends ToolUse {
 	name: "browser_action"
 	params: Partial<Pick<Record<ToolParamName, string>, "action" | "url" | "coordinate" | "text">>
@@ -110,6 +136,11 @@ export interface AccessMcpResourceToolUse extends ToolUse {
 	params: Partial<Pick<Record<ToolParamName, string>, "server_name" | "uri">>
 }
 
+export interface DelegateTaskToolUse extends ToolUse {
+	name: "delegate_task"
+	params: Partial<Pick<Record<ToolParamName, string>, "task" | "mode" | "model">>
+}
+
 export interface AskFollowupQuestionToolUse extends ToolUse {
 	name: "ask_followup_question"
 	params: Partial<Pick<Record<ToolParamName, string>, "question">>
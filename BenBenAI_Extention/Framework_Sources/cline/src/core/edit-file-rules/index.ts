@@ -0,0 +1,35 @@
+import ignore from "ignore"
+import * as path from "path"
+import { WorkspaceRoots } from "../../integrations/workspace/WorkspaceRoots"
+import { AutoApprovalSettings } from "../../shared/AutoApprovalSettings"
+import "../../utils/path" // for String.prototype.toPosix
+
+/*
+Edit file rules narrow down which edits the editFiles auto-approval setting covers. They're globs in .gitignore syntax,
+matched against the file's path relative to the workspace folder it's in, so files outside the workspace always need
+approval once any rule is set.
+*/
+
+export function isEditPathAutoApproved(
+	rules: AutoApprovalSettings["editFileRules"],
+	workspaceRoots: WorkspaceRoots,
+	relPath?: string,
+): boolean {
+	const { include, exclude } = rules
+	if (include.length === 0 && exclude.length === 0) {
+		return true
+	}
+	if (!relPath) {
+		return false
+	}
+	const absolutePath = workspaceRoots.resolvePath(relPath)
+	const root = workspaceRoots.getRootForPath(absolutePath)
+	const relativePath = root ? path.relative(root.path, absolutePath).toPosix() : undefined
+	if (!relativePath) {
+		return false
+	}
+	if (include.length > 0 && !ignore().add(include).ignores(relativePath)) {
+		return false
+	}
+	return !ignore().add(exclude).ignores(relativePath)
+}
@@ -1,4 +1,5 @@
 import { ClineIgnoreController } from "./ClineIgnoreController"
+import { WorkspaceRoots } from "../../integrations/workspace/WorkspaceRoots"
 import fs from "fs/promises"
 import path from "path"
 import os from "os"
@@ -22,7 +23,7 @@ describe("ClineIgnoreController", () => {
 			),
 		)
 
-		controller = new ClineIgnoreController(tempDir)
+		controller = new ClineIgnoreController(WorkspaceRoots.fromPath(tempDir))
 		await controller.initialize()
 	})
 
@@ -85,7 +86,7 @@ describe("ClineIgnoreController", () => {
 				["*.secret", "private/", "*.tmp", "data-*.json", "temp/*"].join("\n"),
 			)
 
-			controller = new ClineIgnoreController(tempDir)
+			controller = new ClineIgnoreController(WorkspaceRoots.fromPath(tempDir))
 			await controller.initialize()
 
 			const results = [
@@ -116,7 +117,7 @@ describe("ClineIgnoreController", () => {
 		// 		].join("\n"),
 		// 	)
 
-		// 	controller = new ClineIgnoreController(tempDir)
+		// 	controller = new ClineIgnoreController(WorkspaceRoots.fromPath(tempDir))
 
 		// 	const results = [
 		// 		// Basic negation
@@ -155,7 +156,7 @@ describe("ClineIgnoreController", () => {
 				["# Comment line", "*.secret", "private/", "temp.*"].join("\n"),
 			)
 
-			controller = new ClineIgnoreController(tempDir)
+			controller = new ClineIgnoreController(WorkspaceRoots.fromPath(tempDir))
 			await controller.initialize()
 
 			const result = controller.validateAccess("test.secret")
@@ -223,7 +224,7 @@ describe("ClineIgnoreController", () => {
 			await fs.mkdir(emptyDir)
 
 			try {
-				const controller = new ClineIgnoreController(emptyDir)
+				const controller = new ClineIgnoreController(WorkspaceRoots.fromPath(emptyDir))
 				await controller.initialize()
 				const result = controller.validateAccess("file.txt")
 				result.should.be.true()
@@ -235,11 +236,37 @@ describe("ClineIgnoreController", () => {
 		it("should handle empty .clineignore", async () => {
 			await fs.writeFile(path.join(tempDir, ".clineignore"), "")
 
-			controller = new ClineIgnoreController(tempDir)
+			controller = new ClineIgnoreController(WorkspaceRoots.fromPath(tempDir))
 			await controller.initialize()
 
 			const result = controller.validateAccess("regular-file.txt")
 			result.should.be.true()
 		})
 	})
+
+	describe("Multi-root Workspaces", () => {
+		it("should apply each folder's .clineignore to its own files", async () => {
+			const otherDir = path.join(os.tmpdir(), `llm-test-other-${Date.now()}`)
+			await fs.mkdir(otherDir)
+			await fs.writeFile(path.join(otherDir, ".clineignore"), "*.log")
+
+			try {
+				const roots = new WorkspaceRoots([
+					{ name: "main", path: tempDir },
+					{ name: "other", path: otherDir },
+				])
+				controller = new ClineIgnoreController(roots)
+				await controller.initialize()
+
+				controller.validateAccess("other/debug.log").should.be.false()
+				controller.validateAccess("other/.env").should.be.true()
+				controller.validateAccess("main/.env").should.be.false()
+				controller.validateAccess(".env").should.be.false()
+				controller.validateAccess("debug.log").should.be.true()
+				controller.clineIgnoreContent!.should.containEql("# other/.clineignore\n*.log")
+			} finally {
+				await fs.rm(otherDir, { recursive: true, force: true })
+			}
+		})
+	})
 })
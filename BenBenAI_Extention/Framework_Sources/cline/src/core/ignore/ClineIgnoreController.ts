@@ -3,6 +3,7 @@ import { fileExistsAtPath } from "../../utils/fs"
 import fs from "fs/promises"
 import ignore, { Ignore } from "ignore"
 import * as vscode from "vscode"
+import { WorkspaceRoot, WorkspaceRoots } from "../../integrations/workspace/WorkspaceRoots"
 
 export const LOCK_TEXT_SYMBOL = "\u{1F512}"
 
@@ -10,19 +11,30 @@ export const LOCK_TEXT_SYMBOL = "\u{1F512}"
  * Controls LLM access to files by enforcing ignore patterns.
  * Designed to be instantiated once in Cline.ts and passed to file manipulation services.
  * Uses the 'ignore' library to support standard .gitignore syntax in .clineignore files.
+ * Each workspace folder's .clineignore applies to the files in that folder.
  */
 export class ClineIgnoreController {
-	private cwd: string
-	private ignoreInstance: Ignore
+	private workspaceRoots: WorkspaceRoots
+	private ignoreInstances = new Map<string, { instance: Ignore; content: string }>() // by workspace folder path
 	private disposables: vscode.Disposable[] = []
-	clineIgnoreContent: string | undefined
-
-	constructor(cwd: string) {
-		this.cwd = cwd
-		this.ignoreInstance = ignore()
-		this.clineIgnoreContent = undefined
-		// Set up file watcher for .clineignore
-		this.setupFileWatcher()
+
+	constructor(workspaceRoots: WorkspaceRoots) {
+		this.workspaceRoots = workspaceRoots
+		// Set up file watchers for .clineignore
+		this.workspaceRoots.roots.forEach((root) => this.setupFileWatcher(root))
+	}
+
+	/**
+	 * The contents of the .clineignore files, headed by their paths in multi-root workspaces
+	 */
+	get clineIgnoreContent(): string | undefined {
+		const contents = this.workspaceRoots.roots
+			.filter((root) => this.ignoreInstances.has(root.path))
+			.map((root) => {
+				const content = this.ignoreInstances.get(root.path)!.content
+				return this.workspaceRoots.isMultiRoot ? `# ${root.name}/.clineignore\n${content}` : content
+			})
+		return contents.length > 0 ? contents.join("\n\n") : undefined
 	}
 
 	/**
@@ -30,26 +42,26 @@ export class ClineIgnoreController {
 	 * Must be called after construction and before using the controller
 	 */
 	async initialize(): Promise<void> {
-		await this.loadClineIgnore()
+		await Promise.all(this.workspaceRoots.roots.map((root) => this.loadClineIgnore(root)))
 	}
 
 	/**
 	 * Set up the file watcher for .clineignore changes
 	 */
-	private setupFileWatcher(): void {
-		const clineignorePattern = new vscode.RelativePattern(this.cwd, ".clineignore")
+	private setupFileWatcher(root: WorkspaceRoot): void {
+		const clineignorePattern = new vscode.RelativePattern(root.path, ".clineignore")
 		const fileWatcher = vscode.workspace.createFileSystemWatcher(clineignorePattern)
 
 		// Watch for changes and updates
 		this.disposables.push(
 			fileWatcher.onDidChange(() => {
-				this.loadClineIgnore()
+				this.loadClineIgnore(root)
 			}),
 			fileWatcher.onDidCreate(() => {
-				this.loadClineIgnore()
+				this.loadClineIgnore(root)
 			}),
 			fileWatcher.onDidDelete(() => {
-				this.loadClineIgnore()
+				this.loadClineIgnore(root)
 			}),
 		)
 
@@ -60,18 +72,16 @@ export class ClineIgnoreController {
 	/**
 	 * Load custom patterns from .clineignore if it exists
 	 */
-	private async loadClineIgnore(): Promise<void> {
+	private async loadClineIgnore(root: WorkspaceRoot): Promise<void> {
 		try {
-			// Reset ignore instance to prevent duplicate patterns
-			this.ignoreInstance = ignore()
-			const ignorePath = path.join(this.cwd, ".clineignore")
-			if (await fileExistsAtPath(ignorePath)) {
-				const content = await fs.readFile(ignorePath, "utf8")
-				this.clineIgnoreContent = content
-				this.ignoreInstance.add(content)
-				this.ignoreInstance.add(".clineignore")
+			// Replace the folder's ignore instance to prevent duplicate patterns
+			const ignorePath = path.join(root.path, ".clineignore")
+			const content = (await fileExistsAtPath(ignorePath)) ? await fs.readFile(ignorePath, "utf8") : ""
+			// an empty .clineignore blocks nothing, not even itself
+			if (content) {
+				this.ignoreInstances.set(root.path, { instance: ignore().add(content).add(".clineignore"), content })
 			} else {
-				this.clineIgnoreContent = undefined
+				this.ignoreInstances.delete(root.path)
 			}
 		} catch (error) {
 			// Should never happen: reading file failed even though it exists
@@ -81,24 +91,30 @@ export class ClineIgnoreController {
 
 	/**
 	 * Check if a file should be accessible to the LLM
-	 * @param filePath - Path to check (relative to cwd)
+	 * @param filePath - Path to check (relative to cwd, prefixed with a workspace folder's name, or absolute)
 	 * @returns true if file is accessible, false if ignored
 	 */
 	validateAccess(filePath: string): boolean {
 		// Always allow access if .clineignore does not exist
-		if (!this.clineIgnoreContent) {
+		if (this.ignoreInstances.size === 0) {
 			return true
 		}
 		try {
-			// Normalize path to be relative to cwd and use forward slashes
-			const absolutePath = path.resolve(this.cwd, filePath)
-			const relativePath = path.relative(this.cwd, absolutePath).toPosix()
+			const absolutePath = this.workspaceRoots.resolvePath(filePath)
+			// We are allowing access to all files outside the workspace folders
+			const root = this.workspaceRoots.getRootForPath(absolutePath)
+			const ignoreInstance = root && this.ignoreInstances.get(root.path)?.instance
+			if (!root || !ignoreInstance) {
+				return true
+			}
+			// Normalize path to be relative to the folder and use forward slashes
+			const relativePath = path.relative(root.path, absolutePath).toPosix()
 
 			// Ignore expects paths to be path.relative()'d
-			return !this.ignoreInstance.ignores(relativePath)
+			return !ignoreInstance.ignores(relativePath)
 		} catch (error) {
 			// console.error(`Error validating access for ${filePath}:`, error)
-			// Ignore is designed to work with relative file paths, so will throw error for paths outside cwd. We are allowing access to all files outside cwd.
+			// Ignore is designed to work with relative file paths, so will throw error for paths it can't handle, like the folder itself. We are allowing access to those.
 			return true
 		}
 	}
@@ -110,7 +126,7 @@ export class ClineIgnoreController {
 	 */
 	validateCommand(command: string): string | undefined {
 		// Always allow if no .clineignore exists
-		if (!this.clineIgnoreContent) {
+		if (this.ignoreInstances.size === 0) {
 			return undefined
 		}
 
@@ -10,20 +10,22 @@ import { diagnosticsToProblemsString } from "../../integrations/diagnostics"
 import { getLatestTerminalOutput } from "../../integrations/terminal/get-latest-output"
 import { getCommitInfo } from "../../utils/git"
 import { getWorkingState } from "../../utils/git"
+import { WorkspaceRoots } from "../../integrations/workspace/WorkspaceRoots"
+import { getSymbolMentionContent, openWorkspaceSymbol } from "../../integrations/misc/workspace-symbols"
 
 export function openMention(mention?: string): void {
 	if (!mention) {
 		return
 	}
 
-	const cwd = vscode.workspace.workspaceFolders?.map((folder) => folder.uri.fsPath).at(0)
-	if (!cwd) {
+	const workspaceRoots = WorkspaceRoots.fromFolders(vscode.workspace.workspaceFolders)
+	if (!workspaceRoots) {
 		return
 	}
 
 	if (mention.startsWith("/")) {
 		const relPath = mention.slice(1)
-		const absPath = path.resolve(cwd, relPath)
+		const absPath = workspaceRoots.resolvePath(relPath)
 		if (mention.endsWith("/")) {
 			vscode.commands.executeCommand("revealInExplorer", vscode.Uri.file(absPath))
 		} else {
@@ -35,10 +37,19 @@ export function openMention(mention?: string): void {
 		vscode.commands.executeCommand("workbench.action.terminal.focus")
 	} else if (mention.startsWith("http")) {
 		vscode.env.openExternal(vscode.Uri.parse(mention))
+	} else if (mention.startsWith("symbol:")) {
+		openWorkspaceSymbol(mention.slice("symbol:".length), workspaceRoots).catch((error) => {
+			vscode.window.showErrorMessage(`Could not open symbol: ${error instanceof Error ? error.message : String(error)}`)
+		})
 	}
 }
 
-export async function parseMentions(text: string, cwd: string, urlContentFetcher: UrlContentFetcher): Promise<string> {
+export async function parseMentions(
+	text: string,
+	workspaceRoots: WorkspaceRoots,
+	urlContentFetcher: UrlContentFetcher,
+): Promise<string> {
+	const cwd = workspaceRoots.cwd
 	const mentions: Set<string> = new Set()
 	let parsedText = text.replace(mentionRegexGlobal, (match, mention) => {
 		mentions.add(mention)
@@ -57,6 +68,8 @@ export async function parseMentions(text: string, cwd: string, urlContentFetcher
 			return `Working directory changes (see below for details)`
 		} else if (/^[a-f0-9]{7,40}$/.test(mention)) {
 			return `Git commit '${mention}' (see below for commit info)`
+		} else if (mention.startsWith("symbol:")) {
+			return `Symbol '${mention.slice("symbol:".length)}' (see below for its definition and references)`
 		}
 		return match
 	})
@@ -90,7 +103,7 @@ export async function parseMentions(text: string, cwd: string, urlContentFetcher
 		} else if (mention.startsWith("/")) {
 			const mentionPath = mention.slice(1)
 			try {
-				const content = await getFileOrFolderContent(mentionPath, cwd)
+				const content = await getFileOrFolderContent(mentionPath, workspaceRoots)
 				if (mention.endsWith("/")) {
 					parsedText += `\n\n<folder_content path="${mentionPath}">\n${content}\n</folder_content>`
 				} else {
@@ -105,7 +118,7 @@ export async function parseMentions(text: string, cwd: string, urlContentFetcher
 			}
 		} else if (mention === "problems") {
 			try {
-				const problems = getWorkspaceProblems(cwd)
+				const problems = getWorkspaceProblems(workspaceRoots)
 				parsedText += `\n\n<workspace_diagnostics>\n${problems}\n</workspace_diagnostics>`
 			} catch (error) {
 				parsedText += `\n\n<workspace_diagnostics>\nError fetching diagnostics: ${error.message}\n</workspace_diagnostics>`
@@ -131,6 +144,14 @@ export async function parseMentions(text: string, cwd: string, urlContentFetcher
 			} catch (error) {
 				parsedText += `\n\n<git_commit hash="${mention}">\nError fetching commit info: ${error.message}\n</git_commit>`
 			}
+		} else if (mention.startsWith("symbol:")) {
+			const symbolName = mention.slice("symbol:".length)
+			try {
+				const symbolContent = await getSymbolMentionContent(symbolName, workspaceRoots)
+				parsedText += `\n\n<symbol_content name="${symbolName}">\n${symbolContent}\n</symbol_content>`
+			} catch (error) {
+				parsedText += `\n\n<symbol_content name="${symbolName}">\nError fetching symbol: ${error.message}\n</symbol_content>`
+			}
 		}
 	}
 
@@ -145,8 +166,9 @@ export async function parseMentions(text: string, cwd: string, urlContentFetcher
 	return parsedText
 }
 
-async function getFileOrFolderContent(mentionPath: string, cwd: string): Promise<string> {
-	const absPath = path.resolve(cwd, mentionPath)
+// mentionPath is prefixed with the workspace folder's name in multi-root workspaces
+async function getFileOrFolderContent(mentionPath: string, workspaceRoots: WorkspaceRoots): Promise<string> {
+	const absPath = workspaceRoots.resolvePath(mentionPath)
 
 	try {
 		const stats = await fs.stat(absPath)
@@ -201,12 +223,12 @@ async function getFileOrFolderContent(mentionPath: string, cwd: string): Promise
 	}
 }
 
-function getWorkspaceProblems(cwd: string): string {
+function getWorkspaceProblems(workspaceRoots: WorkspaceRoots): string {
 	const diagnostics = vscode.languages.getDiagnostics()
 	const result = diagnosticsToProblemsString(
 		diagnostics,
 		[vscode.DiagnosticSeverity.Error, vscode.DiagnosticSeverity.Warning],
-		cwd,
+		workspaceRoots,
 	)
 	if (!result) {
 		return "No errors or warnings detected."
@@ -1,6 +1,7 @@
 import { Anthropic } from "@anthropic-ai/sdk"
 import * as diff from "diff"
 import * as path from "path"
+import { TerminalCommandResult } from "../../integrations/terminal/TerminalProcess"
 import { ClineIgnoreController, LOCK_TEXT_SYMBOL } from "../ignore/ClineIgnoreController"
 
 export const formatResponse = {
@@ -11,6 +12,9 @@ export const formatResponse = {
 	clineIgnoreError: (path: string) =>
 		`Access to ${path} is blocked by the .clineignore file settings. You must try to continue in the task without using this file, or ask the user to update the .clineignore file.`,
 
+	commandPolicyError: (command: string, pattern: string) =>
+		`The command \`${command}\` is blocked by the rule \`${pattern}\` in the user's command policy. You must try to continue in the task without running it, or ask the user to update the command policy.`,
+
 	noToolsUsed: () =>
 		`[ERROR] You did not use a tool in your previous response! Please retry with a tool use.
 
@@ -32,6 +36,9 @@ Otherwise, if you have not completed the task and do not need additional informa
 	invalidMcpToolArgumentError: (serverName: string, toolName: string) =>
 		`Invalid JSON argument used with ${serverName} for ${toolName}. Please retry with a properly formatted JSON argument.`,
 
+	mcpToolArgumentSchemaError: (serverName: string, toolName: string, errors: string[], inputSchema?: object) =>
+		`The arguments used with ${serverName} for ${toolName} don't match the tool's input schema:\n${errors.map((error) => `- ${error}`).join("\n")}\n\nThe tool's input schema is:\n${JSON.stringify(inputSchema, null, 2)}\n\nPlease retry with arguments that match the schema.`,
+
 	toolResult: (text: string, images?: string[]): string | Array<Anthropic.TextBlockParam | Anthropic.ImageBlockParam> => {
 		if (images && images.length > 0) {
 			const textBlock: Anthropic.TextBlockParam = { type: "text", text }
@@ -43,6 +50,23 @@ Otherwise, if you have not completed the task and do not need additional informa
 		}
 	},
 
+	commandExecuted: (output: string, result?: TerminalCommandResult): string => {
+		if (!result) {
+			// sent to a terminal without shell integration, so we don't know anything about how it went
+			return `Command executed.${output.length > 0 ? `\nOutput:\n${output}` : ""}`
+		}
+		const exitStatus = result.exitCode !== undefined ? ` with exit code ${result.exitCode}` : ""
+		const summary = result.timedOut
+			? `Command timed out and was stopped after ${(result.durationMs / 1000).toFixed(1)}s.`
+			: `Command executed${exitStatus} in ${(result.durationMs / 1000).toFixed(1)}s.`
+		if (result.stdout !== undefined && result.stderr !== undefined) {
+			const stdout = result.stdout.trim()
+			const stderr = result.stderr.trim()
+			return `${summary}${stdout ? `\nStdout:\n${stdout}` : ""}${stderr ? `\nStderr:\n${stderr}` : ""}`
+		}
+		return `${summary}${output.length > 0 ? `\nOutput:\n${output}` : ""}`
+	},
+
 	imageBlocks: (images?: string[]): Anthropic.ImageBlockParam[] => {
 		return formatImagesIntoBlocks(images)
 	},
@@ -0,0 +1,113 @@
+import fs from "fs/promises"
+import { afterEach, beforeEach, describe, it } from "mocha"
+import os from "os"
+import path from "path"
+import "should"
+import { WorkspaceRoots } from "../../integrations/workspace/WorkspaceRoots"
+import "../../utils/path"
+import { getClineRules, parseRuleFrontMatter } from "."
+
+describe("Cline Rules", () => {
+	let tempDir: string
+
+	const writeFile = async (relativePath: string, content: string) => {
+		const filePath = path.join(tempDir, relativePath)
+		await fs.mkdir(path.dirname(filePath), { recursive: true })
+		await fs.writeFile(filePath, content)
+	}
+
+	beforeEach(async () => {
+		tempDir = path.join(os.tmpdir(), `llm-test-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+		await fs.mkdir(tempDir)
+	})
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true })
+	})
+
+	describe("parseRuleFrontMatter", () => {
+		it("should return the whole file when there is no front matter", () => {
+			parseRuleFrontMatter("  Use tabs.\n").should.deepEqual({ globs: [], content: "Use tabs." })
+		})
+
+		it("should parse comma separated, inline array and list globs", () => {
+			parseRuleFrontMatter("---\nglobs: packages/api/**, *.sql\n---\nbody").globs.should.deepEqual([
+				"packages/api/**",
+				"*.sql",
+			])
+			parseRuleFrontMatter("---\r\nglobs: [\"src/**\", 'test/**']\r\n---\r\nbody").globs.should.deepEqual([
+				"src/**",
+				"test/**",
+			])
+			const parsed = parseRuleFrontMatter('---\ndescription: api\nglobs:\n  - packages/api/**\n  - "*.sql"\n---\n\nbody')
+			parsed.globs.should.deepEqual(["packages/api/**", "*.sql"])
+			parsed.content.should.equal("body")
+		})
+	})
+
+	describe("getClineRules", () => {
+		it("should return nothing when there are no rules", async () => {
+			const rules = await getClineRules(WorkspaceRoots.fromPath(tempDir), [])
+			;(rules.instructions === undefined).should.be.true()
+			rules.activeRuleFiles.should.deepEqual([])
+		})
+
+		it("should always include a root .clinerules file", async () => {
+			await writeFile(".clinerules", "Use tabs.")
+			const rules = await getClineRules(WorkspaceRoots.fromPath(tempDir), [])
+			rules.activeRuleFiles.should.deepEqual([".clinerules"])
+			rules.instructions!.should.containEql("Use tabs.")
+		})
+
+		it("should only include glob-scoped rule files once a matching path is touched", async () => {
+			await writeFile(".clinerules/general.md", "Be concise.")
+			await writeFile(".clinerules/api.md", "---\nglobs: packages/api/**\n---\nValidate all input.")
+			;(await getClineRules(WorkspaceRoots.fromPath(tempDir), ["packages/web/index.ts"])).activeRuleFiles.should.deepEqual([
+				".clinerules/general.md",
+			])
+
+			const rules = await getClineRules(WorkspaceRoots.fromPath(tempDir), [
+				"packages/web/index.ts",
+				path.join(tempDir, "packages/api/server.ts"),
+			])
+			rules.activeRuleFiles.should.deepEqual([".clinerules/api.md", ".clinerules/general.md"])
+			rules.instructions!.should.containEql("Validate all input.")
+			rules.instructions!.should.not.containEql("globs:")
+		})
+
+		it("should include nested rules only when a file inside their directory is touched", async () => {
+			await writeFile("packages/api/.clinerules", "Use the api logger.")
+			await writeFile("packages/api/.clinerules-unrelated", "ignored")
+			await writeFile("packages/web/.clinerules/react.md", "---\nglobs: src/**/*.tsx\n---\nUse function components.")
+			;(await getClineRules(WorkspaceRoots.fromPath(tempDir), ["README.md"])).activeRuleFiles.should.deepEqual([])
+			;(
+				await getClineRules(WorkspaceRoots.fromPath(tempDir), ["packages/api/src/server.ts"])
+			).activeRuleFiles.should.deepEqual(["packages/api/.clinerules"])
+			// globs in nested rule files are relative to their directory
+			;(await getClineRules(WorkspaceRoots.fromPath(tempDir), ["packages/web/index.ts"])).activeRuleFiles.should.deepEqual(
+				[],
+			)
+			;(
+				await getClineRules(WorkspaceRoots.fromPath(tempDir), ["packages/web/src/App.tsx"])
+			).activeRuleFiles.should.deepEqual(["packages/web/.clinerules/react.md"])
+		})
+
+		it("should ignore paths outside the working directory", async () => {
+			await writeFile(".clinerules/api.md", "---\nglobs: api/**\n---\nValidate all input.")
+			;(await getClineRules(WorkspaceRoots.fromPath(tempDir), ["../api/server.ts"])).activeRuleFiles.should.deepEqual([])
+		})
+
+		it("should read each workspace folder's rules and match touched paths by folder", async () => {
+			await writeFile("api/.clinerules", "Validate all input.")
+			await writeFile("web/.clinerules/react.md", "---\nglobs: src/**\n---\nUse function components.")
+			const workspaceRoots = new WorkspaceRoots([
+				{ name: "api", path: path.join(tempDir, "api") },
+				{ name: "web", path: path.join(tempDir, "web") },
+			])
+			;(await getClineRules(workspaceRoots, ["src/App.tsx"])).activeRuleFiles.should.deepEqual(["api/.clinerules"])
+			const rules = await getClineRules(workspaceRoots, ["web/src/App.tsx"])
+			rules.activeRuleFiles.should.deepEqual(["api/.clinerules", "web/.clinerules/react.md"])
+			rules.instructions!.should.containEql(`web: ${path.join(tempDir, "web").toPosix()}`)
+		})
+	})
+})
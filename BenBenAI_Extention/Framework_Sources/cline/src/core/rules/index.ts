@@ -0,0 +1,164 @@
+import fs from "fs/promises"
+import ignore from "ignore"
+import path from "path"
+import { WorkspaceRoot, WorkspaceRoots } from "../../integrations/workspace/WorkspaceRoots"
+
+/*
+.clinerules can be either a single file or a directory of rule files, and can appear in the working directory root as well as in any subdirectory:
+- A root-level .clinerules file is always active (this is the original single-file behavior).
+- Each file in a root-level .clinerules/ directory is active unless it declares globs in its front matter, in which case it's only active once the task has touched (read or edited) a path matching one of them:
+	---
+	globs: packages/api/**, packages/shared/**
+	---
+- A .clinerules file or directory in a subdirectory is only picked up once the task touches a file inside that subdirectory, and globs in its rule files are relative to that subdirectory.
+Globs use .gitignore syntax (the same as .clineignore).
+In a multi-root workspace each folder has its own .clinerules, which apply to the files in that folder.
+*/
+
+export interface ClineRuleFile {
+	path: string // relative to cwd (prefixed with the workspace folder's name in multi-root workspaces), posix style
+	globs: string[]
+	content: string
+}
+
+export interface ClineRules {
+	instructions?: string
+	activeRuleFiles: string[]
+}
+
+export async function getClineRules(workspaceRoots: WorkspaceRoots, touchedPaths: string[]): Promise<ClineRules> {
+	const absoluteTouchedPaths = touchedPaths.map((p) => workspaceRoots.resolvePath(p))
+
+	const activeRules: ClineRuleFile[] = []
+	for (const root of workspaceRoots.roots) {
+		// paths outside the workspace folders don't activate any rules
+		const relativeTouchedPaths = absoluteTouchedPaths
+			.filter((p) => workspaceRoots.getRootForPath(p) === root)
+			.map((p) => path.relative(root.path, p).toPosix())
+			.filter(Boolean)
+
+		const ruleDirectories = new Set<string>([""])
+		for (const touchedPath of relativeTouchedPaths) {
+			let dir = path.posix.dirname(touchedPath)
+			while (dir !== "." && dir !== "/") {
+				ruleDirectories.add(dir)
+				dir = path.posix.dirname(dir)
+			}
+		}
+
+		for (const dir of [...ruleDirectories].sort()) {
+			const rules = await readRuleFiles(workspaceRoots, root, dir)
+			const pathsInDir = dir
+				? relativeTouchedPaths.filter((p) => p.startsWith(dir + "/")).map((p) => p.slice(dir.length + 1))
+				: relativeTouchedPaths
+			activeRules.push(...rules.filter((rule) => isRuleActive(rule, pathsInDir)))
+		}
+	}
+
+	if (activeRules.length === 0) {
+		return { activeRuleFiles: [] }
+	}
+
+	const location = workspaceRoots.isMultiRoot
+		? `these workspace folders (${workspaceRoots.roots.map((root) => `${root.name}: ${root.path.toPosix()}`).join(", ")})`
+		: `this working directory (${workspaceRoots.cwd.toPosix()})`
+	const ruleSections = activeRules.map((rule) => `## ${rule.path}\n\n${rule.content}`).join("\n\n")
+	return {
+		instructions: `# .clinerules\n\nThe following is provided by .clinerules files where the user has specified instructions for ${location}. Rules from a subdirectory's .clinerules apply to files within that subdirectory.\n\n${ruleSections}`,
+		activeRuleFiles: activeRules.map((rule) => rule.path),
+	}
+}
+
+function isRuleActive(rule: ClineRuleFile, touchedPaths: string[]): boolean {
+	if (rule.globs.length === 0) {
+		return true
+	}
+	const matcher = ignore().add(rule.globs)
+	return touchedPaths.some((p) => matcher.ignores(p))
+}
+
+// Reads the .clinerules file, or the files in the .clinerules directory, in the given directory (relative to the workspace folder)
+async function readRuleFiles(workspaceRoots: WorkspaceRoots, root: WorkspaceRoot, dir: string): Promise<ClineRuleFile[]> {
+	const rulesPath = path.join(root.path, dir, ".clinerules")
+	let stat
+	try {
+		stat = await fs.stat(rulesPath)
+	} catch {
+		return []
+	}
+
+	const filePaths = stat.isDirectory() ? await listFilesRecursively(rulesPath) : [rulesPath]
+	const ruleFiles: ClineRuleFile[] = []
+	for (const filePath of filePaths) {
+		try {
+			const { globs, content } = parseRuleFrontMatter(await fs.readFile(filePath, "utf8"))
+			if (content) {
+				// a lone .clinerules file keeps its original always-on behavior, even if it has front matter
+				ruleFiles.push({
+					path: workspaceRoots.getRelativePath(filePath),
+					globs: stat.isDirectory() ? globs : [],
+					content,
+				})
+			}
+		} catch {
+			console.error(`Failed to read .clinerules file at ${filePath}`)
+		}
+	}
+	return ruleFiles
+}
+
+async function listFilesRecursively(dirPath: string): Promise<string[]> {
+	const entries = await fs.readdir(dirPath, { withFileTypes: true })
+	const files: string[] = []
+	for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+		if (entry.name.startsWith(".")) {
+			continue
+		}
+		const entryPath = path.join(dirPath, entry.name)
+		if (entry.isDirectory()) {
+			files.push(...(await listFilesRecursively(entryPath)))
+		} else if (entry.isFile()) {
+			files.push(entryPath)
+		}
+	}
+	return files
+}
+
+/**
+ * Parses optional front matter at the top of a rule file. Only the globs key is used, given either as a comma separated
+ * string, an inline array, or a list:
+ *
+ * ---
+ * globs:
+ *   - packages/api/**
+ *   - "*.sql"
+ * ---
+ */
+export function parseRuleFrontMatter(text: string): { globs: string[]; content: string } {
+	const match = text.match(/^\uFEFF?---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/)
+	if (!match) {
+		return { globs: [], content: text.trim() }
+	}
+
+	const globs: string[] = []
+	let isInGlobsList = false
+	for (const line of match[1].split(/\r?\n/)) {
+		const keyMatch = line.match(/^(\w+):\s*(.*)$/)
+		if (keyMatch) {
+			isInGlobsList = keyMatch[1] === "globs" && !keyMatch[2]
+			if (keyMatch[1] === "globs" && keyMatch[2]) {
+				globs.push(...keyMatch[2].replace(/^\[|\]$/g, "").split(","))
+			}
+		} else if (isInGlobsList) {
+			const itemMatch = line.match(/^\s*-\s*(.+)$/)
+			if (itemMatch) {
+				globs.push(itemMatch[1])
+			}
+		}
+	}
+
+	return {
+		globs: globs.map((glob) => glob.trim().replace(/^["']|["']$/g, "")).filter(Boolean),
+		content: text.slice(match[0].length).trim(),
+	}
+}
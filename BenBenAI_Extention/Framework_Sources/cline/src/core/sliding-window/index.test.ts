@@ -0,0 +1,89 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import { describe, it } from "mocha"
+import "should"
+import { ApiHandler } from "../../api"
+import { ApiStream } from "../../api/transform/stream"
+import { getTruncatedMessages, summarizeConversationRange } from "."
+
+const messages: Anthropic.Messages.MessageParam[] = [
+	{ role: "user", content: "task" },
+	{ role: "assistant", content: "assistant1" },
+	{ role: "user", content: "user2" },
+	{ role: "assistant", content: "assistant2" },
+	{ role: "user", content: "user3" },
+	{ role: "assistant", content: "assistant3" },
+]
+
+function createMockApi(chunks: Awaited<ReturnType<ApiStream["next"]>>["value"][], requests: string[] = []): ApiHandler {
+	return {
+		async *createMessage(_systemPrompt, messages): ApiStream {
+			requests.push(messages[0].content as string)
+			for (const chunk of chunks) {
+				yield chunk
+			}
+		},
+		getModel: () => ({ id: "mock", info: { supportsPromptCache: false } }),
+	}
+}
+
+describe("Sliding Window", () => {
+	describe("getTruncatedMessages", () => {
+		it("should remove the deleted range", () => {
+			const truncated = getTruncatedMessages(messages, [1, 2])
+			truncated.map((m) => m.content).should.deepEqual(["task", "assistant2", "user3", "assistant3"])
+		})
+
+		it("should append the summary to the task message", () => {
+			const truncated = getTruncatedMessages(messages, [1, 2], "read index.ts")
+			truncated.length.should.equal(4)
+			truncated.map((m) => m.role).should.deepEqual(["user", "assistant", "user", "assistant"])
+			const taskContent = truncated[0].content as Anthropic.TextBlockParam[]
+			taskContent[0].text.should.equal("task")
+			taskContent[1].text.should.containEql("<conversation_summary>")
+			taskContent[1].text.should.containEql("read index.ts")
+			// the original history is left untouched
+			messages[0].content.should.equal("task")
+		})
+
+		it("should ignore the summary when nothing has been deleted", () => {
+			getTruncatedMessages(messages, undefined, "summary").should.equal(messages)
+		})
+	})
+
+	describe("summarizeConversationRange", () => {
+		it("should summarize only the messages in the range", async () => {
+			const requests: string[] = []
+			const api = createMockApi(
+				[
+					{ type: "text", text: "  The assistant read " },
+					{ type: "text", text: "index.ts.  " },
+					{ type: "usage", inputTokens: 100, outputTokens: 20 },
+				],
+				requests,
+			)
+			const result = await summarizeConversationRange(api, messages, [1, 2])
+			result.summary.should.equal("The assistant read index.ts.")
+			result.tokensIn.should.equal(100)
+			result.tokensOut.should.equal(20)
+			requests[0].should.containEql("assistant1")
+			requests[0].should.containEql("user2")
+			requests[0].should.not.containEql("assistant2")
+			requests[0].should.not.containEql("previous_summary")
+		})
+
+		it("should include the previous summary", async () => {
+			const requests: string[] = []
+			await summarizeConversationRange(
+				createMockApi([{ type: "text", text: "merged" }], requests),
+				messages,
+				[3, 4],
+				"earlier",
+			)
+			requests[0].should.containEql("<previous_summary>\nearlier\n</previous_summary>")
+		})
+
+		it("should throw when the model returns no summary", async () => {
+			await summarizeConversationRange(createMockApi([{ type: "text", text: " " }]), messages, [1, 2]).should.be.rejected()
+		})
+	})
+})
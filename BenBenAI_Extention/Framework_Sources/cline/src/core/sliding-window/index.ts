@@ -1,4 +1,5 @@
 import { Anthropic } from "@anthropic-ai/sdk"
+import { ApiHandler } from "../../api"
 
 /*
 We can't implement a dynamically updating sliding window as it would break prompt cache
@@ -85,6 +86,7 @@ export function getNextTruncationRange(
 export function getTruncatedMessages(
 	messages: Anthropic.Messages.MessageParam[],
 	deletedRange: [number, number] | undefined,
+	summary?: string,
 ): Anthropic.Messages.MessageParam[] {
 	if (!deletedRange) {
 		return messages
@@ -93,5 +95,111 @@ export function getTruncatedMessages(
 	const [start, end] = deletedRange
 	// the range is inclusive - both start and end indices and everything in between will be removed from the final result.
 	// NOTE: if you try to console log these, don't forget that logging a reference to an array may not provide the same result as logging a slice() snapshot of that array at that exact moment. The following DOES in fact include the latest assistant message.
-	return [...messages.slice(0, start), ...messages.slice(end + 1)]
+	const remainingMessages = [...messages.slice(0, start), ...messages.slice(end + 1)]
+	if (!summary) {
+		return remainingMessages
+	}
+
+	// The summary is appended to the task message rather than inserted as its own message, since the deleted range always ends on a user message and a separate user message here would break the user-assistant-user-assistant structure.
+	const [taskMessage, ...rest] = remainingMessages
+	const taskContent: Anthropic.Messages.ContentBlockParam[] =
+		typeof taskMessage.content === "string" ? [{ type: "text", text: taskMessage.content }] : taskMessage.content
+	return [
+		{
+			...taskMessage,
+			content: [...taskContent, { type: "text", text: formatConversationSummary(summary) }],
+		},
+		...rest,
+	]
+}
+
+/*
+Summarizing compaction: instead of silently dropping the deleted range, the active model is asked to summarize it (together with any earlier summary, since ranges always grow from the start) so that files read and decisions made in that part of the task survive truncation. The range itself is still calculated by getNextTruncationRange, so prompt caching behaves the same as with plain truncation.
+*/
+
+const SUMMARIZATION_SYSTEM_PROMPT = `You are summarizing part of a conversation between a user and an AI coding assistant that uses tools to work on a software task. The earlier messages are about to be removed from the assistant's context window, and your summary will take their place.
+
+Write a concise summary that preserves everything the assistant needs to continue the task:
+- The user's requests, feedback and any decisions or constraints they stated
+- Files that were read, created or modified, with the key facts learned about them
+- Commands that were run and their notable results or errors
+- Approaches that were tried and abandoned, and why
+- Work still in progress at the end of the excerpt
+
+Respond with the summary only, written in plain prose and bullet points. Do not use any tools and do not continue the task.`
+
+export interface ConversationSummaryResult {
+	summary: string
+	tokensIn: number
+	tokensOut: number
+	cacheWrites: number
+	cacheReads: number
+	totalCost?: number
+}
+
+export async function summarizeConversationRange(
+	api: ApiHandler,
+	messages: Anthropic.Messages.MessageParam[],
+	range: [number, number],
+	previousSummary?: string,
+): Promise<ConversationSummaryResult> {
+	const [start, end] = range
+	const transcript = messages
+		.slice(start, end + 1)
+		.map((message) => `<${message.role}>\n${formatMessageContent(message.content)}\n</${message.role}>`)
+		.join("\n\n")
+
+	let request = ""
+	if (previousSummary) {
+		request += `The following summary covers the part of the conversation before this excerpt:\n<previous_summary>\n${previousSummary}\n</previous_summary>\n\n`
+	}
+	request += `Summarize the following conversation excerpt${previousSummary ? ", merging in the previous summary" : ""}:\n<conversation>\n${transcript}\n</conversation>`
+
+	const result: ConversationSummaryResult = { summary: "", tokensIn: 0, tokensOut: 0, cacheWrites: 0, cacheReads: 0 }
+	for await (const chunk of api.createMessage(SUMMARIZATION_SYSTEM_PROMPT, [{ role: "user", content: request }])) {
+		switch (chunk.type) {
+			case "text":
+				result.summary += chunk.text
+				break
+			case "usage":
+				result.tokensIn += chunk.inputTokens
+				result.tokensOut += chunk.outputTokens
+				result.cacheWrites += chunk.cacheWriteTokens ?? 0
+				result.cacheReads += chunk.cacheReadTokens ?? 0
+				result.totalCost = chunk.totalCost
+				break
+		}
+	}
+	result.summary = result.summary.trim()
+	if (!result.summary) {
+		throw new Error("The model did not return a summary.")
+	}
+	return result
+}
+
+export function formatConversationSummary(summary: string): string {
+	return `<conversation_summary>\nThe middle of this conversation was removed to free up space in the context window. The following is a summary of what happened in the removed messages:\n\n${summary}\n</conversation_summary>`
+}
+
+function formatMessageContent(content: Anthropic.Messages.MessageParam["content"]): string {
+	if (typeof content === "string") {
+		return content
+	}
+	return content
+		.map((block) => {
+			switch (block.type) {
+				case "text":
+					return block.text
+				case "image":
+					return "[image]"
+				case "tool_use":
+					return `[tool_use ${block.name}] ${JSON.stringify(block.input)}`
+				case "tool_result":
+					return `[tool_result]\n${typeof block.content === "string" ? block.content : formatMessageContent(block.content ?? [])}`
+				default:
+					return ""
+			}
+		})
+		.filter(Boolean)
+		.join("\n")
 }
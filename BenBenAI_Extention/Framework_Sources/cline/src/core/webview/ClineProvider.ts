@@ -1,6 +1,8 @@
 import { Anthropic } from "@anthropic-ai/sdk"
+import { CreateMessageResult } from "@modelcontextprotocol/sdk/types.js"
 import axios from "axios"
 import crypto from "crypto"
+import { EventEmitter } from "events"
 import { execa } from "execa"
 import fs from "fs/promises"
 import os from "os"
@@ -9,20 +11,37 @@ import * as path from "path"
 import * as vscode from "vscode"
 import { buildApiHandler } from "../../api"
 import { downloadTask } from "../../integrations/misc/export-markdown"
+import { downloadTaskTranscript } from "../../integrations/misc/export-transcript"
+import {
+	getCheckpointDiffs,
+	getImportedTaskId,
+	readTaskBundle,
+	serializeTaskBundle,
+	TASK_BUNDLE_EXTENSION,
+	TASK_BUNDLE_FORMAT,
+	TaskBundle,
+	TaskBundleCheckpointDiff,
+} from "../../integrations/misc/task-bundle"
 import { openFile, openImage } from "../../integrations/misc/open-file"
 import { fetchOpenGraphData, isImageUrl } from "../../integrations/misc/link-preview"
 import { selectImages } from "../../integrations/misc/process-images"
 import { getTheme } from "../../integrations/theme/getTheme"
 import WorkspaceTracker from "../../integrations/workspace/WorkspaceTracker"
 import { FirebaseAuthManager, UserInfo } from "../../services/auth/FirebaseAuthManager"
+import { TaskSearchIndex } from "../../services/history-search/TaskSearchIndex"
 import { McpHub } from "../../services/mcp/McpHub"
-import { ApiProvider, ModelInfo } from "../../shared/api"
+import { formatPromptForChat } from "../../services/mcp/prompts"
+import { SamplingParams } from "../../services/mcp/sampling"
+import { ApiConfiguration, ApiProvider, ModelInfo } from "../../shared/api"
+import { ApiProfileSettings, DEFAULT_API_PROFILE_SETTINGS } from "../../shared/ApiProfileSettings"
 import { findLast } from "../../shared/array"
 import { AutoApprovalSettings, DEFAULT_AUTO_APPROVAL_SETTINGS } from "../../shared/AutoApprovalSettings"
+import { BudgetSettings, DEFAULT_BUDGET_SETTINGS, getWorkspaceCostIncrease } from "../../shared/BudgetSettings"
 import { BrowserSettings, DEFAULT_BROWSER_SETTINGS } from "../../shared/BrowserSettings"
 import { ChatContent } from "../../shared/ChatContent"
 import { ChatSettings, DEFAULT_CHAT_SETTINGS } from "../../shared/ChatSettings"
-import { ExtensionMessage, ExtensionState, Platform } from "../../shared/ExtensionMessage"
+import { ClineMessage, ClineSubtaskResult, ExtensionMessage, ExtensionState, Platform } from "../../shared/ExtensionMessage"
+import { getApiMetrics } from "../../shared/getApiMetrics"
 import { HistoryItem } from "../../shared/HistoryItem"
 import { McpDownloadResponse, McpMarketplaceCatalog, McpServer } from "../../shared/mcp"
 import { ClineCheckpointRestore, WebviewMessage } from "../../shared/WebviewMessage"
@@ -30,6 +49,8 @@ import { fileExistsAtPath } from "../../utils/fs"
 import { searchCommits } from "../../utils/git"
 import { Cline } from "../Cline"
 import { openMention } from "../mentions"
+import { searchWorkspaceSymbols } from "../../integrations/misc/workspace-symbols"
+import { WorkspaceRoots } from "../../integrations/workspace/WorkspaceRoots"
 import { getNonce } from "./getNonce"
 import { getUri } from "./getUri"
 import { telemetryService } from "../../services/telemetry/TelemetryService"
@@ -61,6 +82,29 @@ type SecretKey =
 	| "authNonce"
 	| "asksageApiKey"
 	| "xaiApiKey"
+	| "apiProfileSecrets"
+	| "mcpServerSecrets"
+
+// ApiConfiguration fields that must be kept in secret storage, including when saved in an API profile
+const apiConfigurationSecretKeys: (keyof ApiConfiguration & SecretKey)[] = [
+	"apiKey",
+	"openRouterApiKey",
+	"awsAccessKey",
+	"awsSecretKey",
+	"awsSessionToken",
+	"openAiApiKey",
+	"geminiApiKey",
+	"openAiNativeApiKey",
+	"deepSeekApiKey",
+	"requestyApiKey",
+	"togetherApiKey",
+	"qwenApiKey",
+	"mistralApiKey",
+	"liteLlmApiKey",
+	"asksageApiKey",
+	"xaiApiKey",
+]
+
 type GlobalStateKey =
 	| "apiProvider"
 	| "apiModelId"
@@ -104,15 +148,25 @@ type GlobalStateKey =
 	| "telemetrySetting"
 	| "asksageApiUrl"
 	| "thinkingBudgetTokens"
+	| "apiProfileSettings"
+	| "apiProfileConfigurations"
+	| "budgetSettings"
 
 export const GlobalFileNames = {
 	apiConversationHistory: "api_conversation_history.json",
 	uiMessages: "ui_messages.json",
 	openRouterModels: "openrouter_models.json",
 	mcpSettings: "cline_mcp_settings.json",
+	commandPolicy: "cline_command_policy.json",
 	clineRules: ".clinerules",
 }
 
+// e.g. "2025-03" in local time, used to reset the workspace's monthly spend
+function getCurrentMonth(): string {
+	const now = new Date()
+	return `${now.getFullYear()}-${(now.getMonth() + 1).toString().padStart(2, "0")}`
+}
+
 export class ClineProvider implements vscode.WebviewViewProvider {
 	public static readonly sideBarId = "claude-dev.SidebarProvider" // used in package.json as the view's id. This value cannot be changed due to how vscode caches views based on their id, and updating the id would break existing instances of the extension.
 	public static readonly tabPanelId = "claude-dev.TabPanelProvider"
@@ -120,20 +174,27 @@ export class ClineProvider implements vscode.WebviewViewProvider {
 	private disposables: vscode.Disposable[] = []
 	private view?: vscode.WebviewView | vscode.WebviewPanel
 	private cline?: Cline
+	// tasks waiting on the result of a sub-task they delegated, the innermost parent last
+	private parentTasks: { cline: Cline; onSubtaskFinished: (result: ClineSubtaskResult) => void }[] = []
 	workspaceTracker?: WorkspaceTracker
 	mcpHub?: McpHub
 	private authManager: FirebaseAuthManager
+	private taskSearchIndex: TaskSearchIndex
+	// lets embedders without a webview (e.g. the CLI) follow the tasks this provider runs
+	readonly events = new EventEmitter<{ clineCreated: [cline: Cline] }>()
 	private latestAnnouncementId = "feb-19-2025" // update to some unique identifier when we add a new announcement
 
 	constructor(
 		readonly context: vscode.ExtensionContext,
 		private readonly outputChannel: vscode.OutputChannel,
+		readonly isHeadless = false, // no editor UI: terminals run as child processes and edits are written straight to disk
 	) {
 		this.outputChannel.appendLine("ClineProvider instantiated")
 		ClineProvider.activeInstances.add(this)
 		this.workspaceTracker = new WorkspaceTracker(this)
 		this.mcpHub = new McpHub(this)
 		this.authManager = new FirebaseAuthManager(this)
+		this.taskSearchIndex = new TaskSearchIndex(path.join(this.context.globalStorageUri.fsPath, "tasks"))
 	}
 
 	/*
@@ -290,6 +351,7 @@ export class ClineProvider implements vscode.WebviewViewProvider {
 			task,
 			images,
 		)
+		this.events.emit("clineCreated", this.cline)
 
 		// New task started
 		if (telemetryService.isTelemetryEnabled()) {
@@ -302,6 +364,60 @@ export class ClineProvider implements vscode.WebviewViewProvider {
 		}
 	}
 
+	/**
+	 * Starts a sub-task for the delegate_task tool. The parent stays suspended (and out of the webview) until the sub-task
+	 * completes or is cancelled, at which point the returned promise resolves with its result.
+	 */
+	async initClineWithSubtask(
+		parent: Cline,
+		task: string,
+		mode?: ChatSettings["mode"],
+		modelId?: string,
+		taskBudget?: Pick<BudgetSettings, "taskMaxCost" | "taskMaxTokens">,
+	): Promise<ClineSubtaskResult> {
+		const { apiConfiguration, customInstructions, autoApprovalSettings, browserSettings, chatSettings } =
+			await this.getState()
+		const subtaskResult = new Promise<ClineSubtaskResult>((resolve) => {
+			this.parentTasks.push({ cline: parent, onSubtaskFinished: resolve })
+		})
+		this.cline = new Cline(
+			this,
+			modelId ? await this.getApiConfigurationWithModelId(apiConfiguration, modelId) : apiConfiguration,
+			autoApprovalSettings,
+			browserSettings,
+			mode ? { ...chatSettings, mode } : chatSettings,
+			customInstructions,
+			task,
+			undefined,
+			undefined,
+			parent.taskId,
+			taskBudget,
+		)
+		this.events.emit("clineCreated", this.cline)
+		return subtaskResult
+	}
+
+	isRunningSubtask(cline: Cline): boolean {
+		return cline === this.cline && this.parentTasks.length > 0
+	}
+
+	// Hands control back to the parent of the current sub-task. The result is undefined if the sub-task was cancelled.
+	async finishSubtask(result?: string) {
+		const parentTask = this.parentTasks.pop()
+		if (!parentTask || !this.cline) {
+			return
+		}
+		const subtask = this.cline
+		await subtask.abortTask()
+		this.cline = parentTask.cline
+		await this.postStateToWebview()
+		parentTask.onSubtaskFinished({
+			taskId: subtask.taskId,
+			result,
+			cost: getApiMetrics(subtask.clineMessages).totalCost,
+		})
+	}
+
 	async initClineWithHistoryItem(historyItem: HistoryItem) {
 		await this.clearTask()
 		const { apiConfiguration, customInstructions, autoApprovalSettings, browserSettings, chatSettings } =
@@ -317,6 +433,7 @@ export class ClineProvider implements vscode.WebviewViewProvider {
 			undefined,
 			historyItem,
 		)
+		this.events.emit("clineCreated", this.cline)
 
 		// Open task from history
 		if (telemetryService.isTelemetryEnabled()) {
@@ -559,113 +676,45 @@ export class ClineProvider implements vscode.WebviewViewProvider {
 						break
 					case "apiConfiguration":
 						if (message.apiConfiguration) {
-							const {
-								apiProvider,
-								apiModelId,
-								apiKey,
-								openRouterApiKey,
-								awsAccessKey,
-								awsSecretKey,
-								awsSessionToken,
-								awsRegion,
-								awsUseCrossRegionInference,
-								awsBedrockUsePromptCache,
-								awsProfile,
-								awsUseProfile,
-								vertexProjectId,
-								vertexRegion,
-								openAiBaseUrl,
-								openAiApiKey,
-								openAiModelId,
-								openAiModelInfo,
-								ollamaModelId,
-								ollamaBaseUrl,
-								ollamaApiOptionsCtxNum,
-								lmStudioModelId,
-								lmStudioBaseUrl,
-								anthropicBaseUrl,
-								geminiApiKey,
-								openAiNativeApiKey,
-								deepSeekApiKey,
-								requestyApiKey,
-								requestyModelId,
-								togetherApiKey,
-								togetherModelId,
-								qwenApiKey,
-								mistralApiKey,
-								azureApiVersion,
-								openRouterModelId,
-								openRouterModelInfo,
-								vsCodeLmModelSelector,
-								liteLlmBaseUrl,
-								liteLlmModelId,
-								liteLlmApiKey,
-								qwenApiLine,
-								asksageApiKey,
-								asksageApiUrl,
-								xaiApiKey,
-								thinkingBudgetTokens,
-							} = message.apiConfiguration
-							await this.updateGlobalState("apiProvider", apiProvider)
-							await this.updateGlobalState("apiModelId", apiModelId)
-							await this.storeSecret("apiKey", apiKey)
-							await this.storeSecret("openRouterApiKey", openRouterApiKey)
-							await this.storeSecret("awsAccessKey", awsAccessKey)
-							await this.storeSecret("awsSecretKey", awsSecretKey)
-							await this.storeSecret("awsSessionToken", awsSessionToken)
-							await this.updateGlobalState("awsRegion", awsRegion)
-							await this.updateGlobalState("awsUseCrossRegionInference", awsUseCrossRegionInference)
-							await this.updateGlobalState("awsBedrockUsePromptCache", awsBedrockUsePromptCache)
-							await this.updateGlobalState("awsProfile", awsProfile)
-							await this.updateGlobalState("awsUseProfile", awsUseProfile)
-							await this.updateGlobalState("vertexProjectId", vertexProjectId)
-							await this.updateGlobalState("vertexRegion", vertexRegion)
-							await this.updateGlobalState("openAiBaseUrl", openAiBaseUrl)
-							await this.storeSecret("openAiApiKey", openAiApiKey)
-							await this.updateGlobalState("openAiModelId", openAiModelId)
-							await this.updateGlobalState("openAiModelInfo", openAiModelInfo)
-							await this.updateGlobalState("ollamaModelId", ollamaModelId)
-							await this.updateGlobalState("ollamaBaseUrl", ollamaBaseUrl)
-							await this.updateGlobalState("ollamaApiOptionsCtxNum", ollamaApiOptionsCtxNum)
-							await this.updateGlobalState("lmStudioModelId", lmStudioModelId)
-							await this.updateGlobalState("lmStudioBaseUrl", lmStudioBaseUrl)
-							await this.updateGlobalState("anthropicBaseUrl", anthropicBaseUrl)
-							await this.storeSecret("geminiApiKey", geminiApiKey)
-							await this.storeSecret("openAiNativeApiKey", openAiNativeApiKey)
-							await this.storeSecret("deepSeekApiKey", deepSeekApiKey)
-							await this.storeSecret("requestyApiKey", requestyApiKey)
-							await this.storeSecret("togetherApiKey", togetherApiKey)
-							await this.storeSecret("qwenApiKey", qwenApiKey)
-							await this.storeSecret("mistralApiKey", mistralApiKey)
-							await this.storeSecret("liteLlmApiKey", liteLlmApiKey)
-							await this.storeSecret("xaiApiKey", xaiApiKey)
-							await this.updateGlobalState("azureApiVersion", azureApiVersion)
-							await this.updateGlobalState("openRouterModelId", openRouterModelId)
-							await this.updateGlobalState("openRouterModelInfo", openRouterModelInfo)
-							await this.updateGlobalState("vsCodeLmModelSelector", vsCodeLmModelSelector)
-							await this.updateGlobalState("liteLlmBaseUrl", liteLlmBaseUrl)
-							await this.updateGlobalState("liteLlmModelId", liteLlmModelId)
-							await this.updateGlobalState("qwenApiLine", qwenApiLine)
-							await this.updateGlobalState("requestyModelId", requestyModelId)
-							await this.updateGlobalState("togetherModelId", togetherModelId)
-							await this.storeSecret("asksageApiKey", asksageApiKey)
-							await this.updateGlobalState("asksageApiUrl", asksageApiUrl)
-							await this.updateGlobalState("thinkingBudgetTokens", thinkingBudgetTokens)
-							if (this.cline) {
-								this.cline.api = buildApiHandler(message.apiConfiguration)
-							}
+							await this.updateApiConfiguration(message.apiConfiguration)
+							await this.saveCurrentApiProfile()
 						}
 						await this.postStateToWebview()
 						break
+					case "saveApiProfile":
+						if (message.apiConfiguration) {
+							await this.saveApiProfile(message.apiConfiguration)
+						}
+						break
+					case "switchApiProfile":
+						if (message.text) {
+							await this.switchApiProfile(message.text)
+						}
+						break
+					case "deleteApiProfile":
+						if (message.text) {
+							await this.deleteApiProfile(message.text)
+						}
+						break
+					case "bindApiProfileToMode":
+						if (message.chatSettings) {
+							await this.bindApiProfileToMode(message.chatSettings.mode, message.text || undefined)
+						}
+						break
+					case "updateApiFallbackProfiles":
+						await this.updateApiFallbackProfiles(message.profileIds ?? [])
+						break
 					case "customInstructions":
 						await this.updateCustomInstructions(message.text)
 						break
 					case "autoApprovalSettings":
 						if (message.autoApprovalSettings) {
-							await this.updateGlobalState("autoApprovalSettings", message.autoApprovalSettings)
-							if (this.cline) {
-								this.cline.autoApprovalSettings = message.autoApprovalSettings
-							}
+							await this.updateAutoApprovalSettings(message.autoApprovalSettings)
+						}
+						break
+					case "budgetSettings":
+						if (message.budgetSettings) {
+							await this.updateGlobalState("budgetSettings", message.budgetSettings)
 							await this.postStateToWebview()
 						}
 						break
@@ -678,6 +727,12 @@ export class ClineProvider implements vscode.WebviewViewProvider {
 							await this.postStateToWebview()
 						}
 						break
+					case "contextCompactionStrategy":
+						if (this.cline && message.contextCompactionStrategy) {
+							await this.cline.updateContextCompactionStrategy(message.contextCompactionStrategy)
+							await this.postStateToWebview()
+						}
+						break
 					case "togglePlanActMode":
 						if (message.chatSettings) {
 							await this.togglePlanActModeWithChatSettings(message.chatSettings, message.chatContent)
@@ -714,14 +769,25 @@ export class ClineProvider implements vscode.WebviewViewProvider {
 						}
 						break
 					case "showTaskWithId":
-						this.showTaskWithId(message.text!)
+						this.showTaskWithId(message.text!, message.number)
 						break
 					case "deleteTaskWithId":
 						this.deleteTaskWithId(message.text!)
 						break
+					case "setTaskPinned":
+						await this.updateTaskLabels(message.text!, { pinned: message.bool || undefined })
+						break
+					case "setTaskTags": {
+						const tags = Array.from(new Set((message.tags ?? []).map((tag) => tag.trim()).filter(Boolean)))
+						await this.updateTaskLabels(message.text!, { tags: tags.length > 0 ? tags : undefined })
+						break
+					}
 					case "exportTaskWithId":
 						this.exportTaskWithId(message.text!)
 						break
+					case "importTaskBundle":
+						await this.importTaskBundle()
+						break
 					case "resetState":
 						await this.resetState()
 						break
@@ -954,6 +1020,62 @@ export class ClineProvider implements vscode.WebviewViewProvider {
 						}
 						break
 					}
+					case "searchSymbols": {
+						const workspaceRoots = WorkspaceRoots.fromFolders(vscode.workspace.workspaceFolders)
+						if (workspaceRoots) {
+							try {
+								const symbols = await searchWorkspaceSymbols(message.text || "", workspaceRoots)
+								await this.postMessageToWebview({
+									type: "symbolSearchResults",
+									text: message.text,
+									symbols,
+								})
+							} catch (error) {
+								console.error("Error searching workspace symbols:", error)
+							}
+						}
+						break
+					}
+					case "searchTaskHistory": {
+						if (message.taskSearchQuery) {
+							const taskHistory = ((await this.getGlobalState("taskHistory")) as HistoryItem[] | undefined) || []
+							try {
+								const taskSearchResults = await this.taskSearchIndex.search(message.taskSearchQuery, taskHistory)
+								await this.postMessageToWebview({
+									type: "taskSearchResults",
+									taskSearchQuery: message.taskSearchQuery,
+									taskSearchResults,
+								})
+							} catch (error) {
+								console.error("Error searching task history:", error)
+								await this.postMessageToWebview({
+									type: "taskSearchResults",
+									taskSearchQuery: message.taskSearchQuery,
+									taskSearchResults: [],
+									error: error instanceof Error ? error.message : String(error),
+								})
+							}
+						}
+						break
+					}
+					case "setMcpServerSecretHeader": {
+						if (message.serverName) {
+							await this.promptForMcpServerSecretHeader(message.serverName)
+						}
+						break
+					}
+					case "deleteMcpServerSecretHeader": {
+						if (message.serverName && message.text) {
+							await this.mcpHub?.setServerSecretHeader(message.serverName, message.text, undefined)
+						}
+						break
+					}
+					case "insertMcpPrompt": {
+						if (message.serverName && message.promptName) {
+							await this.insertMcpPrompt(message.serverName, message.promptName)
+						}
+						break
+					}
 					case "updateMcpTimeout": {
 						try {
 							if (message.serverName && message.timeout) {
@@ -997,12 +1119,43 @@ export class ClineProvider implements vscode.WebviewViewProvider {
 		)
 	}
 
+	// Applies a model ID to whichever field the configured provider reads its model from, e.g. for a sub-task using a different model
+	private async getApiConfigurationWithModelId(apiConfiguration: ApiConfiguration, modelId: string): Promise<ApiConfiguration> {
+		switch (apiConfiguration.apiProvider) {
+			case "openrouter": {
+				const openRouterModelInfo = (await this.readOpenRouterModels())?.[modelId]
+				return {
+					...apiConfiguration,
+					openRouterModelId: modelId,
+					openRouterModelInfo: openRouterModelInfo ?? apiConfiguration.openRouterModelInfo,
+				}
+			}
+			case "vscode-lm":
+				return apiConfiguration // models are chosen with a selector rather than an ID
+			case "openai":
+				return { ...apiConfiguration, openAiModelId: modelId }
+			case "ollama":
+				return { ...apiConfiguration, ollamaModelId: modelId }
+			case "lmstudio":
+				return { ...apiConfiguration, lmStudioModelId: modelId }
+			case "litellm":
+				return { ...apiConfiguration, liteLlmModelId: modelId }
+			case "requesty":
+				return { ...apiConfiguration, requestyModelId: modelId }
+			case "together":
+				return { ...apiConfiguration, togetherModelId: modelId }
+			default:
+				return { ...apiConfiguration, apiModelId: modelId }
+		}
+	}
+
 	async togglePlanActModeWithChatSettings(chatSettings: ChatSettings, chatContent?: ChatContent) {
 		const didSwitchToActMode = chatSettings.mode === "act"
 
 		// Get previous model info that we will revert to after saving current mode api info
 		const {
 			apiConfiguration,
+			apiProfileSettings,
 			previousModeApiProvider: newApiProvider,
 			previousModeModelId: newModelId,
 			previousModeModelInfo: newModelInfo,
@@ -1045,8 +1198,16 @@ export class ClineProvider implements vscode.WebviewViewProvider {
 				break
 		}
 
-		// Restore the model used in previous mode
-		if (newApiProvider && newModelId) {
+		// Switch to the profile bound to the new mode, or otherwise restore the model used in previous mode
+		const modeProfileId = apiProfileSettings.modeProfileIds[chatSettings.mode]
+		if (modeProfileId && apiProfileSettings.profiles.some((profile) => profile.id === modeProfileId)) {
+			await this.switchApiProfile(modeProfileId) // also updates the current task's api handler
+		} else if (newApiProvider && newModelId) {
+			// the restored model no longer matches the active profile
+			await this.updateGlobalState("apiProfileSettings", {
+				...apiProfileSettings,
+				currentProfileId: undefined,
+			} satisfies ApiProfileSettings)
 			await this.updateGlobalState("apiProvider", newApiProvider)
 			await this.updateGlobalState("thinkingBudgetTokens", newThinkingBudgetTokens)
 			switch (newApiProvider) {
@@ -1162,11 +1323,336 @@ export class ClineProvider implements vscode.WebviewViewProvider {
 				// 'abandoned' will prevent this cline instance from affecting future cline instance gui. this may happen if its hanging on a streaming request
 				this.cline.abandoned = true
 			}
+			if (this.parentTasks.length > 0) {
+				// cancelling a sub-task returns to its parent task instead of resuming the sub-task
+				await this.finishSubtask()
+				return
+			}
 			await this.initClineWithHistoryItem(historyItem) // clears task again, so we need to abortTask manually above
 			// await this.postStateToWebview() // new Cline instance will post state when it's ready. having this here sent an empty messages array to webview leading to virtuoso having to reload the entire list
 		}
 	}
 
+	async updateApiConfiguration(apiConfiguration: ApiConfiguration) {
+		const {
+			apiProvider,
+			apiModelId,
+			apiKey,
+			openRouterApiKey,
+			awsAccessKey,
+			awsSecretKey,
+			awsSessionToken,
+			awsRegion,
+			awsUseCrossRegionInference,
+			awsBedrockUsePromptCache,
+			awsProfile,
+			awsUseProfile,
+			vertexProjectId,
+			vertexRegion,
+			openAiBaseUrl,
+			openAiApiKey,
+			openAiModelId,
+			openAiModelInfo,
+			ollamaModelId,
+			ollamaBaseUrl,
+			ollamaApiOptionsCtxNum,
+			lmStudioModelId,
+			lmStudioBaseUrl,
+			anthropicBaseUrl,
+			geminiApiKey,
+			openAiNativeApiKey,
+			deepSeekApiKey,
+			requestyApiKey,
+			requestyModelId,
+			togetherApiKey,
+			togetherModelId,
+			qwenApiKey,
+			mistralApiKey,
+			azureApiVersion,
+			openRouterModelId,
+			openRouterModelInfo,
+			vsCodeLmModelSelector,
+			liteLlmBaseUrl,
+			liteLlmModelId,
+			liteLlmApiKey,
+			qwenApiLine,
+			asksageApiKey,
+			asksageApiUrl,
+			xaiApiKey,
+			thinkingBudgetTokens,
+		} = apiConfiguration
+		await this.updateGlobalState("apiProvider", apiProvider)
+		await this.updateGlobalState("apiModelId", apiModelId)
+		await this.storeSecret("apiKey", apiKey)
+		await this.storeSecret("openRouterApiKey", openRouterApiKey)
+		await this.storeSecret("awsAccessKey", awsAccessKey)
+		await this.storeSecret("awsSecretKey", awsSecretKey)
+		await this.storeSecret("awsSessionToken", awsSessionToken)
+		await this.updateGlobalState("awsRegion", awsRegion)
+		await this.updateGlobalState("awsUseCrossRegionInference", awsUseCrossRegionInference)
+		await this.updateGlobalState("awsBedrockUsePromptCache", awsBedrockUsePromptCache)
+		await this.updateGlobalState("awsProfile", awsProfile)
+		await this.updateGlobalState("awsUseProfile", awsUseProfile)
+		await this.updateGlobalState("vertexProjectId", vertexProjectId)
+		await this.updateGlobalState("vertexRegion", vertexRegion)
+		await this.updateGlobalState("openAiBaseUrl", openAiBaseUrl)
+		await this.storeSecret("openAiApiKey", openAiApiKey)
+		await this.updateGlobalState("openAiModelId", openAiModelId)
+		await this.updateGlobalState("openAiModelInfo", openAiModelInfo)
+		await this.updateGlobalState("ollamaModelId", ollamaModelId)
+		await this.updateGlobalState("ollamaBaseUrl", ollamaBaseUrl)
+		await this.updateGlobalState("ollamaApiOptionsCtxNum", ollamaApiOptionsCtxNum)
+		await this.updateGlobalState("lmStudioModelId", lmStudioModelId)
+		await this.updateGlobalState("lmStudioBaseUrl", lmStudioBaseUrl)
+		await this.updateGlobalState("anthropicBaseUrl", anthropicBaseUrl)
+		await this.storeSecret("geminiApiKey", geminiApiKey)
+		await this.storeSecret("openAiNativeApiKey", openAiNativeApiKey)
+		await this.storeSecret("deepSeekApiKey", deepSeekApiKey)
+		await this.storeSecret("requestyApiKey", requestyApiKey)
+		await this.storeSecret("togetherApiKey", togetherApiKey)
+		await this.storeSecret("qwenApiKey", qwenApiKey)
+		await this.storeSecret("mistralApiKey", mistralApiKey)
+		await this.storeSecret("liteLlmApiKey", liteLlmApiKey)
+		await this.storeSecret("xaiApiKey", xaiApiKey)
+		await this.updateGlobalState("azureApiVersion", azureApiVersion)
+		await this.updateGlobalState("openRouterModelId", openRouterModelId)
+		await this.updateGlobalState("openRouterModelInfo", openRouterModelInfo)
+		await this.updateGlobalState("vsCodeLmModelSelector", vsCodeLmModelSelector)
+		await this.updateGlobalState("liteLlmBaseUrl", liteLlmBaseUrl)
+		await this.updateGlobalState("liteLlmModelId", liteLlmModelId)
+		await this.updateGlobalState("qwenApiLine", qwenApiLine)
+		await this.updateGlobalState("requestyModelId", requestyModelId)
+		await this.updateGlobalState("togetherModelId", togetherModelId)
+		await this.storeSecret("asksageApiKey", asksageApiKey)
+		await this.updateGlobalState("asksageApiUrl", asksageApiUrl)
+		await this.updateGlobalState("thinkingBudgetTokens", thinkingBudgetTokens)
+		if (this.cline) {
+			this.cline.api = buildApiHandler(apiConfiguration)
+		}
+	}
+
+	// API Profiles
+
+	// Profile configurations are stored in global state without their secrets, which are kept together in secret storage
+	private async getApiProfileConfiguration(id: string): Promise<ApiConfiguration | undefined> {
+		const configurations =
+			((await this.getGlobalState("apiProfileConfigurations")) as Record<string, ApiConfiguration> | undefined) || {}
+		if (!configurations[id]) {
+			return undefined
+		}
+		const secrets: Record<string, ApiConfiguration> = JSON.parse((await this.getSecret("apiProfileSecrets")) || "{}")
+		return { ...configurations[id], ...secrets[id] }
+	}
+
+	// headers sent to remote MCP servers that hold secrets, by server name
+	async getMcpServerSecrets(): Promise<Record<string, Record<string, string>>> {
+		return JSON.parse((await this.getSecret("mcpServerSecrets")) || "{}")
+	}
+
+	async storeMcpServerSecrets(secrets: Record<string, Record<string, string>>) {
+		await this.storeSecret("mcpServerSecrets", Object.keys(secrets).length > 0 ? JSON.stringify(secrets) : undefined)
+	}
+
+	private async promptForMcpServerSecretHeader(serverName: string) {
+		const header = (
+			await vscode.window.showInputBox({
+				title: `Add Secret Header for ${serverName}`,
+				prompt: "The header is sent with every request to the server, and stored in secret storage rather than the MCP settings.",
+				value: "Authorization",
+			})
+		)?.trim()
+		if (!header) {
+			return
+		}
+		const value = await vscode.window.showInputBox({
+			title: `Add Secret Header for ${serverName}`,
+			prompt: `The value of the ${header} header`,
+			placeHolder: header.toLowerCase() === "authorization" ? "Bearer <token>" : undefined,
+			password: true,
+		})
+		if (value) {
+			await this.mcpHub?.setServerSecretHeader(serverName, header, value)
+		}
+	}
+
+	// Asks for the prompt's arguments, then puts the prompt in the chat input so the user can review it before sending
+	private async insertMcpPrompt(serverName: string, promptName: string) {
+		const prompt = this.mcpHub?.connections
+			.find((conn) => conn.server.name === serverName)
+			?.server.prompts?.find((prompt) => prompt.name === promptName)
+		if (!this.mcpHub || !prompt) {
+			vscode.window.showErrorMessage(`Prompt ${promptName} not found on ${serverName}`)
+			return
+		}
+		const promptArguments: Record<string, string> = {}
+		for (const argument of prompt.arguments ?? []) {
+			const value = await vscode.window.showInputBox({
+				title: `/${serverName}:${promptName}`,
+				prompt: argument.description ? `${argument.name}: ${argument.description}` : argument.name,
+				placeHolder: argument.required ? undefined : "Optional",
+				validateInput: (value) => (argument.required && !value.trim() ? `${argument.name} is required` : undefined),
+			})
+			if (value === undefined) {
+				return // cancelled
+			}
+			if (value.trim()) {
+				promptArguments[argument.name] = value
+			}
+		}
+		try {
+			const { text, images } = formatPromptForChat(await this.mcpHub.getPrompt(serverName, promptName, promptArguments))
+			await this.postMessageToWebview({ type: "mcpPrompt", text, images })
+		} catch (error) {
+			vscode.window.showErrorMessage(
+				`Failed to get prompt ${promptName}: ${error instanceof Error ? error.message : String(error)}`,
+			)
+		}
+	}
+
+	// MCP servers' sampling requests are answered by the current task, see McpHub.handleSamplingRequest
+	async handleMcpSamplingRequest(serverName: string, params: SamplingParams): Promise<CreateMessageResult> {
+		if (!this.cline) {
+			throw new Error("Sampling requests can only be answered while a task is running")
+		}
+		return this.cline.handleMcpSamplingRequest(serverName, params)
+	}
+
+	private async storeApiProfileConfiguration(id: string, apiConfiguration?: ApiConfiguration) {
+		const configurations =
+			((await this.getGlobalState("apiProfileConfigurations")) as Record<string, ApiConfiguration> | undefined) || {}
+		const secrets: Record<string, ApiConfiguration> = JSON.parse((await this.getSecret("apiProfileSecrets")) || "{}")
+		if (apiConfiguration) {
+			const configuration: ApiConfiguration = { ...apiConfiguration }
+			const configurationSecrets: ApiConfiguration = {}
+			for (const key of apiConfigurationSecretKeys) {
+				configurationSecrets[key] = configuration[key]
+				delete configuration[key]
+			}
+			configurations[id] = configuration
+			secrets[id] = configurationSecrets
+		} else {
+			delete configurations[id]
+			delete secrets[id]
+		}
+		await this.updateGlobalState("apiProfileConfigurations", configurations)
+		await this.storeSecret("apiProfileSecrets", JSON.stringify(secrets))
+	}
+
+	async saveApiProfile(apiConfiguration: ApiConfiguration) {
+		const { apiProfileSettings } = await this.getState()
+		const name = (
+			await vscode.window.showInputBox({
+				title: "Save API Profile",
+				prompt: "Saving with the name of an existing profile will overwrite it.",
+				placeHolder: "Profile name, e.g. Planning or Coding",
+				value: apiProfileSettings.profiles.find((profile) => profile.id === apiProfileSettings.currentProfileId)?.name,
+			})
+		)?.trim()
+		if (!name) {
+			return
+		}
+		const existingProfile = apiProfileSettings.profiles.find((profile) => profile.name === name)
+		const id = existingProfile?.id ?? Date.now().toString()
+		await this.updateApiConfiguration(apiConfiguration)
+		await this.storeApiProfileConfiguration(id, apiConfiguration)
+		await this.updateGlobalState("apiProfileSettings", {
+			...apiProfileSettings,
+			profiles: existingProfile ? apiProfileSettings.profiles : [...apiProfileSettings.profiles, { id, name }],
+			currentProfileId: id,
+		} satisfies ApiProfileSettings)
+		await this.postStateToWebview()
+	}
+
+	async switchApiProfile(id: string) {
+		const apiConfiguration = await this.getApiProfileConfiguration(id)
+		if (!apiConfiguration) {
+			vscode.window.showErrorMessage("The selected API profile no longer exists.")
+			return
+		}
+		await this.updateApiConfiguration(apiConfiguration)
+		const { apiProfileSettings } = await this.getState()
+		await this.updateGlobalState("apiProfileSettings", {
+			...apiProfileSettings,
+			currentProfileId: id,
+		} satisfies ApiProfileSettings)
+		await this.postStateToWebview()
+	}
+
+	async deleteApiProfile(id: string) {
+		const { apiProfileSettings } = await this.getState()
+		const profile = apiProfileSettings.profiles.find((profile) => profile.id === id)
+		if (!profile) {
+			return
+		}
+		const confirmation = await vscode.window.showWarningMessage(
+			`Are you sure you want to delete the API profile "${profile.name}"?`,
+			{ modal: true },
+			"Delete",
+		)
+		if (confirmation !== "Delete") {
+			return
+		}
+		await this.storeApiProfileConfiguration(id, undefined)
+		await this.updateGlobalState("apiProfileSettings", {
+			profiles: apiProfileSettings.profiles.filter((profile) => profile.id !== id),
+			currentProfileId: apiProfileSettings.currentProfileId === id ? undefined : apiProfileSettings.currentProfileId,
+			modeProfileIds: {
+				plan: apiProfileSettings.modeProfileIds.plan === id ? undefined : apiProfileSettings.modeProfileIds.plan,
+				act: apiProfileSettings.modeProfileIds.act === id ? undefined : apiProfileSettings.modeProfileIds.act,
+			},
+			fallbackProfileIds: apiProfileSettings.fallbackProfileIds.filter((fallbackId) => fallbackId !== id),
+		} satisfies ApiProfileSettings)
+		await this.postStateToWebview()
+	}
+
+	async bindApiProfileToMode(mode: ChatSettings["mode"], id?: string) {
+		const { apiProfileSettings } = await this.getState()
+		await this.updateGlobalState("apiProfileSettings", {
+			...apiProfileSettings,
+			modeProfileIds: { ...apiProfileSettings.modeProfileIds, [mode]: id },
+		} satisfies ApiProfileSettings)
+		await this.postStateToWebview()
+	}
+
+	async updateApiFallbackProfiles(ids: string[]) {
+		const { apiProfileSettings } = await this.getState()
+		await this.updateGlobalState("apiProfileSettings", {
+			...apiProfileSettings,
+			fallbackProfileIds: ids,
+		} satisfies ApiProfileSettings)
+		await this.postStateToWebview()
+	}
+
+	// Configurations to retry a failed request with, in order. The active profile is skipped since it's what just failed.
+	async getApiFallbackConfigurations(): Promise<{ profileName: string; apiConfiguration: ApiConfiguration }[]> {
+		const { apiProfileSettings } = await this.getState()
+		const fallbacks: { profileName: string; apiConfiguration: ApiConfiguration }[] = []
+		for (const id of apiProfileSettings.fallbackProfileIds) {
+			const profile = apiProfileSettings.profiles.find((profile) => profile.id === id)
+			const apiConfiguration = await this.getApiProfileConfiguration(id)
+			if (profile && apiConfiguration && id !== apiProfileSettings.currentProfileId) {
+				fallbacks.push({ profileName: profile.name, apiConfiguration })
+			}
+		}
+		return fallbacks
+	}
+
+	// Keeps the active profile in sync with edits made to the API configuration in settings or the model selector
+	private async saveCurrentApiProfile() {
+		const { apiConfiguration, apiProfileSettings } = await this.getState()
+		if (apiProfileSettings.currentProfileId) {
+			await this.storeApiProfileConfiguration(apiProfileSettings.currentProfileId, apiConfiguration)
+		}
+	}
+
+	async updateAutoApprovalSettings(autoApprovalSettings: AutoApprovalSettings) {
+		await this.updateGlobalState("autoApprovalSettings", autoApprovalSettings)
+		if (this.cline) {
+			this.cline.autoApprovalSettings = autoApprovalSettings
+		}
+		await this.postStateToWebview()
+	}
+
 	async updateCustomInstructions(instructions?: string) {
 		// User may be clearing the field
 		await this.updateGlobalState("customInstructions", instructions || undefined)
@@ -1701,7 +2187,7 @@ Here is the project's README to help you get started:\n\n${mcpDetails.readmeCont
 		throw new Error("Task not found")
 	}
 
-	async showTaskWithId(id: string) {
+	async showTaskWithId(id: string, messageTs?: number) {
 		if (id !== this.cline?.taskId) {
 			// non-current task
 			const { historyItem } = await this.getTaskWithId(id)
@@ -1711,11 +2197,136 @@ Here is the project's README to help you get started:\n\n${mcpDetails.readmeCont
 			type: "action",
 			action: "chatButtonClicked",
 		})
+		if (messageTs !== undefined) {
+			// e.g. a match from searching the task history
+			await this.postMessageToWebview({ type: "scrollToMessage", messageTs })
+		}
 	}
 
 	async exportTaskWithId(id: string) {
-		const { historyItem, apiConversationHistory } = await this.getTaskWithId(id)
-		await downloadTask(historyItem.ts, apiConversationHistory)
+		const { historyItem, taskDirPath, apiConversationHistory, uiMessagesFilePath } = await this.getTaskWithId(id)
+		const format = await vscode.window.showQuickPick(
+			[
+				{ label: "Markdown", description: "A readable transcript of the conversation", format: "markdown" },
+				{
+					label: "HTML",
+					description: "A standalone page of the chat, with diffs, command output and screenshots",
+					format: "html",
+				},
+				{ label: "JSON", description: "One record per chat message, with API request costs", format: "json" },
+				{
+					label: "Task Bundle",
+					description: "To import the task on another machine and view or resume it there",
+					format: "bundle",
+				},
+				{
+					label: "Task Bundle with Checkpoint Diffs",
+					description: "Also includes the changes made between checkpoints",
+					format: "bundleWithDiffs",
+				},
+			] as const,
+			{ placeHolder: "Export task as" },
+		)
+		if (!format) {
+			return
+		}
+		if (format.format === "markdown") {
+			await downloadTask(historyItem.ts, apiConversationHistory)
+			return
+		}
+
+		const uiMessages: ClineMessage[] = (await fileExistsAtPath(uiMessagesFilePath))
+			? JSON.parse(await fs.readFile(uiMessagesFilePath, "utf8"))
+			: []
+		if (format.format === "html" || format.format === "json") {
+			await downloadTaskTranscript(historyItem, uiMessages, format.format)
+			return
+		}
+		let checkpointDiffs: TaskBundleCheckpointDiff[] | undefined
+		if (format.format === "bundleWithDiffs") {
+			try {
+				checkpointDiffs = await getCheckpointDiffs(path.join(taskDirPath, "checkpoints"), uiMessages)
+			} catch (error) {
+				vscode.window.showWarningMessage(
+					`Exporting the task without checkpoint diffs: ${error instanceof Error ? error.message : String(error)}`,
+				)
+			}
+		}
+		const saveUri = await vscode.window.showSaveDialog({
+			filters: { "Cline Task": [TASK_BUNDLE_EXTENSION] },
+			defaultUri: vscode.Uri.file(
+				path.join(os.homedir(), "Downloads", `cline_task_${historyItem.id}.${TASK_BUNDLE_EXTENSION}`),
+			),
+		})
+		if (!saveUri) {
+			return
+		}
+		try {
+			const bundle: TaskBundle = {
+				format: TASK_BUNDLE_FORMAT,
+				version: 1,
+				exportedAt: Date.now(),
+				historyItem,
+				uiMessages,
+				apiConversationHistory,
+				checkpointDiffs,
+			}
+			await vscode.workspace.fs.writeFile(saveUri, await serializeTaskBundle(bundle))
+			vscode.window.showInformationMessage(`Exported task to ${path.basename(saveUri.fsPath)}`)
+		} catch (error) {
+			vscode.window.showErrorMessage(
+				`Failed to save task bundle: ${error instanceof Error ? error.message : String(error)}`,
+			)
+		}
+	}
+
+	async importTaskBundle() {
+		const uris = await vscode.window.showOpenDialog({
+			canSelectMany: false,
+			openLabel: "Import",
+			filters: { "Cline Task": [TASK_BUNDLE_EXTENSION] },
+		})
+		if (!uris || uris.length === 0) {
+			return
+		}
+		let bundle: TaskBundle
+		try {
+			bundle = await readTaskBundle(uris[0].fsPath)
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to import task: ${error instanceof Error ? error.message : String(error)}`)
+			return
+		}
+		const history = ((await this.getGlobalState("taskHistory")) as HistoryItem[] | undefined) || []
+		const id = getImportedTaskId(
+			bundle.historyItem.id,
+			history.map((item) => item.id),
+		)
+
+		const taskDirPath = path.join(this.context.globalStorageUri.fsPath, "tasks", id)
+		try {
+			await fs.mkdir(taskDirPath, { recursive: true })
+			// the checkpoints' commits are in the shadow git repository on the exporting machine
+			const uiMessages = bundle.uiMessages.map(({ lastCheckpointHash, isCheckpointCheckedOut, ...message }) => message)
+			await fs.writeFile(path.join(taskDirPath, GlobalFileNames.uiMessages), JSON.stringify(uiMessages))
+			await fs.writeFile(
+				path.join(taskDirPath, GlobalFileNames.apiConversationHistory),
+				JSON.stringify(bundle.apiConversationHistory),
+			)
+		} catch (error) {
+			// a task directory without both files can't be opened
+			await fs.rm(taskDirPath, { recursive: true, force: true }).catch(() => {})
+			vscode.window.showErrorMessage(`Failed to import task: ${error instanceof Error ? error.message : String(error)}`)
+			return
+		}
+
+		const historyItem: HistoryItem = {
+			...bundle.historyItem,
+			id,
+			shadowGitConfigWorkTree: undefined,
+			parentTaskId: undefined, // the parent task isn't part of the bundle
+		}
+		await this.updateGlobalState("taskHistory", [...history, historyItem])
+		await this.showTaskWithId(id)
 	}
 
 	async deleteTaskWithId(id: string) {
@@ -1758,6 +2369,13 @@ Here is the project's README to help you get started:\n\n${mcpDetails.readmeCont
 		await fs.rmdir(taskDirPath) // succeeds if the dir is empty
 	}
 
+	async updateTaskLabels(id: string, labels: Pick<HistoryItem, "pinned" | "tags">) {
+		const taskHistory = ((await this.getGlobalState("taskHistory")) as HistoryItem[] | undefined) || []
+		const updatedTaskHistory = taskHistory.map((item) => (item.id === id ? { ...item, ...labels } : item))
+		await this.updateGlobalState("taskHistory", updatedTaskHistory)
+		await this.postStateToWebview()
+	}
+
 	async deleteTaskFromState(id: string) {
 		// Remove the task from history
 		const taskHistory = ((await this.getGlobalState("taskHistory")) as HistoryItem[] | undefined) || []
@@ -1776,10 +2394,12 @@ Here is the project's README to help you get started:\n\n${mcpDetails.readmeCont
 	async getStateToPostToWebview(): Promise<ExtensionState> {
 		const {
 			apiConfiguration,
+			apiProfileSettings,
 			lastShownAnnouncementId,
 			customInstructions,
 			taskHistory,
 			autoApprovalSettings,
+			budgetSettings,
 			browserSettings,
 			chatSettings,
 			userInfo,
@@ -1791,6 +2411,7 @@ Here is the project's README to help you get started:\n\n${mcpDetails.readmeCont
 		return {
 			version: this.context.extension?.packageJSON?.version ?? "",
 			apiConfiguration,
+			apiProfileSettings,
 			customInstructions,
 			uriScheme: vscode.env.uriScheme,
 			currentTaskItem: this.cline?.taskId ? (taskHistory || []).find((item) => item.id === this.cline?.taskId) : undefined,
@@ -1800,6 +2421,9 @@ Here is the project's README to help you get started:\n\n${mcpDetails.readmeCont
 			shouldShowAnnouncement: lastShownAnnouncementId !== this.latestAnnouncementId,
 			platform: process.platform as Platform,
 			autoApprovalSettings,
+			budgetSettings,
+			workspaceMonthlyCost: await this.getWorkspaceMonthlyCost(),
+			workspaceRoot: vscode.workspace.workspaceFolders?.map((folder) => folder.uri.fsPath).at(0),
 			browserSettings,
 			chatSettings,
 			isLoggedIn: !!authToken,
@@ -1811,8 +2435,22 @@ Here is the project's README to help you get started:\n\n${mcpDetails.readmeCont
 	}
 
 	async clearTask() {
-		this.cline?.abortTask()
+		const cline = this.cline
+		cline?.abortTask()
 		this.cline = undefined // removes reference to it, so once promises end it will be garbage collected
+		// any parent tasks waiting on the cleared sub-task are cleared along with it. Their sub-tasks are finished as cancelled,
+		// so the parents stop waiting on them and can be garbage collected too
+		const parentTasks = this.parentTasks
+		this.parentTasks = []
+		parentTasks.forEach(({ cline: parent, onSubtaskFinished }, index) => {
+			parent.abortTask()
+			const subtask = parentTasks[index + 1]?.cline ?? cline
+			onSubtaskFinished({
+				taskId: subtask?.taskId ?? "",
+				result: undefined,
+				cost: subtask ? getApiMetrics(subtask.clineMessages).totalCost : 0,
+			})
+		})
 	}
 
 	// Caching mechanism to keep track of webview messages + API conversation history per provider instance
@@ -1921,6 +2559,8 @@ Here is the project's README to help you get started:\n\n${mcpDetails.readmeCont
 			asksageApiUrl,
 			xaiApiKey,
 			thinkingBudgetTokens,
+			apiProfileSettings,
+			budgetSettings,
 		] = await Promise.all([
 			this.getGlobalState("apiProvider") as Promise<ApiProvider | undefined>,
 			this.getGlobalState("apiModelId") as Promise<string | undefined>,
@@ -1980,6 +2620,8 @@ Here is the project's README to help you get started:\n\n${mcpDetails.readmeCont
 			this.getGlobalState("asksageApiUrl") as Promise<string | undefined>,
 			this.getSecret("xaiApiKey") as Promise<string | undefined>,
 			this.getGlobalState("thinkingBudgetTokens") as Promise<number | undefined>,
+			this.getGlobalState("apiProfileSettings") as Promise<ApiProfileSettings | undefined>,
+			this.getGlobalState("budgetSettings") as Promise<BudgetSettings | undefined>,
 		])
 
 		let apiProvider: ApiProvider
@@ -2051,10 +2693,12 @@ Here is the project's README to help you get started:\n\n${mcpDetails.readmeCont
 				asksageApiUrl,
 				xaiApiKey,
 			},
+			apiProfileSettings: { ...DEFAULT_API_PROFILE_SETTINGS, ...apiProfileSettings },
 			lastShownAnnouncementId,
 			customInstructions,
 			taskHistory,
-			autoApprovalSettings: autoApprovalSettings || DEFAULT_AUTO_APPROVAL_SETTINGS, // default value can be 0 or empty string
+			autoApprovalSettings: { ...DEFAULT_AUTO_APPROVAL_SETTINGS, ...autoApprovalSettings }, // settings saved before newer fields were added lack them
+			budgetSettings: budgetSettings || DEFAULT_BUDGET_SETTINGS,
 			browserSettings: browserSettings || DEFAULT_BROWSER_SETTINGS,
 			chatSettings: chatSettings || DEFAULT_CHAT_SETTINGS,
 			userInfo,
@@ -2071,8 +2715,11 @@ Here is the project's README to help you get started:\n\n${mcpDetails.readmeCont
 	async updateTaskHistory(item: HistoryItem): Promise<HistoryItem[]> {
 		const history = ((await this.getGlobalState("taskHistory")) as HistoryItem[]) || []
 		const existingItemIndex = history.findIndex((h) => h.id === item.id)
+		await this.addWorkspaceMonthlyCost(getWorkspaceCostIncrease(item, history[existingItemIndex]))
 		if (existingItemIndex !== -1) {
-			history[existingItemIndex] = item
+			// pins and tags are set from the history view, not by the task
+			const { pinned, tags } = history[existingItemIndex]
+			history[existingItemIndex] = { ...item, pinned, tags }
 		} else {
 			history.push(item)
 		}
@@ -2080,6 +2727,24 @@ Here is the project's README to help you get started:\n\n${mcpDetails.readmeCont
 		return history
 	}
 
+	// Workspace spend, tracked per calendar month for the monthly budget
+
+	async getWorkspaceMonthlyCost(): Promise<number> {
+		const spend = (await this.getWorkspaceState("monthlySpend")) as { month: string; cost: number } | undefined
+		return spend?.month === getCurrentMonth() ? spend.cost : 0
+	}
+
+	private async addWorkspaceMonthlyCost(cost: number) {
+		// costs can go down when messages are deleted, which doesn't give back what was already spent
+		if (!(cost > 0)) {
+			return
+		}
+		await this.updateWorkspaceState("monthlySpend", {
+			month: getCurrentMonth(),
+			cost: (await this.getWorkspaceMonthlyCost()) + cost,
+		})
+	}
+
 	// global
 
 	async updateGlobalState(key: GlobalStateKey, value: any) {
@@ -2196,14 +2861,13 @@ Here is the project's README to help you get started:\n\n${mcpDetails.readmeCont
 			"authToken",
 			"asksageApiKey",
 			"xaiApiKey",
+			"apiProfileSecrets",
+			"mcpServerSecrets",
 		]
 		for (const key of secretKeys) {
 			await this.storeSecret(key, undefined)
 		}
-		if (this.cline) {
-			this.cline.abortTask()
-			this.cline = undefined
-		}
+		await this.clearTask()
 		vscode.window.showInformationMessage("State reset")
 		await this.postStateToWebview()
 		await this.postMessageToWebview({
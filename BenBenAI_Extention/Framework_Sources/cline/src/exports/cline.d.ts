@@ -1,4 +1,14 @@
+import type { Event } from "vscode"
+
 export interface ClineAPI {
+	/**
+	 * The version of this API. It's incremented whenever methods or events are added, so check it before using anything
+	 * newer than the version you were built against.
+	 * - 1: custom instructions, starting tasks, sending messages and pressing buttons
+	 * - 2: events, task history, resuming tasks, chat mode, auto-approval settings, MCP servers and awaiting task completion
+	 */
+	readonly apiVersion: number
+
 	/**
 	 * Sets the custom instructions in the global storage.
 	 * @param value The custom instructions to be saved.
@@ -34,4 +44,133 @@ export interface ClineAPI {
 	 * Simulates pressing the secondary button in the chat interface.
 	 */
 	pressSecondaryButton(): Promise<void>
+
+	/**
+	 * Fired when a task is started or resumed from history, with its id. Sub-tasks started with the delegate_task tool
+	 * fire this event too.
+	 */
+	readonly onDidStartTask: Event<string>
+
+	/**
+	 * Fired for every message of a task once it's complete (partial messages that are still streaming are skipped).
+	 */
+	readonly onDidReceiveMessage: Event<ClineMessageEvent>
+
+	/**
+	 * Fired when a task presents its result with attempt_completion, or is cancelled before it does.
+	 */
+	readonly onDidFinishTask: Event<ClineTaskResult>
+
+	/**
+	 * Waits for a task to finish.
+	 * @param taskId The task to wait for. Defaults to the next task that finishes. If the task has already finished (or
+	 * isn't running), its last result is returned straight away.
+	 * @returns The task's result and cost.
+	 */
+	awaitTaskCompletion(taskId?: string): Promise<ClineTaskResult>
+
+	/**
+	 * Retrieves the task history, newest task last.
+	 */
+	getTaskHistory(): Promise<ClineHistoryItem[]>
+
+	/**
+	 * Opens a task from the history and resumes it, as if the user clicked Resume Task. Does nothing if it's the current task.
+	 * @param taskId The id of a task in the history.
+	 * @param message What to tell the task as it resumes, e.g. what to do next once it had completed.
+	 */
+	resumeTask(taskId: string, message?: string): Promise<void>
+
+	/**
+	 * Retrieves the current chat mode.
+	 */
+	getChatMode(): Promise<ClineChatMode>
+
+	/**
+	 * Switches between plan and act mode, as if the user toggled it.
+	 * @param mode The mode to switch to.
+	 */
+	setChatMode(mode: ClineChatMode): Promise<void>
+
+	/**
+	 * Retrieves the auto-approval settings.
+	 */
+	getAutoApprovalSettings(): Promise<ClineAutoApprovalSettings>
+
+	/**
+	 * Replaces the auto-approval settings. They apply to the current task immediately.
+	 * @param settings The new settings.
+	 */
+	setAutoApprovalSettings(settings: ClineAutoApprovalSettings): Promise<void>
+
+	/**
+	 * Adds an MCP server to the MCP settings file (or replaces the one with the same name) and connects to it.
+	 * @param name The name of the server.
+	 * @param config How to launch the server.
+	 */
+	addMcpServer(name: string, config: ClineMcpServerConfig): Promise<void>
+}
+
+export type ClineChatMode = "plan" | "act"
+
+export interface ClineMessage {
+	ts: number
+	type: "ask" | "say"
+	ask?: string
+	say?: string
+	text?: string
+	images?: string[]
+	partial?: boolean
+}
+
+export interface ClineMessageEvent {
+	taskId: string
+	message: ClineMessage
+}
+
+export interface ClineTaskResult {
+	taskId: string
+	/** The result the task presented with attempt_completion, or undefined if it was cancelled */
+	result?: string
+	/** The total API cost of the task in USD */
+	cost: number
+}
+
+export interface ClineHistoryItem {
+	id: string
+	ts: number
+	task: string
+	tokensIn: number
+	tokensOut: number
+	cacheWrites?: number
+	cacheReads?: number
+	totalCost: number
+	parentTaskId?: string
+}
+
+export interface ClineAutoApprovalSettings {
+	enabled: boolean
+	actions: {
+		readFiles: boolean
+		editFiles: boolean
+		executeCommands: boolean
+		useBrowser: boolean
+		useMcp: boolean
+	}
+	/** Globs (.gitignore syntax, relative to the workspace) limiting which files editFiles auto-approves. */
+	editFileRules?: {
+		include: string[]
+		exclude: string[]
+	}
+	maxRequests: number
+	enableNotifications: boolean
+}
+
+export interface ClineMcpServerConfig {
+	command: string
+	args?: string[]
+	env?: Record<string, string>
+	autoApprove?: string[]
+	disabled?: boolean
+	timeout?: number
 }
@@ -1,9 +1,80 @@
+import fs from "fs/promises"
+import pWaitFor from "p-wait-for"
 import * as vscode from "vscode"
+import { Cline } from "../core/Cline"
 import { ClineProvider } from "../core/webview/ClineProvider"
-import { ClineAPI } from "./cline"
+import { findLastIndex } from "../shared/array"
+import { DEFAULT_AUTO_APPROVAL_SETTINGS } from "../shared/AutoApprovalSettings"
+import { ClineMessage } from "../shared/ExtensionMessage"
+import { getApiMetrics } from "../shared/getApiMetrics"
+import { ClineAPI, ClineMessageEvent, ClineTaskResult } from "./cline"
+
+// Bump when adding to ClineAPI (see apiVersion in cline.d.ts)
+export const CLINE_API_VERSION = 2
 
 export function createClineAPI(outputChannel: vscode.OutputChannel, sidebarProvider: ClineProvider): ClineAPI {
+	const onDidStartTask = new vscode.EventEmitter<string>()
+	const onDidReceiveMessage = new vscode.EventEmitter<ClineMessageEvent>()
+	const onDidFinishTask = new vscode.EventEmitter<ClineTaskResult>()
+
+	// the task shown in the sidebar, which is running or waiting for the user, and the results of those that finished since
+	let currentCline: Cline | undefined
+	const finishedTasks = new Map<string, ClineTaskResult>()
+
+	const finishTask = (result: ClineTaskResult) => {
+		finishedTasks.set(result.taskId, result)
+		onDidFinishTask.fire(result)
+	}
+
+	sidebarProvider.events.on("clineCreated", (cline) => {
+		currentCline = cline
+		finishedTasks.delete(cline.taskId) // e.g. resumed from the history
+		onDidStartTask.fire(cline.taskId)
+		// a task can be finished more than once, since the user can reply to its result and have it carry on
+		let isFinished = false
+		cline.events.on("message", (message) => {
+			onDidReceiveMessage.fire({ taskId: cline.taskId, message })
+			if (message.say === "completion_result") {
+				isFinished = true
+				finishTask({ taskId: cline.taskId, result: message.text, cost: getApiMetrics(cline.clineMessages).totalCost })
+			} else if (message.say === "user_feedback") {
+				isFinished = false
+				finishedTasks.delete(cline.taskId)
+			}
+		})
+		cline.events.on("aborted", () => {
+			if (currentCline === cline) {
+				currentCline = undefined
+			}
+			if (!isFinished) {
+				isFinished = true
+				finishTask({ taskId: cline.taskId, cost: getApiMetrics(cline.clineMessages).totalCost })
+			}
+		})
+	})
+
+	// a task that isn't in the sidebar has finished, with the result it last presented unless that was replied to
+	const getFinishedTaskResult = async (taskId: string): Promise<ClineTaskResult | undefined> => {
+		if (finishedTasks.has(taskId)) {
+			return finishedTasks.get(taskId)
+		}
+		if (currentCline?.taskId === taskId) {
+			return undefined
+		}
+		const { uiMessagesFilePath } = await sidebarProvider.getTaskWithId(taskId)
+		const messages: ClineMessage[] = JSON.parse(await fs.readFile(uiMessagesFilePath, "utf8"))
+		const resultIndex = findLastIndex(messages, (message) => message.say === "completion_result")
+		const wasRepliedTo = messages.slice(resultIndex + 1).some((message) => message.say === "user_feedback")
+		return {
+			taskId,
+			result: resultIndex !== -1 && !wasRepliedTo ? messages[resultIndex].text : undefined,
+			cost: getApiMetrics(messages).totalCost,
+		}
+	}
+
 	const api: ClineAPI = {
+		apiVersion: CLINE_API_VERSION,
+
 		setCustomInstructions: async (value: string) => {
 			await sidebarProvider.updateCustomInstructions(value)
 			outputChannel.appendLine("Custom instructions set")
@@ -59,6 +130,96 @@ export function createClineAPI(outputChannel: vscode.OutputChannel, sidebarProvi
 				invoke: "secondaryButtonClick",
 			})
 		},
+
+		onDidStartTask: onDidStartTask.event,
+
+		onDidReceiveMessage: onDidReceiveMessage.event,
+
+		onDidFinishTask: onDidFinishTask.event,
+
+		awaitTaskCompletion: (taskId?: string) => {
+			return new Promise<ClineTaskResult>((resolve, reject) => {
+				const disposable = onDidFinishTask.event((result) => {
+					if (!taskId || result.taskId === taskId) {
+						disposable.dispose()
+						resolve(result)
+					}
+				})
+				// listening first, so the task can't finish unnoticed while its state is read
+				if (taskId) {
+					getFinishedTaskResult(taskId).then(
+						(result) => {
+							if (result) {
+								disposable.dispose()
+								resolve(result)
+							}
+						},
+						(error) => {
+							disposable.dispose()
+							reject(error)
+						},
+					)
+				}
+			})
+		},
+
+		getTaskHistory: async () => {
+			return (await sidebarProvider.getState()).taskHistory ?? []
+		},
+
+		resumeTask: async (taskId: string, message?: string) => {
+			outputChannel.appendLine(`Resuming task ${taskId}`)
+			if (currentCline?.taskId === taskId) {
+				// it's already running, or waiting for the user like any other task
+				return
+			}
+			await sidebarProvider.showTaskWithId(taskId)
+			// a task from the history asks whether to resume it, which is answered as if the user had
+			const cline = currentCline
+			await pWaitFor(
+				() => {
+					const lastMessage = cline?.clineMessages[cline.clineMessages.length - 1]
+					return (
+						lastMessage?.type === "ask" &&
+						!lastMessage.partial &&
+						(lastMessage.ask === "resume_task" || lastMessage.ask === "resume_completed_task")
+					)
+				},
+				{ timeout: 10_000 },
+			)
+			if (message) {
+				await cline?.handleWebviewAskResponse("messageResponse", message)
+			} else {
+				await cline?.handleWebviewAskResponse("yesButtonClicked")
+			}
+		},
+
+		getChatMode: async () => {
+			return (await sidebarProvider.getState()).chatSettings.mode
+		},
+
+		setChatMode: async (mode) => {
+			outputChannel.appendLine(`Switching to ${mode} mode`)
+			const { chatSettings } = await sidebarProvider.getState()
+			await sidebarProvider.togglePlanActModeWithChatSettings({ ...chatSettings, mode })
+		},
+
+		getAutoApprovalSettings: async () => {
+			return (await sidebarProvider.getState()).autoApprovalSettings
+		},
+
+		setAutoApprovalSettings: async (settings) => {
+			await sidebarProvider.updateAutoApprovalSettings({ ...DEFAULT_AUTO_APPROVAL_SETTINGS, ...settings })
+			outputChannel.appendLine("Auto-approval settings set")
+		},
+
+		addMcpServer: async (name, config) => {
+			if (!sidebarProvider.mcpHub) {
+				throw new Error("MCP hub is not available")
+			}
+			await sidebarProvider.mcpHub.addServer(name, config)
+			outputChannel.appendLine(`Added MCP server ${name}`)
+		},
 	}
 
 	return api
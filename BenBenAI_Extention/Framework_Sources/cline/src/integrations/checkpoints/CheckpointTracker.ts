@@ -1,24 +1,54 @@
 import fs from "fs/promises"
-import os from "os"
 import * as path from "path"
 import simpleGit, { SimpleGit } from "simple-git"
 import * as vscode from "vscode"
 import { ClineProvider } from "../../core/webview/ClineProvider"
 import { fileExistsAtPath } from "../../utils/fs"
 import { globby } from "globby"
+import { WorkspaceRoot } from "../workspace/WorkspaceRoots"
+import { getWorkingDirectories, hashWorkingDir } from "./CheckpointUtils"
+
+/*
+In a multi-root workspace, each folder other than the first (the cwd) is tracked in its own shadow git repository, under
+tasks/{taskId}/checkpoints/workspace-folders/{hash of the folder's path}. A checkpoint's commit in the cwd's repository
+records the commits made in the other repositories at the same time, one per line of its message, so the checkpoint hash
+stored in the task's messages still identifies the state of the whole workspace:
+	Workspace-Folder: {hash of the folder's path} {commit}
+*/
+const WORKSPACE_FOLDER_PREFIX = "Workspace-Folder: "
+
+interface CheckpointFileDiff {
+	relativePath: string
+	absolutePath: string
+	before: string
+	after: string
+}
 
 class CheckpointTracker {
 	private providerRef: WeakRef<ClineProvider>
 	private taskId: string
 	private disposables: vscode.Disposable[] = []
 	private cwd: string
+	private roots: WorkspaceRoot[]
 	private lastRetrievedShadowGitConfigWorkTree?: string
 	lastCheckpointHash?: string
 
-	private constructor(provider: ClineProvider, taskId: string, cwd: string) {
+	private constructor(provider: ClineProvider, taskId: string, roots: WorkspaceRoot[]) {
 		this.providerRef = new WeakRef(provider)
 		this.taskId = taskId
-		this.cwd = cwd
+		this.cwd = roots[0].path
+		// folders inside the cwd are already tracked in its repository
+		this.roots = roots.filter((root, index) => index === 0 || path.relative(this.cwd, root.path).startsWith(".."))
+	}
+
+	// the folders other than the cwd
+	private get additionalRoots(): WorkspaceRoot[] {
+		return this.roots.slice(1)
+	}
+
+	// paths are prefixed with the folder's name in multi-root workspaces
+	private getRelativePath(root: WorkspaceRoot, filePath: string): string {
+		return this.roots.length > 1 ? path.posix.join(root.name, filePath) : filePath
 	}
 
 	public static async create(taskId: string, provider?: ClineProvider): Promise<CheckpointTracker | undefined> {
@@ -40,8 +70,8 @@ class CheckpointTracker {
 				throw new Error("Git must be installed to use checkpoints.") // FIXME: must match what we check for in TaskHeader to show link
 			}
 
-			const cwd = await CheckpointTracker.getWorkingDirectory()
-			const newTracker = new CheckpointTracker(provider, taskId, cwd)
+			const roots = await getWorkingDirectories()
+			const newTracker = new CheckpointTracker(provider, taskId, roots)
 			await newTracker.initShadowGit()
 			return newTracker
 		} catch (error) {
@@ -50,36 +80,23 @@ class CheckpointTracker {
 		}
 	}
 
-	private static async getWorkingDirectory(): Promise<string> {
-		const cwd = vscode.workspace.workspaceFolders?.map((folder) => folder.uri.fsPath).at(0)
-		if (!cwd) {
-			throw new Error("No workspace detected. Please open Cline in a workspace to use checkpoints.")
-		}
-		const homedir = os.homedir()
-		const desktopPath = path.join(homedir, "Desktop")
-		const documentsPath = path.join(homedir, "Documents")
-		const downloadsPath = path.join(homedir, "Downloads")
-
-		switch (cwd) {
-			case homedir:
-				throw new Error("Cannot use checkpoints in home directory")
-			case desktopPath:
-				throw new Error("Cannot use checkpoints in Desktop directory")
-			case documentsPath:
-				throw new Error("Cannot use checkpoints in Documents directory")
-			case downloadsPath:
-				throw new Error("Cannot use checkpoints in Downloads directory")
-			default:
-				return cwd
-		}
-	}
-
-	private async getShadowGitPath(): Promise<string> {
+	// the cwd's shadow git repository, or another workspace folder's
+	private async getShadowGitPath(root?: WorkspaceRoot): Promise<string> {
 		const globalStoragePath = this.providerRef.deref()?.context.globalStorageUri.fsPath
 		if (!globalStoragePath) {
 			throw new Error("Global storage uri is invalid")
 		}
-		const checkpointsDir = path.join(globalStoragePath, "tasks", this.taskId, "checkpoints")
+		const checkpointsDir =
+			root && root.path !== this.cwd
+				? path.join(
+						globalStoragePath,
+						"tasks",
+						this.taskId,
+						"checkpoints",
+						"workspace-folders",
+						hashWorkingDir(root.path),
+					)
+				: path.join(globalStoragePath, "tasks", this.taskId, "checkpoints")
 		await fs.mkdir(checkpointsDir, { recursive: true })
 		const gitPath = path.join(checkpointsDir, ".git")
 		return gitPath
@@ -102,140 +119,148 @@ class CheckpointTracker {
 			if (worktree !== this.cwd) {
 				throw new Error("Checkpoints can only be used in the original workspace: " + worktree)
 			}
-
-			return gitPath
 		} else {
-			const checkpointsDir = path.dirname(gitPath)
-			const git = simpleGit(checkpointsDir)
-			await git.init()
+			await this.initShadowGitRepository(gitPath, this.cwd)
+		}
+		// folders added to the workspace during the task start out with their state at that time
+		for (const root of this.additionalRoots) {
+			const rootGitPath = await this.getShadowGitPath(root)
+			if (!(await fileExistsAtPath(rootGitPath))) {
+				await this.initShadowGitRepository(rootGitPath, root.path)
+			}
+		}
+		return gitPath
+	}
 
-			await git.addConfig("core.worktree", this.cwd) // sets the working tree to the current workspace
+	private async initShadowGitRepository(gitPath: string, worktree: string): Promise<void> {
+		const checkpointsDir = path.dirname(gitPath)
+		const git = simpleGit(checkpointsDir)
+		await git.init()
 
-			// Disable commit signing for shadow repo
-			await git.addConfig("commit.gpgSign", "false")
+		await git.addConfig("core.worktree", worktree) // sets the working tree to the workspace folder
 
-			// Get LFS patterns from workspace if they exist
-			let lfsPatterns: string[] = []
-			try {
-				const attributesPath = path.join(this.cwd, ".gitattributes")
-				if (await fileExistsAtPath(attributesPath)) {
-					const attributesContent = await fs.readFile(attributesPath, "utf8")
-					lfsPatterns = attributesContent
-						.split("\n")
-						.filter((line) => line.includes("filter=lfs"))
-						.map((line) => line.split(" ")[0].trim())
-				}
-			} catch (error) {
-				console.warn("Failed to read .gitattributes:", error)
-			}
+		// Disable commit signing for shadow repo
+		await git.addConfig("commit.gpgSign", "false")
 
-			// Add basic excludes directly in git config, while respecting any .gitignore in the workspace
-			// .git/info/exclude is local to the shadow git repo, so it's not shared with the main repo - and won't conflict with user's .gitignore
-			// TODO: let user customize these
-			const excludesPath = path.join(gitPath, "info", "exclude")
-			await fs.mkdir(path.join(gitPath, "info"), { recursive: true })
-			await fs.writeFile(
-				excludesPath,
-				[
-					".git/", // ignore the user's .git
-					`.git${GIT_DISABLED_SUFFIX}/`, // ignore the disabled nested git repos
-					".DS_Store",
-					"*.log",
-					"node_modules/",
-					"__pycache__/",
-					"env/",
-					"venv/",
-					"target/dependency/",
-					"build/dependencies/",
-					"dist/",
-					"out/",
-					"bundle/",
-					"vendor/",
-					"tmp/",
-					"temp/",
-					"deps/",
-					"pkg/",
-					"Pods/",
-					// Media files
-					"*.jpg",
-					"*.jpeg",
-					"*.png",
-					"*.gif",
-					"*.bmp",
-					"*.ico",
-					// "*.svg",
-					"*.mp3",
-					"*.mp4",
-					"*.wav",
-					"*.avi",
-					"*.mov",
-					"*.wmv",
-					"*.webm",
-					"*.webp",
-					"*.m4a",
-					"*.flac",
-					// Build and dependency directories
-					"build/",
-					"bin/",
-					"obj/",
-					".gradle/",
-					".idea/",
-					".vscode/",
-					".vs/",
-					"coverage/",
-					".next/",
-					".nuxt/",
-					// Cache and temporary files
-					"*.cache",
-					"*.tmp",
-					"*.temp",
-					"*.swp",
-					"*.swo",
-					"*.pyc",
-					"*.pyo",
-					".pytest_cache/",
-					".eslintcache",
-					// Environment and config files
-					".env*",
-					"*.local",
-					"*.development",
-					"*.production",
-					// Large data files
-					"*.zip",
-					"*.tar",
-					"*.gz",
-					"*.rar",
-					"*.7z",
-					"*.iso",
-					"*.bin",
-					"*.exe",
-					"*.dll",
-					"*.so",
-					"*.dylib",
-					// Database files
-					"*.sqlite",
-					"*.db",
-					"*.sql",
-					// Log files
-					"*.logs",
-					"*.error",
-					"npm-debug.log*",
-					"yarn-debug.log*",
-					"yarn-error.log*",
-					...lfsPatterns,
-				].join("\n"),
-			)
-
-			// Set up git identity (git throws an error if user.name or user.email is not set)
-			await git.addConfig("user.name", "Cline Checkpoint")
-			await git.addConfig("user.email", "noreply@example.com")
-
-			await this.addAllFiles(git)
-			// Initial commit (--allow-empty ensures it works even with no files)
-			await git.commit("initial commit", { "--allow-empty": null })
-
-			return gitPath
+		// Get LFS patterns from workspace if they exist
+		let lfsPatterns: string[] = []
+		try {
+			const attributesPath = path.join(worktree, ".gitattributes")
+			if (await fileExistsAtPath(attributesPath)) {
+				const attributesContent = await fs.readFile(attributesPath, "utf8")
+				lfsPatterns = attributesContent
+					.split("\n")
+					.filter((line) => line.includes("filter=lfs"))
+					.map((line) => line.split(" ")[0].trim())
+			}
+		} catch (error) {
+			console.warn("Failed to read .gitattributes:", error)
 		}
+
+		// Add basic excludes directly in git config, while respecting any .gitignore in the workspace
+		// .git/info/exclude is local to the shadow git repo, so it's not shared with the main repo - and won't conflict with user's .gitignore
+		// TODO: let user customize these
+		const excludesPath = path.join(gitPath, "info", "exclude")
+		await fs.mkdir(path.join(gitPath, "info"), { recursive: true })
+		await fs.writeFile(
+			excludesPath,
+			[
+				".git/", // ignore the user's .git
+				`.git${GIT_DISABLED_SUFFIX}/`, // ignore the disabled nested git repos
+				".DS_Store",
+				"*.log",
+				"node_modules/",
+				"__pycache__/",
+				"env/",
+				"venv/",
+				"target/dependency/",
+				"build/dependencies/",
+				"dist/",
+				"out/",
+				"bundle/",
+				"vendor/",
+				"tmp/",
+				"temp/",
+				"deps/",
+				"pkg/",
+				"Pods/",
+				// Media files
+				"*.jpg",
+				"*.jpeg",
+				"*.png",
+				"*.gif",
+				"*.bmp",
+				"*.ico",
+				// "*.svg",
+				"*.mp3",
+				"*.mp4",
+				"*.wav",
+				"*.avi",
+				"*.mov",
+				"*.wmv",
+				"*.webm",
+				"*.webp",
+				"*.m4a",
+				"*.flac",
+				// Build and dependency directories
+				"build/",
+				"bin/",
+				"obj/",
+				".gradle/",
+				".idea/",
+				".vscode/",
+				".vs/",
+				"coverage/",
+				".next/",
+				".nuxt/",
+				// Cache and temporary files
+				"*.cache",
+				"*.tmp",
+				"*.temp",
+				"*.swp",
+				"*.swo",
+				"*.pyc",
+				"*.pyo",
+				".pytest_cache/",
+				".eslintcache",
+				// Environment and config files
+				".env*",
+				"*.local",
+				"*.development",
+				"*.production",
+				// Large data files
+				"*.zip",
+				"*.tar",
+				"*.gz",
+				"*.rar",
+				"*.7z",
+				"*.iso",
+				"*.bin",
+				"*.exe",
+				"*.dll",
+				"*.so",
+				"*.dylib",
+				// Database files
+				"*.sqlite",
+				"*.db",
+				"*.sql",
+				// Log files
+				"*.logs",
+				"*.error",
+				"npm-debug.log*",
+				"yarn-debug.log*",
+				"yarn-error.log*",
+				...lfsPatterns,
+			].join("\n"),
+		)
+
+		// Set up git identity (git throws an error if user.name or user.email is not set)
+		await git.addConfig("user.name", "Cline Checkpoint")
+		await git.addConfig("user.email", "noreply@example.com")
+
+		await this.addAllFiles(git, worktree)
+		// Initial commit (--allow-empty ensures it works even with no files)
+		await git.commit("initial commit", { "--allow-empty": null })
 	}
 
 	public async getShadowGitConfigWorkTree(): Promise<string | undefined> {
@@ -256,10 +281,19 @@ class CheckpointTracker {
 
 	public async commit(): Promise<string | undefined> {
 		try {
+			const workspaceFolderCommits: string[] = []
+			for (const root of this.additionalRoots) {
+				const rootGit = simpleGit(path.dirname(await this.getShadowGitPath(root)))
+				await this.addAllFiles(rootGit, root.path)
+				const rootResult = await rootGit.commit("checkpoint", { "--allow-empty": null })
+				workspaceFolderCommits.push(`${WORKSPACE_FOLDER_PREFIX}${hashWorkingDir(root.path)} ${rootResult.commit}`)
+			}
+
 			const gitPath = await this.getShadowGitPath()
 			const git = simpleGit(path.dirname(gitPath))
-			await this.addAllFiles(git)
-			const result = await git.commit("checkpoint", {
+			await this.addAllFiles(git, this.cwd)
+			const message = ["checkpoint", ...workspaceFolderCommits].join("\n")
+			const result = await git.commit(message, {
 				"--allow-empty": null,
 			})
 			const commitHash = result.commit || ""
@@ -274,6 +308,7 @@ class CheckpointTracker {
 	public async resetHead(commitHash: string): Promise<void> {
 		const gitPath = await this.getShadowGitPath()
 		const git = simpleGit(path.dirname(gitPath))
+		const workspaceFolderCommits = await this.getWorkspaceFolderCommits(git, commitHash)
 
 		// Clean working directory and force reset
 		// This ensures that the operation will succeed regardless of:
@@ -284,6 +319,32 @@ class CheckpointTracker {
 		// - Merge conflicts
 		await git.clean("f", ["-d", "-f"]) // Remove untracked files and directories
 		await git.reset(["--hard", commitHash]) // Hard reset to target commit
+
+		for (const root of this.additionalRoots) {
+			const rootCommitHash = workspaceFolderCommits.get(hashWorkingDir(root.path))
+			if (!rootCommitHash) {
+				continue // the folder was added to the workspace after the checkpoint
+			}
+			const rootGit = simpleGit(path.dirname(await this.getShadowGitPath(root)))
+			await rootGit.clean("f", ["-d", "-f"])
+			await rootGit.reset(["--hard", rootCommitHash])
+		}
+	}
+
+	// the commits of the other workspace folders' repositories recorded with a checkpoint, by folder path hash
+	private async getWorkspaceFolderCommits(git: SimpleGit, commitHash: string): Promise<Map<string, string>> {
+		const commits = new Map<string, string>()
+		if (this.additionalRoots.length === 0) {
+			return commits
+		}
+		const message = await git.raw(["show", "-s", "--format=%B", commitHash])
+		for (const line of message.split("\n")) {
+			if (line.startsWith(WORKSPACE_FOLDER_PREFIX)) {
+				const [folderHash, folderCommitHash] = line.slice(WORKSPACE_FOLDER_PREFIX.length).trim().split(" ")
+				commits.set(folderHash, folderCommitHash)
+			}
+		}
+		return commits
 	}
 
 	/**
@@ -299,20 +360,33 @@ class CheckpointTracker {
 	 *                  If omitted, we compare to the working directory.
 	 * @returns Array of file changes with before/after content
 	 */
-	public async getDiffSet(
-		lhsHash?: string,
-		rhsHash?: string,
-	): Promise<
-		Array<{
-			relativePath: string
-			absolutePath: string
-			before: string
-			after: string
-		}>
-	> {
+	public async getDiffSet(lhsHash?: string, rhsHash?: string): Promise<CheckpointFileDiff[]> {
 		const gitPath = await this.getShadowGitPath()
 		const git = simpleGit(path.dirname(gitPath))
+		const cwdPath = (await this.getShadowGitConfigWorkTree()) || this.cwd || ""
+		const result = await this.getRepositoryDiffSet(git, { ...this.roots[0], path: cwdPath }, lhsHash, rhsHash)
+
+		const lhsFolderCommits = lhsHash ? await this.getWorkspaceFolderCommits(git, lhsHash) : undefined
+		const rhsFolderCommits = rhsHash ? await this.getWorkspaceFolderCommits(git, rhsHash) : undefined
+		for (const root of this.additionalRoots) {
+			const folderHash = hashWorkingDir(root.path)
+			const rootRhsHash = rhsFolderCommits?.get(folderHash)
+			if (rhsFolderCommits && !rootRhsHash) {
+				continue // the folder was added to the workspace after the newer checkpoint
+			}
+			const rootGit = simpleGit(path.dirname(await this.getShadowGitPath(root)))
+			// diffed from the folder's initial commit if it was added after the older checkpoint
+			result.push(...(await this.getRepositoryDiffSet(rootGit, root, lhsFolderCommits?.get(folderHash), rootRhsHash)))
+		}
+		return result
+	}
 
+	private async getRepositoryDiffSet(
+		git: SimpleGit,
+		root: WorkspaceRoot,
+		lhsHash?: string,
+		rhsHash?: string,
+	): Promise<CheckpointFileDiff[]> {
 		// If lhsHash is missing, use the initial commit of the repo
 		let baseHash = lhsHash
 		if (!baseHash) {
@@ -321,17 +395,16 @@ class CheckpointTracker {
 		}
 
 		// Stage all changes so that untracked files appear in diff summary
-		await this.addAllFiles(git)
+		await this.addAllFiles(git, root.path)
 
 		const diffSummary = rhsHash ? await git.diffSummary([`${baseHash}..${rhsHash}`]) : await git.diffSummary([baseHash])
 
 		// For each changed file, gather before/after content
-		const result = []
-		const cwdPath = (await this.getShadowGitConfigWorkTree()) || this.cwd || ""
+		const result: CheckpointFileDiff[] = []
 
 		for (const file of diffSummary.files) {
 			const filePath = file.file
-			const absolutePath = path.join(cwdPath, filePath)
+			const absolutePath = path.join(root.path, filePath)
 
 			let beforeContent = ""
 			try {
@@ -358,7 +431,7 @@ class CheckpointTracker {
 			}
 
 			result.push({
-				relativePath: filePath,
+				relativePath: this.getRelativePath(root, filePath),
 				absolutePath,
 				before: beforeContent,
 				after: afterContent,
@@ -368,22 +441,22 @@ class CheckpointTracker {
 		return result
 	}
 
-	private async addAllFiles(git: SimpleGit) {
-		await this.renameNestedGitRepos(true)
+	private async addAllFiles(git: SimpleGit, worktree: string) {
+		await this.renameNestedGitRepos(worktree, true)
 		try {
 			await git.add(".")
 		} catch (error) {
 			console.error("Failed to add files to git:", error)
 		} finally {
-			await this.renameNestedGitRepos(false)
+			await this.renameNestedGitRepos(worktree, false)
 		}
 	}
 
 	// Since we use git to track checkpoints, we need to temporarily disable nested git repos to work around git's requirement of using submodules for nested repos.
-	private async renameNestedGitRepos(disable: boolean) {
+	private async renameNestedGitRepos(worktree: string, disable: boolean) {
 		// Find all .git directories that are not at the root level
 		const gitPaths = await globby("**/.git" + (disable ? "" : GIT_DISABLED_SUFFIX), {
-			cwd: this.cwd,
+			cwd: worktree,
 			onlyDirectories: true,
 			ignore: [".git"], // Ignore root level .git
 			dot: true,
@@ -392,7 +465,7 @@ class CheckpointTracker {
 
 		// For each nested .git directory, rename it based on operation
 		for (const gitPath of gitPaths) {
-			const fullPath = path.join(this.cwd, gitPath)
+			const fullPath = path.join(worktree, gitPath)
 			let newPath: string
 			if (disable) {
 				newPath = fullPath + GIT_DISABLED_SUFFIX
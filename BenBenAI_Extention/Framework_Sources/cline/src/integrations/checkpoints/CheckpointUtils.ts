@@ -3,6 +3,7 @@ import * as path from "path"
 import * as vscode from "vscode"
 import os from "os"
 import { fileExistsAtPath } from "../../utils/fs"
+import { WorkspaceRoot, WorkspaceRoots } from "../workspace/WorkspaceRoots"
 
 /**
  * Gets the path to the legacy shadow Git repository in globalStorage.
@@ -83,10 +84,27 @@ export async function getShadowGitPath(
  * @throws Error if no workspace is detected or if in a protected directory
  */
 export async function getWorkingDirectory(): Promise<string> {
-	const cwd = vscode.workspace.workspaceFolders?.map((folder) => folder.uri.fsPath).at(0)
-	if (!cwd) {
+	const [cwd] = await getWorkingDirectories()
+	return cwd.path
+}
+
+/**
+ * Gets all folders of the VS Code workspace, validating each like getWorkingDirectory.
+ * In a multi-root workspace each folder's changes are tracked in its own shadow Git repository.
+ *
+ * @returns Promise<WorkspaceRoot[]> The workspace folders, the first being the current working directory
+ * @throws Error if no workspace is detected or if any folder is a protected directory
+ */
+export async function getWorkingDirectories(): Promise<WorkspaceRoot[]> {
+	const workspaceRoots = WorkspaceRoots.fromFolders(vscode.workspace.workspaceFolders)
+	if (!workspaceRoots) {
 		throw new Error("No workspace detected. Please open Cline in a workspace to use checkpoints.")
 	}
+	workspaceRoots.roots.forEach((root) => validateWorkingDirectory(root.path))
+	return workspaceRoots.roots
+}
+
+function validateWorkingDirectory(cwd: string): void {
 	const homedir = os.homedir()
 	const desktopPath = path.join(homedir, "Desktop")
 	const documentsPath = path.join(homedir, "Documents")
@@ -101,8 +119,6 @@ export async function getWorkingDirectory(): Promise<string> {
 			throw new Error("Cannot use checkpoints in Documents directory")
 		case downloadsPath:
 			throw new Error("Cannot use checkpoints in Downloads directory")
-		default:
-			return cwd
 	}
 }
 
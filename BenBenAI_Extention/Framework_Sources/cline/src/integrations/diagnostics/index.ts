@@ -1,6 +1,6 @@
 import * as vscode from "vscode"
-import * as path from "path"
 import deepEqual from "fast-deep-equal"
+import { WorkspaceRoots } from "../workspace/WorkspaceRoots"
 
 export function getNewDiagnostics(
 	oldDiagnostics: [vscode.Uri, vscode.Diagnostic[]][],
@@ -73,13 +73,13 @@ export function getNewDiagnostics(
 export function diagnosticsToProblemsString(
 	diagnostics: [vscode.Uri, vscode.Diagnostic[]][],
 	severities: vscode.DiagnosticSeverity[],
-	cwd: string,
+	workspaceRoots: WorkspaceRoots,
 ): string {
 	let result = ""
 	for (const [uri, fileDiagnostics] of diagnostics) {
 		const problems = fileDiagnostics.filter((d) => severities.includes(d.severity))
 		if (problems.length > 0) {
-			result += `\n\n${path.relative(cwd, uri.fsPath).toPosix()}`
+			result += `\n\n${workspaceRoots.getRelativePath(uri.fsPath)}`
 			for (const diagnostic of problems) {
 				let label: string
 				switch (diagnostic.severity) {
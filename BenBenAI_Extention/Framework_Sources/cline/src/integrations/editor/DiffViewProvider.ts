@@ -7,9 +7,24 @@ import { formatResponse } from "../../core/prompts/responses"
 import { DecorationController } from "./DecorationController"
 import * as diff from "diff"
 import { diagnosticsToProblemsString, getNewDiagnostics } from "../diagnostics"
+import { WorkspaceRoots } from "../workspace/WorkspaceRoots"
 
 export const DIFF_VIEW_URI_SCHEME = "cline-diff"
 
+// What Cline needs from a diff view, so edits can also be applied outside of VS Code (see HeadlessDiffViewProvider)
+export type ClineDiffViewProvider = Pick<
+	DiffViewProvider,
+	| "editType"
+	| "isEditing"
+	| "originalContent"
+	| "open"
+	| "update"
+	| "saveChanges"
+	| "revertChanges"
+	| "scrollToFirstDiff"
+	| "reset"
+>
+
 export class DiffViewProvider {
 	editType?: "create" | "modify"
 	isEditing = false
@@ -24,12 +39,12 @@ export class DiffViewProvider {
 	private streamedLines: string[] = []
 	private preDiagnostics: [vscode.Uri, vscode.Diagnostic[]][] = []
 
-	constructor(private cwd: string) {}
+	constructor(private workspaceRoots: WorkspaceRoots) {}
 
 	async open(relPath: string): Promise<void> {
 		this.relPath = relPath
 		const fileExists = this.editType === "modify"
-		const absolutePath = path.resolve(this.cwd, relPath)
+		const absolutePath = this.workspaceRoots.resolvePath(relPath)
 		this.isEditing = true
 		// if the file is already open, ensure it's not dirty before getting its contents
 		if (fileExists) {
@@ -148,7 +163,7 @@ export class DiffViewProvider {
 				finalContent: undefined,
 			}
 		}
-		const absolutePath = path.resolve(this.cwd, this.relPath)
+		const absolutePath = this.workspaceRoots.resolvePath(this.relPath)
 		const updatedDocument = this.activeDiffEditor.document
 
 		// get the contents before save operation which may do auto-formatting
@@ -190,7 +205,7 @@ export class DiffViewProvider {
 			[
 				vscode.DiagnosticSeverity.Error, // only including errors since warnings can be distracting (if user wants to fix warnings they can use the @problems mention)
 			],
-			this.cwd,
+			this.workspaceRoots,
 		) // will be empty string if no errors
 		const newProblemsMessage =
 			newProblems.length > 0 ? `\n\nNew problems detected after saving the file:\n${newProblems}` : ""
@@ -236,7 +251,7 @@ export class DiffViewProvider {
 		}
 		const fileExists = this.editType === "modify"
 		const updatedDocument = this.activeDiffEditor.document
-		const absolutePath = path.resolve(this.cwd, this.relPath)
+		const absolutePath = this.workspaceRoots.resolvePath(this.relPath)
 		if (!fileExists) {
 			if (updatedDocument.isDirty) {
 				await updatedDocument.save()
@@ -289,7 +304,7 @@ export class DiffViewProvider {
 		if (!this.relPath) {
 			throw new Error("No file path set")
 		}
-		const uri = vscode.Uri.file(path.resolve(this.cwd, this.relPath))
+		const uri = vscode.Uri.file(this.workspaceRoots.resolvePath(this.relPath))
 		// If this diff editor is already open (ie if a previous write file was interrupted) then we should activate that instead of opening a new diff
 		const diffTab = vscode.window.tabGroups.all
 			.flatMap((group) => group.tabs)
@@ -0,0 +1,77 @@
+import * as fs from "fs/promises"
+import { createDirectoriesForFile } from "../../utils/fs"
+import { ClineDiffViewProvider } from "./DiffViewProvider"
+import { WorkspaceRoots } from "../workspace/WorkspaceRoots"
+
+/**
+ * Applies Cline's edits straight to disk, for running without an editor to show the diff in. Nothing is written until the
+ * edit is approved, and since there's no editor there are no user edits, auto-formatting or diagnostics to report back.
+ */
+export class HeadlessDiffViewProvider implements ClineDiffViewProvider {
+	editType?: "create" | "modify"
+	isEditing = false
+	originalContent: string | undefined
+	private relPath?: string
+	private newContent?: string
+
+	constructor(private workspaceRoots: WorkspaceRoots) {}
+
+	async open(relPath: string): Promise<void> {
+		this.relPath = relPath
+		this.isEditing = true
+		this.originalContent =
+			this.editType === "modify" ? await fs.readFile(this.workspaceRoots.resolvePath(relPath), "utf-8") : ""
+	}
+
+	async update(accumulatedContent: string, isFinal: boolean) {
+		if (!this.relPath) {
+			throw new Error("Required values not set")
+		}
+		if (isFinal && this.originalContent?.endsWith("\n") && !accumulatedContent.endsWith("\n")) {
+			accumulatedContent += "\n"
+		}
+		this.newContent = accumulatedContent
+	}
+
+	async saveChanges(): Promise<{
+		newProblemsMessage: string | undefined
+		userEdits: string | undefined
+		autoFormattingEdits: string | undefined
+		finalContent: string | undefined
+	}> {
+		if (!this.relPath || !this.newContent) {
+			return {
+				newProblemsMessage: undefined,
+				userEdits: undefined,
+				autoFormattingEdits: undefined,
+				finalContent: undefined,
+			}
+		}
+		const absolutePath = this.workspaceRoots.resolvePath(this.relPath)
+		await createDirectoriesForFile(absolutePath)
+		await fs.writeFile(absolutePath, this.newContent)
+
+		const newContentEOL = this.newContent.includes("\r\n") ? "\r\n" : "\n"
+		return {
+			newProblemsMessage: "",
+			userEdits: undefined,
+			autoFormattingEdits: undefined,
+			finalContent: this.newContent.replace(/\r\n|\n/g, newContentEOL).trimEnd() + newContentEOL,
+		}
+	}
+
+	async revertChanges(): Promise<void> {
+		// nothing has been written yet
+		await this.reset()
+	}
+
+	scrollToFirstDiff() {}
+
+	async reset() {
+		this.editType = undefined
+		this.isEditing = false
+		this.originalContent = undefined
+		this.relPath = undefined
+		this.newContent = undefined
+	}
+}
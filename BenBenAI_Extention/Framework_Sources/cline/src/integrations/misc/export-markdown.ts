@@ -4,18 +4,7 @@ import * as path from "path"
 import * as vscode from "vscode"
 
 export async function downloadTask(dateTs: number, conversationHistory: Anthropic.MessageParam[]) {
-	// File name
-	const date = new Date(dateTs)
-	const month = date.toLocaleString("en-US", { month: "short" }).toLowerCase()
-	const day = date.getDate()
-	const year = date.getFullYear()
-	let hours = date.getHours()
-	const minutes = date.getMinutes().toString().padStart(2, "0")
-	const seconds = date.getSeconds().toString().padStart(2, "0")
-	const ampm = hours >= 12 ? "pm" : "am"
-	hours = hours % 12
-	hours = hours ? hours : 12 // the hour '0' should be '12'
-	const fileName = `cline_task_${month}-${day}-${year}_${hours}-${minutes}-${seconds}-${ampm}.md`
+	const fileName = getExportFileName(dateTs, "md")
 
 	// Generate markdown
 	const markdownContent = conversationHistory
@@ -47,6 +36,20 @@ export async function downloadTask(dateTs: number, conversationHistory: Anthropi
 	}
 }
 
+export function getExportFileName(dateTs: number, extension: string): string {
+	const date = new Date(dateTs)
+	const month = date.toLocaleString("en-US", { month: "short" }).toLowerCase()
+	const day = date.getDate()
+	const year = date.getFullYear()
+	let hours = date.getHours()
+	const minutes = date.getMinutes().toString().padStart(2, "0")
+	const seconds = date.getSeconds().toString().padStart(2, "0")
+	const ampm = hours >= 12 ? "pm" : "am"
+	hours = hours % 12
+	hours = hours ? hours : 12 // the hour '0' should be '12'
+	return `cline_task_${month}-${day}-${year}_${hours}-${minutes}-${seconds}-${ampm}.${extension}`
+}
+
 export function formatContentBlockToMarkdown(block: Anthropic.ContentBlockParam): string {
 	switch (block.type) {
 		case "text":
@@ -0,0 +1,30 @@
+import os from "os"
+import * as path from "path"
+import * as vscode from "vscode"
+import { ClineMessage } from "../../shared/ExtensionMessage"
+import { HistoryItem } from "../../shared/HistoryItem"
+import { getExportFileName } from "./export-markdown"
+import { formatTranscriptHtml, formatTranscriptJson, TranscriptFormat } from "./transcript"
+
+export async function downloadTaskTranscript(historyItem: HistoryItem, messages: ClineMessage[], format: TranscriptFormat) {
+	const fileName = getExportFileName(historyItem.ts, format)
+	const saveUri = await vscode.window.showSaveDialog({
+		filters: format === "html" ? { HTML: ["html"] } : { JSON: ["json"] },
+		defaultUri: vscode.Uri.file(path.join(os.homedir(), "Downloads", fileName)),
+	})
+
+	if (saveUri) {
+		try {
+			const content =
+				format === "html" ? formatTranscriptHtml(historyItem, messages) : formatTranscriptJson(historyItem, messages)
+			await vscode.workspace.fs.writeFile(saveUri, new TextEncoder().encode(content))
+			if (format === "html") {
+				vscode.env.openExternal(saveUri)
+			} else {
+				vscode.window.showTextDocument(saveUri, { preview: true })
+			}
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to save transcript: ${error instanceof Error ? error.message : String(error)}`)
+		}
+	}
+}
@@ -0,0 +1,60 @@
+import { describe, it } from "mocha"
+import "should"
+import { getImportedTaskId, parseTaskBundle, serializeTaskBundle, TASK_BUNDLE_FORMAT, TaskBundle } from "./task-bundle"
+
+const bundle: TaskBundle = {
+	format: TASK_BUNDLE_FORMAT,
+	version: 1,
+	exportedAt: 1700000001000,
+	historyItem: { id: "1700000000000", ts: 1700000000000, task: "Fix the build", tokensIn: 10, tokensOut: 20, totalCost: 0.01 },
+	uiMessages: [
+		{ ts: 1700000000000, type: "say", say: "task", text: "Fix the build" },
+		{ ts: 1700000000500, type: "say", say: "checkpoint_created", lastCheckpointHash: "abc123" },
+	],
+	apiConversationHistory: [
+		{ role: "user", content: [{ type: "text", text: "<task>\nFix the build\n</task>" }] },
+		{ role: "assistant", content: [{ type: "tool_use", id: "toolu_1", name: "read_file", input: { path: "package.json" } }] },
+		{ role: "user", content: [{ type: "tool_result", tool_use_id: "toolu_1", content: "{}" }] },
+	],
+	checkpointDiffs: [{ ts: 1700000000500, hash: "abc123", diff: "--- a/x\n+++ b/x\n" }],
+}
+
+describe("Task bundles", () => {
+	describe("parseTaskBundle", () => {
+		it("should read back an exported bundle", async () => {
+			const content = await serializeTaskBundle(bundle)
+			;(await parseTaskBundle(content)).should.deepEqual(bundle)
+		})
+
+		it("should accept uncompressed bundles", async () => {
+			;(await parseTaskBundle(Buffer.from(JSON.stringify(bundle)))).should.deepEqual(bundle)
+		})
+
+		it("should reject files that aren't JSON", async () => {
+			await parseTaskBundle(Buffer.from("# Fix the build")).should.be.rejectedWith("The file is not a Cline task bundle.")
+		})
+
+		it("should reject bundles with malformed messages", async () => {
+			const content = Buffer.from(
+				JSON.stringify({ ...bundle, apiConversationHistory: [{ role: "user", content: [{ type: "text" }] }] }),
+			)
+			await parseTaskBundle(content).should.be.rejectedWith(
+				/^The file is not a valid Cline task bundle: apiConversationHistory/,
+			)
+		})
+	})
+
+	describe("getImportedTaskId", () => {
+		it("should keep the bundle's id", () => {
+			getImportedTaskId("1700000000000", ["1600000000000"]).should.equal("1700000000000")
+		})
+
+		it("should replace an id that could be a path", () => {
+			getImportedTaskId("../../settings", []).should.match(/^\d+$/)
+		})
+
+		it("should replace an id that's already in the history", () => {
+			getImportedTaskId("1700000000000", ["1700000000000"]).should.not.equal("1700000000000")
+		})
+	})
+})
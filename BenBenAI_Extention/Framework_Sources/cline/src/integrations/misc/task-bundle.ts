@@ -0,0 +1,193 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import fs from "fs/promises"
+import * as path from "path"
+import simpleGit from "simple-git"
+import { promisify } from "util"
+import zlib from "zlib"
+import { z } from "zod"
+import { ClineAsk, ClineMessage, ClineSay } from "../../shared/ExtensionMessage"
+import { HistoryItem } from "../../shared/HistoryItem"
+import { fileExistsAtPath } from "../../utils/fs"
+
+/*
+A task bundle is a portable copy of a task: its ui messages, api conversation history and history item, and optionally the
+changes made between its checkpoints as unified diffs. It's saved as gzipped JSON, so it can be attached to bug reports and
+code reviews, and imported into another machine's task history to view and resume the task there.
+*/
+
+export const TASK_BUNDLE_FORMAT = "cline-task-bundle"
+export const TASK_BUNDLE_EXTENSION = "clinetask"
+
+export interface TaskBundleCheckpointDiff {
+	ts: number // the message that created the checkpoint
+	hash: string
+	diff: string // changes since the previous checkpoint
+}
+
+export interface TaskBundle {
+	format: typeof TASK_BUNDLE_FORMAT
+	version: 1
+	exportedAt: number
+	historyItem: HistoryItem
+	uiMessages: ClineMessage[]
+	apiConversationHistory: Anthropic.MessageParam[]
+	checkpointDiffs?: TaskBundleCheckpointDiff[]
+}
+
+// a task's screenshots can make its bundle large, but a file that unpacks to more than this isn't a task bundle
+const MAX_TASK_BUNDLE_SIZE = 200 * 1024 * 1024
+
+const DeletedRangeSchema = z.tuple([z.number(), z.number()])
+
+const HistoryItemSchema = z.object({
+	id: z.string(),
+	ts: z.number(),
+	task: z.string(),
+	tokensIn: z.number(),
+	tokensOut: z.number(),
+	cacheWrites: z.number().optional(),
+	cacheReads: z.number().optional(),
+	totalCost: z.number(),
+	subtaskCost: z.number().optional(),
+	size: z.number().optional(),
+	shadowGitConfigWorkTree: z.string().optional(),
+	conversationHistoryDeletedRange: DeletedRangeSchema.optional(),
+	conversationHistorySummary: z.string().optional(),
+	contextCompactionStrategy: z.enum(["truncate", "summarize"]).optional(),
+	parentTaskId: z.string().optional(),
+	modelId: z.string().optional(),
+	workspaceRoot: z.string().optional(),
+	pinned: z.boolean().optional(),
+	tags: z.array(z.string()).optional(),
+}) satisfies z.ZodType<HistoryItem>
+
+// any ask or say type is accepted, since a bundle exported by another version of Cline may use ones this version doesn't know
+const ClineMessageSchema = z.object({
+	ts: z.number(),
+	type: z.enum(["ask", "say"]),
+	ask: z.custom<ClineAsk>((value) => typeof value === "string").optional(),
+	say: z.custom<ClineSay>((value) => typeof value === "string").optional(),
+	text: z.string().optional(),
+	reasoning: z.string().optional(),
+	images: z.array(z.string()).optional(),
+	partial: z.boolean().optional(),
+	lastCheckpointHash: z.string().optional(),
+	isCheckpointCheckedOut: z.boolean().optional(),
+	conversationHistoryIndex: z.number().optional(),
+	conversationHistoryDeletedRange: DeletedRangeSchema.optional(),
+}) satisfies z.ZodType<ClineMessage>
+
+const TextBlockSchema = z.object({ type: z.literal("text"), text: z.string() })
+
+const ImageBlockSchema = z.object({
+	type: z.literal("image"),
+	source: z.object({
+		type: z.literal("base64"),
+		media_type: z.enum(["image/jpeg", "image/png", "image/gif", "image/webp"]),
+		data: z.string(),
+	}),
+})
+
+// the content blocks Cline puts in the api conversation history
+const ContentBlockSchema = z.discriminatedUnion("type", [
+	TextBlockSchema,
+	ImageBlockSchema,
+	z.object({ type: z.literal("tool_use"), id: z.string(), name: z.string(), input: z.record(z.unknown()) }),
+	z.object({
+		type: z.literal("tool_result"),
+		tool_use_id: z.string(),
+		content: z.union([z.string(), z.array(z.discriminatedUnion("type", [TextBlockSchema, ImageBlockSchema]))]).optional(),
+		is_error: z.boolean().optional(),
+	}),
+])
+
+const MessageParamSchema = z.object({
+	role: z.enum(["user", "assistant"]),
+	content: z.union([z.string(), z.array(ContentBlockSchema)]),
+}) satisfies z.ZodType<Anthropic.MessageParam>
+
+const TaskBundleSchema = z.object({
+	format: z.literal(TASK_BUNDLE_FORMAT),
+	version: z.literal(1),
+	exportedAt: z.number(),
+	historyItem: HistoryItemSchema,
+	uiMessages: z.array(ClineMessageSchema),
+	apiConversationHistory: z.array(MessageParamSchema),
+	checkpointDiffs: z.array(z.object({ ts: z.number(), hash: z.string(), diff: z.string() })).optional(),
+}) satisfies z.ZodType<TaskBundle>
+
+/**
+ * Diff each checkpoint in the task against the one before it, using the task's shadow git repository
+ * @param checkpointsDirPath - The task's checkpoints directory, which holds the shadow git repository
+ * @param uiMessages - The task's ui messages, which record the checkpoints' commit hashes
+ */
+export async function getCheckpointDiffs(
+	checkpointsDirPath: string,
+	uiMessages: ClineMessage[],
+): Promise<TaskBundleCheckpointDiff[]> {
+	if (!(await fileExistsAtPath(path.join(checkpointsDirPath, ".git")))) {
+		return []
+	}
+	// diffing commits doesn't need the shadow repository's work tree, which may not exist on this machine anymore
+	const git = simpleGit(checkpointsDirPath)
+	let previousHash = (await git.raw(["rev-list", "--max-parents=0", "HEAD"])).trim()
+	const diffs: TaskBundleCheckpointDiff[] = []
+	for (const message of uiMessages) {
+		const hash = message.lastCheckpointHash
+		if (!hash || hash === previousHash) {
+			continue
+		}
+		const diff = await git.raw(["diff", previousHash, hash])
+		if (diff) {
+			diffs.push({ ts: message.ts, hash, diff })
+		}
+		previousHash = hash
+	}
+	return diffs
+}
+
+export async function serializeTaskBundle(bundle: TaskBundle): Promise<Buffer> {
+	return promisify(zlib.gzip)(JSON.stringify(bundle))
+}
+
+export async function parseTaskBundle(content: Buffer): Promise<TaskBundle> {
+	// gzip magic number, uncompressed bundles are accepted too
+	if (content[0] === 0x1f && content[1] === 0x8b) {
+		try {
+			content = await promisify(zlib.gunzip)(content, { maxOutputLength: MAX_TASK_BUNDLE_SIZE })
+		} catch {
+			throw new Error("The file is not a Cline task bundle.")
+		}
+	}
+	if (content.length > MAX_TASK_BUNDLE_SIZE) {
+		throw new Error("The file is not a Cline task bundle.")
+	}
+	let json: unknown
+	try {
+		json = JSON.parse(content.toString("utf8"))
+	} catch {
+		throw new Error("The file is not a Cline task bundle.")
+	}
+	const result = TaskBundleSchema.safeParse(json)
+	if (!result.success) {
+		const issue = result.error.issues[0]
+		throw new Error(`The file is not a valid Cline task bundle: ${issue?.path.join(".")}: ${issue?.message}`)
+	}
+	return result.data
+}
+
+export async function readTaskBundle(filePath: string): Promise<TaskBundle> {
+	if ((await fs.stat(filePath)).size > MAX_TASK_BUNDLE_SIZE) {
+		throw new Error("The file is not a Cline task bundle.")
+	}
+	return parseTaskBundle(await fs.readFile(filePath))
+}
+
+/**
+ * The id names the imported task's directory, so a new one is used if the bundle's could be a path, or if a task with it
+ * is already in the history (a task imported twice is kept twice)
+ */
+export function getImportedTaskId(bundleTaskId: string, existingTaskIds: string[]): string {
+	const isValidId = /^[\w-]+$/.test(bundleTaskId)
+	return isValidId && !existingTaskIds.includes(bundleTaskId) ? bundleTaskId : Date.now().toString()
+}
@@ -0,0 +1,93 @@
+import { describe, it } from "mocha"
+import "should"
+import { ClineMessage } from "../../shared/ExtensionMessage"
+import { HistoryItem } from "../../shared/HistoryItem"
+import { formatTranscriptHtml, formatTranscriptJson } from "./transcript"
+
+const historyItem: HistoryItem = {
+	id: "1700000000000",
+	ts: 1700000000000,
+	task: "Fix <App> & the build",
+	tokensIn: 100,
+	tokensOut: 50,
+	totalCost: 0.01,
+}
+
+const messages: ClineMessage[] = [
+	{ ts: 1700000000000, type: "say", say: "task", text: "Fix <App> & the build" },
+	{
+		ts: 1700000001000,
+		type: "say",
+		say: "api_req_started",
+		text: JSON.stringify({ request: "<task>Fix the build</task>", tokensIn: 100, tokensOut: 50, cost: 0.01 }),
+	},
+	{ ts: 1700000002000, type: "say", say: "text", text: 'Running <script>alert("hi")</script> first' },
+	{ ts: 1700000003000, type: "say", say: "tool", text: JSON.stringify({ tool: "readFile", path: "src/<App>.tsx" }) },
+	{ ts: 1700000004000, type: "ask", ask: "command", text: "grep '<div>' src && echo done" },
+	{
+		ts: 1700000005000,
+		type: "say",
+		say: "user_feedback",
+		text: "Use <b>bold</b> instead",
+		images: ["data:image/png;base64,AAAA"],
+	},
+]
+
+describe("Transcripts", () => {
+	describe("formatTranscriptHtml", () => {
+		it("should escape message text", () => {
+			const html = formatTranscriptHtml(historyItem, messages)
+			html.should.not.containEql("<script>")
+			html.should.not.containEql("<b>")
+			html.should.not.containEql("<App>")
+			html.should.containEql("Running &#60;script&#62;alert(&#34;hi&#34;)&#60;/script&#62; first")
+			html.should.containEql("Use &#60;b&#62;bold&#60;/b&#62; instead")
+			html.should.containEql("<code>src/&#60;App&#62;.tsx</code>")
+			html.should.containEql("grep &#39;&#60;div&#62;&#39; src &#38;&#38; echo done")
+			html.should.containEql("<title>Fix &#60;App&#62; &#38; the build</title>")
+		})
+
+		it("should escape attributes", () => {
+			const html = formatTranscriptHtml(historyItem, [
+				messages[0],
+				{ ts: 1700000001000, type: "say", say: "user_feedback", text: "", images: ['" onerror="alert(1)'] },
+			])
+			html.should.containEql('<img src="&#34; onerror=&#34;alert(1)" alt="Image">')
+		})
+	})
+
+	describe("formatTranscriptJson", () => {
+		it("should read back as the task and its messages", () => {
+			const transcript = JSON.parse(formatTranscriptJson(historyItem, messages))
+			transcript.format.should.equal("cline-transcript")
+			transcript.version.should.equal(1)
+			transcript.task.should.deepEqual(historyItem)
+			transcript.messages
+				.map((record: any) => [record.ts, record.type, record.kind])
+				.should.deepEqual(
+					messages.map((message) => [message.ts, message.type, message.type === "ask" ? message.ask : message.say]),
+				)
+			transcript.messages[2].text.should.equal(messages[2].text)
+			transcript.messages[5].images.should.deepEqual(messages[5].images)
+			transcript.messages[0].time.should.equal(new Date(1700000000000).toISOString())
+		})
+
+		it("should parse JSON payloads and pull out api request costs", () => {
+			const transcript = JSON.parse(formatTranscriptJson(historyItem, messages))
+			const apiRequest = transcript.messages[1]
+			;(apiRequest.text === undefined).should.be.true()
+			apiRequest.data.request.should.equal("<task>Fix the build</task>")
+			apiRequest.cost.should.equal(0.01)
+			apiRequest.tokensIn.should.equal(100)
+			transcript.messages[3].data.should.deepEqual({ tool: "readFile", path: "src/<App>.tsx" })
+			transcript.messages[4].data.command.should.equal("grep '<div>' src && echo done")
+		})
+
+		it("should keep the text of payloads that aren't complete yet", () => {
+			const partial: ClineMessage = { ts: 1700000001000, type: "say", say: "tool", text: '{"tool": "read', partial: true }
+			const transcript = JSON.parse(formatTranscriptJson(historyItem, [messages[0], partial]))
+			transcript.messages[1].text.should.equal(partial.text)
+			transcript.messages[1].partial.should.be.true()
+		})
+	})
+})
@@ -0,0 +1,446 @@
+import { combineApiRequests } from "../../shared/combineApiRequests"
+import {
+	combineCommandSequences,
+	COMMAND_OUTPUT_STRING,
+	COMMAND_POLICY_STRING,
+	COMMAND_REQ_APP_STRING,
+	COMMAND_RESULT_STRING,
+} from "../../shared/combineCommandSequences"
+import {
+	BrowserActionResult,
+	ClineApiReqInfo,
+	ClineAsk,
+	ClineAskUseMcpServer,
+	ClineContextCompaction,
+	ClineMcpResultSummary,
+	ClineMcpSampling,
+	ClineMessage,
+	ClineSay,
+	ClineSayBrowserAction,
+	ClineSayCommandPolicy,
+	ClineSayCommandResult,
+	ClineSayTool,
+	ClineSubtaskResult,
+	COMPLETION_RESULT_CHANGES_FLAG,
+} from "../../shared/ExtensionMessage"
+import { HistoryItem } from "../../shared/HistoryItem"
+
+/*
+Transcripts of a task's ui messages, as opposed to the markdown export of its api conversation history:
+- JSON: one record per message, with the JSON payloads of tool calls, api requests etc. parsed and api request costs
+  pulled out, for scripts and tools.
+- HTML: a standalone page rendering the conversation like the chat does (diffs, command output, browser screenshots, MCP
+  responses), to attach to pull requests.
+*/
+
+export type TranscriptFormat = "html" | "json"
+
+// messages whose text is a JSON payload
+const JSON_SAYS: ClineSay[] = [
+	"api_req_started",
+	"api_req_finished",
+	"tool",
+	"user_feedback_diff",
+	"browser_action",
+	"browser_action_result",
+	"command_result",
+	"command_policy_error",
+	"context_compacted",
+	"mcp_sampling",
+	"mcp_result_summarized",
+	"subtask_completed",
+]
+const JSON_ASKS: ClineAsk[] = ["tool", "use_mcp_server"]
+
+// JSON
+
+export function formatTranscriptJson(historyItem: HistoryItem, messages: ClineMessage[]): string {
+	const records = messages.map((message) => {
+		let text = message.text
+		let data: unknown
+		if (text && (message.ask === "command" || message.say === "command")) {
+			const { command, policy } = parseCommandText(text)
+			data = { command, policy }
+		} else if (text && (JSON_SAYS.includes(message.say!) || JSON_ASKS.includes(message.ask!))) {
+			try {
+				data = JSON.parse(text)
+				text = undefined
+			} catch {
+				// partial message
+			}
+		}
+		const apiReqInfo = message.say === "api_req_started" ? (data as ClineApiReqInfo | undefined) : undefined
+		return {
+			ts: message.ts,
+			time: new Date(message.ts).toISOString(),
+			type: message.type,
+			kind: message.type === "ask" ? message.ask : message.say,
+			text,
+			data,
+			reasoning: message.reasoning,
+			images: message.images?.length ? message.images : undefined,
+			partial: message.partial || undefined,
+			tokensIn: apiReqInfo?.tokensIn,
+			tokensOut: apiReqInfo?.tokensOut,
+			cacheWrites: apiReqInfo?.cacheWrites,
+			cacheReads: apiReqInfo?.cacheReads,
+			cost: apiReqInfo?.cost,
+		}
+	})
+	return JSON.stringify({ format: "cline-transcript", version: 1, task: historyItem, messages: records }, null, 2)
+}
+
+// HTML
+
+export function formatTranscriptHtml(historyItem: HistoryItem, messages: ClineMessage[]): string {
+	// combined as they are in ChatView
+	const rows = combineApiRequests(combineCommandSequences(messages.slice(1)))
+		.map(renderMessage)
+		.filter(Boolean)
+		.join("\n")
+	const title = historyItem.task.split("\n")[0].slice(0, 100)
+	const stats = [
+		`${new Date(historyItem.ts).toLocaleString()}`,
+		historyItem.modelId,
+		`Tokens: ↑${historyItem.tokensIn} ↓${historyItem.tokensOut}`,
+		historyItem.totalCost ? `API Cost: $${historyItem.totalCost.toFixed(4)}` : undefined,
+	].filter(Boolean)
+
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${TRANSCRIPT_CSS}</style>
+</head>
+<body>
+<header class="task">
+<div class="task-text">${renderText(historyItem.task)}</div>
+${renderImages(messages[0]?.images)}
+<div class="stats">${stats.map((stat) => `<span>${escapeHtml(stat!)}</span>`).join("")}</div>
+</header>
+${rows}
+</body>
+</html>
+`
+}
+
+function renderMessage(message: ClineMessage): string {
+	const type = message.type === "ask" ? message.ask : message.say
+	const text = message.text ?? ""
+	switch (type) {
+		case "api_req_started": {
+			const info = parseJson<ClineApiReqInfo>(text)
+			const details = [
+				info?.cost !== undefined ? `$${info.cost.toFixed(4)}` : undefined,
+				info?.tokensIn !== undefined ? `↑${info.tokensIn} ↓${info.tokensOut ?? 0}` : undefined,
+				info?.cancelReason === "user_cancelled" ? "cancelled" : undefined,
+				info?.cancelReason === "streaming_failed" ? "streaming failed" : undefined,
+			].filter(Boolean)
+			return row(
+				"api",
+				`API Request${details.length ? ` <span class="muted">${escapeHtml(details.join(" · "))}</span>` : ""}`,
+				info?.request ? `<details><summary>Request</summary>${pre(info.request)}</details>` : "",
+			)
+		}
+		case "text":
+		case "plan_mode_response":
+			return row("assistant", "", renderText(text))
+		case "reasoning":
+			return row("reasoning", "", `<details><summary>Thinking</summary>${renderText(text)}</details>`)
+		case "followup":
+			return row("assistant", "Cline has a question", renderText(text))
+		case "user_feedback":
+			return row("user", "You said", renderText(text) + renderImages(message.images))
+		case "tool":
+		case "user_feedback_diff":
+			return renderTool(parseJson<ClineSayTool>(text), type === "user_feedback_diff")
+		case "command":
+			return renderCommand(text)
+		case "completion_result": {
+			const result = text.endsWith(COMPLETION_RESULT_CHANGES_FLAG)
+				? text.slice(0, -COMPLETION_RESULT_CHANGES_FLAG.length)
+				: text
+			return result ? row("completion", "Task Completed", renderText(result) + renderImages(message.images)) : ""
+		}
+		case "use_mcp_server": {
+			const mcp = parseJson<ClineAskUseMcpServer>(text)
+			if (!mcp) {
+				return ""
+			}
+			if (mcp.type === "sampling") {
+				return row("tool", `<code>${escapeHtml(mcp.serverName)}</code> requested a model response`, pre(mcp.prompt ?? ""))
+			}
+			return mcp.type === "access_mcp_resource"
+				? row("tool", `Access MCP resource on <code>${escapeHtml(mcp.serverName)}</code>`, pre(mcp.uri ?? ""))
+				: row(
+						"tool",
+						`Use MCP tool <code>${escapeHtml(mcp.toolName ?? "")}</code> on <code>${escapeHtml(mcp.serverName)}</code>`,
+						mcp.arguments ? pre(prettyJson(mcp.arguments)) : "",
+					)
+		}
+		case "mcp_server_response":
+			return row("tool-result", "MCP Response", renderMcpResponse(text))
+		case "mcp_sampling": {
+			const sampling = parseJson<ClineMcpSampling>(text)
+			return sampling?.error
+				? row("error", "Model response failed", pre(sampling.error))
+				: row("tool-result", "Model Response", renderText(sampling?.response ?? ""))
+		}
+		case "mcp_result_summarized": {
+			const summary = parseJson<ClineMcpResultSummary>(text)
+			return summary?.error
+				? row("error", "Summarizing the MCP response failed, it was truncated instead", pre(summary.error))
+				: row("tool-result", `Summarized the ${summary?.resultLength ?? 0} character MCP response`)
+		}
+		case "browser_action_launch":
+			return row("tool", "Launch browser", `<code>${escapeHtml(text)}</code>`)
+		case "browser_action": {
+			const action = parseJson<ClineSayBrowserAction>(text)
+			const target = action?.coordinate ?? action?.text
+			return row(
+				"tool",
+				`Browser: ${escapeHtml(action?.action ?? "")}${target ? ` <code>${escapeHtml(target)}</code>` : ""}`,
+			)
+		}
+		case "browser_action_result": {
+			const result = parseJson<BrowserActionResult>(text)
+			if (!result) {
+				return ""
+			}
+			return row(
+				"tool-result",
+				result.currentUrl ? `Browser at <code>${escapeHtml(result.currentUrl)}</code>` : "Browser",
+				(result.screenshot
+					? `<img class="screenshot" src="${escapeHtml(result.screenshot)}" alt="Browser screenshot">`
+					: "") + (result.logs ? `<details><summary>Console logs</summary>${pre(result.logs)}</details>` : ""),
+			)
+		}
+		case "context_compacted": {
+			const compaction = parseJson<ClineContextCompaction>(text)
+			return row(
+				"muted",
+				"Context compacted",
+				compaction?.summary ? `<details><summary>Summary</summary>${renderText(compaction.summary)}</details>` : "",
+			)
+		}
+		case "subtask_completed": {
+			const subtask = parseJson<ClineSubtaskResult>(text)
+			return row(
+				"completion",
+				`Sub-task ${subtask?.result === undefined ? "cancelled" : "completed"}${subtask?.cost ? ` <span class="muted">$${subtask.cost.toFixed(4)}</span>` : ""}`,
+				subtask?.result ? renderText(subtask.result) : "",
+			)
+		}
+		case "command_policy_error": {
+			const policy = parseJson<ClineSayCommandPolicy>(text)
+			return row(
+				"error",
+				"Command Blocked",
+				pre(policy?.command ?? text) + (policy?.reason ? `<div class="text">${escapeHtml(policy.reason)}</div>` : ""),
+			)
+		}
+		case "error":
+		case "diff_error":
+		case "clineignore_error":
+		case "api_req_failed":
+		case "mistake_limit_reached":
+		case "auto_approval_max_req_reached":
+		case "budget_exceeded":
+			return row("error", escapeHtml(type.replace(/_/g, " ")), renderText(text))
+		case "checkpoint_created":
+			return row("muted", "Checkpoint")
+		case "api_req_finished":
+		case "api_req_retried":
+		case "deleted_api_reqs":
+		case "resume_task":
+		case "resume_completed_task":
+			return ""
+		default:
+			return text ? row("muted", escapeHtml(type ?? ""), renderText(text)) : ""
+	}
+}
+
+function renderTool(tool: ClineSayTool | undefined, isUserEdit: boolean): string {
+	if (!tool) {
+		return ""
+	}
+	const filePath = tool.path ? ` <code>${escapeHtml(tool.path)}</code>` : ""
+	switch (tool.tool) {
+		case "editedExistingFile":
+			return row("tool", `${isUserEdit ? "You edited" : "Edited"}${filePath}`, renderDiff(tool.diff ?? ""))
+		case "newFileCreated":
+			return row("tool", `Created${filePath}`, pre(tool.content ?? ""))
+		case "readFile":
+			return row("tool", `Read${filePath}`)
+		case "listFilesTopLevel":
+		case "listFilesRecursive":
+			return row("tool", `Listed files in${filePath}`, tool.content ? details("Files", pre(tool.content)) : "")
+		case "listCodeDefinitionNames":
+			return row(
+				"tool",
+				`Listed code definitions in${filePath}`,
+				tool.content ? details("Definitions", pre(tool.content)) : "",
+			)
+		case "lookupSymbol":
+			return row(
+				"tool",
+				`Looked up <code>${escapeHtml(tool.symbol ?? "")}</code>`,
+				tool.content ? details("Results", pre(tool.content)) : "",
+			)
+		case "searchFiles":
+			return row(
+				"tool",
+				`Searched${filePath} for <code>${escapeHtml(tool.regex ?? "")}</code>${tool.filePattern ? ` in <code>${escapeHtml(tool.filePattern)}</code>` : ""}`,
+				tool.content ? details("Results", pre(tool.content)) : "",
+			)
+		case "delegateTask":
+			return row("tool", "Delegated a sub-task", renderText(tool.content ?? ""))
+		default:
+			return ""
+	}
+}
+
+function renderCommand(text: string): string {
+	const resultIndex = text.lastIndexOf(COMMAND_RESULT_STRING)
+	const result =
+		resultIndex === -1 ? undefined : parseJson<ClineSayCommandResult>(text.slice(resultIndex + COMMAND_RESULT_STRING.length))
+	const commandText = resultIndex === -1 || !result ? text : text.slice(0, resultIndex).trimEnd()
+
+	const outputIndex = commandText.indexOf(COMMAND_OUTPUT_STRING)
+	const { command, policy } = parseCommandText(outputIndex === -1 ? commandText : commandText.slice(0, outputIndex).trim())
+	const output = outputIndex === -1 ? "" : commandText.slice(outputIndex + COMMAND_OUTPUT_STRING.length).trim()
+
+	const status = result
+		? ` <span class="muted">${escapeHtml(
+				[
+					result.exitCode !== undefined ? `exit code ${result.exitCode}` : undefined,
+					`${(result.durationMs / 1000).toFixed(1)}s`,
+				]
+					.filter(Boolean)
+					.join(" · "),
+			)}</span>`
+		: ""
+	const policyNote = policy?.rules.length
+		? `<div class="muted">${escapeHtml(
+				`${policy.decision === "allow" ? "Allowed" : "Matched"} by ${policy.rules.map((rule) => `${rule.source} rule "${rule.pattern}"`).join(", ")}`,
+			)}</div>`
+		: ""
+	return row("command", `Command${status}`, pre(command) + policyNote + (output ? pre(output, "output") : ""))
+}
+
+// the text of command messages, without their output
+function parseCommandText(text: string): { command: string; policy?: ClineSayCommandPolicy } {
+	const commandWithPolicy = text.endsWith(COMMAND_REQ_APP_STRING) ? text.slice(0, -COMMAND_REQ_APP_STRING.length) : text
+	const policyIndex = commandWithPolicy.lastIndexOf(COMMAND_POLICY_STRING)
+	if (policyIndex === -1) {
+		return { command: commandWithPolicy }
+	}
+	return {
+		command: commandWithPolicy.slice(0, policyIndex),
+		policy: parseJson<ClineSayCommandPolicy>(commandWithPolicy.slice(policyIndex + COMMAND_POLICY_STRING.length)),
+	}
+}
+
+function renderMcpResponse(text: string): string {
+	const images = Array.from(text.matchAll(/data:image\/[a-z+]+;base64,[A-Za-z0-9+/=]+/g), (match) => match[0])
+	return pre(prettyJson(text)) + renderImages(images)
+}
+
+// SEARCH/REPLACE blocks or unified diffs
+function renderDiff(diff: string): string {
+	const lines = diff.split("\n").map((line) => {
+		let lineClass = ""
+		if (/^(<<<<<<< SEARCH|=======|>>>>>>> REPLACE)/.test(line) || line.startsWith("@@")) {
+			lineClass = "marker"
+		} else if (line.startsWith("+")) {
+			lineClass = "added"
+		} else if (line.startsWith("-")) {
+			lineClass = "removed"
+		}
+		return `<span class="${lineClass}">${escapeHtml(line)}</span>`
+	})
+	return `<pre class="diff">${lines.join("\n")}</pre>`
+}
+
+// paragraphs with fenced code blocks, since markdown isn't rendered
+function renderText(text: string): string {
+	return text
+		.split(/(```[^\n]*\n[\s\S]*?```)/)
+		.map((part) => {
+			const code = part.match(/^```[^\n]*\n([\s\S]*?)```$/)
+			return code
+				? pre(code[1].replace(/\n$/, ""))
+				: part.trim()
+					? `<div class="text">${escapeHtml(part.trim())}</div>`
+					: ""
+		})
+		.join("")
+}
+
+function renderImages(images?: string[]): string {
+	if (!images?.length) {
+		return ""
+	}
+	return `<div class="images">${images.map((src) => `<img src="${escapeHtml(src)}" alt="Image">`).join("")}</div>`
+}
+
+function row(kind: string, header: string, body: string = ""): string {
+	return `<section class="row ${kind}">${header ? `<div class="header">${header}</div>` : ""}${body}</section>`
+}
+
+function details(summary: string, body: string): string {
+	return `<details><summary>${escapeHtml(summary)}</summary>${body}</details>`
+}
+
+function pre(text: string, className?: string): string {
+	return `<pre${className ? ` class="${className}"` : ""}>${escapeHtml(text)}</pre>`
+}
+
+function prettyJson(text: string): string {
+	try {
+		return JSON.stringify(JSON.parse(text), null, 2)
+	} catch {
+		return text
+	}
+}
+
+function parseJson<T>(text: string): T | undefined {
+	try {
+		return JSON.parse(text) as T
+	} catch {
+		return undefined
+	}
+}
+
+function escapeHtml(text: string): string {
+	return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`)
+}
+
+const TRANSCRIPT_CSS = `
+:root { color-scheme: light dark; --border: #8884; --muted: #888; --code-bg: #8881; --added: #2ea04326; --removed: #f8514926; --error: #f14c4c; }
+body { max-width: 900px; margin: 0 auto; padding: 24px 16px; font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; }
+code, pre { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 12px; }
+code { background: var(--code-bg); padding: 1px 4px; border-radius: 3px; }
+pre { background: var(--code-bg); padding: 8px 10px; border-radius: 4px; overflow-x: auto; white-space: pre-wrap; word-break: break-word; }
+pre.output { border-left: 3px solid var(--border); }
+.task { border: 1px solid var(--border); border-radius: 6px; padding: 12px 14px; margin-bottom: 16px; }
+.task-text { font-weight: 500; }
+.stats { display: flex; flex-wrap: wrap; gap: 4px 16px; margin-top: 8px; color: var(--muted); font-size: 12px; }
+.row { padding: 10px 0; border-bottom: 1px solid var(--border); }
+.header { font-weight: 600; margin-bottom: 6px; }
+.text { white-space: pre-wrap; word-break: break-word; margin: 4px 0; }
+.muted, .row.muted .header, .row.api .header, .row.reasoning { color: var(--muted); font-weight: normal; }
+.row.user { background: var(--code-bg); padding: 10px 12px; border-radius: 6px; border-bottom: none; margin: 8px 0; }
+.row.completion .header { color: #3fb950; }
+.row.error .header, .row.error .text { color: var(--error); }
+.row.error .header { text-transform: capitalize; }
+.diff .added { display: inline-block; width: 100%; background: var(--added); }
+.diff .removed { display: inline-block; width: 100%; background: var(--removed); }
+.diff .marker { color: var(--muted); }
+.images { display: flex; flex-wrap: wrap; gap: 6px; margin-top: 6px; }
+.images img { max-width: 200px; max-height: 200px; border-radius: 4px; border: 1px solid var(--border); }
+img.screenshot { max-width: 100%; border: 1px solid var(--border); border-radius: 4px; }
+summary { cursor: pointer; color: var(--muted); }
+`
@@ -0,0 +1,135 @@
+import * as vscode from "vscode"
+import { WorkspaceRoots } from "../workspace/WorkspaceRoots"
+import { WorkspaceSymbol } from "../../shared/ExtensionMessage"
+
+/*
+@symbol:Name mentions are resolved through the language servers' workspace symbol providers (the same ones behind "Go to
+Symbol in Workspace"), so they work for any language with an extension installed, and pick up unsaved changes.
+*/
+
+const MAX_SEARCH_RESULTS = 50
+const MAX_MENTIONED_DEFINITIONS = 3
+const MAX_DEFINITION_LINES = 300
+const MAX_REFERENCES = 50
+
+async function findWorkspaceSymbols(query: string, workspaceRoots: WorkspaceRoots): Promise<vscode.SymbolInformation[]> {
+	const symbols =
+		(await vscode.commands.executeCommand<vscode.SymbolInformation[]>("vscode.executeWorkspaceSymbolProvider", query)) ?? []
+	// providers also return symbols from dependencies (e.g. node_modules type definitions), which can't be mentioned by path
+	return symbols.filter(
+		(symbol) =>
+			!!workspaceRoots.getRootForPath(symbol.location.uri.fsPath) && !symbol.location.uri.path.includes("/node_modules/"),
+	)
+}
+
+function toWorkspaceSymbol(symbol: vscode.SymbolInformation, workspaceRoots: WorkspaceRoots): WorkspaceSymbol {
+	return {
+		name: symbol.name,
+		kind: vscode.SymbolKind[symbol.kind],
+		containerName: symbol.containerName || undefined,
+		path: workspaceRoots.getRelativePath(symbol.location.uri.fsPath),
+		line: symbol.location.range.start.line + 1,
+	}
+}
+
+export async function searchWorkspaceSymbols(query: string, workspaceRoots: WorkspaceRoots): Promise<WorkspaceSymbol[]> {
+	const symbols = await findWorkspaceSymbols(query, workspaceRoots)
+	return symbols.slice(0, MAX_SEARCH_RESULTS).map((symbol) => toWorkspaceSymbol(symbol, workspaceRoots))
+}
+
+// some providers include the signature in the name, e.g. "parseMentions(text, cwd)"
+function isSymbolNamed(symbol: vscode.SymbolInformation, name: string): boolean {
+	return symbol.name === name || symbol.name.startsWith(`${name}(`)
+}
+
+// the workspace symbol's range may only cover its name, so the full range comes from the document's symbols
+function findDocumentSymbol(symbols: vscode.DocumentSymbol[], position: vscode.Position): vscode.DocumentSymbol | undefined {
+	for (const symbol of symbols) {
+		if (symbol.range.contains(position)) {
+			const child = findDocumentSymbol(symbol.children, position)
+			if (child) {
+				return child
+			}
+			if (symbol.selectionRange.contains(position) || symbol.range.start.isEqual(position)) {
+				return symbol
+			}
+		}
+	}
+	return undefined
+}
+
+export async function openWorkspaceSymbol(name: string, workspaceRoots: WorkspaceRoots): Promise<void> {
+	const symbol = (await findWorkspaceSymbols(name, workspaceRoots)).find((symbol) => isSymbolNamed(symbol, name))
+	if (symbol) {
+		await vscode.window.showTextDocument(symbol.location.uri, { selection: symbol.location.range })
+	}
+}
+
+/**
+ * The definitions of the symbols with the given name (there may be several, e.g. a method implemented by several classes),
+ * each with the places it's referenced from.
+ */
+export async function getSymbolMentionContent(name: string, workspaceRoots: WorkspaceRoots): Promise<string> {
+	const symbols = (await findWorkspaceSymbols(name, workspaceRoots)).filter((symbol) => isSymbolNamed(symbol, name))
+	if (symbols.length === 0) {
+		return `No symbol named '${name}' was found in the workspace.`
+	}
+
+	const parts: string[] = []
+	for (const symbol of symbols.slice(0, MAX_MENTIONED_DEFINITIONS)) {
+		const document = await vscode.workspace.openTextDocument(symbol.location.uri)
+		const documentSymbols =
+			(await vscode.commands.executeCommand<vscode.DocumentSymbol[]>(
+				"vscode.executeDocumentSymbolProvider",
+				document.uri,
+			)) ?? []
+		const documentSymbol = findDocumentSymbol(documentSymbols, symbol.location.range.start)
+		const range = documentSymbol?.range ?? symbol.location.range
+		const position = documentSymbol?.selectionRange.start ?? symbol.location.range.start
+		const relativePath = workspaceRoots.getRelativePath(document.uri.fsPath)
+
+		const lastLine = Math.min(range.end.line, range.start.line + MAX_DEFINITION_LINES - 1)
+		const lines: string[] = []
+		for (let line = range.start.line; line <= lastLine; line++) {
+			lines.push(`${line + 1} | ${document.lineAt(line).text}`)
+		}
+		if (lastLine < range.end.line) {
+			lines.push(`... (${range.end.line - lastLine} more lines, use read_file to see the rest)`)
+		}
+
+		const containerName = symbol.containerName ? ` in ${symbol.containerName}` : ""
+		let part = `${vscode.SymbolKind[symbol.kind]} ${symbol.name}${containerName}, defined in ${relativePath}:${range.start.line + 1}-${range.end.line + 1}:\n${lines.join("\n")}`
+
+		const locations =
+			(await vscode.commands.executeCommand<vscode.Location[]>(
+				"vscode.executeReferenceProvider",
+				document.uri,
+				position,
+			)) ?? []
+		// the definition itself is reported as a reference
+		const references = locations.filter(
+			(location) => location.uri.toString() !== document.uri.toString() || !location.range.contains(position),
+		)
+		if (references.length > 0) {
+			const referenceLines: string[] = []
+			for (const reference of references.slice(0, MAX_REFERENCES)) {
+				const referenceDocument = await vscode.workspace.openTextDocument(reference.uri)
+				const line = reference.range.start.line
+				referenceLines.push(
+					`${workspaceRoots.getRelativePath(reference.uri.fsPath)}:${line + 1}: ${referenceDocument.lineAt(line).text.trim()}`,
+				)
+			}
+			if (references.length > MAX_REFERENCES) {
+				referenceLines.push(`... (${references.length - MAX_REFERENCES} more references)`)
+			}
+			part += `\n\nReferences (${references.length}):\n${referenceLines.join("\n")}`
+		} else {
+			part += "\n\nNo references found."
+		}
+		parts.push(part)
+	}
+	if (symbols.length > MAX_MENTIONED_DEFINITIONS) {
+		parts.push(`(${symbols.length - MAX_MENTIONED_DEFINITIONS} more symbols named '${name}' were left out)`)
+	}
+	return parts.join("\n\n")
+}
@@ -0,0 +1,206 @@
+import { ChildProcess, spawn } from "child_process"
+import stripAnsi from "strip-ansi"
+import * as vscode from "vscode"
+import { ClineTerminalManager } from "./TerminalManager"
+import { mergePromise, TerminalProcess, TerminalProcessResultPromise } from "./TerminalProcess"
+
+interface ChildProcessTerminalInfo {
+	id: number
+	cwd: string
+	busy: boolean
+	lastCommand: string
+}
+
+export interface ChildProcessOptions {
+	shell?: string // defaults to the system shell (/bin/sh or cmd.exe)
+	env?: Record<string, string> // added to the extension host's environment
+	timeoutSeconds?: number // the command is killed after this long, 0 means no limit
+	maxOutputLength?: number // characters of output kept, the rest is dropped
+}
+
+// how long to wait after a process outputs anything before we consider it "cool" again
+const PROCESS_HOT_TIMEOUT = 2_000
+
+const DEFAULT_TIMEOUT_SECONDS = 600
+const DEFAULT_MAX_OUTPUT_LENGTH = 100_000
+
+export function getChildProcessOptions(): ChildProcessOptions {
+	const config = vscode.workspace.getConfiguration("cline.commandExecution")
+	return {
+		shell: config.get<string>("shell") || undefined,
+		env: config.get<Record<string, string>>("env", {}),
+		timeoutSeconds: config.get<number>("timeout", DEFAULT_TIMEOUT_SECONDS),
+		maxOutputLength: config.get<number>("maxOutputLength", DEFAULT_MAX_OUTPUT_LENGTH),
+	}
+}
+
+/**
+ * Runs a command in a child process instead of a VS Code terminal, e.g. for background commands or when running Cline
+ * without VS Code. There is no shell state carried between commands, each runs in a new shell in the terminal's working
+ * directory.
+ */
+export class ChildProcessTerminalProcess extends TerminalProcess {
+	childProcess?: ChildProcess
+
+	runInShell(command: string, cwd: string, options: ChildProcessOptions = {}) {
+		this.waitForShellIntegration = false
+		const startTime = Date.now()
+		this.childProcess = spawn(command, {
+			cwd,
+			shell: options.shell ?? true,
+			env: { ...process.env, ...options.env },
+			detached: process.platform !== "win32", // own process group, so stop() also ends what the shell started
+		})
+
+		let timedOut = false
+		const timeout = options.timeoutSeconds
+			? setTimeout(() => {
+					timedOut = true
+					this.stop()
+				}, options.timeoutSeconds * 1000)
+			: undefined
+
+		const maxOutputLength = options.maxOutputLength ?? Infinity
+		let stdout = ""
+		let stderr = ""
+		let outputLength = 0
+		const onData = (chunk: Buffer, stream: "stdout" | "stderr") => {
+			let data = stripAnsi(chunk.toString())
+			if (outputLength >= maxOutputLength) {
+				return
+			}
+			outputLength += data.length
+			if (outputLength >= maxOutputLength) {
+				data =
+					data.slice(0, data.length - (outputLength - maxOutputLength)) +
+					`\n[Output truncated after ${maxOutputLength} characters]\n`
+			}
+			if (stream === "stdout") {
+				stdout += data
+			} else {
+				stderr += data
+			}
+
+			this.isHot = true
+			if (this.hotTimer) {
+				clearTimeout(this.hotTimer)
+			}
+			this.hotTimer = setTimeout(() => {
+				this.isHot = false
+			}, PROCESS_HOT_TIMEOUT)
+			if (!this.fullOutput && data) {
+				this.emit("line", "") // empty line to indicate start of command output stream
+			}
+			this.fullOutput += data
+			if (this.isListening) {
+				this.emitIfEol(data)
+				this.lastRetrievedIndex = this.fullOutput.length - this.buffer.length
+			}
+		}
+		this.childProcess.stdout?.on("data", (chunk: Buffer) => onData(chunk, "stdout"))
+		this.childProcess.stderr?.on("data", (chunk: Buffer) => onData(chunk, "stderr"))
+
+		this.childProcess.once("error", (error) => this.emit("error", error))
+		this.childProcess.once("close", (code) => {
+			clearTimeout(timeout)
+			this.emitRemainingBufferIfListening()
+			if (this.hotTimer) {
+				clearTimeout(this.hotTimer)
+			}
+			this.isHot = false
+			this.emit("completed", {
+				exitCode: code ?? undefined,
+				durationMs: Date.now() - startTime,
+				timedOut: timedOut || undefined,
+				stdout,
+				stderr,
+			})
+			this.emit("continue")
+		})
+	}
+
+	stop() {
+		const pid = this.childProcess?.pid
+		if (pid === undefined || this.childProcess?.exitCode !== null) {
+			return
+		}
+		if (process.platform === "win32") {
+			this.childProcess.kill()
+		} else {
+			try {
+				process.kill(-pid)
+			} catch {
+				// the process group already exited
+			}
+		}
+	}
+}
+
+export class ChildProcessTerminalManager implements ClineTerminalManager {
+	private static nextTerminalId = 1
+	private terminals: ChildProcessTerminalInfo[] = []
+	private processes: Map<number, ChildProcessTerminalProcess> = new Map()
+
+	runCommand(terminalInfo: ChildProcessTerminalInfo, command: string): TerminalProcessResultPromise {
+		terminalInfo.busy = true
+		terminalInfo.lastCommand = command
+		const process = new ChildProcessTerminalProcess()
+		this.processes.set(terminalInfo.id, process)
+
+		process.once("completed", () => {
+			terminalInfo.busy = false
+		})
+
+		const promise = new Promise<void>((resolve, reject) => {
+			process.once("continue", () => {
+				resolve()
+			})
+			process.once("error", (error) => {
+				console.error(`Error in terminal ${terminalInfo.id}:`, error)
+				reject(error)
+			})
+		})
+
+		process.runInShell(command, terminalInfo.cwd, getChildProcessOptions())
+
+		return mergePromise(process, promise)
+	}
+
+	async getOrCreateTerminal(cwd: string): Promise<ChildProcessTerminalInfo> {
+		const availableTerminal = this.terminals.find((t) => !t.busy && t.cwd === cwd)
+		if (availableTerminal) {
+			return availableTerminal
+		}
+		const newTerminalInfo: ChildProcessTerminalInfo = {
+			id: ChildProcessTerminalManager.nextTerminalId++,
+			cwd,
+			busy: false,
+			lastCommand: "",
+		}
+		this.terminals.push(newTerminalInfo)
+		return newTerminalInfo
+	}
+
+	getTerminals(busy: boolean): { id: number; lastCommand: string }[] {
+		return this.terminals.filter((t) => t.busy === busy).map((t) => ({ id: t.id, lastCommand: t.lastCommand }))
+	}
+
+	getUnretrievedOutput(terminalId: number): string {
+		const process = this.processes.get(terminalId)
+		return process ? process.getUnretrievedOutput() : ""
+	}
+
+	isProcessHot(terminalId: number): boolean {
+		const process = this.processes.get(terminalId)
+		return process ? process.isHot : false
+	}
+
+	disposeAll() {
+		// unlike VS Code terminals, nothing is left to show these processes once the task is gone
+		for (const process of this.processes.values()) {
+			process.stop()
+		}
+		this.terminals = []
+		this.processes.clear()
+	}
+}
@@ -74,11 +74,12 @@ declare module "vscode" {
 	interface Terminal {
 		shellIntegration?: {
 			cwd?: vscode.Uri
-			executeCommand?: (command: string) => {
-				read: () => AsyncIterable<string>
-			}
+			executeCommand?: (command: string) => TerminalShellExecution
 		}
 	}
+	interface TerminalShellExecution {
+		read: () => AsyncIterable<string>
+	}
 	// https://github.com/microsoft/vscode/blob/f0417069c62e20f3667506f4b7e53ca0004b4e3e/src/vscode-dts/vscode.d.ts#L10794
 	interface Window {
 		onDidStartTerminalShellExecution?: (
@@ -86,10 +87,25 @@ declare module "vscode" {
 			thisArgs?: any,
 			disposables?: vscode.Disposable[],
 		) => vscode.Disposable
+		onDidEndTerminalShellExecution?: (
+			listener: (e: { execution: TerminalShellExecution; exitCode: number | undefined }) => any,
+			thisArgs?: any,
+			disposables?: vscode.Disposable[],
+		) => vscode.Disposable
 	}
 }
 
-export class TerminalManager {
+// What Cline needs from a terminal manager, so commands can also be run outside of VS Code (see ChildProcessTerminalManager)
+export interface ClineTerminalManager {
+	getOrCreateTerminal(cwd: string): Promise<{ id: number; busy: boolean; lastCommand: string }>
+	runCommand(terminalInfo: { id: number; busy: boolean; lastCommand: string }, command: string): TerminalProcessResultPromise
+	getTerminals(busy: boolean): { id: number; lastCommand: string }[]
+	getUnretrievedOutput(terminalId: number): string
+	isProcessHot(terminalId: number): boolean
+	disposeAll(): void
+}
+
+export class TerminalManager implements ClineTerminalManager {
 	private terminalIds: Set<number> = new Set()
 	private processes: Map<number, TerminalProcess> = new Map()
 	private disposables: vscode.Disposable[] = []
@@ -110,6 +126,7 @@ export class TerminalManager {
 	}
 
 	runCommand(terminalInfo: TerminalInfo, command: string): TerminalProcessResultPromise {
+		terminalInfo.terminal.show() // weird visual bug when creating new terminals (even manually) where there's an empty space at the top.
 		terminalInfo.busy = true
 		terminalInfo.lastCommand = command
 		const process = new TerminalProcess()
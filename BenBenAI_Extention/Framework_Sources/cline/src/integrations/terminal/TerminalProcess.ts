@@ -1,11 +1,20 @@
+import delay from "delay"
 import { EventEmitter } from "events"
 import stripAnsi from "strip-ansi"
 import * as vscode from "vscode"
+import { ClineSayCommandResult } from "../../shared/ExtensionMessage"
+
+export interface TerminalCommandResult extends ClineSayCommandResult {
+	// VS Code terminals interleave both streams, so these are only available when commands run in child processes
+	stdout?: string
+	stderr?: string
+	timedOut?: boolean
+}
 
 export interface TerminalProcessEvents {
 	line: [line: string]
 	continue: []
-	completed: []
+	completed: [result?: TerminalCommandResult] // no result when the command was sent to a terminal without shell integration
 	error: [error: Error]
 	no_shell_integration: []
 }
@@ -13,22 +22,35 @@ export interface TerminalProcessEvents {
 // how long to wait after a process outputs anything before we consider it "cool" again
 const PROCESS_HOT_TIMEOUT_NORMAL = 2_000
 const PROCESS_HOT_TIMEOUT_COMPILING = 15_000
+// how long to wait for the shell execution end event (which carries the exit code) after the output stream has finished
+const EXIT_CODE_TIMEOUT = 1_000
 
 export class TerminalProcess extends EventEmitter<TerminalProcessEvents> {
 	waitForShellIntegration: boolean = true
-	private isListening: boolean = true
-	private buffer: string = ""
-	private fullOutput: string = ""
-	private lastRetrievedIndex: number = 0
+	protected isListening: boolean = true
+	protected buffer: string = ""
+	protected fullOutput: string = ""
+	protected lastRetrievedIndex: number = 0
 	isHot: boolean = false
-	private hotTimer: NodeJS.Timeout | null = null
+	protected hotTimer: NodeJS.Timeout | null = null
 
 	// constructor() {
 	// 	super()
 
 	async run(terminal: vscode.Terminal, command: string) {
 		if (terminal.shellIntegration && terminal.shellIntegration.executeCommand) {
+			const startTime = Date.now()
 			const execution = terminal.shellIntegration.executeCommand(command)
+			let exitCode: number | undefined
+			let endListener: vscode.Disposable | undefined
+			const didEnd = new Promise<void>((resolve) => {
+				endListener = (vscode.window as vscode.Window).onDidEndTerminalShellExecution?.((e) => {
+					if (e.execution === execution) {
+						exitCode = e.exitCode
+						resolve()
+					}
+				})
+			})
 			const stream = execution.read()
 			// todo: need to handle errors
 			let isFirstChunk = true
@@ -166,7 +188,13 @@ export class TerminalProcess extends EventEmitter<TerminalProcessEvents> {
 			}
 			this.isHot = false
 
-			this.emit("completed")
+			const durationMs = Date.now() - startTime
+			if (endListener) {
+				await Promise.race([didEnd, delay(EXIT_CODE_TIMEOUT)])
+				endListener.dispose()
+			}
+
+			this.emit("completed", { exitCode, durationMs })
 			this.emit("continue")
 		} else {
 			terminal.sendText(command, true)
@@ -183,7 +211,7 @@ export class TerminalProcess extends EventEmitter<TerminalProcessEvents> {
 	}
 
 	// Inspired by https://github.com/sindresorhus/execa/blob/main/lib/transform/split.js
-	private emitIfEol(chunk: string) {
+	protected emitIfEol(chunk: string) {
 		this.buffer += chunk
 		let lineEndIndex: number
 		while ((lineEndIndex = this.buffer.indexOf("\n")) !== -1) {
@@ -197,7 +225,7 @@ export class TerminalProcess extends EventEmitter<TerminalProcessEvents> {
 		}
 	}
 
-	private emitRemainingBufferIfListening() {
+	protected emitRemainingBufferIfListening() {
 		if (this.buffer && this.isListening) {
 			const remainingBuffer = this.removeLastLineArtifacts(this.buffer)
 			if (remainingBuffer) {
@@ -0,0 +1,52 @@
+import { describe, it } from "mocha"
+import * as path from "path"
+import "should"
+import { WorkspaceRoots } from "./WorkspaceRoots"
+
+describe("WorkspaceRoots", () => {
+	const api = path.resolve("/work/api")
+	const web = path.resolve("/work/web")
+	const multiRoot = new WorkspaceRoots([
+		{ name: "api", path: api },
+		{ name: "web", path: web },
+	])
+	const singleRoot = WorkspaceRoots.fromPath(api)
+
+	describe("resolvePath", () => {
+		it("should resolve paths prefixed with a folder's name in that folder", () => {
+			multiRoot.resolvePath("web/src/App.tsx").should.equal(path.join(web, "src/App.tsx"))
+			multiRoot.resolvePath("api/server.ts").should.equal(path.join(api, "server.ts"))
+			multiRoot.resolvePath("web").should.equal(web)
+		})
+
+		it("should resolve other paths against the first folder", () => {
+			multiRoot.resolvePath("src/server.ts").should.equal(path.join(api, "src/server.ts"))
+			singleRoot.resolvePath("web/src/App.tsx").should.equal(path.join(api, "web/src/App.tsx"))
+			multiRoot.resolvePath(path.join(web, "index.ts")).should.equal(path.join(web, "index.ts"))
+		})
+	})
+
+	describe("getRelativePath", () => {
+		it("should prefix paths with their folder's name in multi-root workspaces", () => {
+			multiRoot.getRelativePath(path.join(web, "src/App.tsx")).should.equal("web/src/App.tsx")
+			multiRoot.getRelativePath(api).should.equal("api")
+			singleRoot.getRelativePath(path.join(api, "src/server.ts")).should.equal("src/server.ts")
+		})
+
+		it("should fall back to paths relative to the first folder outside the workspace", () => {
+			multiRoot.getRelativePath(path.resolve("/work/other/a.ts")).should.equal("../other/a.ts")
+		})
+	})
+
+	describe("getRootForPath", () => {
+		it("should find the innermost folder", () => {
+			const nested = new WorkspaceRoots([
+				{ name: "repo", path: path.resolve("/work") },
+				{ name: "web", path: web },
+			])
+			nested.getRootForPath(path.join(web, "index.ts"))!.name.should.equal("web")
+			nested.getRootForPath(path.join(api, "index.ts"))!.name.should.equal("repo")
+			;(nested.getRootForPath(path.resolve("/elsewhere")) === undefined).should.be.true()
+		})
+	})
+})
@@ -0,0 +1,93 @@
+import * as path from "path"
+import { getReadablePath } from "../../utils/path"
+
+/*
+In a multi-root workspace, paths shown to the model and the user are prefixed with the name of the workspace folder they're
+in (e.g. "api/src/server.ts"), and paths given by the model or the user are resolved the same way. Paths that don't start
+with a folder's name are relative to the first folder, which is the current working directory commands run in. In a
+single-folder workspace paths are relative to the folder, as they've always been.
+*/
+
+export interface WorkspaceRoot {
+	name: string
+	path: string
+}
+
+export class WorkspaceRoots {
+	readonly roots: WorkspaceRoot[]
+
+	constructor(roots: WorkspaceRoot[]) {
+		if (roots.length === 0) {
+			throw new Error("A workspace needs at least one folder")
+		}
+		this.roots = roots
+	}
+
+	/**
+	 * @param folders - vscode.workspace.workspaceFolders
+	 * @returns the workspace's folders, or undefined if no folder is open
+	 */
+	static fromFolders(folders?: readonly { name: string; uri: { fsPath: string } }[]): WorkspaceRoots | undefined {
+		if (!folders || folders.length === 0) {
+			return undefined
+		}
+		return new WorkspaceRoots(folders.map((folder) => ({ name: folder.name, path: folder.uri.fsPath })))
+	}
+
+	static fromPath(dirPath: string): WorkspaceRoots {
+		return new WorkspaceRoots([{ name: path.basename(dirPath), path: dirPath }])
+	}
+
+	get cwd(): string {
+		return this.roots[0].path
+	}
+
+	get isMultiRoot(): boolean {
+		return this.roots.length > 1
+	}
+
+	resolvePath(relPath: string): string {
+		if (this.isMultiRoot && !path.isAbsolute(relPath)) {
+			const [folderName, ...rest] = relPath.toPosix().split("/")
+			const root = this.roots.find((r) => r.name === folderName)
+			if (root) {
+				return path.resolve(root.path, ...rest)
+			}
+		}
+		// path.resolve ignores the cwd if relPath is absolute
+		return path.resolve(this.cwd, relPath)
+	}
+
+	/**
+	 * @returns the innermost workspace folder containing the path, or undefined if it's outside the workspace
+	 */
+	getRootForPath(absolutePath: string): WorkspaceRoot | undefined {
+		let innermost: WorkspaceRoot | undefined
+		for (const root of this.roots) {
+			const relativePath = path.relative(root.path, absolutePath)
+			const isInside = !relativePath.startsWith("..") && !path.isAbsolute(relativePath)
+			if (isInside && (!innermost || root.path.length > innermost.path.length)) {
+				innermost = root
+			}
+		}
+		return innermost
+	}
+
+	// like path.relative(cwd, absolutePath), but prefixed with the workspace folder's name in multi-root workspaces
+	getRelativePath(absolutePath: string): string {
+		const root = this.isMultiRoot ? this.getRootForPath(absolutePath) : undefined
+		if (root) {
+			return path.posix.join(root.name, path.relative(root.path, absolutePath).toPosix())
+		}
+		return path.relative(this.cwd, absolutePath).toPosix()
+	}
+
+	// see getReadablePath in utils/path
+	getReadablePath(relPath?: string): string {
+		const absolutePath = this.resolvePath(relPath || "")
+		if (this.isMultiRoot && this.getRootForPath(absolutePath)) {
+			return this.getRelativePath(absolutePath)
+		}
+		return getReadablePath(this.cwd, absolutePath)
+	}
+}
@@ -2,28 +2,92 @@ import * as vscode from "vscode"
 import * as path from "path"
 import { listFiles } from "../../services/glob/list-files"
 import { ClineProvider } from "../../core/webview/ClineProvider"
+import { SymbolIndex } from "../../services/symbol-index/SymbolIndex"
+import { hashWorkingDir } from "../checkpoints/CheckpointUtils"
+import { WorkspaceRoots } from "./WorkspaceRoots"
 
-const cwd = vscode.workspace.workspaceFolders?.map((folder) => folder.uri.fsPath).at(0)
+const MAX_FILE_PATHS = 1_000
 
 // Note: this is not a drop-in replacement for listFiles at the start of tasks, since that will be done for Desktops when there is no workspace selected
 class WorkspaceTracker {
 	private providerRef: WeakRef<ClineProvider>
 	private disposables: vscode.Disposable[] = []
 	private filePaths: Set<string> = new Set()
+	symbolIndex?: SymbolIndex // may still be building, see getSymbolIndex
+	private symbolIndexBuild?: Promise<void>
+	private isBuildingSymbolIndex = false
 
 	constructor(provider: ClineProvider) {
 		this.providerRef = new WeakRef(provider)
 		this.registerListeners()
 	}
 
+	// the workspace folders can change without restarting the extension, unless the first one changes (see below)
+	private get workspaceRoots(): WorkspaceRoots | undefined {
+		return WorkspaceRoots.fromFolders(vscode.workspace.workspaceFolders)
+	}
+
 	async populateFilePaths() {
 		// should not auto get filepaths for desktop since it would immediately show permission popup before cline ever creates a file
-		if (!cwd) {
+		const workspaceRoots = this.workspaceRoots
+		if (!workspaceRoots) {
 			return
 		}
-		const [files, _] = await listFiles(cwd, true, 1_000)
-		files.forEach((file) => this.filePaths.add(this.normalizeFilePath(file)))
+		const limit = Math.ceil(MAX_FILE_PATHS / workspaceRoots.roots.length)
+		for (const root of workspaceRoots.roots) {
+			const [files, _] = await listFiles(root.path, true, limit)
+			files.forEach((file) => this.filePaths.add(this.normalizeFilePath(file)))
+		}
 		this.workspaceDidUpdate()
+		this.getSymbolIndex() // don't await
+	}
+
+	/**
+	 * @returns the workspace's symbol index, once it's built, or undefined if no folder is open
+	 */
+	async getSymbolIndex(): Promise<SymbolIndex | undefined> {
+		const workspaceRoots = this.workspaceRoots
+		if (!workspaceRoots) {
+			return undefined
+		}
+		if (!this.symbolIndex) {
+			const provider = this.providerRef.deref()
+			if (!provider) {
+				return undefined
+			}
+			// the index is stored per workspace, which is identified by its first folder like the checkpoints are
+			const storageFilePath = path.join(
+				provider.context.globalStorageUri.fsPath,
+				"cache",
+				"symbol-index",
+				`${hashWorkingDir(workspaceRoots.cwd)}.json`,
+			)
+			this.symbolIndex = new SymbolIndex(storageFilePath)
+			this.startSymbolIndexBuild(this.symbolIndex, workspaceRoots)
+		}
+		await this.symbolIndexBuild
+		return this.symbolIndex
+	}
+
+	/**
+	 * @returns the workspace's symbol index if it isn't being built, since waiting for the whole workspace to be indexed
+	 * takes longer than parsing the few files a caller needs
+	 */
+	getBuiltSymbolIndex(): SymbolIndex | undefined {
+		return this.isBuildingSymbolIndex ? undefined : this.symbolIndex
+	}
+
+	private startSymbolIndexBuild(symbolIndex: SymbolIndex, workspaceRoots: WorkspaceRoots) {
+		this.isBuildingSymbolIndex = true
+		const build = symbolIndex
+			.build(workspaceRoots)
+			.catch((error) => console.error("Failed to build the symbol index:", error))
+			.finally(() => {
+				if (this.symbolIndexBuild === build) {
+					this.isBuildingSymbolIndex = false
+				}
+			})
+		this.symbolIndexBuild = build
 	}
 
 	private registerListeners() {
@@ -37,6 +101,9 @@ class WorkspaceTracker {
 		// Listen for file renaming
 		this.disposables.push(vscode.workspace.onDidRenameFiles(this.onFilesRenamed.bind(this)))
 
+		// Listen for file changes, to keep the symbol index up to date (the files' paths don't change)
+		this.disposables.push(vscode.workspace.onDidSaveTextDocument(this.onFileSaved.bind(this)))
+
 		/*
 		 An event that is emitted when a workspace folder is added or removed.
 		 **Note:** this event will not fire if the first workspace folder is added, removed or changed,
@@ -44,14 +111,43 @@ class WorkspaceTracker {
 		 event) will be terminated and restarted so that the (deprecated) `rootPath` property is updated
 		 to point to the first workspace folder.
 		 */
-		// In other words, we don't have to worry about the root workspace folder ([0]) changing since the extension will be restarted and our cwd will be updated to reflect the new workspace folder. (We don't care about non root workspace folders, since cline will only be working within the root folder cwd)
-		// this.disposables.push(vscode.workspace.onDidChangeWorkspaceFolders(this.onWorkspaceFoldersChanged.bind(this)))
+		// In other words, we don't have to worry about the root workspace folder ([0]) changing since the extension will be restarted and our cwd will be updated to reflect the new workspace folder. The other folders' files are listed for mentions too, prefixed with the folder's name.
+		this.disposables.push(vscode.workspace.onDidChangeWorkspaceFolders(this.onWorkspaceFoldersChanged.bind(this)))
+	}
+
+	private async onWorkspaceFoldersChanged() {
+		this.filePaths.clear()
+		this.rebuildSymbolIndex()
+		await this.populateFilePaths()
+	}
+
+	private onFileSaved(document: vscode.TextDocument) {
+		if (document.uri.scheme === "file") {
+			this.updateSymbolIndex(document.uri.fsPath)
+		}
+	}
+
+	// the index's updates wait for it to be built, so they aren't awaited
+	private updateSymbolIndex(filePath: string) {
+		if (filePath.endsWith("/")) {
+			// the files of a created or moved directory aren't in the events, but building the index again only parses them
+			this.rebuildSymbolIndex()
+		} else {
+			this.symbolIndex?.updateFile(filePath)
+		}
+	}
+
+	private rebuildSymbolIndex() {
+		const workspaceRoots = this.workspaceRoots
+		if (this.symbolIndex && workspaceRoots) {
+			this.startSymbolIndexBuild(this.symbolIndex, workspaceRoots)
+		}
 	}
 
 	private async onFilesCreated(event: vscode.FileCreateEvent) {
 		await Promise.all(
 			event.files.map(async (file) => {
-				await this.addFilePath(file.fsPath)
+				this.updateSymbolIndex(await this.addFilePath(file.fsPath))
 			}),
 		)
 		this.workspaceDidUpdate()
@@ -64,6 +160,7 @@ class WorkspaceTracker {
 				if (await this.removeFilePath(file.fsPath)) {
 					updated = true
 				}
+				this.symbolIndex?.removeFile(file.fsPath)
 			}),
 		)
 		if (updated) {
@@ -75,27 +172,30 @@ class WorkspaceTracker {
 		await Promise.all(
 			event.files.map(async (file) => {
 				await this.removeFilePath(file.oldUri.fsPath)
-				await this.addFilePath(file.newUri.fsPath)
+				this.symbolIndex?.removeFile(file.oldUri.fsPath)
+				this.updateSymbolIndex(await this.addFilePath(file.newUri.fsPath))
 			}),
 		)
 		this.workspaceDidUpdate()
 	}
 
 	private workspaceDidUpdate() {
-		if (!cwd) {
+		const workspaceRoots = this.workspaceRoots
+		if (!workspaceRoots) {
 			return
 		}
 		this.providerRef.deref()?.postMessageToWebview({
 			type: "workspaceUpdated",
 			filePaths: Array.from(this.filePaths).map((file) => {
-				const relativePath = path.relative(cwd, file).toPosix()
+				const relativePath = workspaceRoots.getRelativePath(file)
 				return file.endsWith("/") ? relativePath + "/" : relativePath
 			}),
 		})
 	}
 
 	private normalizeFilePath(filePath: string): string {
-		const resolvedPath = cwd ? path.resolve(cwd, filePath) : path.resolve(filePath)
+		const workspaceRoots = this.workspaceRoots
+		const resolvedPath = workspaceRoots ? workspaceRoots.resolvePath(filePath) : path.resolve(filePath)
 		return filePath.endsWith("/") ? resolvedPath + "/" : resolvedPath
 	}
 
@@ -121,6 +221,7 @@ class WorkspaceTracker {
 
 	public dispose() {
 		this.disposables.forEach((d) => d.dispose())
+		this.symbolIndex?.dispose() // saves pending changes
 	}
 }
 
@@ -0,0 +1,202 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import fs from "fs/promises"
+import path from "path"
+import { GlobalFileNames } from "../../core/webview/ClineProvider"
+import { ClineMessage } from "../../shared/ExtensionMessage"
+import { HistoryItem, TaskSearchQuery, TaskSearchResult } from "../../shared/HistoryItem"
+import { fileExistsAtPath } from "../../utils/fs"
+import { findMatches, getSearchableMessages, getTouchedFiles, getWorkspace, SearchableMessage, tokenize } from "."
+
+const MAX_RESULTS = 50
+const MAX_MATCHES_PER_TASK = 3
+
+interface IndexedTask {
+	version: string // modification times of the task's message files when it was indexed
+	tokens: string[]
+	files: string[]
+	workspace?: string
+}
+
+/**
+ * An in-memory inverted index over the conversations of the tasks in the history. Tasks are (re-)indexed lazily on
+ * search when their message files have changed since they were last indexed, and dropped once they're deleted.
+ */
+export class TaskSearchIndex {
+	private tasks = new Map<string, IndexedTask>()
+	private taskIdsByToken = new Map<string, Set<string>>()
+	private lastSearch: Promise<unknown> = Promise.resolve()
+
+	constructor(private readonly tasksDirPath: string) {}
+
+	/**
+	 * Search the conversations of the tasks in the history
+	 * @param query - Search text and filters
+	 * @param taskHistory - All tasks in the history
+	 * @returns the matching tasks, those whose title matches first and then newest first
+	 */
+	async search(query: TaskSearchQuery, taskHistory: HistoryItem[]): Promise<TaskSearchResult[]> {
+		// searches share the index, so updating it mustn't interleave
+		const search = this.lastSearch.catch(() => {}).then(() => this.searchIndex(query, taskHistory))
+		this.lastSearch = search
+		return search
+	}
+
+	private async searchIndex(query: TaskSearchQuery, taskHistory: HistoryItem[]): Promise<TaskSearchResult[]> {
+		await this.update(taskHistory)
+
+		const terms = tokenize(query.text)
+		const termTaskIds = terms.length > 0 ? this.findTasksWithTerms(terms) : undefined
+		const workspace = query.workspace?.trim().toLowerCase()
+		const file = query.file?.trim().toLowerCase()
+
+		const items = taskHistory.filter((item) => {
+			const task = this.tasks.get(item.id)
+			if (!task || (termTaskIds && !termTaskIds.has(item.id))) {
+				return false
+			}
+			if (
+				(query.dateFrom !== undefined && item.ts < query.dateFrom) ||
+				(query.dateTo !== undefined && item.ts > query.dateTo)
+			) {
+				return false
+			}
+			if (query.modelId && item.modelId !== query.modelId) {
+				return false
+			}
+			const cost = item.totalCost || 0
+			if ((query.minCost !== undefined && cost < query.minCost) || (query.maxCost !== undefined && cost > query.maxCost)) {
+				return false
+			}
+			if (workspace && !task.workspace?.toLowerCase().includes(workspace)) {
+				return false
+			}
+			if (file && !task.files.some((f) => f.toLowerCase().includes(file))) {
+				return false
+			}
+			return true
+		})
+
+		const titleMatches = (item: HistoryItem) => {
+			const title = item.task.toLowerCase()
+			return terms.length > 0 && terms.every((term) => title.includes(term))
+		}
+		items.sort((a, b) => Number(titleMatches(b)) - Number(titleMatches(a)) || b.ts - a.ts)
+
+		const results: TaskSearchResult[] = []
+		for (const item of items.slice(0, MAX_RESULTS)) {
+			const matches =
+				terms.length > 0 ? findMatches(await this.readSearchableMessages(item.id), terms, MAX_MATCHES_PER_TASK) : []
+			results.push({ taskId: item.id, matches })
+		}
+		return results
+	}
+
+	// a task matches a term if any of its tokens contains it
+	private findTasksWithTerms(terms: string[]): Set<string> {
+		let taskIds: Set<string> | undefined
+		for (const term of terms) {
+			const termTaskIds = new Set<string>()
+			for (const [token, tokenTaskIds] of this.taskIdsByToken) {
+				if (token.includes(term)) {
+					tokenTaskIds.forEach((id) => termTaskIds.add(id))
+				}
+			}
+			taskIds = taskIds ? new Set(Array.from(taskIds).filter((id) => termTaskIds.has(id))) : termTaskIds
+		}
+		return taskIds ?? new Set()
+	}
+
+	private async update(taskHistory: HistoryItem[]): Promise<void> {
+		const taskIds = new Set(taskHistory.map((item) => item.id))
+		for (const taskId of this.tasks.keys()) {
+			if (!taskIds.has(taskId)) {
+				this.removeTask(taskId)
+			}
+		}
+
+		for (const item of taskHistory) {
+			try {
+				const version = await this.getTaskVersion(item.id)
+				if (this.tasks.get(item.id)?.version !== version) {
+					await this.indexTask(item, version)
+				}
+			} catch (error) {
+				console.error(`Failed to index task ${item.id}:`, error)
+				this.removeTask(item.id)
+			}
+		}
+	}
+
+	private async indexTask(item: HistoryItem, version: string): Promise<void> {
+		const { uiMessages, apiConversationHistory } = await this.readTask(item.id)
+		const tokens = new Set(tokenize(item.task))
+		for (const message of getSearchableMessages(uiMessages, apiConversationHistory)) {
+			tokenize(message.text).forEach((token) => tokens.add(token))
+		}
+
+		this.removeTask(item.id)
+		this.tasks.set(item.id, {
+			version,
+			tokens: Array.from(tokens),
+			files: getTouchedFiles(uiMessages),
+			workspace: item.workspaceRoot ?? getWorkspace(apiConversationHistory) ?? item.shadowGitConfigWorkTree,
+		})
+		for (const token of tokens) {
+			let taskIds = this.taskIdsByToken.get(token)
+			if (!taskIds) {
+				taskIds = new Set()
+				this.taskIdsByToken.set(token, taskIds)
+			}
+			taskIds.add(item.id)
+		}
+	}
+
+	private removeTask(taskId: string): void {
+		const task = this.tasks.get(taskId)
+		if (!task) {
+			return
+		}
+		for (const token of task.tokens) {
+			const taskIds = this.taskIdsByToken.get(token)
+			taskIds?.delete(taskId)
+			if (taskIds?.size === 0) {
+				this.taskIdsByToken.delete(token)
+			}
+		}
+		this.tasks.delete(taskId)
+	}
+
+	private async getTaskVersion(taskId: string): Promise<string> {
+		const mtimes = await Promise.all(
+			this.getTaskFilePaths(taskId).map(async (filePath) =>
+				(await fileExistsAtPath(filePath)) ? (await fs.stat(filePath)).mtimeMs : 0,
+			),
+		)
+		return mtimes.join(":")
+	}
+
+	private async readSearchableMessages(taskId: string): Promise<SearchableMessage[]> {
+		const { uiMessages, apiConversationHistory } = await this.readTask(taskId)
+		return getSearchableMessages(uiMessages, apiConversationHistory)
+	}
+
+	private async readTask(
+		taskId: string,
+	): Promise<{ uiMessages: ClineMessage[]; apiConversationHistory: Anthropic.MessageParam[] }> {
+		const [uiMessagesFilePath, apiConversationHistoryFilePath] = this.getTaskFilePaths(taskId)
+		const readJson = async (filePath: string) =>
+			(await fileExistsAtPath(filePath)) ? JSON.parse(await fs.readFile(filePath, "utf8")) : []
+		return {
+			uiMessages: await readJson(uiMessagesFilePath),
+			apiConversationHistory: await readJson(apiConversationHistoryFilePath),
+		}
+	}
+
+	private getTaskFilePaths(taskId: string): [string, string] {
+		const taskDirPath = path.join(this.tasksDirPath, taskId)
+		return [
+			path.join(taskDirPath, GlobalFileNames.uiMessages),
+			path.join(taskDirPath, GlobalFileNames.apiConversationHistory),
+		]
+	}
+}
@@ -0,0 +1,84 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import { describe, it } from "mocha"
+import "should"
+import { ClineMessage } from "../../shared/ExtensionMessage"
+import { findMatches, getSearchableMessages, getTouchedFiles, getWorkspace, tokenize } from "."
+
+describe("History Search", () => {
+	const uiMessages: ClineMessage[] = [
+		{ ts: 1, type: "say", say: "task", text: "Fix the parser" },
+		{ ts: 2, type: "say", say: "api_req_started", text: '{"request":"parser"}', conversationHistoryIndex: 0 },
+		{ ts: 3, type: "say", say: "text", text: "Let me read the parser.", conversationHistoryIndex: 0 },
+		{
+			ts: 4,
+			type: "ask",
+			ask: "tool",
+			text: JSON.stringify({ tool: "readFile", path: "src/utils/parser.ts" }),
+			conversationHistoryIndex: 0,
+		},
+		{ ts: 5, type: "say", say: "api_req_started", text: "{}", conversationHistoryIndex: 2 },
+		{ ts: 6, type: "say", say: "completion_result", text: "Fixed parseCommand.", conversationHistoryIndex: 2 },
+	]
+	const apiConversationHistory: Anthropic.MessageParam[] = [
+		{
+			role: "user",
+			content: [
+				{ type: "text", text: "<task>\nFix the parser\n</task>" },
+				{
+					type: "text",
+					text: "<environment_details>\n# Current Working Directory (/home/user/project) Files\nsrc/\n</environment_details>",
+				},
+			],
+		},
+		{ role: "assistant", content: "Let me read the parser." },
+		{
+			role: "user",
+			content: [{ type: "text", text: "[read_file for 'src/utils/parser.ts'] Result:\nexport function tokenize() {}" }],
+		},
+		{ role: "assistant", content: "Fixed parseCommand." },
+	]
+
+	describe("tokenize", () => {
+		it("should keep identifiers and paths and trim surrounding punctuation", () => {
+			tokenize("Read src/utils/parser.ts, then parseCommand() again. Read").should.deepEqual([
+				"read",
+				"src/utils/parser.ts",
+				"then",
+				"parsecommand",
+				"again",
+			])
+		})
+	})
+
+	describe("getSearchableMessages", () => {
+		it("should skip bookkeeping messages and strip environment details and tags", () => {
+			const messages = getSearchableMessages(uiMessages, apiConversationHistory)
+			messages.map((m) => m.ts).should.deepEqual([1, 3, 4, 6, 2, 2])
+			messages[4].text.should.equal("Fix the parser")
+		})
+
+		it("should attribute tool results to the request that used the tools", () => {
+			const messages = getSearchableMessages(uiMessages, apiConversationHistory)
+			messages[5].text.should.containEql("export function tokenize()")
+			messages[5].ts.should.equal(2)
+		})
+	})
+
+	describe("findMatches", () => {
+		it("should prefer messages containing all terms and skip duplicate snippets", () => {
+			const messages = getSearchableMessages(uiMessages, apiConversationHistory)
+			findMatches(messages, ["fix", "parser"], 3).should.deepEqual([{ ts: 1, snippet: "Fix the parser" }])
+			findMatches(messages, ["tokenize"], 3).should.deepEqual([
+				{ ts: 2, snippet: "…ead_file for 'src/utils/parser.ts'] Result: export function tokenize() {}" },
+			])
+			findMatches(messages, ["missing"], 3).should.deepEqual([])
+		})
+	})
+
+	describe("task metadata", () => {
+		it("should find the touched files and the workspace", () => {
+			getTouchedFiles(uiMessages).should.deepEqual(["src/utils/parser.ts"])
+			getWorkspace(apiConversationHistory)!.should.equal("/home/user/project")
+		})
+	})
+})
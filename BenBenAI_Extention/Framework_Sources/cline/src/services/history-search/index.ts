@@ -0,0 +1,167 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import { ClineMessage, ClineSayTool } from "../../shared/ExtensionMessage"
+import { TaskSearchMatch } from "../../shared/HistoryItem"
+
+/*
+Full-text search over a task's conversation: the messages shown in the chat (ui_messages.json) plus what was sent to the
+model (api_conversation_history.json), which also holds tool results like command output and file contents. Text is split
+into lowercase word tokens (keeping characters common in identifiers and paths, like . - / _ $), and a search term matches
+any token that contains it, so "parse" finds "parseCommand" and "utils/parser.ts".
+*/
+
+export interface SearchableMessage {
+	ts: number // the ui message to scroll to
+	text: string
+}
+
+const MAX_TOKEN_LENGTH = 100
+const SNIPPET_CONTEXT_LENGTH = 60
+
+// ui messages that only hold bookkeeping, not conversation text
+const SKIPPED_SAYS: ClineMessage["say"][] = [
+	"api_req_started",
+	"api_req_finished",
+	"api_req_retried",
+	"deleted_api_reqs",
+	"checkpoint_created",
+]
+
+export function tokenize(text: string): string[] {
+	const tokens = new Set<string>()
+	for (const match of text.toLowerCase().matchAll(/[\p{L}\p{N}_$.\-\/]+/gu)) {
+		// trim punctuation at the ends, e.g. the period ending a sentence
+		const token = match[0].replace(/^[.\-\/]+|[.\-\/]+$/g, "")
+		if (token && token.length <= MAX_TOKEN_LENGTH) {
+			tokens.add(token)
+		}
+	}
+	return Array.from(tokens)
+}
+
+export function getSearchableMessages(
+	uiMessages: ClineMessage[],
+	apiConversationHistory: Anthropic.MessageParam[],
+): SearchableMessage[] {
+	const messages: SearchableMessage[] = uiMessages
+		.filter((message) => message.text && !(message.type === "say" && SKIPPED_SAYS.includes(message.say)))
+		.map((message) => ({ ts: message.ts, text: message.text! }))
+
+	// the user messages sent to the model hold the tool results, which aren't shown in the chat in full
+	apiConversationHistory.forEach((message, index) => {
+		if (message.role !== "user") {
+			return
+		}
+		const text = getApiMessageText(message)
+		const ts = getTsForApiMessage(uiMessages, index)
+		if (text && ts !== undefined) {
+			messages.push({ ts, text })
+		}
+	})
+	return messages
+}
+
+function getApiMessageText(message: Anthropic.MessageParam): string {
+	const blocks = typeof message.content === "string" ? [message.content] : message.content.map(getBlockText)
+	return blocks
+		.join("\n")
+		.replace(/<environment_details>[\s\S]*?<\/environment_details>/g, "")
+		.replace(/<\/?(task|feedback|answer)>/g, "") // so the task and user feedback match their ui messages
+		.trim()
+}
+
+function getBlockText(block: Anthropic.ContentBlockParam): string {
+	switch (block.type) {
+		case "text":
+			return block.text
+		case "tool_result":
+			if (typeof block.content === "string") {
+				return block.content
+			}
+			return (block.content ?? []).map((part) => (part.type === "text" ? part.text : "")).join("\n")
+		default:
+			return ""
+	}
+}
+
+// Tool results in the user message at index i come from the tools used in the assistant message before it, which is shown
+// by the ui messages added after the user message at index i - 2 (see conversationHistoryIndex in Cline.addToClineMessages)
+function getTsForApiMessage(uiMessages: ClineMessage[], apiMessageIndex: number): number | undefined {
+	const message = uiMessages.find(
+		(m) => m.conversationHistoryIndex !== undefined && m.conversationHistoryIndex >= apiMessageIndex - 2,
+	)
+	return (message ?? uiMessages.at(0))?.ts
+}
+
+export function getTouchedFiles(uiMessages: ClineMessage[]): string[] {
+	const files = new Set<string>()
+	for (const message of uiMessages) {
+		if ((message.ask === "tool" || message.say === "tool") && message.text) {
+			try {
+				const tool = JSON.parse(message.text) as ClineSayTool
+				if (tool.path) {
+					files.add(tool.path)
+				}
+			} catch {
+				// partial or malformed tool message
+			}
+		}
+	}
+	return Array.from(files)
+}
+
+export function getWorkspace(apiConversationHistory: Anthropic.MessageParam[]): string | undefined {
+	for (const message of apiConversationHistory) {
+		if (message.role === "user") {
+			// only the environment details of a task's first request list the working directory's files
+			const text = typeof message.content === "string" ? message.content : message.content.map(getBlockText).join("\n")
+			const cwd = text.match(/# Current Working Directory \((.+?)\) Files/)?.[1]
+			if (cwd) {
+				return cwd
+			}
+		}
+	}
+	return undefined
+}
+
+/**
+ * Find the messages that contain the search terms, preferring those that contain all of them
+ * @param messages - The task's searchable messages
+ * @param terms - Tokenized search terms
+ * @param limit - Maximum number of matches to return
+ * @returns the matching messages in order, with a snippet of text around the first match
+ */
+export function findMatches(messages: SearchableMessage[], terms: string[], limit: number): TaskSearchMatch[] {
+	if (terms.length === 0) {
+		return []
+	}
+	const scored = messages.map((message) => {
+		const text = message.text.toLowerCase()
+		return { message, text, matchedTerms: terms.filter((term) => text.includes(term)) }
+	})
+	const bestScore = Math.max(0, ...scored.map(({ matchedTerms }) => matchedTerms.length))
+	if (bestScore === 0) {
+		return []
+	}
+
+	const matches: TaskSearchMatch[] = []
+	for (const { message, text, matchedTerms } of scored.sort((a, b) => a.message.ts - b.message.ts)) {
+		if (matchedTerms.length < bestScore) {
+			continue
+		}
+		const snippet = getSnippet(message.text, text.indexOf(matchedTerms[0]), matchedTerms[0].length)
+		// the task and user feedback are in both the ui messages and the api conversation history
+		if (!matches.some((match) => match.snippet === snippet)) {
+			matches.push({ ts: message.ts, snippet })
+		}
+		if (matches.length >= limit) {
+			break
+		}
+	}
+	return matches
+}
+
+function getSnippet(text: string, index: number, length: number): string {
+	const start = Math.max(0, index - SNIPPET_CONTEXT_LENGTH)
+	const end = Math.min(text.length, index + length + SNIPPET_CONTEXT_LENGTH)
+	return [start > 0 ? "…" : "", text.slice(start, end).replace(/\s+/g, " ").trim(), end < text.length ? "…" : ""].join("")
+}
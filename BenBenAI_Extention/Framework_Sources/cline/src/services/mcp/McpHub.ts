@@ -1,14 +1,28 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js"
-import { StdioClientTransport, StdioServerParameters } from "@modelcontextprotocol/sdk/client/stdio.js"
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js"
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js"
 import {
 	CallToolResultSchema,
+	CompleteResultSchema,
+	CreateMessageRequestSchema,
+	CreateMessageResult,
+	EmptyResultSchema,
+	ErrorCode,
+	GetPromptResultSchema,
+	ListPromptsResultSchema,
 	ListResourcesResultSchema,
 	ListResourceTemplatesResultSchema,
 	ListToolsResultSchema,
+	McpError,
+	PromptListChangedNotificationSchema,
 	ReadResourceResultSchema,
+	ResourceListChangedNotificationSchema,
+	ResourceUpdatedNotificationSchema,
+	ToolListChangedNotificationSchema,
 } from "@modelcontextprotocol/sdk/types.js"
 import chokidar, { FSWatcher } from "chokidar"
 import delay from "delay"
+import { EventEmitter } from "events"
 import deepEqual from "fast-deep-equal"
 import * as fs from "fs/promises"
 import * as path from "path"
@@ -18,6 +32,8 @@ import { ClineProvider, GlobalFileNames } from "../../core/webview/ClineProvider
 import {
 	DEFAULT_MCP_TIMEOUT_SECONDS,
 	McpMode,
+	McpPrompt,
+	McpPromptResponse,
 	McpResource,
 	McpResourceResponse,
 	McpResourceTemplate,
@@ -29,32 +45,72 @@ import {
 import { fileExistsAtPath } from "../../utils/fs"
 import { arePathsEqual } from "../../utils/path"
 import { secondsToMs } from "../../utils/time"
+import { matchResourceTemplate, ResourceTemplateCompletion } from "./resource-templates"
+import { DEFAULT_MCP_RESULT_LIMIT, McpResultLimit } from "./tool-results"
+import { SamplingParams } from "./sampling"
+import { SseClientTransport } from "./SseClientTransport"
+import { StreamableHttpClientTransport } from "./StreamableHttpClientTransport"
 export type McpConnection = {
 	server: McpServer
 	client: Client
-	transport: StdioClientTransport
+	transport: Transport
 }
 
 const AutoApproveSchema = z.array(z.string()).default([])
 
-const StdioConfigSchema = z.object({
-	command: z.string(),
-	args: z.array(z.string()).optional(),
-	env: z.record(z.string()).optional(),
+const ResultLimitSchema = z.object({
+	maxCharacters: z.number().int().positive(),
+	strategy: z.enum(["truncate", "summarize"]).optional().default("truncate"),
+})
+
+const BaseConfigSchema = z.object({
 	autoApprove: AutoApproveSchema.optional(),
 	disabled: z.boolean().optional(),
 	timeout: z.number().min(MIN_MCP_TIMEOUT_SECONDS).optional().default(DEFAULT_MCP_TIMEOUT_SECONDS),
+	// how much of a tool's text result goes into the conversation, for all of the server's tools (and resources) or by tool name
+	resultLimit: ResultLimitSchema.optional(),
+	toolResultLimits: z.record(ResultLimitSchema).optional(),
 })
 
+// a local server, started as a process that's talked to over stdio
+const StdioConfigSchema = BaseConfigSchema.extend({
+	transportType: z.literal("stdio").optional(),
+	command: z.string(),
+	args: z.array(z.string()).optional(),
+	env: z.record(z.string()).optional(),
+})
+
+// a remote server, talked to over HTTP. Headers with secrets (e.g. Authorization) are kept in secret storage instead, see
+// setServerSecretHeader.
+const RemoteConfigSchema = BaseConfigSchema.extend({
+	transportType: z.enum(["sse", "streamableHttp"]).optional().default("streamableHttp"),
+	url: z.string().url(),
+	headers: z.record(z.string()).optional(),
+})
+
+const ServerConfigSchema = z.union([StdioConfigSchema, RemoteConfigSchema])
+type ServerConfig = z.infer<typeof ServerConfigSchema>
+
 const McpSettingsSchema = z.object({
-	mcpServers: z.record(StdioConfigSchema),
+	mcpServers: z.record(ServerConfigSchema),
 })
 
+// remote servers whose connection drops are reconnected after 1s, 2s, 4s, ... up to 30s between attempts
+const MAX_RECONNECT_ATTEMPTS = 8
+const MAX_RECONNECT_DELAY_MS = 30_000
+
 export class McpHub {
 	private providerRef: WeakRef<ClineProvider>
 	private disposables: vscode.Disposable[] = []
 	private settingsWatcher?: vscode.FileSystemWatcher
 	private fileWatchers: Map<string, FSWatcher> = new Map()
+	private reconnectTimers: Map<string, NodeJS.Timeout> = new Map()
+	private reconnectAttempts: Map<string, number> = new Map()
+	// transports we're closing ourselves, which mustn't be reconnected
+	private closingTransports = new WeakSet<Transport>()
+	// how many tasks follow each resource, by server name and uri. Kept across reconnections, see subscribeToResource
+	private resourceSubscriptions: Map<string, Map<string, number>> = new Map()
+	readonly events = new EventEmitter<{ resourceUpdated: [serverName: string, uri: string] }>()
 	connections: McpConnection[] = []
 	isConnecting: boolean = false
 
@@ -145,7 +201,7 @@ export class McpHub {
 		}
 	}
 
-	private async connectToServer(name: string, config: StdioServerParameters): Promise<void> {
+	private async connectToServer(name: string, config: unknown): Promise<void> {
 		// Remove existing connection if it exists (should never happen, the connection should be deleted beforehand)
 		this.connections = this.connections.filter((conn) => conn.server.name !== name)
 
@@ -157,20 +213,45 @@ export class McpHub {
 					version: this.providerRef.deref()?.context.extension?.packageJSON?.version ?? "1.0.0",
 				},
 				{
-					capabilities: {},
+					capabilities: {
+						sampling: {},
+					},
 				},
 			)
-
-			const transport = new StdioClientTransport({
-				command: config.command,
-				args: config.args,
-				env: {
-					...config.env,
-					...(process.env.PATH ? { PATH: process.env.PATH } : {}),
-					// ...(process.env.NODE_PATH ? { NODE_PATH: process.env.NODE_PATH } : {}),
-				},
-				stderr: "pipe", // necessary for stderr to be available
+			client.setRequestHandler(CreateMessageRequestSchema, (request) => this.handleSamplingRequest(name, request.params))
+			client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+				this.events.emit("resourceUpdated", name, notification.params.uri)
 			})
+			client.setNotificationHandler(ToolListChangedNotificationSchema, () => this.handleListChanged(name, client, "tools"))
+			client.setNotificationHandler(ResourceListChangedNotificationSchema, () =>
+				this.handleListChanged(name, client, "resources"),
+			)
+			client.setNotificationHandler(PromptListChangedNotificationSchema, () =>
+				this.handleListChanged(name, client, "prompts"),
+			)
+
+			// If the config is invalid, show an error
+			const result = ServerConfigSchema.safeParse(config)
+			if (!result.success) {
+				console.error(`Invalid config for "${name}": missing or invalid parameters`)
+				const connection: McpConnection = {
+					server: {
+						name,
+						config: JSON.stringify(config),
+						status: "disconnected",
+						error: "Invalid config: missing or invalid parameters",
+					},
+					client,
+					transport: new StdioClientTransport({ command: "" }), // never started
+				}
+				this.connections.push(connection)
+				return
+			}
+
+			// valid schema
+			const parsedConfig = result.data
+			const transport = await this.createTransport(name, parsedConfig)
+			let didConnect = false
 
 			transport.onerror = async (error) => {
 				console.error(`Transport error for "${name}":`, error)
@@ -187,65 +268,61 @@ export class McpHub {
 				if (connection) {
 					connection.server.status = "disconnected"
 				}
-				await this.notifyWebviewOfServerChanges()
-			}
-
-			// If the config is invalid, show an error
-			if (!StdioConfigSchema.safeParse(config).success) {
-				console.error(`Invalid config for "${name}": missing or invalid parameters`)
-				const connection: McpConnection = {
-					server: {
-						name,
-						config: JSON.stringify(config),
-						status: "disconnected",
-						error: "Invalid config: missing or invalid parameters",
-					},
-					client,
-					transport,
+				// a remote server's stream dropped, as opposed to a local server's process exiting
+				if (
+					didConnect &&
+					"url" in parsedConfig &&
+					connection?.transport === transport &&
+					!this.closingTransports.has(transport)
+				) {
+					this.scheduleReconnect(name)
 				}
-				this.connections.push(connection)
-				return
+				await this.notifyWebviewOfServerChanges()
 			}
 
-			// valid schema
-			const parsedConfig = StdioConfigSchema.parse(config)
 			const connection: McpConnection = {
 				server: {
 					name,
 					config: JSON.stringify(config),
 					status: "connecting",
 					disabled: parsedConfig.disabled,
+					url: "url" in parsedConfig ? parsedConfig.url : undefined,
+					secretHeaders: "url" in parsedConfig ? Object.keys(await this.getServerSecretHeaders(name)) : undefined,
 				},
 				client,
 				transport,
 			}
 			this.connections.push(connection)
 
-			// transport.stderr is only available after the process has been started. However we can't start it separately from the .connect() call because it also starts the transport. And we can't place this after the connect call since we need to capture the stderr stream before the connection is established, in order to capture errors during the connection process.
-			// As a workaround, we start the transport ourselves, and then monkey-patch the start method to no-op so that .connect() doesn't try to start it again.
-			await transport.start()
-			const stderrStream = transport.stderr
-			if (stderrStream) {
-				stderrStream.on("data", async (data: Buffer) => {
-					const errorOutput = data.toString()
-					console.error(`Server "${name}" stderr:`, errorOutput)
-					const connection = this.connections.find((conn) => conn.server.name === name)
-					if (connection) {
-						// NOTE: we do not set server status to "disconnected" because stderr logs do not necessarily mean the server crashed or disconnected, it could just be informational. In fact when the server first starts up, it immediately logs "<name> server running on stdio" to stderr.
-						this.appendErrorMessage(connection, errorOutput)
-						// Only need to update webview right away if it's already disconnected
-						if (connection.server.status === "disconnected") {
-							await this.notifyWebviewOfServerChanges()
+			if (transport instanceof StdioClientTransport) {
+				// transport.stderr is only available after the process has been started. However we can't start it separately from the .connect() call because it also starts the transport. And we can't place this after the connect call since we need to capture the stderr stream before the connection is established, in order to capture errors during the connection process.
+				// As a workaround, we start the transport ourselves, and then monkey-patch the start method to no-op so that .connect() doesn't try to start it again.
+				await transport.start()
+				const stderrStream = transport.stderr
+				if (stderrStream) {
+					stderrStream.on("data", async (data: Buffer) => {
+						const errorOutput = data.toString()
+						console.error(`Server "${name}" stderr:`, errorOutput)
+						const connection = this.connections.find((conn) => conn.server.name === name)
+						if (connection) {
+							// NOTE: we do not set server status to "disconnected" because stderr logs do not necessarily mean the server crashed or disconnected, it could just be informational. In fact when the server first starts up, it immediately logs "<name> server running on stdio" to stderr.
+							this.appendErrorMessage(connection, errorOutput)
+							// Only need to update webview right away if it's already disconnected
+							if (connection.server.status === "disconnected") {
+								await this.notifyWebviewOfServerChanges()
+							}
 						}
-					}
-				})
-			} else {
-				console.error(`No stderr stream for ${name}`)
+					})
+				} else {
+					console.error(`No stderr stream for ${name}`)
+				}
+				transport.start = async () => {} // No-op now, .connect() won't fail
 			}
-			transport.start = async () => {} // No-op now, .connect() won't fail
 
 			// Connect
 			await client.connect(transport)
+			didConnect = true
+			this.reconnectAttempts.delete(name)
 			connection.server.status = "connected"
 			connection.server.error = ""
 
@@ -253,6 +330,14 @@ export class McpHub {
 			connection.server.tools = await this.fetchToolsList(name)
 			connection.server.resources = await this.fetchResourcesList(name)
 			connection.server.resourceTemplates = await this.fetchResourceTemplatesList(name)
+			connection.server.prompts = await this.fetchPromptsList(name)
+
+			// subscriptions don't survive the connection, e.g. when the server is restarted or reconnected
+			for (const uri of this.resourceSubscriptions.get(name)?.keys() ?? []) {
+				client.request({ method: "resources/subscribe", params: { uri } }, EmptyResultSchema).catch((error) => {
+					console.error(`Failed to resubscribe to ${uri} on ${name}:`, error)
+				})
+			}
 		} catch (error) {
 			// Update status with error
 			const connection = this.connections.find((conn) => conn.server.name === name)
@@ -264,6 +349,96 @@ export class McpHub {
 		}
 	}
 
+	private async createTransport(name: string, config: ServerConfig): Promise<Transport> {
+		if ("command" in config) {
+			return new StdioClientTransport({
+				command: config.command,
+				args: config.args,
+				env: {
+					...config.env,
+					...(process.env.PATH ? { PATH: process.env.PATH } : {}),
+					// ...(process.env.NODE_PATH ? { NODE_PATH: process.env.NODE_PATH } : {}),
+				},
+				stderr: "pipe", // necessary for stderr to be available
+			})
+		}
+		const headers = { ...config.headers, ...(await this.getServerSecretHeaders(name)) }
+		const url = new URL(config.url)
+		return config.transportType === "sse"
+			? new SseClientTransport(url, headers)
+			: new StreamableHttpClientTransport(url, headers)
+	}
+
+	private scheduleReconnect(name: string) {
+		const connection = this.connections.find((conn) => conn.server.name === name)
+		if (!connection) {
+			return
+		}
+		const attempt = (this.reconnectAttempts.get(name) ?? 0) + 1
+		if (attempt > MAX_RECONNECT_ATTEMPTS) {
+			this.reconnectAttempts.delete(name)
+			this.appendErrorMessage(connection, `Gave up reconnecting after ${MAX_RECONNECT_ATTEMPTS} attempts`)
+			return
+		}
+		this.reconnectAttempts.set(name, attempt)
+		const delayMs = Math.min(1000 * 2 ** (attempt - 1), MAX_RECONNECT_DELAY_MS)
+		connection.server.status = "connecting"
+		this.appendErrorMessage(
+			connection,
+			`Connection lost, reconnecting in ${delayMs / 1000}s (attempt ${attempt} of ${MAX_RECONNECT_ATTEMPTS})`,
+		)
+
+		this.reconnectTimers.set(
+			name,
+			setTimeout(async () => {
+				this.reconnectTimers.delete(name)
+				const config = this.connections.find((conn) => conn.server.name === name)?.server.config
+				if (!config) {
+					return
+				}
+				await this.deleteConnection(name, true)
+				try {
+					await this.connectToServer(name, JSON.parse(config))
+				} catch (error) {
+					console.error(`Failed to reconnect to MCP server ${name}:`, error)
+					this.scheduleReconnect(name)
+				}
+				await this.notifyWebviewOfServerChanges()
+			}, delayMs),
+		)
+	}
+
+	private async getServerSecretHeaders(name: string): Promise<Record<string, string>> {
+		const secrets = await this.providerRef.deref()?.getMcpServerSecrets()
+		return secrets?.[name] ?? {}
+	}
+
+	/**
+	 * Stores a header sent to a remote server, e.g. Authorization with a token, in secret storage and reconnects
+	 * @param value - The header's value, or undefined to remove the header
+	 */
+	async setServerSecretHeader(serverName: string, header: string, value?: string): Promise<void> {
+		const provider = this.providerRef.deref()
+		if (!provider) {
+			return
+		}
+		const secrets = await provider.getMcpServerSecrets()
+		const headers = { ...secrets[serverName] }
+		if (value) {
+			headers[header] = value
+		} else {
+			delete headers[header]
+		}
+		secrets[serverName] = headers
+		if (Object.keys(headers).length === 0) {
+			delete secrets[serverName]
+		}
+		await provider.storeMcpServerSecrets(secrets)
+		if (this.connections.some((conn) => conn.server.name === serverName)) {
+			await this.restartConnection(serverName)
+		}
+	}
+
 	private appendErrorMessage(connection: McpConnection, error: string) {
 		const newError = connection.server.error ? `${connection.server.error}\n${error}` : error
 		connection.server.error = newError //.slice(0, 800)
@@ -285,6 +460,7 @@ export class McpHub {
 			const tools = (response?.tools || []).map((tool) => ({
 				...tool,
 				autoApprove: autoApproveConfig.includes(tool.name),
+				readOnly: (tool.annotations as { readOnlyHint?: boolean } | undefined)?.readOnlyHint === true,
 			}))
 
 			// console.log(`[MCP] Fetched tools for ${serverName}:`, tools)
@@ -319,9 +495,62 @@ export class McpHub {
 		}
 	}
 
-	async deleteConnection(name: string): Promise<void> {
+	private async fetchPromptsList(serverName: string): Promise<McpPrompt[]> {
+		try {
+			const response = await this.connections
+				.find((conn) => conn.server.name === serverName)
+				?.client.request({ method: "prompts/list" }, ListPromptsResultSchema)
+			return response?.prompts || []
+		} catch (error) {
+			// servers without the prompts capability reject the request
+			return []
+		}
+	}
+
+	// Servers notify us when their lists change (e.g. a tool was added), which also refreshes the ones in the system prompt
+	private async handleListChanged(name: string, client: Client, list: "tools" | "resources" | "prompts") {
+		const connection = this.connections.find((conn) => conn.server.name === name && conn.client === client)
+		if (!connection) {
+			return
+		}
+		switch (list) {
+			case "tools":
+				connection.server.tools = await this.fetchToolsList(name)
+				break
+			case "resources":
+				connection.server.resources = await this.fetchResourcesList(name)
+				connection.server.resourceTemplates = await this.fetchResourceTemplatesList(name)
+				break
+			case "prompts":
+				connection.server.prompts = await this.fetchPromptsList(name)
+				break
+		}
+		await this.notifyWebviewOfServerChanges()
+	}
+
+	// Servers may ask for a completion from the model (sampling), which the current task answers once the user approves it
+	private async handleSamplingRequest(serverName: string, params: SamplingParams): Promise<CreateMessageResult> {
+		const provider = this.providerRef.deref()
+		if (!provider) {
+			throw new McpError(ErrorCode.InternalError, "Cline is not available")
+		}
+		try {
+			return await provider.handleMcpSamplingRequest(serverName, params)
+		} catch (error) {
+			throw new McpError(ErrorCode.InvalidRequest, error instanceof Error ? error.message : String(error))
+		}
+	}
+
+	// isReconnecting keeps the count of reconnection attempts, see scheduleReconnect
+	async deleteConnection(name: string, isReconnecting = false): Promise<void> {
+		clearTimeout(this.reconnectTimers.get(name))
+		this.reconnectTimers.delete(name)
+		if (!isReconnecting) {
+			this.reconnectAttempts.delete(name)
+		}
 		const connection = this.connections.find((conn) => conn.server.name === name)
 		if (connection) {
+			this.closingTransports.add(connection.transport)
 			try {
 				await connection.transport.close()
 				await connection.client.close()
@@ -511,6 +740,7 @@ export class McpHub {
 							connection.server.tools = await this.fetchToolsList(serverName)
 							connection.server.resources = await this.fetchResourcesList(serverName)
 							connection.server.resourceTemplates = await this.fetchResourceTemplatesList(serverName)
+							connection.server.prompts = await this.fetchPromptsList(serverName)
 						}
 					} catch (error) {
 						console.error(`Failed to refresh capabilities for ${serverName}:`, error)
@@ -551,6 +781,110 @@ export class McpHub {
 		)
 	}
 
+	/**
+	 * Asks the server for values of the parameters left in braces in a resource template's URI.
+	 * @returns undefined if the URI isn't a resource template with parameters to fill in
+	 */
+	async completeResourceTemplateArguments(serverName: string, uri: string): Promise<ResourceTemplateCompletion | undefined> {
+		const connection = this.connections.find((conn) => conn.server.name === serverName)
+		const match = matchResourceTemplate(
+			uri,
+			(connection?.server.resourceTemplates ?? []).map((template) => template.uriTemplate),
+		)
+		if (!connection || !match || match.unfilledArguments.length === 0) {
+			return undefined
+		}
+
+		const completion: ResourceTemplateCompletion = { uriTemplate: match.uriTemplate, arguments: [] }
+		for (const name of match.unfilledArguments) {
+			try {
+				const result = await connection.client.request(
+					{
+						method: "completion/complete",
+						params: {
+							ref: { type: "ref/resource", uri: match.uriTemplate },
+							argument: { name, value: "" },
+						},
+					},
+					CompleteResultSchema,
+				)
+				completion.arguments.push({
+					name,
+					values: result.completion.values,
+					hasMore: !!result.completion.hasMore,
+				})
+			} catch (error) {
+				// not all servers support completion
+				completion.arguments.push({ name, values: [], hasMore: false })
+			}
+		}
+		return completion
+	}
+
+	/**
+	 * Follows the resource's updates, which are emitted as resourceUpdated events. Subscriptions are counted, since a task
+	 * and its sub-tasks may follow the same resource.
+	 * @returns false if the server doesn't support subscriptions
+	 */
+	async subscribeToResource(serverName: string, uri: string): Promise<boolean> {
+		const connection = this.connections.find((conn) => conn.server.name === serverName)
+		if (!connection?.client.getServerCapabilities()?.resources?.subscribe) {
+			return false
+		}
+		const subscriptions = this.resourceSubscriptions.get(serverName) ?? new Map<string, number>()
+		const count = subscriptions.get(uri) ?? 0
+		if (count === 0) {
+			await connection.client.request({ method: "resources/subscribe", params: { uri } }, EmptyResultSchema)
+		}
+		subscriptions.set(uri, count + 1)
+		this.resourceSubscriptions.set(serverName, subscriptions)
+		return true
+	}
+
+	async unsubscribeFromResource(serverName: string, uri: string): Promise<void> {
+		const subscriptions = this.resourceSubscriptions.get(serverName)
+		const count = subscriptions?.get(uri)
+		if (!subscriptions || !count) {
+			return
+		}
+		if (count > 1) {
+			subscriptions.set(uri, count - 1)
+			return
+		}
+		subscriptions.delete(uri)
+		const connection = this.connections.find((conn) => conn.server.name === serverName)
+		if (connection?.server.status === "connected") {
+			await connection.client
+				.request({ method: "resources/unsubscribe", params: { uri } }, EmptyResultSchema)
+				.catch((error) => console.error(`Failed to unsubscribe from ${uri} on ${serverName}:`, error))
+		}
+	}
+
+	async getPrompt(
+		serverName: string,
+		promptName: string,
+		promptArguments?: Record<string, string>,
+	): Promise<McpPromptResponse> {
+		const connection = this.connections.find((conn) => conn.server.name === serverName)
+		if (!connection) {
+			throw new Error(`No connection found for server: ${serverName}`)
+		}
+		if (connection.server.disabled) {
+			throw new Error(`Server "${serverName}" is disabled`)
+		}
+
+		return await connection.client.request(
+			{
+				method: "prompts/get",
+				params: {
+					name: promptName,
+					arguments: promptArguments,
+				},
+			},
+			GetPromptResultSchema,
+		)
+	}
+
 	async callTool(serverName: string, toolName: string, toolArguments?: Record<string, unknown>): Promise<McpToolCallResponse> {
 		const connection = this.connections.find((conn) => conn.server.name === serverName)
 		if (!connection) {
@@ -567,7 +901,7 @@ export class McpHub {
 
 		try {
 			const config = JSON.parse(connection.server.config)
-			const parsedConfig = StdioConfigSchema.parse(config)
+			const parsedConfig = ServerConfigSchema.parse(config)
 			timeout = secondsToMs(parsedConfig.timeout)
 		} catch (error) {
 			console.error(`Failed to parse timeout configuration for server ${serverName}: ${error}`)
@@ -588,6 +922,29 @@ export class McpHub {
 		)
 	}
 
+	getToolResultLimit(serverName: string, toolName: string): McpResultLimit {
+		const connection = this.connections.find((conn) => conn.server.name === serverName)
+		try {
+			const config = ServerConfigSchema.parse(JSON.parse(connection?.server.config ?? "{}"))
+			return config.toolResultLimits?.[toolName] ?? config.resultLimit ?? DEFAULT_MCP_RESULT_LIMIT
+		} catch (error) {
+			console.error(`Failed to parse result limit configuration for server ${serverName}: ${error}`)
+			return DEFAULT_MCP_RESULT_LIMIT
+		}
+	}
+
+	// resources have no per-tool limit, so the server's applies
+	getResourceResultLimit(serverName: string): McpResultLimit {
+		const connection = this.connections.find((conn) => conn.server.name === serverName)
+		try {
+			const config = ServerConfigSchema.parse(JSON.parse(connection?.server.config ?? "{}"))
+			return config.resultLimit ?? DEFAULT_MCP_RESULT_LIMIT
+		} catch (error) {
+			console.error(`Failed to parse result limit configuration for server ${serverName}: ${error}`)
+			return DEFAULT_MCP_RESULT_LIMIT
+		}
+	}
+
 	async toggleToolAutoApprove(serverName: string, toolName: string, shouldAllow: boolean): Promise<void> {
 		try {
 			const settingsPath = await this.getMcpSettingsFilePath()
@@ -640,6 +997,13 @@ export class McpHub {
 				}
 				await fs.writeFile(settingsPath, JSON.stringify(updatedConfig, null, 2))
 				await this.updateServerConnections(config.mcpServers)
+				this.resourceSubscriptions.delete(serverName)
+				const provider = this.providerRef.deref()
+				if (provider) {
+					const secrets = await provider.getMcpServerSecrets()
+					delete secrets[serverName]
+					await provider.storeMcpServerSecrets(secrets)
+				}
 				vscode.window.showInformationMessage(`Deleted ${serverName} MCP server`)
 			} else {
 				vscode.window.showWarningMessage(`${serverName} not found in MCP configuration`)
@@ -652,10 +1016,34 @@ export class McpHub {
 		}
 	}
 
+	public async addServer(serverName: string, serverConfig: z.input<typeof ServerConfigSchema>): Promise<void> {
+		try {
+			const result = ServerConfigSchema.safeParse(serverConfig)
+			if (!result.success) {
+				throw new Error(`Invalid MCP server config: ${result.error.message}`)
+			}
+
+			const settingsPath = await this.getMcpSettingsFilePath()
+			const content = await fs.readFile(settingsPath, "utf-8")
+			const config = JSON.parse(content)
+			if (!config.mcpServers || typeof config.mcpServers !== "object") {
+				config.mcpServers = {}
+			}
+			config.mcpServers[serverName] = serverConfig
+
+			await fs.writeFile(settingsPath, JSON.stringify(config, null, 2))
+			await this.updateServerConnections(config.mcpServers)
+		} catch (error) {
+			console.error("Failed to add MCP server:", error)
+			vscode.window.showErrorMessage(`Failed to add MCP server: ${error instanceof Error ? error.message : String(error)}`)
+			throw error
+		}
+	}
+
 	public async updateServerTimeout(serverName: string, timeout: number): Promise<void> {
 		try {
 			// Validate timeout against schema
-			const setConfigResult = StdioConfigSchema.shape.timeout.safeParse(timeout)
+			const setConfigResult = BaseConfigSchema.shape.timeout.safeParse(timeout)
 			if (!setConfigResult.success) {
 				throw new Error(`Invalid timeout value: ${timeout}. Must be at minimum ${MIN_MCP_TIMEOUT_SECONDS} seconds.`)
 			}
@@ -690,6 +1078,8 @@ export class McpHub {
 
 	async dispose(): Promise<void> {
 		this.removeAllFileWatchers()
+		this.reconnectTimers.forEach((timer) => clearTimeout(timer))
+		this.reconnectTimers.clear()
 		for (const connection of this.connections) {
 			try {
 				await this.deleteConnection(connection.server.name)
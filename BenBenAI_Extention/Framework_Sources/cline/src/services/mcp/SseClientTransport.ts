@@ -0,0 +1,116 @@
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js"
+import { JSONRPCMessage, JSONRPCMessageSchema } from "@modelcontextprotocol/sdk/types.js"
+import { readSseStream } from "./sse"
+
+/**
+ * Client transport for the HTTP+SSE transport of MCP's 2024-11-05 protocol: the server sends messages over a long-lived
+ * event stream, whose first "endpoint" event gives the URL to POST the client's messages to. Unlike the SDK's
+ * SSEClientTransport this doesn't need EventSource, and sends the configured headers with every request.
+ */
+export class SseClientTransport implements Transport {
+	private endpoint?: URL
+	private abortController?: AbortController
+	private isClosed = false
+
+	onclose?: () => void
+	onerror?: (error: Error) => void
+	onmessage?: (message: JSONRPCMessage) => void
+
+	constructor(
+		private readonly url: URL,
+		private readonly headers: Record<string, string> = {},
+	) {}
+
+	async start(): Promise<void> {
+		if (this.abortController) {
+			throw new Error("SseClientTransport already started")
+		}
+		this.abortController = new AbortController()
+		const response = await fetch(this.url, {
+			headers: { ...this.headers, Accept: "text/event-stream" },
+			signal: this.abortController.signal,
+		})
+		if (!response.ok || !response.body) {
+			const text = await response.text().catch(() => null)
+			throw new Error(`Error connecting to SSE stream (HTTP ${response.status}): ${text}`)
+		}
+
+		// resolves once the endpoint is received, while the stream keeps being read in the background
+		await new Promise<void>((resolve, reject) => {
+			const readStream = async () => {
+				for await (const event of readSseStream(response.body!)) {
+					if (event.event === "endpoint") {
+						const endpoint = new URL(event.data, this.url)
+						if (endpoint.origin !== this.url.origin) {
+							throw new Error(`Endpoint origin does not match connection origin: ${endpoint.origin}`)
+						}
+						this.endpoint = endpoint
+						resolve()
+					} else if (event.event === "message") {
+						this.handleMessage(event.data)
+					}
+				}
+			}
+			readStream()
+				.then(() => {
+					if (!this.endpoint) {
+						throw new Error("SSE stream ended before the server sent its endpoint")
+					}
+					// the connection dropped, unless we closed it
+					if (!this.isClosed) {
+						this.onerror?.(new Error("SSE stream disconnected"))
+						this.close()
+					}
+				})
+				.catch((error) => {
+					if (this.isClosed) {
+						return
+					}
+					reject(error)
+					this.onerror?.(error)
+					this.close()
+				})
+		})
+	}
+
+	async send(message: JSONRPCMessage): Promise<void> {
+		if (!this.endpoint) {
+			throw new Error("Not connected")
+		}
+		try {
+			const response = await fetch(this.endpoint, {
+				method: "POST",
+				headers: { ...this.headers, "Content-Type": "application/json" },
+				body: JSON.stringify(message),
+				signal: this.abortController?.signal,
+			})
+			if (!response.ok) {
+				const text = await response.text().catch(() => null)
+				throw new Error(`Error POSTing to endpoint (HTTP ${response.status}): ${text}`)
+			}
+		} catch (error) {
+			this.onerror?.(error)
+			throw error
+		}
+	}
+
+	async close(): Promise<void> {
+		if (this.isClosed) {
+			return
+		}
+		this.isClosed = true
+		this.abortController?.abort()
+		this.onclose?.()
+	}
+
+	private handleMessage(data: string) {
+		let message: JSONRPCMessage
+		try {
+			message = JSONRPCMessageSchema.parse(JSON.parse(data))
+		} catch (error) {
+			this.onerror?.(error)
+			return
+		}
+		this.onmessage?.(message)
+	}
+}
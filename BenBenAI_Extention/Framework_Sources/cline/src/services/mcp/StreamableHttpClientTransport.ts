@@ -0,0 +1,148 @@
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js"
+import { JSONRPCMessage, JSONRPCMessageSchema } from "@modelcontextprotocol/sdk/types.js"
+import { readSseStream } from "./sse"
+
+const SESSION_ID_HEADER = "mcp-session-id"
+
+/**
+ * Client transport for MCP's streamable HTTP transport (protocol version 2025-03-26): every client message is POSTed to
+ * the server's single endpoint, which answers with either a JSON body or an event stream of the responses. Once the
+ * session is initialized, a GET event stream is opened for the messages the server sends on its own (e.g. notifications),
+ * if the server offers one.
+ */
+export class StreamableHttpClientTransport implements Transport {
+	private abortController = new AbortController()
+	private sessionId?: string
+	private isClosed = false
+
+	onclose?: () => void
+	onerror?: (error: Error) => void
+	onmessage?: (message: JSONRPCMessage) => void
+
+	constructor(
+		private readonly url: URL,
+		private readonly headers: Record<string, string> = {},
+	) {}
+
+	async start(): Promise<void> {
+		// there's no connection to set up, the first message sent is the initialize request
+	}
+
+	async send(message: JSONRPCMessage): Promise<void> {
+		let response: Response
+		try {
+			response = await fetch(this.url, {
+				method: "POST",
+				headers: {
+					...this.getRequestHeaders(),
+					"Content-Type": "application/json",
+					Accept: "application/json, text/event-stream",
+				},
+				body: JSON.stringify(message),
+				signal: this.abortController.signal,
+			})
+		} catch (error) {
+			// the server can't be reached, so the connection dropped
+			this.onerror?.(error)
+			this.close()
+			throw error
+		}
+
+		if (response.status === 404 && this.sessionId) {
+			const error = new Error("The server ended the session")
+			this.onerror?.(error)
+			this.close()
+			throw error
+		}
+		if (!response.ok) {
+			const text = await response.text().catch(() => null)
+			const error = new Error(`Error POSTing to endpoint (HTTP ${response.status}): ${text}`)
+			this.onerror?.(error)
+			throw error
+		}
+
+		this.sessionId = response.headers.get(SESSION_ID_HEADER) ?? this.sessionId
+		if ("method" in message && message.method === "notifications/initialized") {
+			this.openEventStream() // don't await
+		}
+
+		// notifications and responses are only acknowledged (202 Accepted)
+		const contentType = response.headers.get("content-type") ?? ""
+		if (contentType.includes("text/event-stream") && response.body) {
+			// the responses may take a while, so they're read in the background
+			this.readEvents(response.body).catch((error) => {
+				if (!this.isClosed) {
+					this.onerror?.(error)
+				}
+			})
+		} else if (contentType.includes("application/json")) {
+			const body = await response.json()
+			for (const item of Array.isArray(body) ? body : [body]) {
+				this.handleMessage(item)
+			}
+		}
+	}
+
+	async close(): Promise<void> {
+		if (this.isClosed) {
+			return
+		}
+		this.isClosed = true
+		this.abortController.abort()
+		if (this.sessionId) {
+			// lets the server clean up the session, but it's fine if it doesn't support (or miss) this
+			fetch(this.url, { method: "DELETE", headers: this.getRequestHeaders() }).catch(() => {})
+		}
+		this.onclose?.()
+	}
+
+	private getRequestHeaders(): Record<string, string> {
+		return this.sessionId ? { ...this.headers, [SESSION_ID_HEADER]: this.sessionId } : { ...this.headers }
+	}
+
+	private async openEventStream(): Promise<void> {
+		try {
+			const response = await fetch(this.url, {
+				headers: { ...this.getRequestHeaders(), Accept: "text/event-stream" },
+				signal: this.abortController.signal,
+			})
+			if (response.status === 405) {
+				return // the server doesn't send messages on its own
+			}
+			if (!response.ok || !response.body) {
+				throw new Error(`Error opening event stream (HTTP ${response.status})`)
+			}
+			await this.readEvents(response.body)
+			throw new Error("Event stream disconnected")
+		} catch (error) {
+			// the connection dropped, unless we closed it
+			if (!this.isClosed) {
+				this.onerror?.(error)
+				this.close()
+			}
+		}
+	}
+
+	private async readEvents(body: ReadableStream<Uint8Array>): Promise<void> {
+		for await (const event of readSseStream(body)) {
+			if (event.event === "message") {
+				try {
+					this.handleMessage(JSON.parse(event.data))
+				} catch (error) {
+					this.onerror?.(error)
+				}
+			}
+		}
+	}
+
+	private handleMessage(data: unknown) {
+		let message: JSONRPCMessage
+		try {
+			message = JSONRPCMessageSchema.parse(data)
+		} catch (error) {
+			this.onerror?.(error)
+			return
+		}
+		this.onmessage?.(message)
+	}
+}
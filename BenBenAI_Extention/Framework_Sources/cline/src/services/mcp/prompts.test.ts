@@ -0,0 +1,22 @@
+import { describe, it } from "mocha"
+import "should"
+import { formatPromptForChat } from "./prompts"
+
+describe("MCP prompts", () => {
+	describe("formatPromptForChat", () => {
+		it("should join the text and attach the images", () => {
+			formatPromptForChat({
+				messages: [
+					{ role: "user", content: { type: "text", text: "Review this file" } },
+					{ role: "user", content: { type: "resource", resource: { uri: "file:///a.ts", text: "const a = 1" } } },
+					{ role: "user", content: { type: "resource", resource: { uri: "file:///a.png", blob: "aGk=" } } },
+					{ role: "user", content: { type: "image", data: "aGk=", mimeType: "image/png" } },
+					{ role: "assistant", content: { type: "text", text: "Focus on naming" } },
+				],
+			}).should.deepEqual({
+				text: "Review this file\n\nfile:///a.ts:\nconst a = 1\n\nFocus on naming",
+				images: ["data:image/png;base64,aGk="],
+			})
+		})
+	})
+})
@@ -0,0 +1,27 @@
+import { McpPromptResponse } from "../../shared/mcp"
+
+/**
+ * Turns a prompt's messages into a message for the chat input: text and embedded text resources are joined in order, and
+ * images are attached like pasted ones. The chat input holds a single user message, so assistant turns in the prompt are
+ * kept as plain text too.
+ */
+export function formatPromptForChat(prompt: McpPromptResponse): { text: string; images: string[] } {
+	const parts: string[] = []
+	const images: string[] = []
+	for (const message of prompt.messages) {
+		switch (message.content.type) {
+			case "text":
+				parts.push(message.content.text)
+				break
+			case "image":
+				images.push(`data:${message.content.mimeType};base64,${message.content.data}`)
+				break
+			case "resource":
+				if (message.content.resource.text !== undefined) {
+					parts.push(`${message.content.resource.uri}:\n${message.content.resource.text}`)
+				}
+				break
+		}
+	}
+	return { text: parts.join("\n\n"), images }
+}
@@ -0,0 +1,39 @@
+import { describe, it } from "mocha"
+import "should"
+import { formatResourceTemplateCompletion, matchResourceTemplate } from "./resource-templates"
+
+const templates = ["repo://{owner}/{repo}/issues", "file:///{+path}", "weather://{city}/current"]
+
+describe("MCP resource templates", () => {
+	describe("matchResourceTemplate", () => {
+		it("should find the parameters left in braces", () => {
+			matchResourceTemplate("repo://octocat/{repo}/issues", templates)!.should.deepEqual({
+				uriTemplate: "repo://{owner}/{repo}/issues",
+				arguments: { owner: "octocat" },
+				unfilledArguments: ["repo"],
+			})
+		})
+
+		it("should allow slashes in reserved expansions", () => {
+			matchResourceTemplate("file:///src/index.ts", templates)!.should.deepEqual({
+				uriTemplate: "file:///{+path}",
+				arguments: { path: "src/index.ts" },
+				unfilledArguments: [],
+			})
+		})
+
+		it("should not match URIs of other templates or schemes", () => {
+			;(matchResourceTemplate("weather://a/b/current", templates) === undefined).should.be.true()
+			;(matchResourceTemplate("repo://octocat/issues", templates) === undefined).should.be.true()
+		})
+	})
+
+	describe("formatResourceTemplateCompletion", () => {
+		it("should list the suggested values", () => {
+			formatResourceTemplateCompletion("weather://{city}/current", {
+				uriTemplate: "weather://{city}/current",
+				arguments: [{ name: "city", values: ["Paris", "Tokyo"], hasMore: true }],
+			}).should.containEql("- city: Paris, Tokyo, ...")
+		})
+	})
+})
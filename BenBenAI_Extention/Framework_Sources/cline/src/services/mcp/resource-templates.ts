@@ -0,0 +1,69 @@
+/*
+Resource templates are URI templates (RFC 6570), e.g. "repo://{owner}/{repo}/issues". Instead of guessing a parameter's
+value, the agent can access the resource with the parameter left in braces, and gets the values the server suggests for it
+(completion/complete).
+*/
+
+export interface ResourceTemplateMatch {
+	uriTemplate: string
+	arguments: Record<string, string> // the parameters that were filled in
+	unfilledArguments: string[] // the parameters still in braces
+}
+
+export interface ResourceTemplateCompletion {
+	uriTemplate: string
+	arguments: {
+		name: string
+		values: string[]
+		hasMore: boolean
+	}[]
+}
+
+const EXPRESSION_REGEX = /\{([+#./;?&]?)([^}]*)\}/g
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/**
+ * Finds the template a URI was made from, where each parameter is either filled in or still in braces
+ */
+export function matchResourceTemplate(uri: string, uriTemplates: string[]): ResourceTemplateMatch | undefined {
+	for (const uriTemplate of uriTemplates) {
+		const names: string[] = []
+		let pattern = ""
+		let lastIndex = 0
+		for (const expression of uriTemplate.matchAll(EXPRESSION_REGEX)) {
+			const [text, operator, name] = expression
+			pattern += escapeRegExp(uriTemplate.slice(lastIndex, expression.index))
+			// reserved expansion ({+path}) may contain slashes, other values are a single segment
+			pattern += operator === "+" || operator === "#" ? "(\\{[^}]*\\}|.+?)" : "(\\{[^}]*\\}|[^/]+?)"
+			names.push(name)
+			lastIndex = expression.index! + text.length
+		}
+		pattern += escapeRegExp(uriTemplate.slice(lastIndex))
+
+		const match = uri.match(new RegExp(`^${pattern}$`))
+		if (!match) {
+			continue
+		}
+		const result: ResourceTemplateMatch = { uriTemplate, arguments: {}, unfilledArguments: [] }
+		names.forEach((name, index) => {
+			const value = match[index + 1]
+			if (value.startsWith("{") && value.endsWith("}")) {
+				result.unfilledArguments.push(name)
+			} else {
+				result.arguments[name] = value
+			}
+		})
+		return result
+	}
+	return undefined
+}
+
+export function formatResourceTemplateCompletion(uri: string, completion: ResourceTemplateCompletion): string {
+	const suggestions = completion.arguments.map(({ name, values, hasMore }) =>
+		values.length > 0 ? `- ${name}: ${values.join(", ")}${hasMore ? ", ..." : ""}` : `- ${name}: (no suggestions)`,
+	)
+	return `${uri} matches the resource template ${completion.uriTemplate}, and has parameters that still need values. The server suggests these values:\n${suggestions.join("\n")}\n\nAccess the resource again with the parameters filled in.`
+}
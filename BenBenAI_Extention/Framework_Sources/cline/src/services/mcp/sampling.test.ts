@@ -0,0 +1,67 @@
+import { describe, it } from "mocha"
+import "should"
+import { ApiHandler } from "../../api"
+import { ApiStream } from "../../api/transform/stream"
+import { createSamplingMessage, formatSamplingRequest, SamplingParams, toSamplingMessageParams } from "./sampling"
+
+const params: SamplingParams = {
+	systemPrompt: "Be brief.",
+	maxTokens: 100,
+	messages: [
+		{ role: "user", content: { type: "text", text: "Summarize this" } },
+		{ role: "user", content: { type: "image", data: "aGk=", mimeType: "image/png" } },
+		{ role: "assistant", content: { type: "text", text: "Sure" } },
+		{ role: "user", content: { type: "image", data: "aGk=", mimeType: "image/tiff" } },
+	],
+}
+
+describe("MCP sampling", () => {
+	describe("toSamplingMessageParams", () => {
+		it("should merge consecutive messages of the same role", () => {
+			toSamplingMessageParams(params.messages).should.deepEqual([
+				{
+					role: "user",
+					content: [
+						{ type: "text", text: "Summarize this" },
+						{ type: "image", source: { type: "base64", media_type: "image/png", data: "aGk=" } },
+					],
+				},
+				{ role: "assistant", content: [{ type: "text", text: "Sure" }] },
+				{ role: "user", content: [{ type: "text", text: "[Unsupported image of type image/tiff]" }] },
+			])
+		})
+	})
+
+	describe("formatSamplingRequest", () => {
+		it("should list the system prompt and messages", () => {
+			formatSamplingRequest(params).should.equal(
+				"System: Be brief.\n\nUser: Summarize this\n\nUser: [Image]\n\nAssistant: Sure\n\nUser: [Image]",
+			)
+		})
+	})
+
+	describe("createSamplingMessage", () => {
+		it("should collect the response and its usage", async () => {
+			let systemPrompt = ""
+			const api: ApiHandler = {
+				async *createMessage(prompt): ApiStream {
+					systemPrompt = prompt
+					yield { type: "text", text: "A " }
+					yield { type: "text", text: "summary" }
+					yield { type: "usage", inputTokens: 10, outputTokens: 2, cacheReadTokens: 4 }
+				},
+				getModel: () => ({ id: "mock", info: { supportsPromptCache: false } }),
+			}
+			const result = await createSamplingMessage(api, { ...params, systemPrompt: undefined })
+			result.should.deepEqual({
+				text: "A summary",
+				tokensIn: 10,
+				tokensOut: 2,
+				cacheWrites: 0,
+				cacheReads: 4,
+				totalCost: undefined,
+			})
+			systemPrompt.should.equal("You are a helpful assistant.")
+		})
+	})
+})
@@ -0,0 +1,102 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import { CreateMessageRequest, SamplingMessage } from "@modelcontextprotocol/sdk/types.js"
+import { ApiHandler } from "../../api"
+
+/*
+Sampling lets an MCP server ask the client's model for a completion (sampling/createMessage), e.g. to summarize a page it
+fetched without needing an API key of its own. Requests are answered with the active task's model once the user approves
+them, see Cline.handleMcpSamplingRequest.
+*/
+
+export type SamplingParams = CreateMessageRequest["params"]
+
+export interface SamplingResult {
+	text: string
+	tokensIn: number
+	tokensOut: number
+	cacheWrites: number
+	cacheReads: number
+	totalCost?: number
+}
+
+const DEFAULT_SAMPLING_SYSTEM_PROMPT = "You are a helpful assistant."
+
+const SUPPORTED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp"] as const
+
+/**
+ * Converts a sampling request's messages to the format the API handlers take. Consecutive messages of the same role are
+ * merged, since most providers expect the roles to alternate.
+ */
+export function toSamplingMessageParams(messages: SamplingMessage[]): Anthropic.Messages.MessageParam[] {
+	const params: Anthropic.Messages.MessageParam[] = []
+	for (const message of messages) {
+		let block: Anthropic.Messages.TextBlockParam | Anthropic.Messages.ImageBlockParam
+		if (message.content.type === "text") {
+			block = { type: "text", text: message.content.text }
+		} else if (SUPPORTED_IMAGE_TYPES.some((type) => type === message.content.mimeType)) {
+			block = {
+				type: "image",
+				source: {
+					type: "base64",
+					media_type: message.content.mimeType as (typeof SUPPORTED_IMAGE_TYPES)[number],
+					data: message.content.data as string,
+				},
+			}
+		} else {
+			block = { type: "text", text: `[Unsupported image of type ${message.content.mimeType}]` }
+		}
+
+		const previous = params.at(-1)
+		if (previous?.role === message.role && Array.isArray(previous.content)) {
+			previous.content.push(block)
+		} else {
+			params.push({ role: message.role, content: [block] })
+		}
+	}
+	return params
+}
+
+/**
+ * A readable version of the request, shown to the user when they're asked to approve it
+ */
+export function formatSamplingRequest(params: SamplingParams): string {
+	const parts: string[] = []
+	if (params.systemPrompt) {
+		parts.push(`System: ${params.systemPrompt}`)
+	}
+	for (const message of params.messages) {
+		const role = message.role === "user" ? "User" : "Assistant"
+		parts.push(`${role}: ${message.content.type === "text" ? message.content.text : "[Image]"}`)
+	}
+	return parts.join("\n\n")
+}
+
+/**
+ * Runs the request with the given API handler. The handlers don't take a per-request token limit, so the request's
+ * maxTokens, temperature and model preferences aren't applied.
+ */
+export async function createSamplingMessage(api: ApiHandler, params: SamplingParams): Promise<SamplingResult> {
+	const result: SamplingResult = { text: "", tokensIn: 0, tokensOut: 0, cacheWrites: 0, cacheReads: 0 }
+	const stream = api.createMessage(
+		params.systemPrompt || DEFAULT_SAMPLING_SYSTEM_PROMPT,
+		toSamplingMessageParams(params.messages),
+	)
+	for await (const chunk of stream) {
+		switch (chunk.type) {
+			case "text":
+				result.text += chunk.text
+				break
+			case "usage":
+				result.tokensIn += chunk.inputTokens
+				result.tokensOut += chunk.outputTokens
+				result.cacheWrites += chunk.cacheWriteTokens ?? 0
+				result.cacheReads += chunk.cacheReadTokens ?? 0
+				result.totalCost = chunk.totalCost
+				break
+		}
+	}
+	if (!result.text) {
+		throw new Error("The model did not return a response.")
+	}
+	return result
+}
@@ -0,0 +1,53 @@
+import { describe, it } from "mocha"
+import "should"
+import { readSseStream, SseEvent, SseParser } from "./sse"
+
+describe("Server-Sent Events", () => {
+	describe("SseParser", () => {
+		it("should dispatch events on blank lines", () => {
+			const parser = new SseParser()
+			parser.feed('event: endpoint\ndata: /messages?id=1\n\ndata: {"a":1}\n\n').should.deepEqual([
+				{ event: "endpoint", data: "/messages?id=1", id: undefined },
+				{ event: "message", data: '{"a":1}', id: undefined },
+			])
+		})
+
+		it("should join data lines and keep the last event id", () => {
+			const parser = new SseParser()
+			parser
+				.feed("id: 7\ndata: first\ndata:second\n\n")
+				.should.deepEqual([{ event: "message", data: "first\nsecond", id: "7" }])
+			parser.feed("data: third\n\n").should.deepEqual([{ event: "message", data: "third", id: "7" }])
+		})
+
+		it("should handle events split across chunks and CRLF line endings", () => {
+			const parser = new SseParser()
+			parser.feed("data: hel").should.deepEqual([])
+			parser.feed("lo\r").should.deepEqual([])
+			parser.feed("\n\r\n").should.deepEqual([{ event: "message", data: "hello", id: undefined }])
+		})
+
+		it("should ignore comments and events without data", () => {
+			const parser = new SseParser()
+			parser.feed(": keep-alive\n\nevent: ping\n\n").should.deepEqual([])
+		})
+	})
+
+	describe("readSseStream", () => {
+		it("should read the events of a stream", async () => {
+			const encoder = new TextEncoder()
+			const body = new ReadableStream<Uint8Array>({
+				start(controller) {
+					controller.enqueue(encoder.encode("data: one\n\nda"))
+					controller.enqueue(encoder.encode("ta: two\n\ndata: incomplete"))
+					controller.close()
+				},
+			})
+			const events: SseEvent[] = []
+			for await (const event of readSseStream(body)) {
+				events.push(event)
+			}
+			events.map((event) => event.data).should.deepEqual(["one", "two"])
+		})
+	})
+})
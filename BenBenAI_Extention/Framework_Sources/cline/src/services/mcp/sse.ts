@@ -0,0 +1,100 @@
+/*
+Parsing of Server-Sent Events (https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation),
+which both the SSE and the streamable HTTP MCP transports receive messages over. We read the streams with fetch rather than
+EventSource, since Node doesn't have EventSource and it can't send headers (e.g. for authorization) anyway.
+*/
+
+export interface SseEvent {
+	event: string // "message" unless the event names another type, e.g. "endpoint"
+	data: string
+	id?: string
+}
+
+export class SseParser {
+	private buffer = ""
+	private eventType = ""
+	private dataLines: string[] = []
+	private lastEventId?: string
+
+	/**
+	 * @param chunk - The next part of the stream, which may end in the middle of a line
+	 * @returns the events completed by the chunk
+	 */
+	feed(chunk: string): SseEvent[] {
+		this.buffer += chunk
+		const events: SseEvent[] = []
+		// a trailing \r might be the first half of a \r\n, so it's kept until the next chunk
+		const lines = this.buffer.split(/\r\n|\r(?=.)|\n/s)
+		this.buffer = lines.pop() ?? ""
+		for (const line of lines) {
+			const event = this.processLine(line)
+			if (event) {
+				events.push(event)
+			}
+		}
+		return events
+	}
+
+	private processLine(line: string): SseEvent | undefined {
+		if (line === "") {
+			// a blank line dispatches the event, if it has data
+			const event =
+				this.dataLines.length > 0
+					? { event: this.eventType || "message", data: this.dataLines.join("\n"), id: this.lastEventId }
+					: undefined
+			this.eventType = ""
+			this.dataLines = []
+			return event
+		}
+		if (line.startsWith(":")) {
+			return undefined // comment, e.g. a keep-alive
+		}
+		const colonIndex = line.indexOf(":")
+		const field = colonIndex === -1 ? line : line.slice(0, colonIndex)
+		let value = colonIndex === -1 ? "" : line.slice(colonIndex + 1)
+		if (value.startsWith(" ")) {
+			value = value.slice(1)
+		}
+		switch (field) {
+			case "event":
+				this.eventType = value
+				break
+			case "data":
+				this.dataLines.push(value)
+				break
+			case "id":
+				if (!value.includes("\0")) {
+					this.lastEventId = value
+				}
+				break
+			// "retry" is ignored, reconnecting is up to the McpHub
+		}
+		return undefined
+	}
+}
+
+/**
+ * Reads the events of a response's body until the stream ends or is aborted
+ */
+export async function* readSseStream(body: ReadableStream<Uint8Array>): AsyncGenerator<SseEvent> {
+	const parser = new SseParser()
+	const decoder = new TextDecoder()
+	const reader = body.getReader()
+	try {
+		while (true) {
+			const { done, value } = await reader.read()
+			if (done) {
+				break
+			}
+			for (const event of parser.feed(decoder.decode(value, { stream: true }))) {
+				yield event
+			}
+		}
+		// the stream may end without a final blank line, in which case the last event is incomplete and dropped
+		for (const event of parser.feed(decoder.decode() + "\n")) {
+			yield event
+		}
+	} finally {
+		reader.releaseLock()
+	}
+}
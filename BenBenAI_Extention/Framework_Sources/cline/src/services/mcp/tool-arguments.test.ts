@@ -0,0 +1,38 @@
+import { describe, it } from "mocha"
+import "should"
+import { validateToolArguments } from "./tool-arguments"
+
+const inputSchema = {
+	type: "object",
+	properties: {
+		query: { type: "string", minLength: 1 },
+		limit: { type: "integer", minimum: 1, maximum: 100 },
+		order: { enum: ["asc", "desc"] },
+		tags: { type: "array", items: { type: "string" } },
+	},
+	required: ["query"],
+	additionalProperties: false,
+}
+
+describe("MCP tool arguments", () => {
+	describe("validateToolArguments", () => {
+		it("should accept arguments that match the schema", () => {
+			validateToolArguments(inputSchema, { query: "cline", limit: 10, order: "asc", tags: ["a"] }).should.be.empty()
+		})
+
+		it("should describe each mismatch with its path", () => {
+			validateToolArguments(inputSchema, { limit: 1.5, order: "random", tags: ["a", 2], extra: true }).should.deepEqual([
+				'arguments: missing required property "query"',
+				"arguments.limit: expected integer, got number",
+				'arguments.order: must be one of "asc", "desc"',
+				"arguments.tags[1]: expected string, got number",
+				'arguments: unexpected property "extra"',
+			])
+		})
+
+		it("should treat missing arguments as an empty object", () => {
+			validateToolArguments(inputSchema, undefined).should.deepEqual(['arguments: missing required property "query"'])
+			validateToolArguments(undefined, { anything: 1 }).should.be.empty()
+		})
+	})
+})
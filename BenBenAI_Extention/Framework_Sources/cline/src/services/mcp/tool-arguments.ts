@@ -0,0 +1,129 @@
+/*
+Tool arguments are checked against the tool's inputSchema (JSON Schema) before calling the server, so the model gets a
+precise error it can fix instead of whatever the server makes of them. Only the commonly used keywords are checked; any
+others (e.g. $ref, pattern, format) are left to the server.
+*/
+
+type JsonSchema = {
+	type?: string | string[]
+	properties?: Record<string, JsonSchema>
+	required?: string[]
+	additionalProperties?: boolean | JsonSchema
+	items?: JsonSchema
+	enum?: unknown[]
+	const?: unknown
+	anyOf?: JsonSchema[]
+	oneOf?: JsonSchema[]
+	minimum?: number
+	maximum?: number
+	minLength?: number
+	maxLength?: number
+	minItems?: number
+	maxItems?: number
+}
+
+function getType(value: unknown): string {
+	if (value === null) {
+		return "null"
+	}
+	if (Array.isArray(value)) {
+		return "array"
+	}
+	return typeof value
+}
+
+function matchesType(value: unknown, type: string): boolean {
+	switch (type) {
+		case "integer":
+			return Number.isInteger(value)
+		case "number":
+			return typeof value === "number" && Number.isFinite(value)
+		default:
+			return getType(value) === type
+	}
+}
+
+function validate(schema: JsonSchema, value: unknown, path: string, errors: string[]) {
+	if (typeof schema !== "object" || schema === null) {
+		return
+	}
+
+	const types = typeof schema.type === "string" ? [schema.type] : schema.type
+	if (types && !types.some((type) => matchesType(value, type))) {
+		errors.push(`${path}: expected ${types.join(" or ")}, got ${getType(value)}`)
+		return // the other keywords would only repeat the type error
+	}
+	if (schema.enum && !schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))) {
+		errors.push(`${path}: must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`)
+	}
+	if (schema.const !== undefined && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+		errors.push(`${path}: must be ${JSON.stringify(schema.const)}`)
+	}
+	const alternatives = schema.anyOf ?? schema.oneOf
+	if (alternatives) {
+		const matchesAlternative = alternatives.some((alternative) => {
+			const alternativeErrors: string[] = []
+			validate(alternative, value, path, alternativeErrors)
+			return alternativeErrors.length === 0
+		})
+		if (!matchesAlternative) {
+			errors.push(`${path}: does not match any of the allowed schemas`)
+		}
+	}
+
+	if (typeof value === "number") {
+		if (schema.minimum !== undefined && value < schema.minimum) {
+			errors.push(`${path}: must be at least ${schema.minimum}`)
+		}
+		if (schema.maximum !== undefined && value > schema.maximum) {
+			errors.push(`${path}: must be at most ${schema.maximum}`)
+		}
+	} else if (typeof value === "string") {
+		if (schema.minLength !== undefined && value.length < schema.minLength) {
+			errors.push(`${path}: must be at least ${schema.minLength} characters long`)
+		}
+		if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+			errors.push(`${path}: must be at most ${schema.maxLength} characters long`)
+		}
+	} else if (Array.isArray(value)) {
+		if (schema.minItems !== undefined && value.length < schema.minItems) {
+			errors.push(`${path}: must have at least ${schema.minItems} items`)
+		}
+		if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+			errors.push(`${path}: must have at most ${schema.maxItems} items`)
+		}
+		if (schema.items) {
+			value.forEach((item, index) => validate(schema.items!, item, `${path}[${index}]`, errors))
+		}
+	} else if (getType(value) === "object") {
+		const object = value as Record<string, unknown>
+		for (const name of schema.required ?? []) {
+			if (object[name] === undefined) {
+				errors.push(`${path}: missing required property "${name}"`)
+			}
+		}
+		for (const [name, propertyValue] of Object.entries(object)) {
+			const propertySchema = schema.properties?.[name]
+			if (propertySchema) {
+				validate(propertySchema, propertyValue, `${path}.${name}`, errors)
+			} else if (schema.additionalProperties === false) {
+				errors.push(`${path}: unexpected property "${name}"`)
+			} else if (typeof schema.additionalProperties === "object") {
+				validate(schema.additionalProperties, propertyValue, `${path}.${name}`, errors)
+			}
+		}
+	}
+}
+
+/**
+ * @returns a description of each way the arguments don't match the tool's input schema, empty if they're valid
+ */
+export function validateToolArguments(inputSchema: object | undefined, toolArguments: unknown): string[] {
+	if (!inputSchema) {
+		return []
+	}
+	const errors: string[] = []
+	// leaving out the arguments is the same as passing an empty object
+	validate(inputSchema as JsonSchema, toolArguments ?? {}, "arguments", errors)
+	return errors
+}
@@ -0,0 +1,46 @@
+import { describe, it } from "mocha"
+import "should"
+import { formatMcpResourceResult, formatMcpToolResult, truncateMcpResultText } from "./tool-results"
+
+describe("MCP tool results", () => {
+	describe("formatMcpToolResult", () => {
+		it("should pass images to the model and omit binary resources", () => {
+			formatMcpToolResult({
+				content: [
+					{ type: "text", text: "Screenshot taken" },
+					{ type: "image", data: "aGk=", mimeType: "image/png" },
+					{ type: "resource", resource: { uri: "file:///log.txt", text: "ok" } },
+					{ type: "resource", resource: { uri: "file:///a.zip", mimeType: "application/zip", blob: "aGk=" } },
+				],
+			}).should.deepEqual({
+				text: "Screenshot taken\n\nfile:///log.txt:\nok\n\n[Binary resource file:///a.zip (application/zip) omitted]",
+				images: ["data:image/png;base64,aGk="],
+			})
+		})
+
+		it("should mark errors", () => {
+			formatMcpToolResult({ content: [], isError: true }).text.should.equal("Error:\n(No response)")
+		})
+	})
+
+	describe("formatMcpResourceResult", () => {
+		it("should attach image resources", () => {
+			formatMcpResourceResult({
+				contents: [{ uri: "chart://sales", mimeType: "image/webp", blob: "aGk=" }],
+			}).should.deepEqual({ text: "(Image resource)", images: ["data:image/webp;base64,aGk="] })
+		})
+	})
+
+	describe("truncateMcpResultText", () => {
+		it("should keep the start and end of long text", () => {
+			const truncated = truncateMcpResultText("a".repeat(90) + "b".repeat(10), 20)
+			truncated.should.startWith("a".repeat(16))
+			truncated.should.endWith("b".repeat(4))
+			truncated.should.containEql("[... 80 characters omitted, the result was 100 characters long ...]")
+		})
+
+		it("should leave text within the limit unchanged", () => {
+			truncateMcpResultText("short", 20).should.equal("short")
+		})
+	})
+})
@@ -0,0 +1,119 @@
+import { ApiHandler } from "../../api"
+import { McpResourceResponse, McpToolCallResponse } from "../../shared/mcp"
+import { createSamplingMessage, SamplingResult } from "./sampling"
+
+/*
+MCP results can be large (a whole web page, a database dump), so text beyond a server's or tool's result limit is either
+truncated or summarized by the model before it goes into the conversation, see Cline.limitMcpToolResult (resources are only
+truncated, see Cline.limitMcpResourceResult). Images, including
+image resources, are passed to the model as images rather than as base64 text.
+*/
+
+export interface McpResultContent {
+	text: string
+	images: string[] // data URLs, like the images attached to a message
+}
+
+export interface McpResultLimit {
+	maxCharacters: number
+	strategy: "truncate" | "summarize"
+}
+
+export const DEFAULT_MCP_RESULT_LIMIT: McpResultLimit = { maxCharacters: 50_000, strategy: "truncate" }
+
+const SUPPORTED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp"]
+
+// results longer than this are truncated before being summarized, so the request fits in the model's context window
+const MAX_SUMMARIZED_CHARACTERS = 200_000
+
+const SUMMARIZATION_SYSTEM_PROMPT = `You condense the results of tool calls for an AI coding assistant, whose context window can't hold them in full. Keep everything the assistant is likely to need: identifiers, names, paths, URLs, numbers, error messages and code, quoted exactly. Leave out repetition, boilerplate and formatting. Respond with the condensed result only.`
+
+type McpResourceContents = McpResourceResponse["contents"][number]
+
+function formatResourceContents(resource: McpResourceContents, images: string[], withUri: boolean): string | undefined {
+	if (resource.text !== undefined) {
+		return withUri ? `${resource.uri}:\n${resource.text}` : resource.text
+	}
+	if (resource.blob !== undefined) {
+		if (resource.mimeType && SUPPORTED_IMAGE_TYPES.includes(resource.mimeType)) {
+			images.push(`data:${resource.mimeType};base64,${resource.blob}`)
+			return undefined
+		}
+		return `[Binary resource ${resource.uri}${resource.mimeType ? ` (${resource.mimeType})` : ""} omitted]`
+	}
+	return undefined
+}
+
+export function formatMcpToolResult(result: McpToolCallResponse): McpResultContent {
+	const parts: string[] = []
+	const images: string[] = []
+	for (const item of result.content) {
+		switch (item.type) {
+			case "text":
+				parts.push(item.text)
+				break
+			case "image":
+				if (SUPPORTED_IMAGE_TYPES.includes(item.mimeType)) {
+					images.push(`data:${item.mimeType};base64,${item.data}`)
+				} else {
+					parts.push(`[Unsupported image of type ${item.mimeType} omitted]`)
+				}
+				break
+			case "resource": {
+				const text = formatResourceContents(item.resource, images, true)
+				if (text) {
+					parts.push(text)
+				}
+				break
+			}
+		}
+	}
+	const text = parts.filter(Boolean).join("\n\n") || (images.length > 0 ? "(Image response)" : "(No response)")
+	return { text: (result.isError ? "Error:\n" : "") + text, images }
+}
+
+export function formatMcpResourceResult(result: McpResourceResponse): McpResultContent {
+	const images: string[] = []
+	const parts = result.contents.map((resource) => formatResourceContents(resource, images, false)).filter(Boolean)
+	return { text: parts.join("\n\n") || (images.length > 0 ? "(Image resource)" : "(Empty response)"), images }
+}
+
+/**
+ * Keeps the start and end of the text, which usually hold the most useful parts of a long result (e.g. a summary line or
+ * the final rows), and notes how much was left out in between.
+ */
+export function truncateMcpResultText(text: string, maxCharacters: number): string {
+	if (text.length <= maxCharacters) {
+		return text
+	}
+	const headLength = Math.ceil(maxCharacters * 0.8)
+	const tailLength = maxCharacters - headLength
+	const omitted = text.length - headLength - tailLength
+	return `${text.slice(0, headLength)}\n\n[... ${omitted} characters omitted, the result was ${text.length} characters long ...]\n\n${tailLength > 0 ? text.slice(-tailLength) : ""}`
+}
+
+/**
+ * Has the model condense the text to fit the limit. The summary can still come out longer, so it's truncated like any other
+ * result.
+ */
+export async function summarizeMcpResultText(
+	api: ApiHandler,
+	request: string,
+	text: string,
+	maxCharacters: number,
+): Promise<SamplingResult> {
+	const result = await createSamplingMessage(api, {
+		systemPrompt: SUMMARIZATION_SYSTEM_PROMPT,
+		messages: [
+			{
+				role: "user",
+				content: {
+					type: "text",
+					text: `Condense the result of ${request} to at most ${maxCharacters} characters:\n<result>\n${truncateMcpResultText(text, MAX_SUMMARIZED_CHARACTERS)}\n</result>`,
+				},
+			},
+		],
+		maxTokens: Math.ceil(maxCharacters / 4),
+	})
+	return { ...result, text: truncateMcpResultText(result.text.trim(), maxCharacters) }
+}
@@ -4,6 +4,7 @@ import * as path from "path"
 import * as readline from "readline"
 import { fileExistsAtPath } from "../../utils/fs"
 import { ClineIgnoreController } from "../../core/ignore/ClineIgnoreController"
+import { WorkspaceRoots } from "../../integrations/workspace/WorkspaceRoots"
 
 /*
 This file provides functionality to perform regex searches on files using ripgrep.
@@ -14,7 +15,7 @@ Key components:
 2. execRipgrep: Executes the ripgrep command and returns the output.
 3. regexSearchFiles: The main function that performs regex searches on files.
    - Parameters:
-     * cwd: The current working directory (for relative path calculation)
+     * workspaceRoots: The workspace folders (for relative path calculation)
      * directoryPath: The directory to search in
      * regex: The regular expression to search for (Rust regex syntax)
      * filePattern: Optional glob pattern to filter files (default: '*')
@@ -26,7 +27,7 @@ The search results include:
 - Matches formatted with pipe characters for easy reading
 
 Usage example:
-const results = await regexSearchFiles('/path/to/cwd', '/path/to/search', 'TODO:', '*.ts');
+const results = await regexSearchFiles(workspaceRoots, '/path/to/search', 'TODO:', '*.ts');
 
 rel/path/to/app.ts
 │----
@@ -116,7 +117,7 @@ async function execRipgrep(bin: string, args: string[]): Promise<string> {
 }
 
 export async function regexSearchFiles(
-	cwd: string,
+	workspaceRoots: WorkspaceRoots,
 	directoryPath: string,
 	regex: string,
 	filePattern?: string,
@@ -178,10 +179,10 @@ export async function regexSearchFiles(
 		? results.filter((result) => clineIgnoreController.validateAccess(result.filePath))
 		: results
 
-	return formatResults(filteredResults, cwd)
+	return formatResults(filteredResults, workspaceRoots)
 }
 
-function formatResults(results: SearchResult[], cwd: string): string {
+function formatResults(results: SearchResult[], workspaceRoots: WorkspaceRoots): string {
 	const groupedResults: { [key: string]: SearchResult[] } = {}
 
 	let output = ""
@@ -193,7 +194,7 @@ function formatResults(results: SearchResult[], cwd: string): string {
 
 	// Group results by file name
 	results.slice(0, MAX_RESULTS).forEach((result) => {
-		const relativeFilePath = path.relative(cwd, result.filePath)
+		const relativeFilePath = workspaceRoots.getRelativePath(result.filePath)
 		if (!groupedResults[relativeFilePath]) {
 			groupedResults[relativeFilePath] = []
 		}
@@ -0,0 +1,338 @@
+import fs from "fs/promises"
+import * as path from "path"
+import { ClineIgnoreController } from "../../core/ignore/ClineIgnoreController"
+import { WorkspaceRoots } from "../../integrations/workspace/WorkspaceRoots"
+import { fileExistsAtPath } from "../../utils/fs"
+import { listFiles } from "../glob/list-files"
+import { isSourceCodeFile, parseSourceFile, SourceCodeDefinition } from "../tree-sitter"
+import { LanguageParser, loadRequiredLanguageParsers } from "../tree-sitter/languageParser"
+import {
+	extractIdentifiers,
+	findEnclosingDefinition,
+	findIdentifierLines,
+	formatSymbolLookup,
+	SymbolDefinitionMatch,
+	SymbolReference,
+} from "."
+
+const INDEX_VERSION = 1
+const MAX_INDEXED_FILES = 2_000
+const MAX_FILE_SIZE = 1_000_000 // bytes, larger files are likely generated or minified
+const MAX_REFERENCES = 50
+const SAVE_DELAY_MS = 2_000
+
+interface IndexedFile {
+	mtime: number
+	definitions: SourceCodeDefinition[]
+	outline: string | null
+	identifiers: string[]
+}
+
+interface SerializedSymbolIndex {
+	version: number
+	files: Record<string, IndexedFile>
+}
+
+/**
+ * An index of the definitions and identifiers in the workspace's source files, keyed by absolute path. It's built once
+ * the workspace is opened, kept up to date with the file events the WorkspaceTracker receives and saved to global
+ * storage, so that only the files that changed since are parsed again when the workspace is opened next. Files changed
+ * outside of VS Code are re-indexed when a lookup finds them.
+ */
+export class SymbolIndex {
+	private files = new Map<string, IndexedFile>()
+	private filesByDefinition = new Map<string, Set<string>>()
+	private filesByIdentifier = new Map<string, Set<string>>()
+	private languageParsers: LanguageParser = {}
+	// updates share the index, so they mustn't interleave
+	private lastUpdate: Promise<unknown> = Promise.resolve()
+	private saveTimeout?: NodeJS.Timeout
+
+	constructor(private readonly storageFilePath: string) {}
+
+	/**
+	 * Loads the saved index and brings it up to date with the source files in the workspace folders
+	 */
+	async build(workspaceRoots: WorkspaceRoots): Promise<void> {
+		await this.enqueue(async () => {
+			if (this.files.size === 0) {
+				await this.load()
+			}
+			const limit = Math.ceil(MAX_INDEXED_FILES / workspaceRoots.roots.length)
+			const sourceFiles = new Set<string>()
+			for (const root of workspaceRoots.roots) {
+				const [files, _] = await listFiles(root.path, true, limit)
+				files.filter((file) => isSourceCodeFile(file)).forEach((file) => sourceFiles.add(path.resolve(file)))
+			}
+			for (const filePath of this.files.keys()) {
+				if (!sourceFiles.has(filePath)) {
+					this.removeIndexedFile(filePath)
+				}
+			}
+			for (const filePath of sourceFiles) {
+				await this.indexFile(filePath)
+			}
+			this.scheduleSave()
+		})
+	}
+
+	async updateFile(filePath: string): Promise<void> {
+		if (!isSourceCodeFile(filePath)) {
+			return
+		}
+		await this.enqueue(async () => {
+			await this.indexFile(path.resolve(filePath))
+			this.scheduleSave()
+		})
+	}
+
+	// removes the file, or all files in it if it's a directory
+	async removeFile(filePath: string): Promise<void> {
+		await this.enqueue(async () => {
+			const absolutePath = path.resolve(filePath)
+			const dirPrefix = absolutePath.endsWith(path.sep) ? absolutePath : absolutePath + path.sep
+			for (const indexedPath of Array.from(this.files.keys())) {
+				if (indexedPath === absolutePath || indexedPath.startsWith(dirPrefix)) {
+					this.removeIndexedFile(indexedPath)
+				}
+			}
+			this.scheduleSave()
+		})
+	}
+
+	/**
+	 * Finds where a symbol is defined and used
+	 * @param symbol - The name of a class, function, method, etc., optionally qualified with its class, e.g. "Cline.say"
+	 * @returns the definitions and references, formatted for the model
+	 */
+	async lookup(symbol: string, workspaceRoots: WorkspaceRoots, clineIgnoreController?: ClineIgnoreController): Promise<string> {
+		const name = symbol.split(".").pop()!.trim()
+		const container = symbol.includes(".") ? symbol.slice(0, symbol.lastIndexOf(".")).trim() : undefined
+
+		return this.enqueue(async () => {
+			const isAllowed = (filePath: string) => !clineIgnoreController || clineIgnoreController.validateAccess(filePath)
+			// files changed outside of VS Code may be stale
+			const candidateFiles = new Set([
+				...(this.filesByDefinition.get(name) ?? []),
+				...(this.filesByIdentifier.get(name) ?? []),
+			])
+			for (const filePath of candidateFiles) {
+				if (isAllowed(filePath)) {
+					await this.indexFile(filePath)
+				}
+			}
+			this.scheduleSave()
+
+			const definitions: SymbolDefinitionMatch[] = []
+			for (const filePath of this.filesByDefinition.get(name) ?? []) {
+				if (!isAllowed(filePath)) {
+					continue
+				}
+				const fileDefinitions = this.files.get(filePath)!.definitions
+				for (const definition of fileDefinitions) {
+					if (definition.name !== name) {
+						continue
+					}
+					// e.g. for "Cline.say", the method has to be in the class Cline
+					const enclosing = findEnclosingDefinition(
+						fileDefinitions.filter((d) => d !== definition),
+						definition.line,
+					)
+					if (container && enclosing?.name !== container) {
+						continue
+					}
+					definitions.push({ path: workspaceRoots.getRelativePath(filePath), definition })
+				}
+			}
+
+			const references: SymbolReference[] = []
+			let didHitReferenceLimit = false
+			for (const filePath of Array.from(this.filesByIdentifier.get(name) ?? []).sort()) {
+				if (!isAllowed(filePath)) {
+					continue
+				}
+				const fileDefinitions = this.files.get(filePath)!.definitions
+				const content = await fs.readFile(filePath, "utf8").catch(() => "")
+				const lines = content.split("\n")
+				for (const line of findIdentifierLines(content, name)) {
+					// the definitions themselves aren't references
+					if (fileDefinitions.some((d) => d.name === name && d.line === line)) {
+						continue
+					}
+					if (references.length >= MAX_REFERENCES) {
+						didHitReferenceLimit = true
+						break
+					}
+					references.push({
+						path: workspaceRoots.getRelativePath(filePath),
+						line,
+						text: lines[line - 1].trim(),
+						enclosingDefinition: findEnclosingDefinition(fileDefinitions, line),
+					})
+				}
+				if (didHitReferenceLimit) {
+					break
+				}
+			}
+
+			return formatSymbolLookup(symbol, definitions, references, didHitReferenceLimit)
+		})
+	}
+
+	/**
+	 * @returns the file's outline as listed by list_code_definition_names, parsing the file if it changed since it was
+	 * indexed. Files that aren't indexed, e.g. outside the workspace, are parsed without being added.
+	 */
+	async getOutline(filePath: string): Promise<string | null> {
+		return this.enqueue(async () => {
+			const absolutePath = path.resolve(filePath)
+			if (!this.files.has(absolutePath)) {
+				try {
+					return (await this.parseFile(absolutePath)).outline
+				} catch (error) {
+					console.error(`Failed to parse ${absolutePath}:`, error)
+					return null
+				}
+			}
+			await this.indexFile(absolutePath)
+			this.scheduleSave()
+			return this.files.get(absolutePath)?.outline ?? null
+		})
+	}
+
+	/**
+	 * @returns the file's definitions as of when it was last indexed, without checking whether it changed since
+	 */
+	getDefinitions(filePath: string): SourceCodeDefinition[] {
+		return this.files.get(path.resolve(filePath))?.definitions ?? []
+	}
+
+	async dispose(): Promise<void> {
+		if (this.saveTimeout) {
+			clearTimeout(this.saveTimeout)
+			this.saveTimeout = undefined
+			await this.enqueue(() => this.save())
+		}
+	}
+
+	private enqueue<T>(update: () => Promise<T>): Promise<T> {
+		const result = this.lastUpdate.catch(() => {}).then(update)
+		this.lastUpdate = result
+		return result
+	}
+
+	// (re-)indexes the file if it changed since it was last indexed, or removes it if it's gone
+	private async indexFile(filePath: string): Promise<void> {
+		try {
+			const stat = await fs.stat(filePath)
+			if (this.files.get(filePath)?.mtime === stat.mtimeMs) {
+				return
+			}
+			if (!stat.isFile() || stat.size > MAX_FILE_SIZE) {
+				this.removeIndexedFile(filePath)
+				return
+			}
+			this.addIndexedFile(filePath, await this.parseFile(filePath, stat.mtimeMs))
+		} catch (error) {
+			if (!(await fileExistsAtPath(filePath))) {
+				this.removeIndexedFile(filePath)
+				return
+			}
+			console.error(`Failed to index ${filePath}:`, error)
+		}
+	}
+
+	private async parseFile(filePath: string, mtime: number = 0): Promise<IndexedFile> {
+		const ext = path.extname(filePath).toLowerCase().slice(1)
+		if (!this.languageParsers[ext]) {
+			Object.assign(this.languageParsers, await loadRequiredLanguageParsers([filePath]))
+		}
+		const content = await fs.readFile(filePath, "utf8")
+		const parsedFile = parseSourceFile(filePath, content, this.languageParsers)
+		return {
+			mtime,
+			definitions: parsedFile?.definitions ?? [],
+			outline: parsedFile?.outline ?? null,
+			identifiers: extractIdentifiers(content),
+		}
+	}
+
+	private addIndexedFile(filePath: string, file: IndexedFile): void {
+		this.removeIndexedFile(filePath)
+		this.files.set(filePath, file)
+		for (const definition of file.definitions) {
+			addToSet(this.filesByDefinition, definition.name, filePath)
+		}
+		for (const identifier of file.identifiers) {
+			addToSet(this.filesByIdentifier, identifier, filePath)
+		}
+	}
+
+	private removeIndexedFile(filePath: string): void {
+		const file = this.files.get(filePath)
+		if (!file) {
+			return
+		}
+		for (const definition of file.definitions) {
+			removeFromSet(this.filesByDefinition, definition.name, filePath)
+		}
+		for (const identifier of file.identifiers) {
+			removeFromSet(this.filesByIdentifier, identifier, filePath)
+		}
+		this.files.delete(filePath)
+	}
+
+	private async load(): Promise<void> {
+		try {
+			if (!(await fileExistsAtPath(this.storageFilePath))) {
+				return
+			}
+			const index: SerializedSymbolIndex = JSON.parse(await fs.readFile(this.storageFilePath, "utf8"))
+			if (index.version !== INDEX_VERSION) {
+				return
+			}
+			for (const [filePath, file] of Object.entries(index.files)) {
+				this.addIndexedFile(filePath, file)
+			}
+		} catch (error) {
+			console.error("Failed to load the symbol index:", error)
+		}
+	}
+
+	private scheduleSave(): void {
+		if (this.saveTimeout) {
+			return
+		}
+		this.saveTimeout = setTimeout(() => {
+			this.saveTimeout = undefined
+			this.enqueue(() => this.save()).catch(() => {})
+		}, SAVE_DELAY_MS)
+	}
+
+	private async save(): Promise<void> {
+		try {
+			const index: SerializedSymbolIndex = { version: INDEX_VERSION, files: Object.fromEntries(this.files) }
+			await fs.mkdir(path.dirname(this.storageFilePath), { recursive: true })
+			await fs.writeFile(this.storageFilePath, JSON.stringify(index))
+		} catch (error) {
+			console.error("Failed to save the symbol index:", error)
+		}
+	}
+}
+
+function addToSet(map: Map<string, Set<string>>, key: string, value: string): void {
+	let values = map.get(key)
+	if (!values) {
+		values = new Set()
+		map.set(key, values)
+	}
+	values.add(value)
+}
+
+function removeFromSet(map: Map<string, Set<string>>, key: string, value: string): void {
+	const values = map.get(key)
+	values?.delete(value)
+	if (values?.size === 0) {
+		map.delete(key)
+	}
+}
@@ -0,0 +1,108 @@
+import { describe, it } from "mocha"
+import "should"
+import { SourceCodeDefinition } from "../tree-sitter"
+import { extractIdentifiers, findEnclosingDefinition, findIdentifierLines, formatSymbolLookup } from "."
+
+describe("Symbol Index", () => {
+	const content = [
+		"export class Parser {",
+		"\tparse(text: string) {",
+		"\t\treturn parseFile(text)",
+		"\t}",
+		"}",
+		"",
+		"function parseFile(text: string) {",
+		"\treturn text.split($separator)",
+		"}",
+	].join("\n")
+
+	const parserClass: SourceCodeDefinition = {
+		name: "Parser",
+		kind: "class",
+		line: 1,
+		endLine: 5,
+		text: "export class Parser {",
+	}
+	const parseMethod: SourceCodeDefinition = {
+		name: "parse",
+		kind: "method",
+		line: 2,
+		endLine: 4,
+		text: "parse(text: string) {",
+	}
+	const parseFileFunction: SourceCodeDefinition = {
+		name: "parseFile",
+		kind: "function",
+		line: 7,
+		endLine: 9,
+		text: "function parseFile(text: string) {",
+	}
+
+	describe("extractIdentifiers", () => {
+		it("should extract each identifier once", () => {
+			const identifiers = extractIdentifiers(content)
+			identifiers.should.containEql("Parser")
+			identifiers.should.containEql("parseFile")
+			identifiers.should.containEql("$separator")
+			identifiers.filter((identifier) => identifier === "text").length.should.equal(1)
+		})
+
+		it("should skip single characters", () => {
+			extractIdentifiers("let x = a + bc").should.deepEqual(["let", "bc"])
+		})
+	})
+
+	describe("findIdentifierLines", () => {
+		it("should only find whole identifiers", () => {
+			findIdentifierLines(content, "parseFile").should.deepEqual([3, 7])
+			findIdentifierLines(content, "parse").should.deepEqual([2])
+			findIdentifierLines(content, "Parse").should.deepEqual([])
+		})
+	})
+
+	describe("findEnclosingDefinition", () => {
+		const definitions = [parserClass, parseMethod, parseFileFunction]
+
+		it("should find the innermost definition containing the line", () => {
+			findEnclosingDefinition(definitions, 3)!.name.should.equal("parse")
+			findEnclosingDefinition(definitions, 5)!.name.should.equal("Parser")
+			findEnclosingDefinition(definitions, 8)!.name.should.equal("parseFile")
+		})
+
+		it("should return undefined outside of any definition", () => {
+			;(findEnclosingDefinition(definitions, 6) === undefined).should.be.true()
+		})
+	})
+
+	describe("formatSymbolLookup", () => {
+		it("should list definitions and references with their location", () => {
+			const result = formatSymbolLookup(
+				"parseFile",
+				[{ path: "src/parser.ts", definition: parseFileFunction }],
+				[{ path: "src/parser.ts", line: 3, text: "return parseFile(text)", enclosingDefinition: parseMethod }],
+				false,
+			)
+			result.should.equal(
+				[
+					"# Definitions of 'parseFile'",
+					"src/parser.ts:7 (function)",
+					"│function parseFile(text: string) {",
+					"",
+					"# References to 'parseFile'",
+					"src/parser.ts:3 in method parse",
+					"│return parseFile(text)",
+				].join("\n"),
+			)
+		})
+
+		it("should say when nothing was found", () => {
+			formatSymbolLookup("missing", [], [], false).should.equal("No definitions or references found for 'missing'.")
+		})
+
+		it("should note when references were cut off", () => {
+			const result = formatSymbolLookup("parse", [], [{ path: "src/parser.ts", line: 3, text: "parse()" }], true)
+			result.should.containEql("(No definitions found in the indexed source files.)")
+			result.should.containEql("Showing the first 1 references")
+		})
+	})
+})
@@ -0,0 +1,106 @@
+import { SourceCodeDefinition } from "../tree-sitter"
+
+/*
+The symbol index keeps, for every source file in the workspace, the definitions tree-sitter finds in it and the set of
+identifiers it uses. Definitions are looked up by name directly. References aren't resolved semantically: the files using
+an identifier with the symbol's name are read and the lines mentioning it as a whole word are listed, along with the
+definition each line is in (e.g. the function calling it), so "who calls X" is answered without reading every file.
+*/
+
+export interface SymbolDefinitionMatch {
+	path: string // relative to the workspace, see WorkspaceRoots.getRelativePath
+	definition: SourceCodeDefinition
+}
+
+export interface SymbolReference {
+	path: string
+	line: number // 1-based
+	text: string
+	enclosingDefinition?: SourceCodeDefinition
+}
+
+const MIN_IDENTIFIER_LENGTH = 2
+const MAX_IDENTIFIER_LENGTH = 100
+
+const identifierRegex = /[\p{L}_$][\p{L}\p{N}_$]*/gu
+
+export function extractIdentifiers(content: string): string[] {
+	const identifiers = new Set<string>()
+	for (const match of content.matchAll(identifierRegex)) {
+		if (match[0].length >= MIN_IDENTIFIER_LENGTH && match[0].length <= MAX_IDENTIFIER_LENGTH) {
+			identifiers.add(match[0])
+		}
+	}
+	return Array.from(identifiers)
+}
+
+/**
+ * @returns the 1-based numbers of the lines using the identifier as a whole word, e.g. "parse" isn't found in "parseFile"
+ */
+export function findIdentifierLines(content: string, identifier: string): number[] {
+	const lineNumbers: number[] = []
+	content.split("\n").forEach((line, index) => {
+		if (!line.includes(identifier)) {
+			return
+		}
+		for (const match of line.matchAll(identifierRegex)) {
+			if (match[0] === identifier) {
+				lineNumbers.push(index + 1)
+				return
+			}
+		}
+	})
+	return lineNumbers
+}
+
+/**
+ * @returns the innermost definition whose body contains the line, e.g. the method a call is made in
+ */
+export function findEnclosingDefinition(definitions: SourceCodeDefinition[], line: number): SourceCodeDefinition | undefined {
+	let enclosing: SourceCodeDefinition | undefined
+	for (const definition of definitions) {
+		if (definition.line <= line && line <= definition.endLine) {
+			if (!enclosing || definition.endLine - definition.line < enclosing.endLine - enclosing.line) {
+				enclosing = definition
+			}
+		}
+	}
+	return enclosing
+}
+
+export function formatSymbolLookup(
+	symbol: string,
+	definitions: SymbolDefinitionMatch[],
+	references: SymbolReference[],
+	didHitReferenceLimit: boolean,
+): string {
+	if (definitions.length === 0 && references.length === 0) {
+		return `No definitions or references found for '${symbol}'.`
+	}
+
+	let result = `# Definitions of '${symbol}'\n`
+	if (definitions.length > 0) {
+		result += definitions
+			.map(({ path, definition }) => `${path}:${definition.line} (${definition.kind})\n│${definition.text}`)
+			.join("\n")
+	} else {
+		result += "(No definitions found in the indexed source files.)"
+	}
+
+	result += `\n\n# References to '${symbol}'\n`
+	if (references.length > 0) {
+		result += references
+			.map((reference) => {
+				const enclosing = reference.enclosingDefinition
+				const location = enclosing ? ` in ${enclosing.kind} ${enclosing.name}` : ""
+				return `${reference.path}:${reference.line}${location}\n│${reference.text}`
+			})
+			.join("\n")
+		if (didHitReferenceLimit) {
+			result += `\n\n(Showing the first ${references.length} references. Use search_files to find the rest.)`
+		}
+	} else {
+		result += "(No references found.)"
+	}
+	return result
+}
@@ -4,11 +4,54 @@ import { listFiles } from "../glob/list-files"
 import { LanguageParser, loadRequiredLanguageParsers } from "./languageParser"
 import { fileExistsAtPath } from "../../utils/fs"
 import { ClineIgnoreController } from "../../core/ignore/ClineIgnoreController"
+import { SymbolIndex } from "../symbol-index/SymbolIndex"
+
+export interface SourceCodeDefinition {
+	name: string
+	kind: string // e.g. "class", "function" or "method", from the language query's capture names
+	line: number // 1-based line of the definition's name
+	endLine: number // 1-based last line of the definition's body
+	text: string // the (trimmed) line declaring the name
+}
+
+export interface ParsedSourceFile {
+	definitions: SourceCodeDefinition[]
+	outline: string | null // the definitions' lines as listed by list_code_definition_names, or null if there are none
+}
+
+const sourceCodeExtensions = [
+	"js",
+	"jsx",
+	"ts",
+	"tsx",
+	"py",
+	// Rust
+	"rs",
+	"go",
+	// C
+	"c",
+	"h",
+	// C++
+	"cpp",
+	"hpp",
+	// C#
+	"cs",
+	// Ruby
+	"rb",
+	"java",
+	"php",
+	"swift",
+].map((e) => `.${e}`)
+
+export function isSourceCodeFile(filePath: string): boolean {
+	return sourceCodeExtensions.includes(path.extname(filePath).toLowerCase())
+}
 
-// TODO: implement caching behavior to avoid having to keep analyzing project for new tasks.
+// files that are in the symbol index are only parsed again once they've changed
 export async function parseSourceCodeForDefinitionsTopLevel(
 	dirPath: string,
 	clineIgnoreController?: ClineIgnoreController,
+	symbolIndex?: SymbolIndex,
 ): Promise<string> {
 	// check if the path exists
 	const dirExists = await fileExistsAtPath(path.resolve(dirPath))
@@ -24,7 +67,7 @@ export async function parseSourceCodeForDefinitionsTopLevel(
 	// Separate files to parse and remaining files
 	const { filesToParse, remainingFiles } = separateFiles(allFiles)
 
-	const languageParsers = await loadRequiredLanguageParsers(filesToParse)
+	const languageParsers = symbolIndex ? undefined : await loadRequiredLanguageParsers(filesToParse)
 
 	// Parse specific files we have language parsers for
 	// const filesWithoutDefinitions: string[] = []
@@ -33,7 +76,9 @@ export async function parseSourceCodeForDefinitionsTopLevel(
 	const allowedFilesToParse = clineIgnoreController ? clineIgnoreController.filterPaths(filesToParse) : filesToParse
 
 	for (const filePath of allowedFilesToParse) {
-		const definitions = await parseFile(filePath, languageParsers, clineIgnoreController)
+		const definitions = symbolIndex
+			? await symbolIndex.getOutline(filePath)
+			: await parseFile(filePath, languageParsers!, clineIgnoreController)
 		if (definitions) {
 			result += `${path.relative(dirPath, filePath).toPosix()}\n${definitions}\n`
 		}
@@ -62,30 +107,7 @@ function separateFiles(allFiles: string[]): {
 	filesToParse: string[]
 	remainingFiles: string[]
 } {
-	const extensions = [
-		"js",
-		"jsx",
-		"ts",
-		"tsx",
-		"py",
-		// Rust
-		"rs",
-		"go",
-		// C
-		"c",
-		"h",
-		// C++
-		"cpp",
-		"hpp",
-		// C#
-		"cs",
-		// Ruby
-		"rb",
-		"java",
-		"php",
-		"swift",
-	].map((e) => `.${e}`)
-	const filesToParse = allFiles.filter((file) => extensions.includes(path.extname(file))).slice(0, 50) // 50 files max
+	const filesToParse = allFiles.filter((file) => sourceCodeExtensions.includes(path.extname(file))).slice(0, 50) // 50 files max
 	const remainingFiles = allFiles.filter((file) => !filesToParse.includes(file))
 	return { filesToParse, remainingFiles }
 }
@@ -115,14 +137,31 @@ async function parseFile(
 		return null
 	}
 	const fileContent = await fs.readFile(filePath, "utf8")
+	const parsedFile = parseSourceFile(filePath, fileContent, languageParsers)
+	if (!parsedFile) {
+		return `Unsupported file type: ${filePath}`
+	}
+	return parsedFile.outline
+}
+
+/**
+ * Parses a source file's definitions, see parseFile above
+ * @returns the file's definitions and outline, or undefined if there is no parser for the file's language
+ */
+export function parseSourceFile(
+	filePath: string,
+	fileContent: string,
+	languageParsers: LanguageParser,
+): ParsedSourceFile | undefined {
 	const ext = path.extname(filePath).toLowerCase().slice(1)
 
 	const { parser, query } = languageParsers[ext] || {}
 	if (!parser || !query) {
-		return `Unsupported file type: ${filePath}`
+		return undefined
 	}
 
 	let formattedOutput = ""
+	const definitions: SourceCodeDefinition[] = []
 
 	try {
 		// Parse the file content into an Abstract Syntax Tree (AST), a tree-like representation of the code
@@ -167,12 +206,31 @@ async function parseFile(
 
 			lastLine = endLine
 		})
+
+		// Each match pairs a definition's name (captured as "name" or "name.definition.<kind>") with its whole node (captured
+		// as "definition.<kind>")
+		for (const match of query.matches(tree.rootNode)) {
+			const nameCapture = match.captures.find((capture) => capture.name.startsWith("name"))
+			const definitionCapture = match.captures.find((capture) => capture.name.startsWith("definition."))
+			if (!nameCapture || !definitionCapture) {
+				continue
+			}
+			const row = nameCapture.node.startPosition.row
+			definitions.push({
+				name: nameCapture.node.text,
+				kind: definitionCapture.name.slice("definition.".length),
+				line: row + 1,
+				endLine: definitionCapture.node.endPosition.row + 1,
+				text: (lines[row] ?? "").trim(),
+			})
+		}
+		definitions.sort((a, b) => a.line - b.line)
 	} catch (error) {
 		console.log(`Error parsing file: ${error}\n`)
 	}
 
-	if (formattedOutput.length > 0) {
-		return `|----\n${formattedOutput}|----\n`
+	return {
+		definitions,
+		outline: formattedOutput.length > 0 ? `|----\n${formattedOutput}|----\n` : null,
 	}
-	return null
 }
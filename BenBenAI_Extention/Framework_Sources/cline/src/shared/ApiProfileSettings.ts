@@ -0,0 +1,20 @@
+import { ChatSettings } from "./ChatSettings"
+
+// A named, saved API configuration. The configuration itself (including its secrets) is only kept by the extension.
+export interface ApiProfile {
+	id: string
+	name: string
+}
+
+export interface ApiProfileSettings {
+	profiles: ApiProfile[]
+	currentProfileId?: string // undefined once the active configuration no longer matches a saved profile
+	modeProfileIds: Partial<Record<ChatSettings["mode"], string>> // profiles switched to automatically when toggling plan/act mode
+	fallbackProfileIds: string[] // profiles a request is retried with, in order, when the active provider is rate limited, overloaded or out of context
+}
+
+export const DEFAULT_API_PROFILE_SETTINGS: ApiProfileSettings = {
+	profiles: [],
+	modeProfileIds: {},
+	fallbackProfileIds: [],
+}
@@ -9,6 +9,11 @@ export interface AutoApprovalSettings {
 		useBrowser: boolean // Use browser
 		useMcp: boolean // Use MCP servers
 	}
+	// Globs in .gitignore syntax, relative to the workspace, that limit which files editFiles auto-approves
+	editFileRules: {
+		include: string[] // only edits to matching files are auto-approved, or to any file in the workspace when empty
+		exclude: string[] // edits to matching files always need approval
+	}
 	// Global settings
 	maxRequests: number // Maximum number of auto-approved requests
 	enableNotifications: boolean // Show notifications for approval and task completion
@@ -23,6 +28,10 @@ export const DEFAULT_AUTO_APPROVAL_SETTINGS: AutoApprovalSettings = {
 		useBrowser: false,
 		useMcp: false,
 	},
+	editFileRules: {
+		include: [],
+		exclude: [],
+	},
 	maxRequests: 20,
 	enableNotifications: false,
 }
@@ -0,0 +1,42 @@
+import { describe, it } from "mocha"
+import "should"
+import { getExceededBudgetLimits, getWorkspaceCostIncrease } from "./BudgetSettings"
+
+describe("Budget Settings", () => {
+	describe("getExceededBudgetLimits", () => {
+		const usage = { taskCost: 0.9, taskTokens: 90_000, workspaceMonthlyCost: 9 }
+
+		it("should not exceed anything without limits", () => {
+			getExceededBudgetLimits({}, usage, { cost: 100, tokens: 1_000_000 }).should.deepEqual([])
+		})
+
+		it("should include the estimated cost of the next request", () => {
+			getExceededBudgetLimits({ taskMaxCost: 1 }, usage, { cost: 0.05, tokens: 0 }).should.deepEqual([])
+			getExceededBudgetLimits({ taskMaxCost: 1 }, usage, { cost: 0.2, tokens: 0 }).should.deepEqual(["taskMaxCost"])
+		})
+
+		it("should check token and monthly limits", () => {
+			getExceededBudgetLimits({ taskMaxCost: 5, taskMaxTokens: 100_000, workspaceMonthlyMaxCost: 9 }, usage, {
+				cost: 0.1,
+				tokens: 20_000,
+			}).should.deepEqual(["taskMaxTokens", "workspaceMonthlyMaxCost"])
+		})
+	})
+
+	describe("getWorkspaceCostIncrease", () => {
+		it("should add what a task spent since its last update", () => {
+			getWorkspaceCostIncrease({ totalCost: 0.5 }).should.equal(0.5)
+			getWorkspaceCostIncrease({ totalCost: 0.75 }, { totalCost: 0.5 }).should.equal(0.25)
+		})
+
+		it("should leave out the costs of a parent task's sub-tasks", () => {
+			// the sub-task's own history item adds its 0.25 as it's spent
+			getWorkspaceCostIncrease({ totalCost: 0.25 }, { totalCost: 0.125 }).should.equal(0.125)
+			// then the parent's total includes it once the sub-task completes
+			getWorkspaceCostIncrease({ totalCost: 0.75, subtaskCost: 0.25 }, { totalCost: 0.5 }).should.equal(0)
+			getWorkspaceCostIncrease({ totalCost: 1, subtaskCost: 0.25 }, { totalCost: 0.75, subtaskCost: 0.25 }).should.equal(
+				0.25,
+			)
+		})
+	})
+})
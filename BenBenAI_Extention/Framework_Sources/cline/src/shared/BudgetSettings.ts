@@ -0,0 +1,55 @@
+import { HistoryItem } from "./HistoryItem"
+
+export interface BudgetSettings {
+	// Per task limits, no limit when undefined
+	taskMaxCost?: number // USD
+	taskMaxTokens?: number // input + output tokens
+	// Limit on the combined cost of all tasks in this workspace per calendar month
+	workspaceMonthlyMaxCost?: number // USD
+}
+
+export const DEFAULT_BUDGET_SETTINGS: BudgetSettings = {}
+
+export interface BudgetUsage {
+	taskCost: number
+	taskTokens: number
+	workspaceMonthlyCost: number
+}
+
+export type BudgetLimit = keyof BudgetSettings
+
+/**
+ * Returns the limits that making the next request would exceed. Since a request's usage isn't known until it's made, the
+ * next request is estimated to use about as much as the previous one.
+ */
+export function getExceededBudgetLimits(
+	settings: BudgetSettings,
+	usage: BudgetUsage,
+	nextRequestEstimate: { cost: number; tokens: number },
+): BudgetLimit[] {
+	const exceeded: BudgetLimit[] = []
+	if (settings.taskMaxCost !== undefined && usage.taskCost + nextRequestEstimate.cost > settings.taskMaxCost) {
+		exceeded.push("taskMaxCost")
+	}
+	if (settings.taskMaxTokens !== undefined && usage.taskTokens + nextRequestEstimate.tokens > settings.taskMaxTokens) {
+		exceeded.push("taskMaxTokens")
+	}
+	if (
+		settings.workspaceMonthlyMaxCost !== undefined &&
+		usage.workspaceMonthlyCost + nextRequestEstimate.cost > settings.workspaceMonthlyMaxCost
+	) {
+		exceeded.push("workspaceMonthlyMaxCost")
+	}
+	return exceeded
+}
+
+type TaskCost = Pick<HistoryItem, "totalCost" | "subtaskCost">
+
+/**
+ * How much updating a task's history item adds to the workspace's monthly spend. A parent task's total includes the costs
+ * of its sub-tasks, which are left out here since they're added through the sub-tasks' own history items.
+ */
+export function getWorkspaceCostIncrease(item: TaskCost, previousItem?: TaskCost): number {
+	const getOwnCost = (task: TaskCost) => task.totalCost - (task.subtaskCost ?? 0)
+	return getOwnCost(item) - (previousItem ? getOwnCost(previousItem) : 0)
+}
@@ -1,11 +1,13 @@
 // type that represents json data that is sent from extension to webview, called ExtensionMessage and has 'type' enum which can be 'plusButtonClicked' or 'settingsButtonClicked' or 'hello'
 
 import { GitCommit } from "../utils/git"
-import { ApiConfiguration, ModelInfo } from "./api"
+import { ApiConfiguration, ApiProvider, ModelInfo } from "./api"
+import { ApiProfileSettings } from "./ApiProfileSettings"
 import { AutoApprovalSettings } from "./AutoApprovalSettings"
+import { BudgetSettings } from "./BudgetSettings"
 import { BrowserSettings } from "./BrowserSettings"
 import { ChatSettings } from "./ChatSettings"
-import { HistoryItem } from "./HistoryItem"
+import { HistoryItem, TaskSearchQuery, TaskSearchResult } from "./HistoryItem"
 import { McpServer, McpMarketplaceCatalog, McpMarketplaceItem, McpDownloadResponse } from "./mcp"
 import { TelemetrySetting } from "./TelemetrySetting"
 
@@ -31,8 +33,12 @@ export interface ExtensionMessage {
 		| "mcpMarketplaceCatalog"
 		| "mcpDownloadDetails"
 		| "commitSearchResults"
+		| "symbolSearchResults"
 		| "openGraphData"
 		| "isImageUrlResult"
+		| "taskSearchResults"
+		| "scrollToMessage"
+		| "mcpPrompt"
 	text?: string
 	action?:
 		| "chatButtonClicked"
@@ -57,6 +63,7 @@ export interface ExtensionMessage {
 	error?: string
 	mcpDownloadDetails?: McpDownloadResponse
 	commits?: GitCommit[]
+	symbols?: WorkspaceSymbol[]
 	openGraphData?: {
 		title?: string
 		description?: string
@@ -67,6 +74,9 @@ export interface ExtensionMessage {
 	}
 	url?: string
 	isImage?: boolean
+	taskSearchQuery?: TaskSearchQuery // the query taskSearchResults answer, so the webview can ignore outdated results
+	taskSearchResults?: TaskSearchResult[]
+	messageTs?: number
 }
 
 export type Platform = "aix" | "darwin" | "freebsd" | "linux" | "openbsd" | "sunos" | "win32" | "unknown"
@@ -76,6 +86,7 @@ export const DEFAULT_PLATFORM = "unknown"
 export interface ExtensionState {
 	version: string
 	apiConfiguration?: ApiConfiguration
+	apiProfileSettings: ApiProfileSettings
 	customInstructions?: string
 	uriScheme?: string
 	currentTaskItem?: HistoryItem
@@ -84,6 +95,9 @@ export interface ExtensionState {
 	taskHistory: HistoryItem[]
 	shouldShowAnnouncement: boolean
 	autoApprovalSettings: AutoApprovalSettings
+	budgetSettings: BudgetSettings
+	workspaceMonthlyCost: number
+	workspaceRoot?: string // the current workspace folder, to group the task history by
 	browserSettings: BrowserSettings
 	chatSettings: ChatSettings
 	isLoggedIn: boolean
@@ -125,6 +139,7 @@ export type ClineAsk =
 	| "resume_completed_task"
 	| "mistake_limit_reached"
 	| "auto_approval_max_req_reached"
+	| "budget_exceeded"
 	| "browser_action_launch"
 	| "use_mcp_server"
 
@@ -141,6 +156,7 @@ export type ClineSay =
 	| "api_req_retried"
 	| "command"
 	| "command_output"
+	| "command_result"
 	| "tool"
 	| "shell_integration_warning"
 	| "browser_action_launch"
@@ -148,11 +164,16 @@ export type ClineSay =
 	| "browser_action_result"
 	| "mcp_server_request_started"
 	| "mcp_server_response"
+	| "mcp_sampling"
+	| "mcp_result_summarized"
 	| "use_mcp_server"
 	| "diff_error"
 	| "deleted_api_reqs"
 	| "clineignore_error"
+	| "command_policy_error"
 	| "checkpoint_created"
+	| "context_compacted"
+	| "subtask_completed"
 
 export interface ClineSayTool {
 	tool:
@@ -162,12 +183,17 @@ export interface ClineSayTool {
 		| "listFilesTopLevel"
 		| "listFilesRecursive"
 		| "listCodeDefinitionNames"
+		| "lookupSymbol"
 		| "searchFiles"
+		| "delegateTask"
 	path?: string
 	diff?: string
 	content?: string
 	regex?: string
 	filePattern?: string
+	symbol?: string
+	mode?: string
+	model?: string
 }
 
 // must keep in sync with system prompt
@@ -187,12 +213,65 @@ export type BrowserActionResult = {
 	currentMousePosition?: string
 }
 
+export interface ClineSayCommandResult {
+	exitCode?: number // undefined when the terminal doesn't report it (e.g. on VS Code versions without the shell execution end event)
+	durationMs: number
+}
+
+export interface CommandPolicyRule {
+	pattern: string
+	source: "workspace" | "global" // the workspace's .clinecommands.json or the global policy in Cline's settings
+}
+
+export interface ClineSayCommandPolicy {
+	decision: "allow" | "deny" | "ask"
+	rules: CommandPolicyRule[] // the allow rules matching each part of the command, or the deny rule that blocks it
+	command?: string // the part of the command that's denied or matches no allow rule
+	reason?: string // why the command needs approval
+}
+
 export interface ClineAskUseMcpServer {
 	serverName: string
-	type: "use_mcp_tool" | "access_mcp_resource"
+	type: "use_mcp_tool" | "access_mcp_resource" | "sampling"
 	toolName?: string
 	arguments?: string
 	uri?: string
+	prompt?: string // for sampling, the readable request the server wants the model to answer
+}
+
+// the model's answer to an MCP server's sampling request, with the usage it counts towards the task's cost
+export interface ClineMcpSampling {
+	serverName: string
+	response?: string // undefined while the request runs, or if it failed
+	error?: string
+	tokensIn?: number
+	tokensOut?: number
+	cacheWrites?: number
+	cacheReads?: number
+	cost?: number
+}
+
+// an MCP tool result over the tool's result limit, condensed by the model (see Cline.limitMcpToolResult)
+export interface ClineMcpResultSummary {
+	serverName: string
+	toolName: string
+	resultLength: number
+	maxCharacters: number
+	error?: string // the result was truncated instead
+	tokensIn?: number
+	tokensOut?: number
+	cacheWrites?: number
+	cacheReads?: number
+	cost?: number
+}
+
+// a result of the workspace symbol search for @symbol mentions, see searchWorkspaceSymbols
+export interface WorkspaceSymbol {
+	name: string
+	kind: string // the name of the vscode.SymbolKind, e.g. "Class"
+	containerName?: string
+	path: string // relative to the workspace, prefixed with the folder's name in multi-root workspaces
+	line: number
 }
 
 export interface ClineApiReqInfo {
@@ -204,8 +283,34 @@ export interface ClineApiReqInfo {
 	cost?: number
 	cancelReason?: ClineApiReqCancelReason
 	streamingFailedMessage?: string
+	activeRuleFiles?: string[]
+	apiFallback?: ClineApiFallbackInfo // set when the request was served by a fallback API profile
+}
+
+export interface ClineApiFallbackInfo {
+	profileName: string
+	apiProvider?: ApiProvider
+	modelId: string
+	reason: string // the error that caused the previous provider to be skipped
 }
 
 export type ClineApiReqCancelReason = "streaming_failed" | "user_cancelled"
 
+export interface ClineContextCompaction {
+	deletedRange: [number, number]
+	summary?: string // undefined if summarization failed and the range was truncated instead
+	error?: string
+	tokensIn?: number
+	tokensOut?: number
+	cacheWrites?: number
+	cacheReads?: number
+	cost?: number
+}
+
+export interface ClineSubtaskResult {
+	taskId: string
+	result?: string // undefined if the user cancelled the sub-task
+	cost?: number
+}
+
 export const COMPLETION_RESULT_CHANGES_FLAG = "HAS_CHANGES"
@@ -7,8 +7,39 @@ export type HistoryItem = {
 	cacheWrites?: number
 	cacheReads?: number
 	totalCost: number
+	subtaskCost?: number // the part of totalCost spent by sub-tasks, which their own history items count too
 
 	size?: number
 	shadowGitConfigWorkTree?: string
 	conversationHistoryDeletedRange?: [number, number]
+	conversationHistorySummary?: string // replaces the deleted range when compacting with "summarize"
+	contextCompactionStrategy?: ContextCompactionStrategy
+	parentTaskId?: string // set on sub-tasks started with the delegate_task tool
+	modelId?: string // the model used for the task's latest request
+	workspaceRoot?: string // the workspace folder the task ran in
+	pinned?: boolean
+	tags?: string[]
+}
+
+export type ContextCompactionStrategy = "truncate" | "summarize"
+
+export interface TaskSearchQuery {
+	text: string
+	dateFrom?: number
+	dateTo?: number
+	modelId?: string
+	minCost?: number
+	maxCost?: number
+	workspace?: string // matches any part of the task's working directory
+	file?: string // matches any part of the paths of the files the task read or edited
+}
+
+export interface TaskSearchMatch {
+	ts: number // the message to scroll to when opening the task
+	snippet: string
+}
+
+export interface TaskSearchResult {
+	taskId: string
+	matches: TaskSearchMatch[]
 }
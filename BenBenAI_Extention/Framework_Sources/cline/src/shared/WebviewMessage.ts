@@ -1,8 +1,10 @@
 import { ApiConfiguration } from "./api"
 import { AutoApprovalSettings } from "./AutoApprovalSettings"
+import { BudgetSettings } from "./BudgetSettings"
 import { BrowserSettings } from "./BrowserSettings"
 import { ChatSettings } from "./ChatSettings"
 import { ChatContent } from "./ChatContent"
+import { ContextCompactionStrategy, TaskSearchQuery } from "./HistoryItem"
 
 export interface WebviewMessage {
 	type:
@@ -32,6 +34,7 @@ export interface WebviewMessage {
 		| "restartMcpServer"
 		| "deleteMcpServer"
 		| "autoApprovalSettings"
+		| "budgetSettings"
 		| "browserSettings"
 		| "togglePlanActMode"
 		| "checkpointDiff"
@@ -49,13 +52,27 @@ export interface WebviewMessage {
 		| "downloadMcp"
 		| "silentlyRefreshMcpMarketplace"
 		| "searchCommits"
+		| "searchSymbols"
 		| "showMcpView"
 		| "fetchLatestMcpServersFromHub"
 		| "telemetrySetting"
 		| "openSettings"
 		| "updateMcpTimeout"
+		| "setMcpServerSecretHeader"
+		| "deleteMcpServerSecretHeader"
+		| "insertMcpPrompt"
 		| "fetchOpenGraphData"
 		| "checkIsImageUrl"
+		| "contextCompactionStrategy"
+		| "saveApiProfile"
+		| "switchApiProfile"
+		| "deleteApiProfile"
+		| "bindApiProfileToMode"
+		| "updateApiFallbackProfiles"
+		| "searchTaskHistory"
+		| "setTaskPinned"
+		| "setTaskTags"
+		| "importTaskBundle"
 	// | "relaunchChromeDebugMode"
 	text?: string
 	disabled?: boolean
@@ -65,15 +82,22 @@ export interface WebviewMessage {
 	bool?: boolean
 	number?: number
 	autoApprovalSettings?: AutoApprovalSettings
+	budgetSettings?: BudgetSettings
 	browserSettings?: BrowserSettings
 	chatSettings?: ChatSettings
 	chatContent?: ChatContent
+	contextCompactionStrategy?: ContextCompactionStrategy
+	taskSearchQuery?: TaskSearchQuery
+	tags?: string[]
 	mcpId?: string
+	profileIds?: string[]
 	timeout?: number
 	// For toggleToolAutoApprove
 	serverName?: string
 	toolName?: string
 	autoApprove?: boolean
+	// For insertMcpPrompt
+	promptName?: string
 
 	// For openInBrowser
 	url?: string
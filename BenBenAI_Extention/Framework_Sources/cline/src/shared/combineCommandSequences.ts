@@ -6,7 +6,8 @@ import { ClineMessage } from "./ExtensionMessage"
  * This function processes an array of ClineMessages objects, looking for sequences
  * where a 'command' message is followed by one or more 'command_output' messages.
  * When such a sequence is found, it combines them into a single message, merging
- * their text contents.
+ * their text contents. A 'command_result' message in the sequence is appended last,
+ * after COMMAND_RESULT_STRING.
  *
  * @param messages - An array of ClineMessage objects to process.
  * @returns A new array of ClineMessage objects with command sequences combined.
@@ -28,6 +29,7 @@ export function combineCommandSequences(messages: ClineMessage[]): ClineMessage[
 		if (messages[i].ask === "command" || messages[i].say === "command") {
 			let combinedText = messages[i].text || ""
 			let didAddOutput = false
+			let commandResult: string | undefined
 			let j = i + 1
 
 			while (j < messages.length) {
@@ -47,8 +49,15 @@ export function combineCommandSequences(messages: ClineMessage[]): ClineMessage[
 						combinedText += "\n" + output
 					}
 				}
+				if (messages[j].say === "command_result") {
+					commandResult = messages[j].text
+				}
 				j++
 			}
+			if (commandResult) {
+				// always last, so it can't be confused with output
+				combinedText += `\n${COMMAND_RESULT_STRING}${commandResult}`
+			}
 
 			combinedCommands.push({
 				...messages[i],
@@ -61,7 +70,7 @@ export function combineCommandSequences(messages: ClineMessage[]): ClineMessage[
 
 	// Second pass: remove command_outputs and replace original commands with combined ones
 	return messages
-		.filter((msg) => !(msg.ask === "command_output" || msg.say === "command_output"))
+		.filter((msg) => !(msg.ask === "command_output" || msg.say === "command_output" || msg.say === "command_result"))
 		.map((msg) => {
 			if (msg.ask === "command" || msg.say === "command") {
 				const combinedCommand = combinedCommands.find((cmd) => cmd.ts === msg.ts)
@@ -72,3 +81,5 @@ export function combineCommandSequences(messages: ClineMessage[]): ClineMessage[
 }
 export const COMMAND_OUTPUT_STRING = "Output:"
 export const COMMAND_REQ_APP_STRING = "REQ_APP"
+export const COMMAND_POLICY_STRING = "CMD_POLICY:"
+export const COMMAND_RESULT_STRING = "CMD_RESULT:"
@@ -2,7 +2,7 @@
 Mention regex:
 - **Purpose**: 
   - To identify and highlight specific mentions in text that start with '@'. 
-  - These mentions can be file paths, URLs, or the exact word 'problems'.
+  - These mentions can be file paths, URLs, symbols ('symbol:' followed by the symbol's name), or the exact word 'problems'.
   - Ensures that trailing punctuation marks (like commas, periods, etc.) are not included in the match, allowing punctuation to follow the mention without being part of it.
 
 - **Regex Breakdown**:
@@ -25,6 +25,8 @@ Mention regex:
 	- `problems\b`: 
       - **Exact Word ('problems')**: Matches the exact word 'problems'.
       - **Word Boundary (`\b`)**: Ensures that 'problems' is matched as a whole word and not as part of another word (e.g., 'problematic').
+    - `symbol:[^\s]+?`:
+      - **Symbol ('symbol:Name')**: Matches a symbol's name, e.g. a class or function, looked up with the workspace symbol provider.
     - `terminal\b`:
       - **Exact Word ('terminal')**: Matches the exact word 'terminal'.
       - **Word Boundary (`\b`)**: Ensures that 'terminal' is matched as a whole word and not as part of another word (e.g., 'terminals').
@@ -40,6 +42,7 @@ Mention regex:
   - The regex effectively matches:
 	- Mentions that are file or folder paths starting with '/' and containing any non-whitespace characters (including periods within the path).
 	- URLs that start with a protocol (like 'http://') followed by any non-whitespace characters (including query parameters).
+	- Symbols, i.e. 'symbol:' followed by the symbol's name.
 	- The exact word 'problems'.
   - The exact word 'terminal'.
 	- The exact word 'git-changes'.
@@ -50,5 +53,5 @@ Mention regex:
 
 */
 export const mentionRegex =
-	/@((?:\/|\w+:\/\/)[^\s]+?|[a-f0-9]{7,40}\b|problems\b|terminal\b|git-changes\b)(?=[.,;:!?]?(?=[\s\r\n]|$))/
+	/@((?:\/|\w+:\/\/)[^\s]+?|symbol:[^\s]+?|[a-f0-9]{7,40}\b|problems\b|terminal\b|git-changes\b)(?=[.,;:!?]?(?=[\s\r\n]|$))/
 export const mentionRegexGlobal = new RegExp(mentionRegex.source, "g")
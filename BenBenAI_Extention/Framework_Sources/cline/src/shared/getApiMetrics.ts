@@ -1,4 +1,4 @@
-import { ClineMessage } from "./ExtensionMessage"
+import { ClineMessage, ClineSubtaskResult } from "./ExtensionMessage"
 
 interface ApiMetrics {
 	totalTokensIn: number
@@ -12,7 +12,7 @@ interface ApiMetrics {
  * Calculates API metrics from an array of ClineMessages.
  *
  * This function processes 'api_req_started' messages that have been combined with their
- * corresponding 'api_req_finished' messages by the combineApiRequests function. It also takes into account 'deleted_api_reqs' messages, which are aggregated from deleted messages.
+ * corresponding 'api_req_finished' messages by the combineApiRequests function. It also takes into account 'deleted_api_reqs' messages, which are aggregated from deleted messages, 'context_compacted' messages, which include the cost of summarizing the compacted range, 'mcp_sampling' messages, which include the cost of answering an MCP server's sampling request, 'mcp_result_summarized' messages, which include the cost of condensing an oversized MCP tool result, and 'subtask_completed' messages, which include the cost of a sub-task started with delegate_task.
  * It extracts and sums up the tokensIn, tokensOut, cacheWrites, cacheReads, and cost from these messages.
  *
  * @param messages - An array of ClineMessage objects to process.
@@ -35,7 +35,16 @@ export function getApiMetrics(messages: ClineMessage[]): ApiMetrics {
 	}
 
 	messages.forEach((message) => {
-		if (message.type === "say" && (message.say === "api_req_started" || message.say === "deleted_api_reqs") && message.text) {
+		if (
+			message.type === "say" &&
+			(message.say === "api_req_started" ||
+				message.say === "deleted_api_reqs" ||
+				message.say === "context_compacted" ||
+				message.say === "mcp_sampling" ||
+				message.say === "mcp_result_summarized" ||
+				message.say === "subtask_completed") &&
+			message.text
+		) {
 			try {
 				const parsedData = JSON.parse(message.text)
 				const { tokensIn, tokensOut, cacheWrites, cacheReads, cost } = parsedData
@@ -63,3 +72,16 @@ export function getApiMetrics(messages: ClineMessage[]): ApiMetrics {
 
 	return result
 }
+
+/**
+ * The combined cost of the task's sub-tasks, from their 'subtask_completed' messages (part of the totalCost getApiMetrics
+ * returns).
+ */
+export function getSubtaskCost(messages: ClineMessage[]): number {
+	return messages.reduce((cost, message) => {
+		if (message.type === "say" && message.say === "subtask_completed" && message.text) {
+			return cost + ((JSON.parse(message.text) as ClineSubtaskResult).cost ?? 0)
+		}
+		return cost
+	}, 0)
+}
@@ -10,8 +10,11 @@ export type McpServer = {
 	tools?: McpTool[]
 	resources?: McpResource[]
 	resourceTemplates?: McpResourceTemplate[]
+	prompts?: McpPrompt[]
 	disabled?: boolean
 	timeout?: number
+	url?: string // set for remote servers
+	secretHeaders?: string[] // the names of the remote server's headers kept in secret storage, never their values
 }
 
 export type McpTool = {
@@ -19,6 +22,7 @@ export type McpTool = {
 	description?: string
 	inputSchema?: object
 	autoApprove?: boolean
+	readOnly?: boolean // from the tool's readOnlyHint annotation
 }
 
 export type McpResource = {
@@ -35,6 +39,45 @@ export type McpResourceTemplate = {
 	mimeType?: string
 }
 
+export type McpPrompt = {
+	name: string
+	description?: string
+	arguments?: McpPromptArgument[]
+}
+
+export type McpPromptArgument = {
+	name: string
+	description?: string
+	required?: boolean
+}
+
+export type McpPromptResponse = {
+	_meta?: Record<string, any>
+	description?: string
+	messages: Array<{
+		role: "user" | "assistant"
+		content:
+			| {
+					type: "text"
+					text: string
+			  }
+			| {
+					type: "image"
+					data: string
+					mimeType: string
+			  }
+			| {
+					type: "resource"
+					resource: {
+						uri: string
+						mimeType?: string
+						text?: string
+						blob?: string
+					}
+			  }
+	}>
+}
+
 export type McpResourceResponse = {
 	_meta?: Record<string, any>
 	contents: Array<{
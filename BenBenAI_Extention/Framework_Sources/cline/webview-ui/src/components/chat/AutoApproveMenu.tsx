@@ -49,6 +49,23 @@ const ACTION_METADATA: {
 	},
 ]
 
+const EDIT_FILE_RULE_METADATA: {
+	id: keyof AutoApprovalSettings["editFileRules"]
+	label: string
+	placeholder: string
+}[] = [
+	{
+		id: "include",
+		label: "Only auto-approve edits to",
+		placeholder: "Any file, e.g. src/**, test/**",
+	},
+	{
+		id: "exclude",
+		label: "Always ask for",
+		placeholder: "e.g. package.json, *.lock, .github/**",
+	},
+]
+
 const AutoApproveMenu = ({ style }: AutoApproveMenuProps) => {
 	const { autoApprovalSettings } = useExtensionState()
 	const [isExpanded, setIsExpanded] = useState(false)
@@ -97,6 +114,25 @@ const AutoApproveMenu = ({ style }: AutoApproveMenuProps) => {
 		[autoApprovalSettings],
 	)
 
+	const updateEditFileRules = useCallback(
+		(rule: keyof AutoApprovalSettings["editFileRules"], value: string) => {
+			vscode.postMessage({
+				type: "autoApprovalSettings",
+				autoApprovalSettings: {
+					...autoApprovalSettings,
+					editFileRules: {
+						...autoApprovalSettings.editFileRules,
+						[rule]: value
+							.split(",")
+							.map((glob) => glob.trim())
+							.filter(Boolean),
+					},
+				},
+			})
+		},
+		[autoApprovalSettings],
+	)
+
 	const updateMaxRequests = useCallback(
 		(maxRequests: number) => {
 			vscode.postMessage({
@@ -238,6 +274,32 @@ const AutoApproveMenu = ({ style }: AutoApproveMenuProps) => {
 								}}>
 								{action.description}
 							</div>
+							{action.id === "editFiles" && autoApprovalSettings.actions.editFiles && (
+								<div style={{ marginLeft: "28px", marginTop: "6px" }}>
+									{EDIT_FILE_RULE_METADATA.map((rule) => (
+										<div key={rule.id} style={{ marginBottom: "6px" }}>
+											<VSCodeTextField
+												value={autoApprovalSettings.editFileRules[rule.id].join(", ")}
+												placeholder={rule.placeholder}
+												// onChange fires once the field loses focus, so commas and spaces can be typed freely
+												onChange={(e) =>
+													updateEditFileRules(rule.id, (e.target as HTMLInputElement).value)
+												}
+												style={{ width: "100%" }}>
+												{rule.label}
+											</VSCodeTextField>
+										</div>
+									))}
+									<div
+										style={{
+											color: getAsVar(VSC_DESCRIPTION_FOREGROUND),
+											fontSize: "12px",
+										}}>
+										Comma-separated globs relative to the workspace, in .gitignore syntax. Once either is set,
+										edits outside the workspace always ask for approval.
+									</div>
+								</div>
+							)}
 						</div>
 					))}
 					<div
@@ -1,4 +1,4 @@
-import { VSCodeBadge, VSCodeProgressRing } from "@vscode/webview-ui-toolkit/react"
+import { VSCodeBadge, VSCodeButton, VSCodeProgressRing } from "@vscode/webview-ui-toolkit/react"
 import deepEqual from "fast-deep-equal"
 import React, { memo, useCallback, useEffect, useMemo, useRef, useState } from "react"
 import { useEvent, useSize } from "react-use"
@@ -6,12 +6,24 @@ import styled from "styled-components"
 import {
 	ClineApiReqInfo,
 	ClineAskUseMcpServer,
+	ClineContextCompaction,
+	ClineMcpResultSummary,
+	ClineMcpSampling,
 	ClineMessage,
+	ClineSayCommandPolicy,
+	ClineSayCommandResult,
 	ClineSayTool,
+	ClineSubtaskResult,
+	CommandPolicyRule,
 	COMPLETION_RESULT_CHANGES_FLAG,
 	ExtensionMessage,
 } from "../../../../src/shared/ExtensionMessage"
-import { COMMAND_OUTPUT_STRING, COMMAND_REQ_APP_STRING } from "../../../../src/shared/combineCommandSequences"
+import {
+	COMMAND_OUTPUT_STRING,
+	COMMAND_POLICY_STRING,
+	COMMAND_REQ_APP_STRING,
+	COMMAND_RESULT_STRING,
+} from "../../../../src/shared/combineCommandSequences"
 import { useExtensionState } from "../../context/ExtensionStateContext"
 import { findMatchingResourceOrTemplate, getMcpServerDisplayName } from "../../utils/mcp"
 import { vscode } from "../../utils/vscode"
@@ -76,6 +88,12 @@ const Markdown = memo(({ markdown }: { markdown?: string }) => {
 	)
 })
 
+const CommandPolicyRuleLabel = ({ rule }: { rule: CommandPolicyRule }) => (
+	<>
+		<code>{rule.pattern}</code> ({rule.source === "workspace" ? ".clinecommands.json" : "global policy"})
+	</>
+)
+
 const ChatRow = memo(
 	(props: ChatRowProps) => {
 		const { isLast, onHeightChange, message, lastModifiedMessage } = props
@@ -133,12 +151,12 @@ export const ChatRowContent = ({ message, isExpanded, onToggleExpand, lastModifi
 	const { mcpServers, mcpMarketplaceCatalog } = useExtensionState()
 	const [seeNewChangesDisabled, setSeeNewChangesDisabled] = useState(false)
 
-	const [cost, apiReqCancelReason, apiReqStreamingFailedMessage] = useMemo(() => {
+	const [cost, apiReqCancelReason, apiReqStreamingFailedMessage, activeRuleFiles, apiFallback] = useMemo(() => {
 		if (message.text != null && message.say === "api_req_started") {
 			const info: ClineApiReqInfo = JSON.parse(message.text)
-			return [info.cost, info.cancelReason, info.streamingFailedMessage]
+			return [info.cost, info.cancelReason, info.streamingFailedMessage, info.activeRuleFiles, info.apiFallback]
 		}
-		return [undefined, undefined, undefined]
+		return [undefined, undefined, undefined, undefined, undefined]
 	}, [message.text, message.say])
 
 	// when resuming task last won't be api_req_failed but a resume_task message so api_req_started will show loading spinner. that's why we just remove the last api_req_started that failed without streaming anything
@@ -205,6 +223,16 @@ export const ChatRowContent = ({ message, isExpanded, onToggleExpand, lastModifi
 						}}></span>,
 					<span style={{ color: errorColor, fontWeight: "bold" }}>Maximum Requests Reached</span>,
 				]
+			case "budget_exceeded":
+				return [
+					<span
+						className="codicon codicon-warning"
+						style={{
+							color: errorColor,
+							marginBottom: "-1.5px",
+						}}></span>,
+					<span style={{ color: errorColor, fontWeight: "bold" }}>Budget Reached</span>,
+				]
 			case "command":
 				return [
 					isCommandExecuting ? (
@@ -232,13 +260,23 @@ export const ChatRowContent = ({ message, isExpanded, onToggleExpand, lastModifi
 								marginBottom: "-1.5px",
 							}}></span>
 					),
-					<span style={{ color: normalColor, fontWeight: "bold", wordBreak: "break-word" }}>
-						Cline wants to {mcpServerUse.type === "use_mcp_tool" ? "use a tool" : "access a resource"} on the{" "}
-						<code style={{ wordBreak: "break-all" }}>
-							{getMcpServerDisplayName(mcpServerUse.serverName, mcpMarketplaceCatalog)}
-						</code>{" "}
-						MCP server:
-					</span>,
+					mcpServerUse.type === "sampling" ? (
+						<span style={{ color: normalColor, fontWeight: "bold", wordBreak: "break-word" }}>
+							The{" "}
+							<code style={{ wordBreak: "break-all" }}>
+								{getMcpServerDisplayName(mcpServerUse.serverName, mcpMarketplaceCatalog)}
+							</code>{" "}
+							MCP server wants a response from the model:
+						</span>
+					) : (
+						<span style={{ color: normalColor, fontWeight: "bold", wordBreak: "break-word" }}>
+							Cline wants to {mcpServerUse.type === "use_mcp_tool" ? "use a tool" : "access a resource"} on the{" "}
+							<code style={{ wordBreak: "break-all" }}>
+								{getMcpServerDisplayName(mcpServerUse.serverName, mcpMarketplaceCatalog)}
+							</code>{" "}
+							MCP server:
+						</span>
+					),
 				]
 			case "completion_result":
 				return [
@@ -505,6 +543,26 @@ export const ChatRowContent = ({ message, isExpanded, onToggleExpand, lastModifi
 						/>
 					</>
 				)
+			case "lookupSymbol":
+				return (
+					<>
+						<div style={headerStyle}>
+							{toolIcon("references")}
+							<span style={{ fontWeight: "bold" }}>
+								{message.type === "ask"
+									? "Cline wants to look up where this symbol is defined and used:"
+									: "Cline looked up where this symbol is defined and used:"}
+							</span>
+						</div>
+						<CodeAccordian
+							code={tool.content!}
+							path={tool.symbol!}
+							language="plaintext"
+							isExpanded={isExpanded}
+							onToggleExpand={onToggleExpand}
+						/>
+					</>
+				)
 			case "searchFiles":
 				return (
 					<>
@@ -523,6 +581,24 @@ export const ChatRowContent = ({ message, isExpanded, onToggleExpand, lastModifi
 						/>
 					</>
 				)
+			case "delegateTask":
+				return (
+					<>
+						<div style={headerStyle}>
+							{toolIcon("type-hierarchy-sub")}
+							<span style={{ fontWeight: "bold" }}>
+								{message.type === "ask" ? "Cline wants to delegate a sub-task" : "Cline delegated a sub-task"}
+								{tool.mode || tool.model
+									? ` (${[tool.mode && `${tool.mode} mode`, tool.model].filter(Boolean).join(", ")})`
+									: ""}
+								:
+							</span>
+						</div>
+						<div style={{ paddingTop: 10 }}>
+							<Markdown markdown={tool.content} />
+						</div>
+					</>
+				)
 			default:
 				return null
 		}
@@ -558,16 +634,71 @@ export const ChatRowContent = ({ message, isExpanded, onToggleExpand, lastModifi
 			}
 		}
 
-		const { command: rawCommand, output } = splitMessage(message.text || "")
+		const splitResult = (text: string): { text: string; result?: ClineSayCommandResult } => {
+			const resultIndex = text.lastIndexOf(COMMAND_RESULT_STRING)
+			if (resultIndex === -1) {
+				return { text }
+			}
+			try {
+				return {
+					text: text.slice(0, resultIndex).trimEnd(),
+					result: JSON.parse(text.slice(resultIndex + COMMAND_RESULT_STRING.length)),
+				}
+			} catch {
+				return { text }
+			}
+		}
+
+		const { text: commandText, result: commandResult } = splitResult(message.text || "")
+		const { command: rawCommand, output } = splitMessage(commandText)
 
 		const requestsApproval = rawCommand.endsWith(COMMAND_REQ_APP_STRING)
-		const command = requestsApproval ? rawCommand.slice(0, -COMMAND_REQ_APP_STRING.length) : rawCommand
+		const commandWithPolicy = requestsApproval ? rawCommand.slice(0, -COMMAND_REQ_APP_STRING.length) : rawCommand
+		const splitPolicy = (text: string): { command: string; policy?: ClineSayCommandPolicy } => {
+			const policyIndex = text.lastIndexOf(COMMAND_POLICY_STRING)
+			if (policyIndex === -1) {
+				return { command: text }
+			}
+			try {
+				return {
+					command: text.slice(0, policyIndex),
+					policy: JSON.parse(text.slice(policyIndex + COMMAND_POLICY_STRING.length)),
+				}
+			} catch {
+				// the command's own text contains the marker
+				return { command: text }
+			}
+		}
+
+		const { command, policy: commandPolicy } = splitPolicy(commandWithPolicy)
 
 		return (
 			<>
 				<div style={headerStyle}>
 					{icon}
 					{title}
+					{commandResult && (
+						<span
+							title={commandResult.exitCode !== undefined ? `Exit code ${commandResult.exitCode}` : undefined}
+							style={{
+								marginLeft: "auto",
+								fontWeight: "normal",
+								fontSize: "12px",
+								color:
+									commandResult.exitCode === undefined
+										? "var(--vscode-descriptionForeground)"
+										: commandResult.exitCode === 0
+											? successColor
+											: errorColor,
+							}}>
+							{[
+								commandResult.exitCode !== undefined && `exit ${commandResult.exitCode}`,
+								`${(commandResult.durationMs / 1000).toFixed(1)}s`,
+							]
+								.filter(Boolean)
+								.join(" · ")}
+						</span>
+					)}
 				</div>
 				<div
 					style={{
@@ -611,6 +742,44 @@ export const ChatRowContent = ({ message, isExpanded, onToggleExpand, lastModifi
 						<span>The model has determined this command requires explicit approval.</span>
 					</div>
 				)}
+				{commandPolicy && (
+					<div
+						style={{
+							display: "flex",
+							alignItems: "center",
+							gap: 10,
+							padding: 8,
+							fontSize: "12px",
+							color:
+								commandPolicy.decision === "allow"
+									? "var(--vscode-descriptionForeground)"
+									: "var(--vscode-editorWarning-foreground)",
+						}}>
+						<i className="codicon codicon-shield"></i>
+						{commandPolicy.decision === "allow" ? (
+							<span>
+								Auto-approved by the command policy:{" "}
+								{commandPolicy.rules.map((rule, index) => (
+									<React.Fragment key={index}>
+										{index > 0 && ", "}
+										<CommandPolicyRuleLabel rule={rule} />
+									</React.Fragment>
+								))}
+							</span>
+						) : (
+							<span>
+								The command policy requires approval
+								{commandPolicy.command && (
+									<>
+										{" "}
+										for <code>{commandPolicy.command}</code>
+									</>
+								)}
+								. {commandPolicy.reason}
+							</span>
+						)}
+					</div>
+				)}
 			</>
 		)
 	}
@@ -632,6 +801,15 @@ export const ChatRowContent = ({ message, isExpanded, onToggleExpand, lastModifi
 						padding: "8px 10px",
 						marginTop: "8px",
 					}}>
+					{useMcpServer.type === "sampling" && (
+						<CodeAccordian
+							code={useMcpServer.prompt || ""}
+							language="markdown"
+							isExpanded={true}
+							onToggleExpand={onToggleExpand}
+						/>
+					)}
+
 					{useMcpServer.type === "access_mcp_resource" && (
 						<McpResourceRow
 							item={{
@@ -788,6 +966,40 @@ export const ChatRowContent = ({ message, isExpanded, onToggleExpand, lastModifi
 								</>
 							)}
 
+							{apiFallback && (
+								<div
+									title={apiFallback.reason}
+									style={{
+										marginTop: "10px",
+										display: "flex",
+										alignItems: "flex-start",
+										gap: "6px",
+										fontSize: "12px",
+										color: "var(--vscode-descriptionForeground)",
+									}}>
+									<span className="codicon codicon-debug-step-over" style={{ marginTop: "1px" }}></span>
+									<span style={{ wordBreak: "break-word" }}>
+										{`Served by fallback profile "${apiFallback.profileName}" (${apiFallback.apiProvider ?? "anthropic"}: ${apiFallback.modelId})`}
+										{isExpanded && ` after the previous provider failed: ${apiFallback.reason}`}
+									</span>
+								</div>
+							)}
+
+							{isExpanded && activeRuleFiles && activeRuleFiles.length > 0 && (
+								<div
+									style={{
+										marginTop: "10px",
+										display: "flex",
+										alignItems: "flex-start",
+										gap: "6px",
+										fontSize: "12px",
+										color: "var(--vscode-descriptionForeground)",
+									}}>
+									<span className="codicon codicon-book" style={{ marginTop: "1px" }}></span>
+									<span style={{ wordBreak: "break-all" }}>Active rules: {activeRuleFiles.join(", ")}</span>
+								</div>
+							)}
+
 							{isExpanded && (
 								<div style={{ marginTop: "10px" }}>
 									<CodeAccordian
@@ -803,7 +1015,79 @@ export const ChatRowContent = ({ message, isExpanded, onToggleExpand, lastModifi
 				case "api_req_finished":
 					return null // we should never see this message type
 				case "mcp_server_response":
-					return <McpResponseDisplay responseText={message.text || ""} />
+					return (
+						<>
+							<McpResponseDisplay responseText={message.text || ""} />
+							{message.images && message.images.length > 0 && (
+								<Thumbnails images={message.images} style={{ marginTop: "8px" }} />
+							)}
+						</>
+					)
+				case "mcp_sampling":
+					const sampling = JSON.parse(message.text || "{}") as ClineMcpSampling
+					return (
+						<>
+							<div style={{ ...headerStyle, marginBottom: message.partial ? 0 : 10 }}>
+								{message.partial ? (
+									<ProgressIndicator />
+								) : (
+									<span
+										className={`codicon codicon-${sampling.error ? "error" : "sparkle"}`}
+										style={{
+											color: sampling.error ? errorColor : normalColor,
+											marginBottom: "-1.5px",
+										}}></span>
+								)}
+								<span style={{ color: sampling.error ? errorColor : normalColor, fontWeight: "bold" }}>
+									{message.partial
+										? "Generating a response for the MCP server..."
+										: sampling.error
+											? "Model Response Failed"
+											: "Model Response for the MCP server:"}
+								</span>
+								<VSCodeBadge
+									style={{
+										opacity: sampling.cost != null && sampling.cost > 0 ? 1 : 0,
+									}}>
+									${Number(sampling.cost || 0)?.toFixed(4)}
+								</VSCodeBadge>
+							</div>
+							{sampling.error && <p style={{ ...pStyle, color: errorColor }}>{sampling.error}</p>}
+							{sampling.response && <Markdown markdown={sampling.response} />}
+						</>
+					)
+				case "mcp_result_summarized":
+					const resultSummary = JSON.parse(message.text || "{}") as ClineMcpResultSummary
+					return (
+						<>
+							<div style={{ ...headerStyle, marginBottom: resultSummary.error ? 10 : 0 }}>
+								{message.partial ? (
+									<ProgressIndicator />
+								) : (
+									<span
+										className={`codicon codicon-${resultSummary.error ? "warning" : "fold"}`}
+										style={{
+											color: resultSummary.error ? "var(--vscode-editorWarning-foreground)" : normalColor,
+											marginBottom: "-1.5px",
+										}}></span>
+								)}
+								<span style={{ color: normalColor, fontWeight: "bold" }}>
+									{message.partial
+										? `Summarizing the response of ${resultSummary.toolName}...`
+										: resultSummary.error
+											? "MCP Response Truncated"
+											: `MCP Response Summarized (${resultSummary.resultLength.toLocaleString()} characters)`}
+								</span>
+								<VSCodeBadge
+									style={{
+										opacity: resultSummary.cost != null && resultSummary.cost > 0 ? 1 : 0,
+									}}>
+									${Number(resultSummary.cost || 0)?.toFixed(4)}
+								</VSCodeBadge>
+							</div>
+							{resultSummary.error && <p style={{ ...pStyle, color: errorColor }}>{resultSummary.error}</p>}
+						</>
+					)
 				case "text":
 					return (
 						<div>
@@ -998,6 +1282,185 @@ export const ChatRowContent = ({ message, isExpanded, onToggleExpand, lastModifi
 							</div>
 						</>
 					)
+				case "command_policy_error":
+					const deniedCommand = JSON.parse(message.text || "{}") as ClineSayCommandPolicy
+					return (
+						<>
+							<div
+								style={{
+									display: "flex",
+									flexDirection: "column",
+									backgroundColor: "rgba(255, 191, 0, 0.1)",
+									padding: 8,
+									borderRadius: 3,
+									fontSize: 12,
+								}}>
+								<div
+									style={{
+										display: "flex",
+										alignItems: "center",
+										marginBottom: 4,
+									}}>
+									<i
+										className="codicon codicon-error"
+										style={{
+											marginRight: 8,
+											fontSize: 18,
+											color: "#FFA500",
+										}}></i>
+									<span
+										style={{
+											fontWeight: 500,
+											color: "#FFA500",
+										}}>
+										Command Blocked
+									</span>
+								</div>
+								<div>
+									Cline tried to run <code>{deniedCommand.command}</code> which is blocked by the rule{" "}
+									{deniedCommand.rules[0] && <CommandPolicyRuleLabel rule={deniedCommand.rules[0]} />}.
+								</div>
+							</div>
+						</>
+					)
+				case "context_compacted":
+					const compaction = JSON.parse(message.text || "{}") as ClineContextCompaction
+					const compactedMessageCount = compaction.deletedRange
+						? compaction.deletedRange[1] - compaction.deletedRange[0] + 1
+						: 0
+					return (
+						<>
+							<div
+								style={{
+									...headerStyle,
+									marginBottom: 0,
+									justifyContent: "space-between",
+									cursor: compaction.summary ? "pointer" : "default",
+									userSelect: "none",
+									WebkitUserSelect: "none",
+									MozUserSelect: "none",
+									msUserSelect: "none",
+								}}
+								onClick={compaction.summary ? onToggleExpand : undefined}>
+								<div
+									style={{
+										display: "flex",
+										alignItems: "center",
+										gap: "10px",
+									}}>
+									{message.partial ? (
+										<ProgressIndicator />
+									) : (
+										<span
+											className={`codicon codicon-${compaction.error ? "warning" : "fold"}`}
+											style={{
+												color: compaction.error ? "var(--vscode-editorWarning-foreground)" : normalColor,
+												marginBottom: "-1.5px",
+											}}></span>
+									)}
+									<span style={{ color: normalColor, fontWeight: "bold" }}>
+										{message.partial
+											? "Summarizing earlier messages..."
+											: compaction.error
+												? "Context Truncated"
+												: `Context Compacted (${compactedMessageCount} messages summarized)`}
+									</span>
+									<VSCodeBadge
+										style={{
+											opacity: compaction.cost != null && compaction.cost > 0 ? 1 : 0,
+										}}>
+										${Number(compaction.cost || 0)?.toFixed(4)}
+									</VSCodeBadge>
+								</div>
+								{compaction.summary && (
+									<span className={`codicon codicon-chevron-${isExpanded ? "up" : "down"}`}></span>
+								)}
+							</div>
+							{compaction.error && (
+								<p
+									style={{
+										...pStyle,
+										marginTop: 10,
+										color: "var(--vscode-descriptionForeground)",
+									}}>
+									Summarization failed, so the earlier messages were removed without a summary:{" "}
+									{compaction.error}
+								</p>
+							)}
+							{isExpanded && compaction.summary && (
+								<div style={{ marginTop: "10px" }}>
+									<CodeAccordian
+										code={compaction.summary}
+										language="markdown"
+										isExpanded={true}
+										onToggleExpand={onToggleExpand}
+									/>
+								</div>
+							)}
+						</>
+					)
+				case "subtask_completed":
+					const subtask = JSON.parse(message.text || "{}") as ClineSubtaskResult
+					const wasSubtaskCancelled = subtask.result === undefined
+					// opening the sub-task replaces this task, which would abort it while it's still running
+					const isTaskRunning = !(
+						lastModifiedMessage?.type === "ask" &&
+						!lastModifiedMessage.partial &&
+						(lastModifiedMessage.ask === "completion_result" ||
+							lastModifiedMessage.ask === "resume_task" ||
+							lastModifiedMessage.ask === "resume_completed_task")
+					)
+					return (
+						<>
+							<div
+								style={{
+									...headerStyle,
+									marginBottom: wasSubtaskCancelled ? 0 : "10px",
+									justifyContent: "space-between",
+								}}>
+								<div
+									style={{
+										display: "flex",
+										alignItems: "center",
+										gap: "10px",
+									}}>
+									<span
+										className={`codicon codicon-${wasSubtaskCancelled ? "circle-slash" : "type-hierarchy-sub"}`}
+										style={{
+											color: wasSubtaskCancelled ? cancelledColor : successColor,
+											marginBottom: "-1.5px",
+										}}></span>
+									<span
+										style={{
+											color: wasSubtaskCancelled ? cancelledColor : successColor,
+											fontWeight: "bold",
+										}}>
+										{wasSubtaskCancelled ? "Sub-task Cancelled" : "Sub-task Completed"}
+									</span>
+									<VSCodeBadge
+										style={{
+											opacity: subtask.cost != null && subtask.cost > 0 ? 1 : 0,
+										}}>
+										${Number(subtask.cost || 0)?.toFixed(4)}
+									</VSCodeBadge>
+								</div>
+								<VSCodeButton
+									appearance="icon"
+									title={
+										isTaskRunning ? "The sub-task can be viewed once this task is finished" : "View sub-task"
+									}
+									disabled={isTaskRunning}
+									onClick={() => vscode.postMessage({ type: "showTaskWithId", text: subtask.taskId })}>
+									<span className="codicon codicon-link-external"></span>
+								</VSCodeButton>
+							</div>
+							{!wasSubtaskCancelled && (
+								<div style={{ color: "var(--vscode-descriptionForeground)" }}>
+									<Markdown markdown={subtask.result} />
+								</div>
+							)}
+						</>
+					)
 				case "checkpoint_created":
 					return (
 						<>
@@ -1130,6 +1593,7 @@ export const ChatRowContent = ({ message, isExpanded, onToggleExpand, lastModifi
 						</>
 					)
 				case "auto_approval_max_req_reached":
+				case "budget_exceeded":
 					return (
 						<>
 							<div style={headerStyle}>
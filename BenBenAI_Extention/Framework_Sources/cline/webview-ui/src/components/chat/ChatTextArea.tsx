@@ -8,11 +8,14 @@ import { ExtensionMessage } from "../../../../src/shared/ExtensionMessage"
 import { useExtensionState } from "../../context/ExtensionStateContext"
 import {
 	ContextMenuOptionType,
+	ContextMenuQueryItem,
 	getContextMenuOptions,
+	getSymbolSearchQuery,
 	insertMention,
 	removeMention,
 	shouldShowContextMenu,
 } from "../../utils/context-mentions"
+import { getSlashCommandOptions, getSlashCommands, shouldShowSlashCommandMenu, SlashCommand } from "../../utils/slash-commands"
 import { useMetaKeyDetection, useShortcut } from "../../utils/hooks"
 import { validateApiConfiguration, validateModelId } from "../../utils/validate"
 import { vscode } from "../../utils/vscode"
@@ -22,6 +25,7 @@ import Tooltip from "../common/Tooltip"
 import ApiOptions, { normalizeApiConfiguration } from "../settings/ApiOptions"
 import { MAX_IMAGES_PER_MESSAGE } from "./ChatView"
 import ContextMenu from "./ContextMenu"
+import SlashCommandMenu from "./SlashCommandMenu"
 import { ChatSettings } from "../../../../src/shared/ChatSettings"
 
 interface ChatTextAreaProps {
@@ -214,9 +218,11 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 		},
 		ref,
 	) => {
-		const { filePaths, chatSettings, apiConfiguration, openRouterModels, platform } = useExtensionState()
+		const { filePaths, chatSettings, apiConfiguration, openRouterModels, platform, mcpServers } = useExtensionState()
 		const [isTextAreaFocused, setIsTextAreaFocused] = useState(false)
 		const [gitCommits, setGitCommits] = useState<any[]>([])
+		const [workspaceSymbols, setWorkspaceSymbols] = useState<ContextMenuQueryItem[]>([])
+		const symbolSearchQueryRef = useRef<string | undefined>(undefined)
 
 		const [thumbnailsHeight, setThumbnailsHeight] = useState(0)
 		const [textAreaBaseHeight, setTextAreaBaseHeight] = useState<number | undefined>(undefined)
@@ -230,6 +236,9 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 		const [selectedType, setSelectedType] = useState<ContextMenuOptionType | null>(null)
 		const [justDeletedSpaceAfterMention, setJustDeletedSpaceAfterMention] = useState(false)
 		const [intendedCursorPosition, setIntendedCursorPosition] = useState<number | null>(null)
+		const [showSlashCommandMenu, setShowSlashCommandMenu] = useState(false)
+		const [slashCommandQuery, setSlashCommandQuery] = useState("")
+		const [selectedSlashCommandIndex, setSelectedSlashCommandIndex] = useState(0)
 		const contextMenuContainerRef = useRef<HTMLDivElement>(null)
 		const [showModelSelector, setShowModelSelector] = useState(false)
 		const modelSelectorRef = useRef<HTMLDivElement>(null)
@@ -254,6 +263,21 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 			}
 		}, [selectedType, searchQuery])
 
+		// Search workspace symbols when Symbols is selected or when typing @symbol:
+		useEffect(() => {
+			const symbolSearchQuery = getSymbolSearchQuery(searchQuery, selectedType)
+			symbolSearchQueryRef.current = symbolSearchQuery
+			if (symbolSearchQuery !== undefined) {
+				vscode.postMessage({
+					type: "searchSymbols",
+					text: symbolSearchQuery,
+				})
+			} else {
+				// keeps earlier results out of the other searches
+				setWorkspaceSymbols((symbols) => (symbols.length > 0 ? [] : symbols))
+			}
+		}, [selectedType, searchQuery])
+
 		const handleMessage = useCallback((event: MessageEvent) => {
 			const message: ExtensionMessage = event.data
 			switch (message.type) {
@@ -268,6 +292,28 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 					setGitCommits(commits)
 					break
 				}
+				case "symbolSearchResults": {
+					// the searches run concurrently, so results for an earlier query may arrive last
+					if ((message.text ?? "") !== symbolSearchQueryRef.current) {
+						break
+					}
+					// a mention covers every symbol with the name, so each name is offered once
+					const symbols = new Map<string, ContextMenuQueryItem>()
+					for (const symbol of message.symbols ?? []) {
+						// some providers include the signature in the name, and mentions can't contain whitespace
+						const name = symbol.name.replace(/\(.*$/, "")
+						if (name && !/\s/.test(name) && !symbols.has(name)) {
+							symbols.set(name, {
+								type: ContextMenuOptionType.Symbol,
+								value: `symbol:${name}`,
+								label: symbol.containerName ? `${name} (${symbol.containerName})` : name,
+								description: `${symbol.kind} in ${symbol.path}:${symbol.line}`,
+							})
+						}
+					}
+					setWorkspaceSymbols(Array.from(symbols.values()))
+					break
+				}
 			}
 		}, [])
 
@@ -278,6 +324,7 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 				{ type: ContextMenuOptionType.Problems, value: "problems" },
 				{ type: ContextMenuOptionType.Terminal, value: "terminal" },
 				...gitCommits,
+				...workspaceSymbols,
 				...filePaths
 					.map((file) => "/" + file)
 					.map((path) => ({
@@ -285,7 +332,13 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 						value: path,
 					})),
 			]
-		}, [filePaths, gitCommits])
+		}, [filePaths, gitCommits, workspaceSymbols])
+
+		const slashCommands = useMemo(() => getSlashCommands(mcpServers), [mcpServers])
+		const slashCommandOptions = useMemo(
+			() => getSlashCommandOptions(slashCommandQuery, slashCommands),
+			[slashCommandQuery, slashCommands],
+		)
 
 		useEffect(() => {
 			const handleClickOutside = (event: MouseEvent) => {
@@ -312,7 +365,8 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 				if (
 					type === ContextMenuOptionType.File ||
 					type === ContextMenuOptionType.Folder ||
-					type === ContextMenuOptionType.Git
+					type === ContextMenuOptionType.Git ||
+					type === ContextMenuOptionType.Symbol
 				) {
 					if (!value) {
 						setSelectedType(type)
@@ -334,7 +388,7 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 						insertValue = "problems"
 					} else if (type === ContextMenuOptionType.Terminal) {
 						insertValue = "terminal"
-					} else if (type === ContextMenuOptionType.Git) {
+					} else if (type === ContextMenuOptionType.Git || type === ContextMenuOptionType.Symbol) {
 						insertValue = value || ""
 					}
 
@@ -358,8 +412,46 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 			[setInputValue, cursorPosition],
 		)
 
+		// the typed command is replaced by the prompt once the extension has asked for its arguments and fetched it
+		const handleSlashCommandSelect = useCallback(
+			(command: SlashCommand) => {
+				setShowSlashCommandMenu(false)
+				if (textAreaRef.current) {
+					setInputValue(textAreaRef.current.value.slice(cursorPosition).trimStart())
+					setCursorPosition(0)
+					setIntendedCursorPosition(0)
+				}
+				vscode.postMessage({
+					type: "insertMcpPrompt",
+					serverName: command.serverName,
+					promptName: command.promptName,
+				})
+			},
+			[setInputValue, cursorPosition],
+		)
+
 		const handleKeyDown = useCallback(
 			(event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+				if (showSlashCommandMenu) {
+					if (event.key === "Escape") {
+						setShowSlashCommandMenu(false)
+						return
+					}
+					if ((event.key === "ArrowUp" || event.key === "ArrowDown") && slashCommandOptions.length > 0) {
+						event.preventDefault()
+						const direction = event.key === "ArrowUp" ? -1 : 1
+						setSelectedSlashCommandIndex(
+							(prevIndex) => (prevIndex + direction + slashCommandOptions.length) % slashCommandOptions.length,
+						)
+						return
+					}
+					if ((event.key === "Enter" || event.key === "Tab") && slashCommandOptions[selectedSlashCommandIndex]) {
+						event.preventDefault()
+						handleSlashCommandSelect(slashCommandOptions[selectedSlashCommandIndex])
+						return
+					}
+				}
+
 				if (showContextMenu) {
 					if (event.key === "Escape") {
 						// event.preventDefault()
@@ -465,6 +557,10 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 				setInputValue,
 				justDeletedSpaceAfterMention,
 				queryItems,
+				showSlashCommandMenu,
+				slashCommandOptions,
+				selectedSlashCommandIndex,
+				handleSlashCommandSelect,
 			],
 		)
 
@@ -497,8 +593,16 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 					setSearchQuery("")
 					setSelectedMenuIndex(-1)
 				}
+
+				const showSlashMenu =
+					!showMenu && slashCommands.length > 0 && shouldShowSlashCommandMenu(newValue, newCursorPosition)
+				setShowSlashCommandMenu(showSlashMenu)
+				if (showSlashMenu) {
+					setSlashCommandQuery(newValue.slice(1, newCursorPosition))
+					setSelectedSlashCommandIndex(0)
+				}
 			},
-			[setInputValue],
+			[setInputValue, slashCommands],
 		)
 
 		useEffect(() => {
@@ -511,6 +615,7 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 			// Only hide the context menu if the user didn't click on it
 			if (!isMouseDownOnMenu) {
 				setShowContextMenu(false)
+				setShowSlashCommandMenu(false)
 			}
 			setIsTextAreaFocused(false)
 		}, [isMouseDownOnMenu])
@@ -901,6 +1006,15 @@ const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 							/>
 						</div>
 					)}
+					{showSlashCommandMenu && (
+						<SlashCommandMenu
+							options={slashCommandOptions}
+							onSelect={handleSlashCommandSelect}
+							onMouseDown={handleMenuMouseDown}
+							selectedIndex={selectedSlashCommandIndex}
+							setSelectedIndex={setSelectedSlashCommandIndex}
+						/>
+					)}
 					{!isTextAreaFocused && (
 						<div
 							style={{
@@ -12,7 +12,7 @@ import {
 	ClineSayTool,
 	ExtensionMessage,
 } from "../../../../src/shared/ExtensionMessage"
-import { findLast } from "../../../../src/shared/array"
+import { findLast, findLastIndex } from "../../../../src/shared/array"
 import { combineApiRequests } from "../../../../src/shared/combineApiRequests"
 import { combineCommandSequences } from "../../../../src/shared/combineCommandSequences"
 import { getApiMetrics } from "../../../../src/shared/getApiMetrics"
@@ -77,6 +77,7 @@ const ChatView = ({ isHidden, showAnnouncement, hideAnnouncement, showHistoryVie
 	const disableAutoScrollRef = useRef(false)
 	const [showScrollToBottom, setShowScrollToBottom] = useState(false)
 	const [isAtBottom, setIsAtBottom] = useState(false)
+	const [scrollToMessageTs, setScrollToMessageTs] = useState<number | undefined>(undefined)
 
 	// UI layout depends on the last 2 messages
 	// (since it relies on the content of these messages, we are deep comparing. i.e. the button state after hitting button sets enableButtons to false, and this effect otherwise would have to true again even if messages didn't change
@@ -112,6 +113,13 @@ const ChatView = ({ isHidden, showAnnouncement, hideAnnouncement, showHistoryVie
 							setPrimaryButtonText("Proceed")
 							setSecondaryButtonText("Start New Task")
 							break
+						case "budget_exceeded":
+							setTextAreaDisabled(true)
+							setClineAsk("budget_exceeded")
+							setEnableButtons(true)
+							setPrimaryButtonText("Proceed")
+							setSecondaryButtonText("Start New Task")
+							break
 						case "followup":
 							setTextAreaDisabled(isPartial)
 							setClineAsk("followup")
@@ -137,6 +145,10 @@ const ChatView = ({ isHidden, showAnnouncement, hideAnnouncement, showHistoryVie
 									setPrimaryButtonText("Save")
 									setSecondaryButtonText("Reject")
 									break
+								case "delegateTask":
+									setPrimaryButtonText("Start Sub-task")
+									setSecondaryButtonText("Reject")
+									break
 								default:
 									setPrimaryButtonText("Approve")
 									setSecondaryButtonText("Reject")
@@ -222,6 +234,8 @@ const ChatView = ({ isHidden, showAnnouncement, hideAnnouncement, showHistoryVie
 						case "command_output":
 						case "mcp_server_request_started":
 						case "mcp_server_response":
+						case "mcp_sampling":
+						case "mcp_result_summarized":
 						case "completion_result":
 						case "tool":
 							break
@@ -338,6 +352,7 @@ const ChatView = ({ isHidden, showAnnouncement, hideAnnouncement, showHistoryVie
 				case "resume_task":
 				case "mistake_limit_reached":
 				case "auto_approval_max_req_reached":
+				case "budget_exceeded":
 					if (trimmedInput || (images && images.length > 0)) {
 						vscode.postMessage({
 							type: "askResponse",
@@ -384,6 +399,7 @@ const ChatView = ({ isHidden, showAnnouncement, hideAnnouncement, showHistoryVie
 				case "api_req_failed":
 				case "mistake_limit_reached":
 				case "auto_approval_max_req_reached":
+				case "budget_exceeded":
 					startNewTask()
 					break
 				case "command":
@@ -465,6 +481,18 @@ const ChatView = ({ isHidden, showAnnouncement, hideAnnouncement, showHistoryVie
 							handleSecondaryButtonClick(message.text ?? "", message.images ?? [])
 							break
 					}
+					break
+				case "scrollToMessage":
+					setScrollToMessageTs(message.messageTs)
+					break
+				case "mcpPrompt":
+					// an MCP prompt picked from the slash command menu, added to whatever is already typed
+					setInputValue((prevValue) => (prevValue.trim() ? `${prevValue.trimEnd()}\n\n` : "") + (message.text ?? ""))
+					if (message.images?.length) {
+						setSelectedImages((prevImages) => [...prevImages, ...message.images!].slice(0, MAX_IMAGES_PER_MESSAGE))
+					}
+					textAreaRef.current?.focus()
+					break
 			}
 			// textAreaRef.current is not explicitly required here since react guarantees that ref will be stable across re-renders, and we're not using its value but its reference.
 		},
@@ -713,6 +741,20 @@ const ChatView = ({ isHidden, showAnnouncement, hideAnnouncement, showHistoryVie
 	}, [])
 	useEvent("wheel", handleWheel, window, { passive: true }) // passive improves scrolling performance
 
+	// wait until the task with the message has been loaded, then scroll to the row containing it
+	useEffect(() => {
+		if (scrollToMessageTs === undefined || !messages.some((m) => m.ts === scrollToMessageTs)) {
+			return
+		}
+		const index = findLastIndex(groupedMessages, (group) => (Array.isArray(group) ? group[0] : group).ts <= scrollToMessageTs)
+		setScrollToMessageTs(undefined)
+		disableAutoScrollRef.current = true
+		// after the scroll to the bottom for the newly loaded messages, and not cleaned up since clearing the target re-runs this
+		setTimeout(() => {
+			virtuosoRef.current?.scrollToIndex({ index: Math.max(0, index), align: "center" })
+		}, 100)
+	}, [scrollToMessageTs, messages, groupedMessages])
+
 	const placeholderText = useMemo(() => {
 		const text = task ? "Type a message..." : "Type your task here..."
 		return text
@@ -75,6 +75,27 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
 				} else {
 					return <span>Git Commits</span>
 				}
+			case ContextMenuOptionType.Symbol:
+				if (option.value) {
+					return (
+						<div style={{ display: "flex", flexDirection: "column", gap: 0, minWidth: 0 }}>
+							<span style={{ lineHeight: "1.2" }}>{option.label}</span>
+							<span
+								style={{
+									fontSize: "0.85em",
+									opacity: 0.7,
+									whiteSpace: "nowrap",
+									overflow: "hidden",
+									textOverflow: "ellipsis",
+									lineHeight: "1.2",
+								}}>
+								{option.description}
+							</span>
+						</div>
+					)
+				} else {
+					return <span>Symbols</span>
+				}
 			case ContextMenuOptionType.File:
 			case ContextMenuOptionType.Folder:
 				if (option.value) {
@@ -114,6 +135,8 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
 				return "link"
 			case ContextMenuOptionType.Git:
 				return "git-commit"
+			case ContextMenuOptionType.Symbol:
+				return "symbol-class"
 			case ContextMenuOptionType.NoResults:
 				return "info"
 			default:
@@ -190,7 +213,8 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
 						</div>
 						{(option.type === ContextMenuOptionType.File ||
 							option.type === ContextMenuOptionType.Folder ||
-							option.type === ContextMenuOptionType.Git) &&
+							option.type === ContextMenuOptionType.Git ||
+							option.type === ContextMenuOptionType.Symbol) &&
 							!option.value && (
 								<i
 									className="codicon codicon-chevron-right"
@@ -205,7 +229,8 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
 							option.type === ContextMenuOptionType.Terminal ||
 							((option.type === ContextMenuOptionType.File ||
 								option.type === ContextMenuOptionType.Folder ||
-								option.type === ContextMenuOptionType.Git) &&
+								option.type === ContextMenuOptionType.Git ||
+								option.type === ContextMenuOptionType.Symbol) &&
 								option.value)) && (
 							<i
 								className="codicon codicon-add"
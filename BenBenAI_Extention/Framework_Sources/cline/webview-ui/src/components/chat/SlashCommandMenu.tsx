@@ -0,0 +1,97 @@
+import React, { useEffect, useRef } from "react"
+import { getSlashCommandName, SlashCommand } from "../../utils/slash-commands"
+
+interface SlashCommandMenuProps {
+	options: SlashCommand[]
+	onSelect: (command: SlashCommand) => void
+	onMouseDown: () => void
+	selectedIndex: number
+	setSelectedIndex: (index: number) => void
+}
+
+const SlashCommandMenu: React.FC<SlashCommandMenuProps> = ({
+	options,
+	onSelect,
+	onMouseDown,
+	selectedIndex,
+	setSelectedIndex,
+}) => {
+	const menuRef = useRef<HTMLDivElement>(null)
+
+	useEffect(() => {
+		const selectedElement = menuRef.current?.children[selectedIndex] as HTMLElement | undefined
+		selectedElement?.scrollIntoView({ block: "nearest" })
+	}, [selectedIndex])
+
+	return (
+		<div
+			style={{
+				position: "absolute",
+				bottom: "calc(100% - 10px)",
+				left: 15,
+				right: 15,
+				overflowX: "hidden",
+			}}
+			onMouseDown={onMouseDown}>
+			<div
+				ref={menuRef}
+				style={{
+					backgroundColor: "var(--vscode-dropdown-background)",
+					border: "1px solid var(--vscode-editorGroup-border)",
+					borderRadius: "3px",
+					boxShadow: "0 4px 10px rgba(0, 0, 0, 0.25)",
+					zIndex: 1000,
+					display: "flex",
+					flexDirection: "column",
+					maxHeight: "200px",
+					overflowY: "auto",
+				}}>
+				{options.length === 0 && (
+					<div style={{ padding: "8px 12px", display: "flex", alignItems: "center" }}>
+						<i className="codicon codicon-info" style={{ marginRight: "8px", fontSize: "14px" }} />
+						<span>No matching MCP prompts</span>
+					</div>
+				)}
+				{options.map((option, index) => (
+					<div
+						key={getSlashCommandName(option)}
+						onClick={() => onSelect(option)}
+						onMouseEnter={() => setSelectedIndex(index)}
+						style={{
+							padding: "8px 12px",
+							cursor: "pointer",
+							color: index === selectedIndex ? "var(--vscode-quickInputList-focusForeground)" : "",
+							backgroundColor: index === selectedIndex ? "var(--vscode-quickInputList-focusBackground)" : "",
+							borderBottom: "1px solid var(--vscode-editorGroup-border)",
+							display: "flex",
+							alignItems: "center",
+							minWidth: 0,
+						}}>
+						<i
+							className="codicon codicon-comment-discussion"
+							style={{ marginRight: "8px", flexShrink: 0, fontSize: "14px" }}
+						/>
+						<div style={{ display: "flex", flexDirection: "column", gap: 0, minWidth: 0 }}>
+							<span style={{ lineHeight: "1.2" }}>/{getSlashCommandName(option)}</span>
+							{option.description && (
+								<span
+									style={{
+										fontSize: "0.85em",
+										opacity: 0.7,
+										whiteSpace: "nowrap",
+										overflow: "hidden",
+										textOverflow: "ellipsis",
+										lineHeight: "1.2",
+									}}>
+									{option.description}
+								</span>
+							)}
+						</div>
+					</div>
+				))}
+			</div>
+		</div>
+	)
+}
+
+export default SlashCommandMenu
@@ -1,14 +1,16 @@
-import { VSCodeButton } from "@vscode/webview-ui-toolkit/react"
+import { VSCodeButton, VSCodeDropdown, VSCodeOption } from "@vscode/webview-ui-toolkit/react"
 import React, { memo, useEffect, useMemo, useRef, useState } from "react"
 import { useWindowSize } from "react-use"
 import { mentionRegexGlobal } from "../../../../src/shared/context-mentions"
 import { ClineMessage } from "../../../../src/shared/ExtensionMessage"
+import { ContextCompactionStrategy } from "../../../../src/shared/HistoryItem"
 import { useExtensionState } from "../../context/ExtensionStateContext"
 import { formatLargeNumber } from "../../utils/format"
 import { formatSize } from "../../utils/size"
 import { vscode } from "../../utils/vscode"
 import Thumbnails from "../common/Thumbnails"
 import { normalizeApiConfiguration } from "../settings/ApiOptions"
+import { ApiProfileSwitcher } from "../settings/ApiProfileOptions"
 
 interface TaskHeaderProps {
 	task: ClineMessage
@@ -33,7 +35,14 @@ const TaskHeader: React.FC<TaskHeaderProps> = ({
 	lastApiReqTotalTokens,
 	onClose,
 }) => {
-	const { apiConfiguration, currentTaskItem, checkpointTrackerErrorMessage } = useExtensionState()
+	const {
+		apiConfiguration,
+		apiProfileSettings,
+		budgetSettings,
+		workspaceMonthlyCost,
+		currentTaskItem,
+		checkpointTrackerErrorMessage,
+	} = useExtensionState()
 	const [isTaskExpanded, setIsTaskExpanded] = useState(true)
 	const [isTextExpanded, setIsTextExpanded] = useState(false)
 	const [showSeeMore, setShowSeeMore] = useState(false)
@@ -179,6 +188,51 @@ const TaskHeader: React.FC<TaskHeaderProps> = ({
 		</>
 	)
 
+	const createBudgetBar = (label: string, used: number, limit: number | undefined, format: (value: number) => string) =>
+		limit !== undefined && (
+			<div
+				style={{
+					display: "flex",
+					alignItems: "center",
+					gap: "4px",
+					whiteSpace: "nowrap",
+				}}>
+				<span style={{ fontWeight: "bold" }}>{label}</span>
+				<span>{format(used)}</span>
+				<div
+					style={{
+						flex: 1,
+						height: "4px",
+						backgroundColor: "color-mix(in srgb, var(--vscode-badge-foreground) 20%, transparent)",
+						borderRadius: "2px",
+						overflow: "hidden",
+					}}>
+					<div
+						style={{
+							width: `${Math.min(used / limit, 1) * 100}%`,
+							height: "100%",
+							backgroundColor: used >= limit ? "var(--vscode-errorForeground)" : "var(--vscode-badge-foreground)",
+							borderRadius: "2px",
+						}}
+					/>
+				</div>
+				<span>{format(limit)}</span>
+			</div>
+		)
+
+	const BudgetComponent = isTaskExpanded && (
+		<>
+			{createBudgetBar("Task Budget:", totalCost, budgetSettings.taskMaxCost, (cost) => `$${cost.toFixed(2)}`)}
+			{createBudgetBar("Task Tokens:", tokensIn + tokensOut, budgetSettings.taskMaxTokens, formatLargeNumber)}
+			{createBudgetBar(
+				"Monthly Budget:",
+				workspaceMonthlyCost,
+				budgetSettings.workspaceMonthlyMaxCost,
+				(cost) => `$${cost.toFixed(2)}`,
+			)}
+		</>
+	)
+
 	return (
 		<div style={{ padding: "10px 13px 10px 13px" }}>
 			<div
@@ -429,6 +483,40 @@ const TaskHeader: React.FC<TaskHeaderProps> = ({
 								</div>
 							)}
 							{ContextWindowComponent}
+							{BudgetComponent}
+							<div
+								style={{
+									display: "flex",
+									alignItems: "center",
+									gap: "4px",
+								}}
+								title="What to do with older messages when the conversation gets close to the context window limit">
+								<span style={{ fontWeight: "bold" }}>When context is full:</span>
+								<VSCodeDropdown
+									value={currentTaskItem?.contextCompactionStrategy ?? "truncate"}
+									onChange={(e: any) =>
+										vscode.postMessage({
+											type: "contextCompactionStrategy",
+											contextCompactionStrategy: e.target.value as ContextCompactionStrategy,
+										})
+									}
+									style={{ minWidth: 0, flex: 1 }}>
+									<VSCodeOption value="truncate">Drop older messages</VSCodeOption>
+									<VSCodeOption value="summarize">Summarize older messages</VSCodeOption>
+								</VSCodeDropdown>
+							</div>
+							{apiProfileSettings.profiles.length > 0 && (
+								<div
+									style={{
+										display: "flex",
+										alignItems: "center",
+										gap: "4px",
+									}}
+									title="Switch the API configuration used for the rest of this task">
+									<span style={{ fontWeight: "bold" }}>API profile:</span>
+									<ApiProfileSwitcher style={{ flex: 1 }} />
+								</div>
+							)}
 							{isCostAvailable && (
 								<div
 									style={{
@@ -1,11 +1,21 @@
-import { VSCodeButton, VSCodeTextField, VSCodeRadioGroup, VSCodeRadio } from "@vscode/webview-ui-toolkit/react"
+import {
+	VSCodeButton,
+	VSCodeTextField,
+	VSCodeRadioGroup,
+	VSCodeRadio,
+	VSCodeDropdown,
+	VSCodeOption,
+	VSCodeCheckbox,
+} from "@vscode/webview-ui-toolkit/react"
 import { useExtensionState } from "../../context/ExtensionStateContext"
 import { vscode } from "../../utils/vscode"
 import { Virtuoso } from "react-virtuoso"
-import { memo, useMemo, useState, useEffect } from "react"
-import Fuse, { FuseResult } from "fuse.js"
+import { memo, useCallback, useMemo, useState, useEffect, useRef } from "react"
+import { useEvent } from "react-use"
 import { formatLargeNumber } from "../../utils/format"
 import { formatSize } from "../../utils/size"
+import { HistoryItem, TaskSearchMatch, TaskSearchQuery, TaskSearchResult } from "../../../../src/shared/HistoryItem"
+import { ExtensionMessage } from "../../../../src/shared/ExtensionMessage"
 
 type HistoryViewProps = {
 	onDone: () => void
@@ -13,9 +23,34 @@ type HistoryViewProps = {
 
 type SortOption = "newest" | "oldest" | "mostExpensive" | "mostTokens" | "mostRelevant"
 
+type SearchFilters = {
+	dateFrom: string // yyyy-mm-dd, as entered in the date inputs
+	dateTo: string
+	modelId: string
+	minCost: string
+	maxCost: string
+	workspace: string
+	file: string
+}
+
+const EMPTY_FILTERS: SearchFilters = { dateFrom: "", dateTo: "", modelId: "", minCost: "", maxCost: "", workspace: "", file: "" }
+
+const SEARCH_DEBOUNCE_MS = 300
+
+// tasks from before workspace roots were recorded fall back to their checkpoints' work tree, which is the same folder
+const getWorkspaceRoot = (item: HistoryItem) => item.workspaceRoot ?? item.shadowGitConfigWorkTree ?? ""
+
+const getWorkspaceName = (workspaceRoot: string) => workspaceRoot.split(/[\\/]/).filter(Boolean).at(-1) ?? "Unknown workspace"
+
 const HistoryView = ({ onDone }: HistoryViewProps) => {
-	const { taskHistory } = useExtensionState()
+	const { taskHistory, workspaceRoot } = useExtensionState()
 	const [searchQuery, setSearchQuery] = useState("")
+	const [filters, setFilters] = useState<SearchFilters>(EMPTY_FILTERS)
+	const [showFilters, setShowFilters] = useState(false)
+	const [workspaceFilter, setWorkspaceFilter] = useState("")
+	const [tagFilter, setTagFilter] = useState("")
+	const [groupByWorkspace, setGroupByWorkspace] = useState(false)
+	const [searchResults, setSearchResults] = useState<TaskSearchResult[] | undefined>(undefined)
 	const [sortOption, setSortOption] = useState<SortOption>("newest")
 	const [lastNonRelevantSort, setLastNonRelevantSort] = useState<SortOption | null>("newest")
 
@@ -29,8 +64,72 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 		}
 	}, [searchQuery, sortOption, lastNonRelevantSort])
 
-	const handleHistorySelect = (id: string) => {
-		vscode.postMessage({ type: "showTaskWithId", text: id })
+	const hasFilters = Object.values(filters).some((value) => value.trim())
+
+	// the conversations are searched in the extension, which has the tasks' message files
+	const taskSearchQuery = useMemo((): TaskSearchQuery | undefined => {
+		if (!searchQuery.trim() && !hasFilters) {
+			return undefined
+		}
+		const parseNumber = (value: string) => (value.trim() && !isNaN(Number(value)) ? Number(value) : undefined)
+		const parseDate = (value: string, endOfDay: boolean) =>
+			value ? new Date(`${value}T${endOfDay ? "23:59:59.999" : "00:00:00"}`).getTime() : undefined
+		return {
+			text: searchQuery.trim(),
+			dateFrom: parseDate(filters.dateFrom, false),
+			dateTo: parseDate(filters.dateTo, true),
+			modelId: filters.modelId || undefined,
+			minCost: parseNumber(filters.minCost),
+			maxCost: parseNumber(filters.maxCost),
+			workspace: filters.workspace.trim() || undefined,
+			file: filters.file.trim() || undefined,
+		}
+	}, [searchQuery, filters, hasFilters])
+
+	const latestSearchRef = useRef<string | undefined>(undefined)
+	useEffect(() => {
+		latestSearchRef.current = taskSearchQuery && JSON.stringify(taskSearchQuery)
+		if (!taskSearchQuery) {
+			setSearchResults(undefined)
+			return
+		}
+		// taskHistory is a dependency so results are refreshed when tasks are updated or deleted
+		const timer = setTimeout(() => {
+			vscode.postMessage({ type: "searchTaskHistory", taskSearchQuery })
+		}, SEARCH_DEBOUNCE_MS)
+		return () => clearTimeout(timer)
+	}, [taskSearchQuery, taskHistory])
+
+	const handleMessage = useCallback((e: MessageEvent) => {
+		const message: ExtensionMessage = e.data
+		// results of an outdated query may arrive after those of the current one
+		if (message.type === "taskSearchResults" && JSON.stringify(message.taskSearchQuery) === latestSearchRef.current) {
+			setSearchResults(message.taskSearchResults ?? [])
+		}
+	}, [])
+	useEvent("message", handleMessage)
+
+	const modelIds = useMemo(
+		() => Array.from(new Set(taskHistory.map((item) => item.modelId).filter((id): id is string => !!id))).sort(),
+		[taskHistory],
+	)
+
+	const workspaceRoots = useMemo(() => {
+		const roots = new Set(taskHistory.map(getWorkspaceRoot).filter(Boolean))
+		if (workspaceRoot) {
+			roots.add(workspaceRoot)
+		}
+		return Array.from(roots).sort((a, b) => getWorkspaceName(a).localeCompare(getWorkspaceName(b)))
+	}, [taskHistory, workspaceRoot])
+
+	const tags = useMemo(() => Array.from(new Set(taskHistory.flatMap((item) => item.tags ?? []))).sort(), [taskHistory])
+
+	const updateFilter = (key: keyof SearchFilters, value: string) => {
+		setFilters((prev) => ({ ...prev, [key]: value }))
+	}
+
+	const handleHistorySelect = (id: string, messageTs?: number) => {
+		vscode.postMessage({ type: "showTaskWithId", text: id, number: messageTs })
 	}
 
 	const handleDeleteHistoryItem = (id: string) => {
@@ -56,22 +155,53 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 		return taskHistory.filter((item) => item.ts && item.task)
 	}, [taskHistory])
 
-	const fuse = useMemo(() => {
-		return new Fuse(presentableTasks, {
-			keys: ["task"],
-			threshold: 0.6,
-			shouldSort: true,
-			isCaseSensitive: false,
-			ignoreLocation: false,
-			includeMatches: true,
-			minMatchCharLength: 1,
-		})
+	// sub-tasks started with delegate_task are listed under their parent (if it still exists), oldest first
+	const subtasksByParentId = useMemo(() => {
+		const taskIds = new Set(presentableTasks.map((item) => item.id))
+		const subtasks = new Map<string, HistoryItem[]>()
+		for (const item of presentableTasks) {
+			if (item.parentTaskId && taskIds.has(item.parentTaskId)) {
+				subtasks.set(item.parentTaskId, [...(subtasks.get(item.parentTaskId) || []), item])
+			}
+		}
+		subtasks.forEach((items) => items.sort((a, b) => a.ts - b.ts))
+		return subtasks
 	}, [presentableTasks])
 
-	const taskHistorySearchResults = useMemo(() => {
-		let results = searchQuery ? highlight(fuse.search(searchQuery)) : presentableTasks
+	const isSubtaskOfListedTask = useCallback(
+		(item: HistoryItem) => !!item.parentTaskId && subtasksByParentId.has(item.parentTaskId),
+		[subtasksByParentId],
+	)
+
+	// how deeply a task is nested under parent tasks (a task's totalCost already includes its sub-tasks)
+	const subtaskDepths = useMemo(() => {
+		const depths = new Map<string, number>()
+		const visit = (item: HistoryItem, depth: number) => {
+			depths.set(item.id, depth)
+			subtasksByParentId.get(item.id)?.forEach((subtask) => visit(subtask, depth + 1))
+		}
+		presentableTasks.filter((item) => !isSubtaskOfListedTask(item)).forEach((item) => visit(item, 0))
+		return depths
+	}, [presentableTasks, subtasksByParentId, isSubtaskOfListedTask])
+
+	const matchesByTaskId = useMemo(
+		() => new Map<string, TaskSearchMatch[]>((searchResults ?? []).map((result) => [result.taskId, result.matches])),
+		[searchResults],
+	)
+
+	const searchTerms = useMemo(() => searchQuery.toLowerCase().split(/\s+/).filter(Boolean), [searchQuery])
+
+	const [taskHistorySearchResults, workspaceGroupStarts] = useMemo(() => {
+		const tasksById = new Map(presentableTasks.map((item) => [item.id, item]))
+		const results = searchResults
+			? searchResults.map((result) => tasksById.get(result.taskId)).filter((item): item is HistoryItem => !!item)
+			: presentableTasks
 
 		results.sort((a, b) => {
+			// pinned tasks stay on top, unless search results are sorted by relevance
+			if (!!a.pinned !== !!b.pinned && !(searchResults && sortOption === "mostRelevant")) {
+				return a.pinned ? -1 : 1
+			}
 			switch (sortOption) {
 				case "oldest":
 					return a.ts - b.ts
@@ -87,15 +217,67 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 					)
 				case "mostRelevant":
 					// NOTE: you must never sort directly on object since it will cause members to be reordered
-					return searchQuery ? 0 : b.ts - a.ts // Keep fuse order if searching, otherwise sort by newest
+					return searchResults ? 0 : b.ts - a.ts // Keep the search's order if searching, otherwise sort by newest
 				case "newest":
 				default:
 					return b.ts - a.ts
 			}
 		})
 
-		return results
-	}, [presentableTasks, searchQuery, fuse, sortOption])
+		// sub-tasks are listed under their parent, so a parent is shown if any of its sub-tasks has the tag
+		const hasTag = (item: HistoryItem, includeSubtasks: boolean): boolean =>
+			!!item.tags?.includes(tagFilter) ||
+			(includeSubtasks && !!subtasksByParentId.get(item.id)?.some((subtask) => hasTag(subtask, true)))
+		const matchesLabelFilters = (item: HistoryItem, includeSubtasks: boolean) =>
+			(!workspaceFilter || getWorkspaceRoot(item) === workspaceFilter) && (!tagFilter || hasTag(item, includeSubtasks))
+
+		// stable, with the current workspace's group first
+		const groupItems = (items: HistoryItem[]) => {
+			if (!groupByWorkspace) {
+				return items
+			}
+			const roots = Array.from(new Set([workspaceRoot ?? "", ...items.map(getWorkspaceRoot)]))
+			return roots.flatMap((root) => items.filter((item) => getWorkspaceRoot(item) === root))
+		}
+
+		// search results are listed flat, otherwise sub-tasks are listed under their parent
+		const topLevelTasks = groupItems(
+			searchResults
+				? results.filter((item) => matchesLabelFilters(item, false))
+				: results.filter((item) => !isSubtaskOfListedTask(item) && matchesLabelFilters(item, true)),
+		)
+
+		// the first task of each workspace group, to show the group's header above it
+		const groupStarts = new Map<string, string>()
+		if (groupByWorkspace) {
+			topLevelTasks.forEach((item, index) => {
+				if (index === 0 || getWorkspaceRoot(topLevelTasks[index - 1]) !== getWorkspaceRoot(item)) {
+					groupStarts.set(item.id, getWorkspaceRoot(item))
+				}
+			})
+		}
+
+		if (searchResults) {
+			return [topLevelTasks, groupStarts] as const
+		}
+		const tasksWithSubtasks: HistoryItem[] = []
+		const addWithSubtasks = (item: HistoryItem) => {
+			tasksWithSubtasks.push(item)
+			subtasksByParentId.get(item.id)?.forEach(addWithSubtasks)
+		}
+		topLevelTasks.forEach(addWithSubtasks)
+		return [tasksWithSubtasks, groupStarts] as const
+	}, [
+		presentableTasks,
+		searchResults,
+		sortOption,
+		subtasksByParentId,
+		isSubtaskOfListedTask,
+		workspaceFilter,
+		tagFilter,
+		groupByWorkspace,
+		workspaceRoot,
+	])
 
 	return (
 		<>
@@ -104,12 +286,14 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 					.history-item:hover {
 						background-color: var(--vscode-list-hoverBackground);
 					}
-					.delete-button, .export-button {
+					.delete-button, .export-button, .pin-button, .add-tag-button {
 						opacity: 0;
 						pointer-events: none;
 					}
 					.history-item:hover .delete-button,
-					.history-item:hover .export-button {
+					.history-item:hover .export-button,
+					.history-item:hover .pin-button,
+					.history-item:hover .add-tag-button {
 						opacity: 1;
 						pointer-events: auto;
 					}
@@ -117,6 +301,9 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 						background-color: var(--vscode-editor-findMatchHighlightBackground);
 						color: inherit;
 					}
+					.history-item-match:hover {
+						color: var(--vscode-foreground);
+					}
 				`}
 			</style>
 			<div
@@ -144,7 +331,15 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 						}}>
 						History
 					</h3>
-					<VSCodeButton onClick={onDone}>Done</VSCodeButton>
+					<div style={{ display: "flex", gap: "6px" }}>
+						<VSCodeButton
+							appearance="secondary"
+							title="Import a task exported as a task bundle"
+							onClick={() => vscode.postMessage({ type: "importTaskBundle" })}>
+							Import
+						</VSCodeButton>
+						<VSCodeButton onClick={onDone}>Done</VSCodeButton>
+					</div>
 				</div>
 				<div style={{ padding: "5px 17px 6px 17px" }}>
 					<div
@@ -153,41 +348,131 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 							flexDirection: "column",
 							gap: "6px",
 						}}>
-						<VSCodeTextField
-							style={{ width: "100%" }}
-							placeholder="Fuzzy search history..."
-							value={searchQuery}
-							onInput={(e) => {
-								const newValue = (e.target as HTMLInputElement)?.value
-								setSearchQuery(newValue)
-								if (newValue && !searchQuery && sortOption !== "mostRelevant") {
-									setLastNonRelevantSort(sortOption)
-									setSortOption("mostRelevant")
-								}
-							}}>
-							<div
-								slot="start"
-								className="codicon codicon-search"
-								style={{
-									fontSize: 13,
-									marginTop: 2.5,
-									opacity: 0.8,
-								}}></div>
-							{searchQuery && (
+						<div style={{ display: "flex", alignItems: "center", gap: "4px" }}>
+							<VSCodeTextField
+								style={{ flexGrow: 1 }}
+								placeholder="Search task conversations..."
+								value={searchQuery}
+								onInput={(e) => {
+									const newValue = (e.target as HTMLInputElement)?.value
+									setSearchQuery(newValue)
+									if (newValue && !searchQuery && sortOption !== "mostRelevant") {
+										setLastNonRelevantSort(sortOption)
+										setSortOption("mostRelevant")
+									}
+								}}>
 								<div
-									className="input-icon-button codicon codicon-close"
-									aria-label="Clear search"
-									onClick={() => setSearchQuery("")}
-									slot="end"
+									slot="start"
+									className="codicon codicon-search"
 									style={{
-										display: "flex",
-										justifyContent: "center",
-										alignItems: "center",
-										height: "100%",
-									}}
+										fontSize: 13,
+										marginTop: 2.5,
+										opacity: 0.8,
+									}}></div>
+								{searchQuery && (
+									<div
+										className="input-icon-button codicon codicon-close"
+										aria-label="Clear search"
+										onClick={() => setSearchQuery("")}
+										slot="end"
+										style={{
+											display: "flex",
+											justifyContent: "center",
+											alignItems: "center",
+											height: "100%",
+										}}
+									/>
+								)}
+							</VSCodeTextField>
+							<VSCodeButton
+								appearance="icon"
+								aria-label="Filters"
+								title="Filters"
+								onClick={() => setShowFilters((prev) => !prev)}>
+								<span
+									className="codicon codicon-filter"
+									style={{ color: hasFilters ? "var(--vscode-focusBorder)" : undefined }}></span>
+							</VSCodeButton>
+						</div>
+						{showFilters && (
+							<div
+								style={{
+									display: "grid",
+									gridTemplateColumns: "auto 1fr auto 1fr",
+									alignItems: "center",
+									gap: "6px",
+									fontSize: "12px",
+								}}>
+								<span>From</span>
+								<input
+									type="date"
+									style={filterInputStyle}
+									value={filters.dateFrom}
+									onChange={(e) => updateFilter("dateFrom", e.target.value)}
 								/>
-							)}
-						</VSCodeTextField>
+								<span>To</span>
+								<input
+									type="date"
+									style={filterInputStyle}
+									value={filters.dateTo}
+									onChange={(e) => updateFilter("dateTo", e.target.value)}
+								/>
+								<span>Min cost</span>
+								<input
+									type="number"
+									min={0}
+									step="any"
+									placeholder="$"
+									style={filterInputStyle}
+									value={filters.minCost}
+									onChange={(e) => updateFilter("minCost", e.target.value)}
+								/>
+								<span>Max cost</span>
+								<input
+									type="number"
+									min={0}
+									step="any"
+									placeholder="$"
+									style={filterInputStyle}
+									value={filters.maxCost}
+									onChange={(e) => updateFilter("maxCost", e.target.value)}
+								/>
+								<span>Model</span>
+								<VSCodeDropdown
+									style={{ gridColumn: "span 3", minWidth: 0 }}
+									value={filters.modelId}
+									onChange={(e) => updateFilter("modelId", (e.target as HTMLSelectElement).value)}>
+									<VSCodeOption value="">Any model</VSCodeOption>
+									{modelIds.map((modelId) => (
+										<VSCodeOption key={modelId} value={modelId}>
+											{modelId}
+										</VSCodeOption>
+									))}
+								</VSCodeDropdown>
+								<span>Workspace</span>
+								<VSCodeTextField
+									style={{ gridColumn: "span 3" }}
+									placeholder="Path contains..."
+									value={filters.workspace}
+									onInput={(e) => updateFilter("workspace", (e.target as HTMLInputElement).value)}
+								/>
+								<span>File</span>
+								<VSCodeTextField
+									style={{ gridColumn: "span 3" }}
+									placeholder="Read or edited file path contains..."
+									value={filters.file}
+									onInput={(e) => updateFilter("file", (e.target as HTMLInputElement).value)}
+								/>
+								{hasFilters && (
+									<VSCodeButton
+										appearance="secondary"
+										style={{ gridColumn: "span 4", justifySelf: "start" }}
+										onClick={() => setFilters(EMPTY_FILTERS)}>
+										Clear filters
+									</VSCodeButton>
+								)}
+							</div>
+						)}
 						<VSCodeRadioGroup
 							style={{ display: "flex", flexWrap: "wrap" }}
 							value={sortOption}
@@ -200,6 +485,38 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 								Most Relevant
 							</VSCodeRadio>
 						</VSCodeRadioGroup>
+						<div style={{ display: "flex", alignItems: "center", gap: "6px", flexWrap: "wrap" }}>
+							<VSCodeDropdown
+								style={{ minWidth: 0 }}
+								value={workspaceFilter}
+								onChange={(e) => setWorkspaceFilter((e.target as HTMLSelectElement).value)}>
+								<VSCodeOption value="">All workspaces</VSCodeOption>
+								{workspaceRoots.map((root) => (
+									<VSCodeOption key={root} value={root} title={root}>
+										{getWorkspaceName(root)}
+										{root === workspaceRoot && " (current)"}
+									</VSCodeOption>
+								))}
+							</VSCodeDropdown>
+							{tags.length > 0 && (
+								<VSCodeDropdown
+									style={{ minWidth: 0 }}
+									value={tagFilter}
+									onChange={(e) => setTagFilter((e.target as HTMLSelectElement).value)}>
+									<VSCodeOption value="">All tags</VSCodeOption>
+									{tags.map((tag) => (
+										<VSCodeOption key={tag} value={tag}>
+											{tag}
+										</VSCodeOption>
+									))}
+								</VSCodeDropdown>
+							)}
+							<VSCodeCheckbox
+								checked={groupByWorkspace}
+								onChange={(e) => setGroupByWorkspace((e.target as HTMLInputElement).checked)}>
+								Group by workspace
+							</VSCodeCheckbox>
+						</div>
 					</div>
 				</div>
 				<div style={{ flexGrow: 1, overflowY: "auto", margin: 0 }}>
@@ -235,12 +552,15 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 										index < taskHistory.length - 1 ? "1px solid var(--vscode-panel-border)" : "none",
 								}}
 								onClick={() => handleHistorySelect(item.id)}>
+								{workspaceGroupStarts.has(item.id) && (
+									<WorkspaceGroupHeader workspaceRoot={workspaceGroupStarts.get(item.id)!} />
+								)}
 								<div
 									style={{
 										display: "flex",
 										flexDirection: "column",
 										gap: "8px",
-										padding: "12px 20px",
+										padding: `12px 20px 12px ${20 + (subtaskDepths.get(item.id) || 0) * 16}px`,
 										position: "relative",
 									}}>
 									<div
@@ -256,28 +576,54 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 												fontSize: "0.85em",
 												textTransform: "uppercase",
 											}}>
+											{item.parentTaskId && (
+												<span
+													className="codicon codicon-type-hierarchy-sub"
+													title="Sub-task"
+													style={{
+														fontSize: "12px",
+														marginRight: "4px",
+														verticalAlign: "middle",
+													}}></span>
+											)}
 											{formatDate(item.ts)}
 										</span>
-										<VSCodeButton
-											appearance="icon"
-											onClick={(e) => {
-												e.stopPropagation()
-												handleDeleteHistoryItem(item.id)
-											}}
-											className="delete-button"
-											style={{ padding: "0px 0px" }}>
-											<div
-												style={{
-													display: "flex",
-													alignItems: "center",
-													gap: "3px",
-													fontSize: "11px",
-													// fontWeight: "bold",
-												}}>
-												<span className="codicon codicon-trash"></span>
-												{formatSize(item.size)}
-											</div>
-										</VSCodeButton>
+										<div style={{ display: "flex", alignItems: "center" }}>
+											<VSCodeButton
+												appearance="icon"
+												title={item.pinned ? "Unpin" : "Pin to top"}
+												onClick={(e) => {
+													e.stopPropagation()
+													vscode.postMessage({
+														type: "setTaskPinned",
+														text: item.id,
+														bool: !item.pinned,
+													})
+												}}
+												className={item.pinned ? undefined : "pin-button"}>
+												<span className={`codicon codicon-${item.pinned ? "pinned" : "pin"}`}></span>
+											</VSCodeButton>
+											<VSCodeButton
+												appearance="icon"
+												onClick={(e) => {
+													e.stopPropagation()
+													handleDeleteHistoryItem(item.id)
+												}}
+												className="delete-button"
+												style={{ padding: "0px 0px" }}>
+												<div
+													style={{
+														display: "flex",
+														alignItems: "center",
+														gap: "3px",
+														fontSize: "11px",
+														// fontWeight: "bold",
+													}}>
+													<span className="codicon codicon-trash"></span>
+													{formatSize(item.size)}
+												</div>
+											</VSCodeButton>
+										</div>
 									</div>
 									<div
 										style={{
@@ -292,9 +638,32 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 											overflowWrap: "anywhere",
 										}}
 										dangerouslySetInnerHTML={{
-											__html: item.task,
+											__html: highlightTerms(item.task, searchTerms),
 										}}
 									/>
+									<TaskTags item={item} onSelectTag={setTagFilter} />
+									{matchesByTaskId.get(item.id)?.map((match) => (
+										<div
+											key={match.ts}
+											className="history-item-match"
+											title="Open the task at this message"
+											onClick={(e) => {
+												e.stopPropagation()
+												handleHistorySelect(item.id, match.ts)
+											}}
+											style={{
+												fontSize: "12px",
+												color: "var(--vscode-descriptionForeground)",
+												borderLeft: "2px solid var(--vscode-panel-border)",
+												padding: "2px 6px",
+												wordBreak: "break-word",
+												overflowWrap: "anywhere",
+											}}
+											dangerouslySetInnerHTML={{
+												__html: highlightTerms(match.snippet, searchTerms),
+											}}
+										/>
+									))}
 									<div
 										style={{
 											display: "flex",
@@ -436,6 +805,7 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 															color: "var(--vscode-descriptionForeground)",
 														}}>
 														${item.totalCost?.toFixed(4)}
+														{subtasksByParentId.has(item.id) && " (incl. sub-tasks)"}
 													</span>
 												</div>
 												<ExportButton itemId={item.id} />
@@ -452,6 +822,102 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 	)
 }
 
+const WorkspaceGroupHeader = ({ workspaceRoot }: { workspaceRoot: string }) => (
+	<div
+		title={workspaceRoot}
+		onClick={(e) => e.stopPropagation()}
+		style={{
+			display: "flex",
+			alignItems: "center",
+			gap: "4px",
+			padding: "10px 20px 4px 20px",
+			cursor: "default",
+			fontSize: "11px",
+			fontWeight: "bold",
+			textTransform: "uppercase",
+			color: "var(--vscode-descriptionForeground)",
+			background: "var(--vscode-sideBar-background)",
+		}}>
+		<span className="codicon codicon-folder" style={{ fontSize: "12px" }}></span>
+		{workspaceRoot ? getWorkspaceName(workspaceRoot) : "Unknown workspace"}
+	</div>
+)
+
+const TaskTags = ({ item, onSelectTag }: { item: HistoryItem; onSelectTag: (tag: string) => void }) => {
+	const [isAdding, setIsAdding] = useState(false)
+	const [newTags, setNewTags] = useState("")
+	const tags = item.tags ?? []
+
+	const setTags = (tags: string[]) => {
+		vscode.postMessage({ type: "setTaskTags", text: item.id, tags })
+	}
+
+	const addNewTags = () => {
+		if (newTags.trim()) {
+			setTags([...tags, ...newTags.split(",")])
+		}
+		setNewTags("")
+		setIsAdding(false)
+	}
+
+	return (
+		<div style={{ display: "flex", alignItems: "center", gap: "4px", flexWrap: "wrap" }} onClick={(e) => e.stopPropagation()}>
+			{tags.map((tag) => (
+				<span
+					key={tag}
+					title="Show tasks with this tag"
+					onClick={() => onSelectTag(tag)}
+					style={{
+						display: "flex",
+						alignItems: "center",
+						gap: "2px",
+						padding: "1px 2px 1px 6px",
+						borderRadius: "10px",
+						fontSize: "11px",
+						color: "var(--vscode-badge-foreground)",
+						backgroundColor: "var(--vscode-badge-background)",
+					}}>
+					{tag}
+					<span
+						className="codicon codicon-close"
+						title="Remove tag"
+						style={{ fontSize: "11px" }}
+						onClick={(e) => {
+							e.stopPropagation()
+							setTags(tags.filter((t) => t !== tag))
+						}}></span>
+				</span>
+			))}
+			{isAdding ? (
+				<VSCodeTextField
+					style={{ fontSize: "11px" }}
+					placeholder="Tags, comma separated"
+					value={newTags}
+					autofocus
+					onInput={(e) => setNewTags((e.target as HTMLInputElement).value)}
+					onBlur={addNewTags}
+					onKeyDown={(e) => {
+						if (e.key === "Enter") {
+							addNewTags()
+						} else if (e.key === "Escape") {
+							setNewTags("")
+							setIsAdding(false)
+						}
+					}}
+				/>
+			) : (
+				<VSCodeButton
+					appearance="icon"
+					className={tags.length > 0 ? undefined : "add-tag-button"}
+					title="Add tags"
+					onClick={() => setIsAdding(true)}>
+					<span className="codicon codicon-tag"></span>
+				</VSCodeButton>
+			)}
+		</div>
+	)
+}
+
 const ExportButton = ({ itemId }: { itemId: string }) => (
 	<VSCodeButton
 		className="export-button"
@@ -464,89 +930,30 @@ const ExportButton = ({ itemId }: { itemId: string }) => (
 	</VSCodeButton>
 )
 
-// https://gist.github.com/evenfrost/1ba123656ded32fb7a0cd4651efd4db0
-export const highlight = (fuseSearchResult: FuseResult<any>[], highlightClassName: string = "history-item-highlight") => {
-	const set = (obj: Record<string, any>, path: string, value: any) => {
-		const pathValue = path.split(".")
-		let i: number
-
-		for (i = 0; i < pathValue.length - 1; i++) {
-			obj = obj[pathValue[i]] as Record<string, any>
-		}
-
-		obj[pathValue[i]] = value
-	}
-
-	// Function to merge overlapping regions
-	const mergeRegions = (regions: [number, number][]): [number, number][] => {
-		if (regions.length === 0) return regions
-
-		// Sort regions by start index
-		regions.sort((a, b) => a[0] - b[0])
-
-		const merged: [number, number][] = [regions[0]]
-
-		for (let i = 1; i < regions.length; i++) {
-			const last = merged[merged.length - 1]
-			const current = regions[i]
-
-			if (current[0] <= last[1] + 1) {
-				// Overlapping or adjacent regions
-				last[1] = Math.max(last[1], current[1])
-			} else {
-				merged.push(current)
-			}
-		}
-
-		return merged
-	}
-
-	const generateHighlightedText = (inputText: string, regions: [number, number][] = []) => {
-		if (regions.length === 0) {
-			return inputText
-		}
-
-		// Sort and merge overlapping regions
-		const mergedRegions = mergeRegions(regions)
-
-		let content = ""
-		let nextUnhighlightedRegionStartingIndex = 0
-
-		mergedRegions.forEach((region) => {
-			const start = region[0]
-			const end = region[1]
-			const lastRegionNextIndex = end + 1
-
-			content += [
-				inputText.substring(nextUnhighlightedRegionStartingIndex, start),
-				`<span class="${highlightClassName}">`,
-				inputText.substring(start, lastRegionNextIndex),
-				"</span>",
-			].join("")
-
-			nextUnhighlightedRegionStartingIndex = lastRegionNextIndex
-		})
+const filterInputStyle: React.CSSProperties = {
+	minWidth: 0,
+	padding: "3px 4px",
+	fontFamily: "inherit",
+	fontSize: "inherit",
+	color: "var(--vscode-input-foreground)",
+	background: "var(--vscode-input-background)",
+	border: "1px solid var(--vscode-input-border, transparent)",
+	borderRadius: "2px",
+}
 
-		content += inputText.substring(nextUnhighlightedRegionStartingIndex)
+const escapeHtml = (text: string) =>
+	text.replace(/[&<>"']/g, (char) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[char]!)
 
-		return content
+// escapes the text as HTML and wraps each occurrence of the search terms in a highlight span
+export const highlightTerms = (text: string, terms: string[], highlightClassName: string = "history-item-highlight") => {
+	if (terms.length === 0) {
+		return escapeHtml(text)
 	}
-
-	return fuseSearchResult
-		.filter(({ matches }) => matches && matches.length)
-		.map(({ item, matches }) => {
-			const highlightedItem = { ...item }
-
-			matches?.forEach((match) => {
-				if (match.key && typeof match.value === "string" && match.indices) {
-					// Merge overlapping regions before generating highlighted text
-					const mergedIndices = mergeRegions([...match.indices])
-					set(highlightedItem, match.key, generateHighlightedText(match.value, mergedIndices))
-				}
-			})
-
-			return highlightedItem
-		})
+	const pattern = new RegExp(`(${terms.map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|")})`, "gi")
+	return text
+		.split(pattern)
+		.map((part, i) => (i % 2 === 1 ? `<span class="${highlightClassName}">${escapeHtml(part)}</span>` : escapeHtml(part)))
+		.join("")
 }
 
 export default memo(HistoryView)
@@ -0,0 +1,63 @@
+import { McpPrompt } from "../../../../src/shared/mcp"
+
+type McpPromptRowProps = {
+	prompt: McpPrompt
+	serverName: string
+}
+
+const McpPromptRow = ({ prompt, serverName }: McpPromptRowProps) => {
+	return (
+		<div
+			key={prompt.name}
+			style={{
+				padding: "3px 0",
+			}}>
+			<div
+				style={{
+					display: "flex",
+					alignItems: "center",
+					marginBottom: "4px",
+				}}>
+				<span className="codicon codicon-comment-discussion" style={{ marginRight: "6px" }} />
+				<span style={{ fontWeight: 500, wordBreak: "break-all" }}>
+					/{serverName}:{prompt.name}
+				</span>
+			</div>
+			{prompt.description && (
+				<div
+					style={{
+						fontSize: "12px",
+						opacity: 0.8,
+						margin: "4px 0",
+					}}>
+					{prompt.description}
+				</div>
+			)}
+			{prompt.arguments && prompt.arguments.length > 0 && (
+				<div
+					style={{
+						fontSize: "12px",
+					}}>
+					<span style={{ opacity: 0.8 }}>Arguments </span>
+					{prompt.arguments.map((argument) => (
+						<code
+							key={argument.name}
+							title={argument.description}
+							style={{
+								color: "var(--vscode-textPreformat-foreground)",
+								background: "var(--vscode-textPreformat-background)",
+								padding: "1px 4px",
+								borderRadius: "3px",
+								marginRight: "4px",
+							}}>
+							{argument.name}
+							{argument.required ? "" : "?"}
+						</code>
+					))}
+				</div>
+			)}
+		</div>
+	)
+}
+
+export default McpPromptRow
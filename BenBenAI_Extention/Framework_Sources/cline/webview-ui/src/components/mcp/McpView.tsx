@@ -15,6 +15,7 @@ import { getMcpServerDisplayName } from "../../utils/mcp"
 import { vscode } from "../../utils/vscode"
 import DangerButton from "../common/DangerButton"
 import McpMarketplaceView from "./marketplace/McpMarketplaceView"
+import McpPromptRow from "./McpPromptRow"
 import McpResourceRow from "./McpResourceRow"
 import McpToolRow from "./McpToolRow"
 
@@ -290,6 +291,13 @@ const ServerRow = ({ server }: { server: McpServer }) => {
 						marginRight: "4px",
 					}}>
 					{getMcpServerDisplayName(server.name, mcpMarketplaceCatalog)}
+					{server.url && (
+						<span
+							className="codicon codicon-globe"
+							title={server.url}
+							style={{ marginLeft: "6px", fontSize: "12px", opacity: 0.7 }}
+						/>
+					)}
 				</span>
 				<div style={{ display: "flex", alignItems: "center", marginRight: "8px" }} onClick={(e) => e.stopPropagation()}>
 					<div
@@ -369,6 +377,7 @@ const ServerRow = ({ server }: { server: McpServer }) => {
 						}}>
 						{server.error}
 					</div>
+					{server.url && <SecretHeaders server={server} style={{ margin: "0 10px 10px 10px" }} />}
 					<VSCodeButton
 						appearance="secondary"
 						onClick={handleRestart}
@@ -394,6 +403,7 @@ const ServerRow = ({ server }: { server: McpServer }) => {
 							<VSCodePanelTab id="resources">
 								Resources ({[...(server.resourceTemplates || []), ...(server.resources || [])].length || 0})
 							</VSCodePanelTab>
+							<VSCodePanelTab id="prompts">Prompts ({server.prompts?.length || 0})</VSCodePanelTab>
 
 							<VSCodePanelView id="tools-view">
 								{server.tools && server.tools.length > 0 ? (
@@ -446,8 +456,37 @@ const ServerRow = ({ server }: { server: McpServer }) => {
 									</div>
 								)}
 							</VSCodePanelView>
+
+							<VSCodePanelView id="prompts-view">
+								{server.prompts && server.prompts.length > 0 ? (
+									<div
+										style={{
+											display: "flex",
+											flexDirection: "column",
+											gap: "8px",
+											width: "100%",
+										}}>
+										{server.prompts.map((prompt) => (
+											<McpPromptRow key={prompt.name} prompt={prompt} serverName={server.name} />
+										))}
+										<div style={{ fontSize: "12px", color: "var(--vscode-descriptionForeground)" }}>
+											Type / at the start of a message to insert a prompt.
+										</div>
+									</div>
+								) : (
+									<div
+										style={{
+											padding: "10px 0",
+											color: "var(--vscode-descriptionForeground)",
+										}}>
+										No prompts found
+									</div>
+								)}
+							</VSCodePanelView>
 						</VSCodePanels>
 
+						{server.url && <SecretHeaders server={server} style={{ margin: "10px 7px" }} />}
+
 						<div style={{ margin: "10px 7px" }}>
 							<label style={{ display: "block", marginBottom: "4px", fontSize: "13px" }}>Request Timeout</label>
 							<VSCodeDropdown style={{ width: "100%" }} value={timeoutValue} onChange={handleTimeoutChange}>
@@ -485,4 +524,39 @@ const ServerRow = ({ server }: { server: McpServer }) => {
 	)
 }
 
+// Headers sent to a remote server that are kept in secret storage, e.g. Authorization with a token. Their values are
+// entered in VS Code's input box and never sent to the webview.
+const SecretHeaders = ({ server, style }: { server: McpServer; style?: React.CSSProperties }) => {
+	return (
+		<div style={style}>
+			<label style={{ display: "block", marginBottom: "4px", fontSize: "13px" }}>Secret Headers</label>
+			{server.secretHeaders && server.secretHeaders.length > 0 ? (
+				server.secretHeaders.map((header) => (
+					<div key={header} style={{ display: "flex", alignItems: "center", marginBottom: "4px" }}>
+						<code style={{ flex: 1, overflow: "hidden", textOverflow: "ellipsis" }}>{header}: ••••••••</code>
+						<VSCodeButton
+							appearance="icon"
+							title={`Remove ${header}`}
+							onClick={() =>
+								vscode.postMessage({ type: "deleteMcpServerSecretHeader", serverName: server.name, text: header })
+							}>
+							<span className="codicon codicon-trash" />
+						</VSCodeButton>
+					</div>
+				))
+			) : (
+				<div style={{ color: "var(--vscode-descriptionForeground)", fontSize: "12px", marginBottom: "4px" }}>
+					Add an Authorization header or API key here rather than in the MCP settings file.
+				</div>
+			)}
+			<VSCodeButton
+				appearance="secondary"
+				style={{ width: "100%" }}
+				onClick={() => vscode.postMessage({ type: "setMcpServerSecretHeader", serverName: server.name })}>
+				Add Secret Header
+			</VSCodeButton>
+		</div>
+	)
+}
+
 export default McpView
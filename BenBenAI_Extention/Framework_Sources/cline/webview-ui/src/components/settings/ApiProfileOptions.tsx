@@ -0,0 +1,166 @@
+import { VSCodeButton, VSCodeDropdown, VSCodeOption } from "@vscode/webview-ui-toolkit/react"
+import { memo } from "react"
+import { ChatSettings } from "../../../../src/shared/ChatSettings"
+import { useExtensionState } from "../../context/ExtensionStateContext"
+import { vscode } from "../../utils/vscode"
+
+// Value for the option shown when the active configuration isn't saved as a profile
+const UNSAVED_PROFILE_VALUE = ""
+
+/**
+ * Dropdown for switching the active API configuration to a saved profile. Used in settings and as a quick switcher in the
+ * task header.
+ */
+export const ApiProfileSwitcher = memo(({ id, style }: { id?: string; style?: React.CSSProperties }) => {
+	const { apiProfileSettings } = useExtensionState()
+	const { profiles, currentProfileId } = apiProfileSettings
+
+	return (
+		<VSCodeDropdown
+			id={id}
+			// VSCodeDropdown doesn't select dynamically rendered options (see ApiOptions), so re-create it when they change
+			key={`${profiles.map((profile) => profile.id).join(",")}-${currentProfileId}`}
+			value={currentProfileId ?? UNSAVED_PROFILE_VALUE}
+			onChange={(e: any) => {
+				const profileId = e.target.value
+				if (profileId && profileId !== currentProfileId) {
+					vscode.postMessage({ type: "switchApiProfile", text: profileId })
+				}
+			}}
+			style={{ minWidth: 0, ...style }}>
+			{!currentProfileId && <VSCodeOption value={UNSAVED_PROFILE_VALUE}>Unsaved configuration</VSCodeOption>}
+			{profiles.map((profile) => (
+				<VSCodeOption key={profile.id} value={profile.id}>
+					{profile.name}
+				</VSCodeOption>
+			))}
+		</VSCodeDropdown>
+	)
+})
+
+const ApiProfileOptions = () => {
+	const { apiConfiguration, apiProfileSettings } = useExtensionState()
+	const { profiles, currentProfileId, modeProfileIds, fallbackProfileIds } = apiProfileSettings
+	const fallbackProfiles = fallbackProfileIds.flatMap((id) => profiles.filter((profile) => profile.id === id))
+
+	const updateFallbackProfiles = (ids: string[]) => vscode.postMessage({ type: "updateApiFallbackProfiles", profileIds: ids })
+
+	const createModeDropdown = (mode: ChatSettings["mode"]) => (
+		<div style={{ flex: 1, minWidth: 0 }}>
+			<label htmlFor={`${mode}-mode-profile`}>
+				<span style={{ fontWeight: 500 }}>{mode === "plan" ? "Plan" : "Act"} mode</span>
+			</label>
+			<VSCodeDropdown
+				id={`${mode}-mode-profile`}
+				key={`${profiles.map((profile) => profile.id).join(",")}-${modeProfileIds[mode]}`}
+				value={modeProfileIds[mode] ?? ""}
+				onChange={(e: any) =>
+					vscode.postMessage({ type: "bindApiProfileToMode", chatSettings: { mode }, text: e.target.value })
+				}
+				style={{ width: "100%" }}>
+				<VSCodeOption value="">No profile</VSCodeOption>
+				{profiles.map((profile) => (
+					<VSCodeOption key={profile.id} value={profile.id}>
+						{profile.name}
+					</VSCodeOption>
+				))}
+			</VSCodeDropdown>
+		</div>
+	)
+
+	return (
+		<div style={{ display: "flex", flexDirection: "column", gap: 5 }}>
+			<label htmlFor="api-profile">
+				<span style={{ fontWeight: 500 }}>API Profile</span>
+			</label>
+			<div style={{ display: "flex", gap: 5, alignItems: "center" }}>
+				<ApiProfileSwitcher id="api-profile" style={{ flex: 1 }} />
+				<VSCodeButton
+					appearance="icon"
+					title="Save the configuration below as a profile"
+					onClick={() => vscode.postMessage({ type: "saveApiProfile", apiConfiguration })}>
+					<span className="codicon codicon-save"></span>
+				</VSCodeButton>
+				<VSCodeButton
+					appearance="icon"
+					title="Delete profile"
+					disabled={!currentProfileId}
+					onClick={() => vscode.postMessage({ type: "deleteApiProfile", text: currentProfileId })}>
+					<span className="codicon codicon-trash"></span>
+				</VSCodeButton>
+			</div>
+			{profiles.length > 0 && (
+				<div style={{ display: "flex", gap: 10 }}>{(["plan", "act"] as const).map(createModeDropdown)}</div>
+			)}
+			{profiles.length > 0 && (
+				<div>
+					<label htmlFor="fallback-profile">
+						<span style={{ fontWeight: 500 }}>Fallback profiles</span>
+					</label>
+					{fallbackProfiles.map((profile, index) => (
+						<div key={profile.id} style={{ display: "flex", alignItems: "center", gap: 5 }}>
+							<span style={{ flex: 1, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+								{index + 1}. {profile.name}
+							</span>
+							<VSCodeButton
+								appearance="icon"
+								title="Move up"
+								disabled={index === 0}
+								onClick={() => {
+									const ids = fallbackProfiles.map((profile) => profile.id)
+									;[ids[index - 1], ids[index]] = [ids[index], ids[index - 1]]
+									updateFallbackProfiles(ids)
+								}}>
+								<span className="codicon codicon-arrow-up"></span>
+							</VSCodeButton>
+							<VSCodeButton
+								appearance="icon"
+								title="Remove fallback"
+								onClick={() =>
+									updateFallbackProfiles(
+										fallbackProfiles
+											.filter((fallback) => fallback.id !== profile.id)
+											.map((fallback) => fallback.id),
+									)
+								}>
+								<span className="codicon codicon-close"></span>
+							</VSCodeButton>
+						</div>
+					))}
+					<VSCodeDropdown
+						id="fallback-profile"
+						key={fallbackProfileIds.join(",")}
+						value=""
+						onChange={(e: any) => {
+							if (e.target.value) {
+								updateFallbackProfiles([...fallbackProfiles.map((profile) => profile.id), e.target.value])
+							}
+						}}
+						style={{ width: "100%", marginTop: 5 }}>
+						<VSCodeOption value="">Add a fallback profile...</VSCodeOption>
+						{profiles
+							.filter((profile) => !fallbackProfileIds.includes(profile.id))
+							.map((profile) => (
+								<VSCodeOption key={profile.id} value={profile.id}>
+									{profile.name}
+								</VSCodeOption>
+							))}
+					</VSCodeDropdown>
+				</div>
+			)}
+			<p
+				style={{
+					fontSize: "12px",
+					marginTop: 0,
+					color: "var(--vscode-descriptionForeground)",
+				}}>
+				Save provider configurations as named profiles to switch between them quickly. Changes below are saved to the
+				selected profile. Profiles assigned to Plan or Act mode are switched to automatically when you toggle modes. When
+				a request fails because the provider is rate limited, overloaded or the context window is exceeded, it's retried
+				with the fallback profiles in order.
+			</p>
+		</div>
+	)
+}
+
+export default memo(ApiProfileOptions)
@@ -0,0 +1,50 @@
+import { VSCodeTextField } from "@vscode/webview-ui-toolkit/react"
+import { memo } from "react"
+import { BudgetLimit } from "../../../../src/shared/BudgetSettings"
+import { useExtensionState } from "../../context/ExtensionStateContext"
+import { vscode } from "../../utils/vscode"
+
+const BudgetOptions = () => {
+	const { budgetSettings, workspaceMonthlyCost } = useExtensionState()
+
+	const createLimitField = (limit: BudgetLimit, label: string) => (
+		<VSCodeTextField
+			// re-created when the setting changes, since an invalid input is reverted to the saved value
+			key={`${limit}-${budgetSettings[limit]}`}
+			value={budgetSettings[limit]?.toString() ?? ""}
+			placeholder="No limit"
+			onChange={(e: any) => {
+				const input = e.target.value.trim()
+				const value = input ? Number(input) : undefined
+				if (value === undefined || (!isNaN(value) && value > 0)) {
+					vscode.postMessage({ type: "budgetSettings", budgetSettings: { ...budgetSettings, [limit]: value } })
+				} else {
+					e.target.value = budgetSettings[limit]?.toString() ?? ""
+				}
+			}}
+			style={{ flex: 1, minWidth: 0 }}>
+			<span style={{ fontWeight: 500 }}>{label}</span>
+		</VSCodeTextField>
+	)
+
+	return (
+		<div style={{ display: "flex", flexDirection: "column", gap: 5 }}>
+			<div style={{ display: "flex", gap: 10 }}>
+				{createLimitField("taskMaxCost", "Task budget ($)")}
+				{createLimitField("taskMaxTokens", "Task tokens")}
+			</div>
+			{createLimitField("workspaceMonthlyMaxCost", "Monthly workspace budget ($)")}
+			<p
+				style={{
+					fontSize: "12px",
+					marginTop: 0,
+					color: "var(--vscode-descriptionForeground)",
+				}}>
+				Cline pauses and asks before making a request that would go over budget. ${workspaceMonthlyCost.toFixed(2)} has
+				been spent in this workspace this month.
+			</p>
+		</div>
+	)
+}
+
+export default memo(BudgetOptions)
@@ -5,6 +5,8 @@ import { validateApiConfiguration, validateModelId } from "../../utils/validate"
 import { vscode } from "../../utils/vscode"
 import SettingsButton from "../common/SettingsButton"
 import ApiOptions from "./ApiOptions"
+import ApiProfileOptions from "./ApiProfileOptions"
+import BudgetOptions from "./BudgetOptions"
 const { IS_DEV } = process.env
 
 type SettingsViewProps = {
@@ -98,6 +100,10 @@ const SettingsView = ({ onDone }: SettingsViewProps) => {
 					display: "flex",
 					flexDirection: "column",
 				}}>
+				<div style={{ marginBottom: 10 }}>
+					<ApiProfileOptions />
+				</div>
+
 				<div style={{ marginBottom: 5 }}>
 					<ApiOptions
 						showModelOptions={true}
@@ -126,6 +132,10 @@ const SettingsView = ({ onDone }: SettingsViewProps) => {
 					</p>
 				</div>
 
+				<div style={{ marginBottom: 10 }}>
+					<BudgetOptions />
+				</div>
+
 				<div style={{ marginBottom: 5 }}>
 					<VSCodeCheckbox
 						style={{ marginBottom: "5px" }}
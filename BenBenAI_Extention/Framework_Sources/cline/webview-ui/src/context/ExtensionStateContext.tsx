@@ -1,6 +1,8 @@
 import React, { createContext, useCallback, useContext, useEffect, useState } from "react"
 import { useEvent } from "react-use"
+import { DEFAULT_API_PROFILE_SETTINGS } from "../../../src/shared/ApiProfileSettings"
 import { DEFAULT_AUTO_APPROVAL_SETTINGS } from "../../../src/shared/AutoApprovalSettings"
+import { DEFAULT_BUDGET_SETTINGS } from "../../../src/shared/BudgetSettings"
 import { ExtensionMessage, ExtensionState, DEFAULT_PLATFORM } from "../../../src/shared/ExtensionMessage"
 import { ApiConfiguration, ModelInfo, openRouterDefaultModelId, openRouterDefaultModelInfo } from "../../../src/shared/api"
 import { findLastIndex } from "../../../src/shared/array"
@@ -33,10 +35,13 @@ export const ExtensionStateContextProvider: React.FC<{
 }> = ({ children }) => {
 	const [state, setState] = useState<ExtensionState>({
 		version: "",
+		apiProfileSettings: DEFAULT_API_PROFILE_SETTINGS,
 		clineMessages: [],
 		taskHistory: [],
 		shouldShowAnnouncement: false,
 		autoApprovalSettings: DEFAULT_AUTO_APPROVAL_SETTINGS,
+		budgetSettings: DEFAULT_BUDGET_SETTINGS,
+		workspaceMonthlyCost: 0,
 		browserSettings: DEFAULT_BROWSER_SETTINGS,
 		chatSettings: DEFAULT_CHAT_SETTINGS,
 		isLoggedIn: false,
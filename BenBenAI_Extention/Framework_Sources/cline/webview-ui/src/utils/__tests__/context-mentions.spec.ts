@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest"
+import { mentionRegexGlobal } from "../../../../src/shared/context-mentions"
+import { ContextMenuOptionType, ContextMenuQueryItem, getContextMenuOptions, getSymbolSearchQuery } from "../context-mentions"
+
+const queryItems: ContextMenuQueryItem[] = [
+	{ type: ContextMenuOptionType.File, value: "/src/symbols.ts" },
+	{ type: ContextMenuOptionType.Symbol, value: "symbol:parseMentions", label: "parseMentions" },
+]
+
+describe("symbol mentions", () => {
+	it("should match symbol mentions followed by punctuation", () => {
+		const text = "Why does @symbol:parseMentions, unlike @/src/index.ts, fail?"
+		expect(Array.from(text.matchAll(mentionRegexGlobal), (match) => match[1])).toEqual([
+			"symbol:parseMentions",
+			"/src/index.ts",
+		])
+	})
+
+	it("should only list symbols while searching them", () => {
+		expect(getContextMenuOptions("symbol:parse", null, queryItems)).toEqual([queryItems[1]])
+		expect(getContextMenuOptions("", ContextMenuOptionType.Symbol, [])).toEqual([{ type: ContextMenuOptionType.NoResults }])
+	})
+
+	it("should offer the symbol search for a matching query", () => {
+		expect(getContextMenuOptions("sym", null, queryItems)).toContainEqual({ type: ContextMenuOptionType.Symbol })
+	})
+
+	it("should get the query typed after @symbol: or after picking Symbols", () => {
+		expect(getSymbolSearchQuery("symbol:Cline", null)).toBe("Cline")
+		expect(getSymbolSearchQuery("Cline", ContextMenuOptionType.Symbol)).toBe("Cline")
+		expect(getSymbolSearchQuery("Cline", null)).toBeUndefined()
+	})
+})
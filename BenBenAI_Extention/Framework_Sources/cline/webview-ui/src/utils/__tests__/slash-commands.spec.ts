@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest"
+import { McpServer } from "../../../../src/shared/mcp"
+import { getSlashCommandOptions, getSlashCommands, shouldShowSlashCommandMenu } from "../slash-commands"
+
+const servers: McpServer[] = [
+	{
+		name: "github",
+		config: "{}",
+		status: "connected",
+		prompts: [{ name: "review-pr", description: "Review a pull request" }, { name: "triage" }],
+	},
+	{ name: "offline", config: "{}", status: "disconnected", prompts: [{ name: "review" }] },
+]
+
+describe("getSlashCommands", () => {
+	it("should list the prompts of connected servers", () => {
+		expect(getSlashCommands(servers)).toEqual([
+			{ serverName: "github", promptName: "review-pr", description: "Review a pull request" },
+			{ serverName: "github", promptName: "triage", description: undefined },
+		])
+	})
+})
+
+describe("getSlashCommandOptions", () => {
+	it("should fuzzy match the server and prompt name", () => {
+		const options = getSlashCommandOptions("ghrev", getSlashCommands(servers))
+		expect(options.map((option) => option.promptName)).toEqual(["review-pr"])
+	})
+})
+
+describe("shouldShowSlashCommandMenu", () => {
+	it("should only show the menu for a slash at the start of the message", () => {
+		expect(shouldShowSlashCommandMenu("/git", 4)).toBe(true)
+		expect(shouldShowSlashCommandMenu("/github:review-pr more", 22)).toBe(false)
+		expect(shouldShowSlashCommandMenu("see /git", 8)).toBe(false)
+	})
+})
@@ -50,6 +50,7 @@ export enum ContextMenuOptionType {
 	Terminal = "terminal",
 	URL = "url",
 	Git = "git",
+	Symbol = "symbol",
 	NoResults = "noResults",
 }
 
@@ -72,6 +73,12 @@ export function getContextMenuOptions(
 		description: "Current uncommitted changes",
 	}
 
+	// symbols are searched by the extension as the query changes, so the results are shown as they are
+	if (selectedType === ContextMenuOptionType.Symbol || query.startsWith("symbol:")) {
+		const symbols = queryItems.filter((item) => item.type === ContextMenuOptionType.Symbol)
+		return symbols.length > 0 ? symbols : [{ type: ContextMenuOptionType.NoResults }]
+	}
+
 	if (query === "") {
 		if (selectedType === ContextMenuOptionType.File) {
 			const files = queryItems
@@ -105,6 +112,7 @@ export function getContextMenuOptions(
 			{ type: ContextMenuOptionType.Git },
 			{ type: ContextMenuOptionType.Folder },
 			{ type: ContextMenuOptionType.File },
+			{ type: ContextMenuOptionType.Symbol },
 		]
 	}
 
@@ -121,6 +129,9 @@ export function getContextMenuOptions(
 	} else if ("git-changes".startsWith(lowerQuery)) {
 		suggestions.push(workingChanges)
 	}
+	if ("symbol".startsWith(lowerQuery)) {
+		suggestions.push({ type: ContextMenuOptionType.Symbol })
+	}
 	if ("problems".startsWith(lowerQuery)) {
 		suggestions.push({ type: ContextMenuOptionType.Problems })
 	}
@@ -193,6 +204,14 @@ export function getContextMenuOptions(
 	return [{ type: ContextMenuOptionType.NoResults }]
 }
 
+// the query typed after "@symbol:", or after "@" once "Symbols" was picked in the menu
+export function getSymbolSearchQuery(query: string, selectedType: ContextMenuOptionType | null): string | undefined {
+	if (selectedType === ContextMenuOptionType.Symbol) {
+		return query
+	}
+	return query.startsWith("symbol:") ? query.slice("symbol:".length) : undefined
+}
+
 export function shouldShowContextMenu(text: string, position: number): boolean {
 	const beforeCursor = text.slice(0, position)
 	const atIndex = beforeCursor.lastIndexOf("@")
@@ -0,0 +1,38 @@
+import { Fzf } from "fzf"
+import { McpServer } from "../../../src/shared/mcp"
+
+// MCP servers' prompts are offered as slash commands (/server:prompt) at the start of the chat input
+export interface SlashCommand {
+	serverName: string
+	promptName: string
+	description?: string
+}
+
+export function getSlashCommandName(command: SlashCommand): string {
+	return `${command.serverName}:${command.promptName}`
+}
+
+export function getSlashCommands(servers: McpServer[]): SlashCommand[] {
+	return servers
+		.filter((server) => server.status === "connected" && !server.disabled)
+		.flatMap((server) =>
+			(server.prompts ?? []).map((prompt) => ({
+				serverName: server.name,
+				promptName: prompt.name,
+				description: prompt.description,
+			})),
+		)
+}
+
+export function getSlashCommandOptions(query: string, commands: SlashCommand[]): SlashCommand[] {
+	if (!query) {
+		return commands
+	}
+	const fzf = new Fzf(commands, { selector: getSlashCommandName })
+	return fzf.find(query).map((result) => result.item)
+}
+
+export function shouldShowSlashCommandMenu(text: string, position: number): boolean {
+	// only a slash at the very start of the message, followed by the command being typed
+	return /^\/\S*$/.test(text.slice(0, position))
+}